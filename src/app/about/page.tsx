@@ -7,8 +7,16 @@ import { Book, Heart, Users, Globe, Github } from "lucide-react";
 import { Layout } from "@/components/layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { getCorpusStats } from "@/lib/bible-data";
+import { ALL_BIBLE_BOOKS } from "@/constants/bible";
+import { formatNumber } from "@/utils";
+
+// Recompute the figures hourly, in step with the corpus statistics cache
+export const revalidate = 3600;
+
+export default async function AboutPage() {
+  const stats = await getCorpusStats(0);
 
-export default function AboutPage() {
   return (
     <Layout>
       <div className="space-y-12 max-w-4xl mx-auto">
@@ -54,14 +62,25 @@ export default function AboutPage() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Book className="h-6 w-6 text-blue-500" />
-                Boky 66 feno
+                Boky {ALL_BIBLE_BOOKS.length} feno
               </CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-2">
               <p className="text-muted-foreground">
                 Ny Testameta Taloha sy ny Testameta Vaovao feno, 
                 miaraka amin'ny fikarohana mahery sy ny navigation mora.
               </p>
+              <p className="text-muted-foreground">
+                {stats.failedBooks.length === 0 && (
+                  <>
+                    Toko {formatNumber(stats.totalChapters)}, andininy {formatNumber(stats.totalVerses)} ary
+                    teny {formatNumber(stats.totalWords)}.{" "}
+                  </>
+                )}
+                <Link href="/stats" className="text-primary hover:underline">
+                  Jereo ny antontan&apos;isa
+                </Link>
+              </p>
             </CardContent>
           </Card>
 
@@ -173,6 +192,24 @@ export default function AboutPage() {
                     </Link>
                   </Button>
                 </div>
+                <div>
+                  <h4 className="font-semibold text-foreground">Andininy mifandraika</h4>
+                  <p className="text-sm text-muted-foreground mb-2">
+                    Ny andininy mifandraika dia avy amin&apos;ny angon-drakitra cross-references an&apos;ny
+                    OpenBible.info, mifototra amin&apos;ny Treasury of Scripture Knowledge, zaraina amin&apos;ny
+                    fahazoan-dalana CC BY.
+                  </p>
+                  <Button asChild variant="outline" size="sm">
+                    <Link
+                      href="https://www.openbible.info/labs/cross-references/"
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Globe className="h-4 w-4 mr-2" />
+                      OpenBible.info
+                    </Link>
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
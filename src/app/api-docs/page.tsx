@@ -1,19 +1,34 @@
 /**
  * API Documentation Page
- * Comprehensive documentation for the Bible Search API
+ * Rendered from the generated OpenAPI document, so it always matches the handlers
  */
 
 import React from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { OpenApiOperationCard, SchemaBlock } from '@/components/api-docs/OpenApiOperationCard';
+import { buildOpenApiSpec, HttpMethod, OpenApiOperation } from '@/lib/openapi';
+import { ALL_BIBLE_BOOKS, TESTAMENTS } from '@/constants/bible';
+import { Testament } from '@/types/bible';
+
+interface DocumentedOperation {
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+}
 
 const ApiDocumentationPage = () => {
+  const spec = buildOpenApiSpec();
+  const serverUrl = spec.servers[0].url;
+  const operations: DocumentedOperation[] = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    (Object.entries(methods) as Array<[HttpMethod, OpenApiOperation]>).map(([method, operation]) => ({ method, path, operation }))
+  );
+
   return (
     <div className="container mx-auto py-8 px-4 max-w-6xl">
       <div className="mb-8">
         <h1 className="text-4xl font-bold mb-4">API Documentation</h1>
-        <p className="text-lg text-muted-foreground">
-          Comprehensive guide to the Ny Baiboly (Malagasy Bible) API - Search and Random Verses
-        </p>
+        <p className="text-lg text-muted-foreground">{spec.info.description}</p>
       </div>
 
       {/* Overview */}
@@ -21,907 +36,141 @@ const ApiDocumentationPage = () => {
         <CardHeader>
           <CardTitle>Overview</CardTitle>
           <CardDescription>
-            The Bible API provides powerful search, reference lookup, and random verse capabilities for the Malagasy Bible
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <h3 className="text-lg font-semibold mb-2">Available Endpoints</h3>
-            <div className="space-y-2">
-              <div>
-                <code className="bg-muted px-3 py-1 rounded text-sm mr-2">
-                  https://ny-baiboly.vercel.app/api/search
-                </code>
-                <span className="text-sm text-muted-foreground">Search Bible verses by text content</span>
-              </div>
-              <div>
-                <code className="bg-muted px-3 py-1 rounded text-sm mr-2">
-                  https://ny-baiboly.vercel.app/api/search-reference
-                </code>
-                <span className="text-sm text-muted-foreground">Get specific verses by reference (book, chapter, verses)</span>
-              </div>
-              <div>
-                <code className="bg-muted px-3 py-1 rounded text-sm mr-2">
-                  https://ny-baiboly.vercel.app/api/random-verse
-                </code>
-                <span className="text-sm text-muted-foreground">Get random Bible verses (bible-api.com compatible)</span>
-              </div>
-              <div>
-                <code className="bg-muted px-3 py-1 rounded text-sm mr-2">
-                  https://ny-baiboly.vercel.app/api/random
-                </code>
-                <span className="text-sm text-muted-foreground">Get random Bible verses with filtering options</span>
-              </div>
-            </div>
-          </div>
-          <div>
-            <h3 className="text-lg font-semibold mb-2">Supported Methods</h3>
-            <div className="flex gap-2">
-              <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800 border">GET</span>
-              <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800 border">POST</span>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* GET Endpoint */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-blue-100 text-blue-800">GET</span>
-            Search Bible via Query Parameters
-          </CardTitle>
-          <CardDescription>
-            Search for verses using URL query parameters
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
-            <code className="bg-muted px-3 py-2 rounded block text-sm">
-              GET https://ny-baiboly.vercel.app/api/search?q={'{'}query{'}'}&testament={'{'}testament{'}'}&caseSensitive={'{'}boolean{'}'}&limit={'{'}number{'}'}
-            </code>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Query Parameters</h3>
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-border">
-                <thead>
-                  <tr className="bg-muted">
-                    <th className="border border-border px-4 py-2 text-left">Parameter</th>
-                    <th className="border border-border px-4 py-2 text-left">Type</th>
-                    <th className="border border-border px-4 py-2 text-left">Required</th>
-                    <th className="border border-border px-4 py-2 text-left">Description</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">q</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      The search query. Can be single words, phrases, or multiple terms.
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">testament</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Filter by testament. Values: <code>&quot;old&quot;</code>, <code>&quot;new&quot;</code>, or omit to search all testaments
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">caseSensitive</td>
-                    <td className="border border-border px-4 py-2">boolean</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Whether search should be case-sensitive. Default: <code>false</code>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">limit</td>
-                    <td className="border border-border px-4 py-2">number</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Maximum number of results to return. Default: <code>50</code>
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Requests</h3>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2">Search in New Testament only</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X GET "https://ny-baiboly.vercel.app/api/search?q=fitiavana&testament=new&limit=10"`}
-                </pre>
-              </div>
-              <div>
-                <h4 className="font-medium mb-2">Search in all testaments</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X GET "https://ny-baiboly.vercel.app/api/search?q=Andriamanitra&limit=20"`}
-                </pre>
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* POST Endpoint */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-green-100 text-green-800">POST</span>
-            Search Bible via Request Body
-          </CardTitle>
-          <CardDescription>
-            Search for verses using JSON request body with advanced options
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
-            <code className="bg-muted px-3 py-2 rounded block text-sm">
-              POST https://ny-baiboly.vercel.app/api/search
-            </code>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Request Body Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "query": "string (required)",
-  "options": {
-    "books": ["string"] (optional),
-    "testament": "old" | "new" (optional),
-    "limit": number (optional, default: 50),
-    "caseSensitive": boolean (optional, default: false)
-  }
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Request Body Parameters</h3>
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-border">
-                <thead>
-                  <tr className="bg-muted">
-                    <th className="border border-border px-4 py-2 text-left">Parameter</th>
-                    <th className="border border-border px-4 py-2 text-left">Type</th>
-                    <th className="border border-border px-4 py-2 text-left">Required</th>
-                    <th className="border border-border px-4 py-2 text-left">Description</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">query</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      The search query. Can be single words, phrases, or multiple terms.
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">options.books</td>
-                    <td className="border border-border px-4 py-2">string[]</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Array of book IDs to search within. Restricts search to specific books.
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">options.testament</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Filter by testament. Values: <code>&quot;old&quot;</code>, <code>&quot;new&quot;</code>, or omit to search all testaments
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">options.limit</td>
-                    <td className="border border-border px-4 py-2">number</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Maximum number of results to return. Default: <code>50</code>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">options.caseSensitive</td>
-                    <td className="border border-border px-4 py-2">boolean</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Whether search should be case-sensitive. Default: <code>false</code>
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Requests</h3>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2">Search with Testament Filter</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X POST "https://ny-baiboly.vercel.app/api/search" \\
-  -H "Content-Type: application/json" \\
-  -d '{
-    "query": "Andriamanitra fitiavana",
-    "options": {
-      "testament": "new",
-      "limit": 20,
-      "caseSensitive": false,
-      "books": ["1-jaona", "matio", "jaona"]
-    }
-  }'`}
-                </pre>
-              </div>
-              <div>
-                <h4 className="font-medium mb-2">Search All Testaments</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X POST "https://ny-baiboly.vercel.app/api/search" \\
-  -H "Content-Type: application/json" \\
-  -d '{
-    "query": "Andriamanitra",
-    "options": {
-      "limit": 50,
-      "caseSensitive": false
-    }
-  }'`}
-                </pre>
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Random Verses API */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-purple-100 text-purple-800">GET</span>
-            Random Bible Verses
-          </CardTitle>
-          <CardDescription>
-            Get random Bible verses with optional filtering
+            {spec.info.title} {spec.info.version}, OpenAPI {spec.openapi}. The machine-readable spec is at{' '}
+            <Link href="/api/openapi.json" className="underline">/api/openapi.json</Link> for generating typed clients.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
-            <code className="bg-muted px-3 py-2 rounded block text-sm">
-              GET https://ny-baiboly.vercel.app/api/random?count={'{'}number{'}'}&testament={'{'}testament{'}'}&books={'{'}books{'}'}
-            </code>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Query Parameters</h3>
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-border">
-                <thead>
-                  <tr className="bg-muted">
-                    <th className="border border-border px-4 py-2 text-left">Parameter</th>
-                    <th className="border border-border px-4 py-2 text-left">Type</th>
-                    <th className="border border-border px-4 py-2 text-left">Required</th>
-                    <th className="border border-border px-4 py-2 text-left">Description</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">count</td>
-                    <td className="border border-border px-4 py-2">number</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Number of random verses to return (1-10). Default: <code>1</code>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">testament</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Filter by testament. Values: <code>&quot;old&quot;</code>, <code>&quot;new&quot;</code>, or omit to search all testaments
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">books</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Comma-separated list of book IDs to include
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Requests</h3>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2">Single Random Verse</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X GET "https://ny-baiboly.vercel.app/api/random"`}
-                </pre>
-              </div>
-              <div>
-                <h4 className="font-medium mb-2">Multiple Verses from New Testament</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X GET "https://ny-baiboly.vercel.app/api/random?count=3&testament=new"`}
-                </pre>
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Reference Search API */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-orange-100 text-orange-800">POST</span>
-            Bible Reference Search
-          </CardTitle>
-          <CardDescription>
-            Get specific verses by book, chapter, and verse numbers with combined output
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
-            <code className="bg-muted px-3 py-2 rounded block text-sm">
-              POST https://ny-baiboly.vercel.app/api/search-reference
-            </code>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Request Body Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "book": "string (required)",
-  "chapter": number (required),
-  "verses": [number | VerseRange] (required)
-}
-
-// VerseRange object:
-{
-  "start": number (required),
-  "end": number (optional)
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Request Parameters</h3>
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-border">
-                <thead>
-                  <tr className="bg-muted">
-                    <th className="border border-border px-4 py-2 text-left">Parameter</th>
-                    <th className="border border-border px-4 py-2 text-left">Type</th>
-                    <th className="border border-border px-4 py-2 text-left">Required</th>
-                    <th className="border border-border px-4 py-2 text-left">Description</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">book</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      English book name (e.g., "John", "Genesis", "Matthew")
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">chapter</td>
-                    <td className="border border-border px-4 py-2">number</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Chapter number (1-150)
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">verses</td>
-                    <td className="border border-border px-4 py-2">array</td>
-                    <td className="border border-border px-4 py-2">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
-                    </td>
-                    <td className="border border-border px-4 py-2">
-                      Array of verse numbers or verse ranges (max 10 items)
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Response Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "text": "string",           // Combined text of all verses
-  "reference": "string",      // Reference with Malagasy book name
-  "book": "string",           // Malagasy book name
-  "bookId": "string",         // Internal book ID
-  "chapter": "string",        // Chapter number
-  "verses": ["string"],       // Array of verse numbers found
-  "requestedCount": number,   // Number of verses requested
-  "foundCount": number,       // Number of verses found
-  "executionTime": number     // Execution time in milliseconds
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Requests</h3>
-            <div className="space-y-4">
-              <div>
-                <h4 className="font-medium mb-2">Single Verse</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X POST "https://ny-baiboly.vercel.app/api/search-reference" \\
-  -H "Content-Type: application/json" \\
-  -d '{
-    "book": "John",
-    "chapter": 3,
-    "verses": [16]
-  }'`}
-                </pre>
-              </div>
-              <div>
-                <h4 className="font-medium mb-2">Multiple Verses and Ranges</h4>
-                <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X POST "https://ny-baiboly.vercel.app/api/search-reference" \\
-  -H "Content-Type: application/json" \\
-  -d '{
-    "book": "Romans",
-    "chapter": 8,
-    "verses": [{"start": 1, "end": 3}, 28, 35]
-  }'`}
-                </pre>
+          {spec.tags.map(tag => (
+            <div key={tag.name}>
+              <h3 className="text-lg font-semibold mb-1">{tag.name}</h3>
+              <p className="text-sm text-muted-foreground mb-2">{tag.description}</p>
+              <div className="space-y-2">
+                {operations.filter(({ operation }) => operation.tags.includes(tag.name)).map(({ method, path, operation }) => (
+                  <div key={`${method} ${path}`}>
+                    <a href={`#${operation.operationId}`}>
+                      <code className="bg-muted px-3 py-1 rounded text-sm mr-2">
+                        {method.toUpperCase()} {path}
+                      </code>
+                    </a>
+                    <span className="text-sm text-muted-foreground">{operation.summary}</span>
+                  </div>
+                ))}
               </div>
             </div>
-          </div>
+          ))}
         </CardContent>
       </Card>
 
-      {/* Random Verse API (bible-api.com compatible) */}
+      {operations
+        .filter(({ operation }) => !operation.tags.includes('Legacy'))
+        .map(({ method, path, operation }) => (
+          <OpenApiOperationCard
+            key={operation.operationId}
+            method={method}
+            path={path}
+            operation={operation}
+            serverUrl={serverUrl}
+          />
+        ))}
+
+      {/* Query Syntax */}
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-cyan-100 text-cyan-800">GET</span>
-            Random Verse (Bible API Compatible)
-          </CardTitle>
+          <CardTitle>Search Query Syntax</CardTitle>
           <CardDescription>
-            Get a random Bible verse in bible-api.com compatible format with Malagasy content
+            Operators accepted in the <code>q</code> / <code>query</code> value of both search endpoints
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
-            <code className="bg-muted px-3 py-2 rounded block text-sm">
-              GET https://ny-baiboly.vercel.app/api/random-verse
-            </code>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Response Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "translation": {
-    "identifier": "malagasy",
-    "name": "Baiboly Malagasy",
-    "language": "Malagasy",
-    "language_code": "mg",
-    "license": "Public Domain"
-  },
-  "random_verse": {
-    "book_id": "string",        // Bible API format (e.g., "JHN", "GEN")
-    "book": "string",           // Malagasy book name
-    "chapter": number,          // Chapter number
-    "verse": number,            // Verse number
-    "text": "string"            // Verse text in Malagasy
-  }
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Request</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`curl -X GET "https://ny-baiboly.vercel.app/api/random-verse"`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Example Response</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "translation": {
-    "identifier": "malagasy",
-    "name": "Baiboly Malagasy",
-    "language": "Malagasy",
-    "language_code": "mg",
-    "license": "Public Domain"
-  },
-  "random_verse": {
-    "book_id": "JHN",
-    "book": "Jaona",
-    "chapter": 3,
-    "verse": 16,
-    "text": "Fa toy izao no nitiavan'Andriamanitra izao tontolo izao..."
-  }
-}`}
-            </pre>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Response Format */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>Response Format</CardTitle>
-          <CardDescription>
-            Standard response structure for all search endpoints
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Success Response Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "success": true,
-  "data": [
-    {
-      "book": {
-        "id": "string",
-        "name": "string",
-        "fileName": "string",
-        "testament": "Testameta taloha" | "Testameta vaovao"
-      },
-      "chapter": "string",
-      "verse": "string",
-      "text": "string",
-      "relevance": number
-    }
-  ]
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Error Response Schema</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`{
-  "success": false,
-  "error": "string",
-  "data": null
-}`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">Response Fields</h3>
-            <div className="overflow-x-auto">
-              <table className="w-full border-collapse border border-border">
-                <thead>
-                  <tr className="bg-muted">
-                    <th className="border border-border px-4 py-2 text-left">Field</th>
-                    <th className="border border-border px-4 py-2 text-left">Type</th>
-                    <th className="border border-border px-4 py-2 text-left">Description</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">success</td>
-                    <td className="border border-border px-4 py-2">boolean</td>
-                    <td className="border border-border px-4 py-2">
-                      Indicates if the request was successful
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data</td>
-                    <td className="border border-border px-4 py-2">SearchResult[] | null</td>
-                    <td className="border border-border px-4 py-2">
-                      Array of search results, or null if error occurred
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">error</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      Error message (only present when success is false)
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data[].book</td>
-                    <td className="border border-border px-4 py-2">BookMeta</td>
-                    <td className="border border-border px-4 py-2">
-                      Book metadata including ID, name, and testament
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data[].chapter</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      Chapter number where the verse was found
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data[].verse</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      Verse number where the match was found
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data[].text</td>
-                    <td className="border border-border px-4 py-2">string</td>
-                    <td className="border border-border px-4 py-2">
-                      The verse text content (may include highlighted search terms)
-                    </td>
-                  </tr>
-                  <tr>
-                    <td className="border border-border px-4 py-2 font-mono text-sm">data[].relevance</td>
-                    <td className="border border-border px-4 py-2">number</td>
-                    <td className="border border-border px-4 py-2">
-                      Relevance score for sorting results (higher = more relevant)
-                    </td>
-                  </tr>
-                </tbody>
-              </table>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* HTTP Status Codes */}
-      <Card className="mb-8">
-        <CardHeader>
-          <CardTitle>HTTP Status Codes</CardTitle>
-          <CardDescription>
-            Standard HTTP status codes returned by the API
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
           <div className="overflow-x-auto">
             <table className="w-full border-collapse border border-border">
               <thead>
                 <tr className="bg-muted">
-                  <th className="border border-border px-4 py-2 text-left">Status Code</th>
+                  <th className="border border-border px-4 py-2 text-left">Syntax</th>
+                  <th className="border border-border px-4 py-2 text-left">Example</th>
                   <th className="border border-border px-4 py-2 text-left">Meaning</th>
-                  <th className="border border-border px-4 py-2 text-left">Description</th>
                 </tr>
               </thead>
               <tbody>
                 <tr>
-                  <td className="border border-border px-4 py-2">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-green-100 text-green-800 border">200</span>
-                  </td>
-                  <td className="border border-border px-4 py-2">OK</td>
-                  <td className="border border-border px-4 py-2">
-                    Request successful, search completed
-                  </td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">&quot;phrase&quot;</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">&quot;Jesoa Kristy&quot;</td>
+                  <td className="border border-border px-4 py-2">Exact phrase</td>
+                </tr>
+                <tr>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">AND / space</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">fitiavana AND finoana</td>
+                  <td className="border border-border px-4 py-2">Both terms must appear (space is an implicit AND once any operator is used)</td>
+                </tr>
+                <tr>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">OR</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">fanahy OR fo</td>
+                  <td className="border border-border px-4 py-2">Either term</td>
+                </tr>
+                <tr>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">NOT / -term</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">fitiavana -lalàna</td>
+                  <td className="border border-border px-4 py-2">Exclude verses containing the term</td>
+                </tr>
+                <tr>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">NEAR/n</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">finoana NEAR/5 fanantenana</td>
+                  <td className="border border-border px-4 py-2">Both terms within n words of each other (1-50)</td>
+                </tr>
+                <tr>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">( )</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">(fanahy OR fo) masina</td>
+                  <td className="border border-border px-4 py-2">Grouping</td>
                 </tr>
                 <tr>
-                  <td className="border border-border px-4 py-2">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">400</span>
-                  </td>
-                  <td className="border border-border px-4 py-2">Bad Request</td>
-                  <td className="border border-border px-4 py-2">
-                    Missing or invalid search query parameter
-                  </td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">book:</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">book:salamo, book:&quot;1 Korintianina&quot;</td>
+                  <td className="border border-border px-4 py-2">Restrict to a book (ID, Malagasy or English name)</td>
                 </tr>
                 <tr>
-                  <td className="border border-border px-4 py-2">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">500</span>
-                  </td>
-                  <td className="border border-border px-4 py-2">Internal Server Error</td>
-                  <td className="border border-border px-4 py-2">
-                    Server error during search processing
-                  </td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">testament:</td>
+                  <td className="border border-border px-4 py-2 font-mono text-sm">testament:new</td>
+                  <td className="border border-border px-4 py-2">Restrict to a testament: <code>old</code>/<code>taloha</code> or <code>new</code>/<code>vaovao</code></td>
                 </tr>
               </tbody>
             </table>
           </div>
+          <p className="text-sm text-muted-foreground">
+            Operators are case-sensitive (<code>AND</code>, not <code>and</code>). A query without any operator,
+            quote or filter keeps the original behaviour and matches the whole text as one phrase. Malformed
+            queries (unclosed quotes or parentheses) are rejected with an error.
+          </p>
+          <div>
+            <h4 className="font-medium mb-2">Example</h4>
+            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
+{`curl -G "https://ny-baiboly.vercel.app/api/search" \\
+  --data-urlencode 'q="Jesoa Kristy" AND fitiavana -lalàna'`}
+            </pre>
+          </div>
         </CardContent>
       </Card>
 
-      {/* Examples */}
+
+      {/* Schemas */}
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle>Usage Examples</CardTitle>
+          <CardTitle>Schemas</CardTitle>
           <CardDescription>
-            Common use cases and example implementations
+            Shared response and request shapes referenced above as <code>#/components/schemas/...</code>
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div>
-            <h3 className="text-lg font-semibold mb-3">JavaScript/Fetch Example</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`// Text search using fetch
-async function searchBible(query) {
-  try {
-    const response = await fetch(\`https://ny-baiboly.vercel.app/api/search?q=\${encodeURIComponent(query)}\`);
-    const result = await response.json();
-    
-    if (result.success) {
-      console.log('Search results:', result.data);
-      return result.data;
-    } else {
-      console.error('Search error:', result.error);
-      return [];
-    }
-  } catch (error) {
-    console.error('Network error:', error);
-    return [];
-  }
-}
-
-// Reference search for specific verses
-async function searchReference(book, chapter, verses) {
-  try {
-    const response = await fetch('https://ny-baiboly.vercel.app/api/search-reference', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        book,
-        chapter,
-        verses
-      })
-    });
-    
-    const result = await response.json();
-    if (response.ok) {
-      console.log('Reference found:', result);
-      return result;
-    } else {
-      console.error('Reference error:', result.error);
-      return null;
-    }
-  } catch (error) {
-    console.error('Network error:', error);
-    return null;
-  }
-}
-
-// Get random verse (bible-api.com compatible)
-async function getRandomVerse() {
-  try {
-    const response = await fetch('https://ny-baiboly.vercel.app/api/random-verse');
-    const result = await response.json();
-    
-    console.log('Random verse:', result.random_verse);
-    return result;
-  } catch (error) {
-    console.error('Error getting random verse:', error);
-    return null;
-  }
-}
-
-// Advanced search with options
-async function advancedSearch(query, options = {}) {
-  try {
-    const response = await fetch('https://ny-baiboly.vercel.app/api/search', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query,
-        options
-      })
-    });
-    
-    const result = await response.json();
-    return result.success ? result.data : [];
-  } catch (error) {
-    console.error('Search error:', error);
-    return [];
-  }
-}
-
-// Usage examples
-searchBible('fitiavana');
-searchReference('John', 3, [16]);
-searchReference('Romans', 8, [1, 2, 3, 28]);
-getRandomVerse();
-advancedSearch('Andriamanitra', {
-  testament: 'new',
-  limit: 10,
-  caseSensitive: false
-});`}
-            </pre>
-          </div>
-
-          <div>
-            <h3 className="text-lg font-semibold mb-3">React Hook Example</h3>
-            <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
-{`import { useState, useEffect } from 'react';
-
-function useBibleSearch() {
-  const [results, setResults] = useState([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState(null);
-
-  const search = async (query, options = {}) => {
-    if (!query.trim()) {
-      setResults([]);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await fetch('https://ny-baiboly.vercel.app/api/search', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query, options })
-      });
-
-      const result = await response.json();
-      
-      if (result.success) {
-        setResults(result.data);
-      } else {
-        setError(result.error);
-        setResults([]);
-      }
-    } catch (err) {
-      setError('Failed to search');
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  return { results, loading, error, search };
-}`}
-            </pre>
-          </div>
+          {Object.entries(spec.components.schemas).map(([name, schema]) => (
+            <div key={name} id={`schema-${name}`}>
+              <h3 className="text-lg font-semibold mb-3">{name}</h3>
+              <SchemaBlock schema={schema} />
+            </div>
+          ))}
         </CardContent>
       </Card>
 
-      {/* Rate Limiting */}
+      {/* Best Practices */}
       <Card className="mb-8">
         <CardHeader>
           <CardTitle>Best Practices</CardTitle>
@@ -965,86 +214,23 @@ function useBibleSearch() {
         <CardHeader>
           <CardTitle>Book IDs Reference</CardTitle>
           <CardDescription>
-            Complete list of available book IDs for targeted searches
+            Book IDs accepted by <code>books</code> filters; references also accept Malagasy and English names,
+            abbreviations and USFM codes
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div>
-            <h3 className="text-lg font-semibold mb-2">Testameta taloha (Old Testament)</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 text-sm">
-              <code>genesisy</code>
-              <code>eksodosy</code>
-              <code>levitikosy</code>
-              <code>nomery</code>
-              <code>deoteronomia</code>
-              <code>josoa</code>
-              <code>mpitsara</code>
-              <code>rota</code>
-              <code>samoela-voalohany</code>
-              <code>samoela-faharoa</code>
-              <code>mpanjaka-voalohany</code>
-              <code>mpanjaka-faharoa</code>
-              <code>tantara-voalohany</code>
-              <code>tantara-faharoa</code>
-              <code>ezra</code>
-              <code>nehemia</code>
-              <code>estera</code>
-              <code>joba</code>
-              <code>salamo</code>
-              <code>ohabolana</code>
-              <code>mpitoriteny</code>
-              <code>tononkirani-solomona</code>
-              <code>isaia</code>
-              <code>jeremia</code>
-              <code>fitomaniana</code>
-              <code>ezekiela</code>
-              <code>daniela</code>
-              <code>hosea</code>
-              <code>joela</code>
-              <code>amosa</code>
-              <code>obadia</code>
-              <code>jona</code>
-              <code>mika</code>
-              <code>nahoma</code>
-              <code>habakoka</code>
-              <code>zefania</code>
-              <code>hagay</code>
-              <code>zakaria</code>
-              <code>malakia</code>
-            </div>
-          </div>
-          <div>
-            <h3 className="text-lg font-semibold mb-2">Testameta vaovao (New Testament)</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 text-sm">
-              <code>matio</code>
-              <code>marka</code>
-              <code>lioka</code>
-              <code>jaona</code>
-              <code>asanny-apostoly</code>
-              <code>romanina</code>
-              <code>1-korintianina</code>
-              <code>2-korintianina</code>
-              <code>galatianina</code>
-              <code>efesianina</code>
-              <code>filipianina</code>
-              <code>kolosianina</code>
-              <code>1-tesalonianina</code>
-              <code>2-tesalonianina</code>
-              <code>1-timoty</code>
-              <code>2-timoty</code>
-              <code>titosy</code>
-              <code>filemona</code>
-              <code>hebreo</code>
-              <code>jakoba</code>
-              <code>1-petera</code>
-              <code>2-petera</code>
-              <code>1-jaona</code>
-              <code>2-jaona</code>
-              <code>3-jaona</code>
-              <code>joda</code>
-              <code>apokalypsy</code>
+          {[Testament.OLD, Testament.NEW].map(testament => (
+            <div key={testament}>
+              <h3 className="text-lg font-semibold mb-2">{TESTAMENTS[testament].name}</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 text-sm">
+                {ALL_BIBLE_BOOKS.filter(book => book.testament === testament).map(book => (
+                  <span key={book.id}>
+                    <code>{book.id}</code> <span className="text-muted-foreground">{book.name}</span>
+                  </span>
+                ))}
+              </div>
             </div>
-          </div>
+          ))}
         </CardContent>
       </Card>
     </div>
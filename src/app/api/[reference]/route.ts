@@ -0,0 +1,92 @@
+/**
+ * bible-api.com Compatible Reference Route
+ * GET /api/{reference}, e.g. /api/jaona+3:16 or /api/john%203:16-18
+ * Static API routes take precedence, so only unmatched segments reach this handler
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBibleRepository } from '@/lib/bible-repository';
+import {
+  parsePassageReference,
+  countPassageChapters,
+  MAX_PASSAGE_CHAPTERS,
+} from '@/lib/passage-reference';
+import { applySingleChapterBookMatching, toBibleApiReferenceResponse } from '@/lib/bible-api-compat';
+import { logger, AppError, ValidationError } from '@/lib/errors';
+import { translationRegistry } from '@/lib/translations';
+import { rateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getErrorStatus, RATE_LIMITED_RESPONSE, STATIC_CACHE_CONTROL, toErrorResponse } from '@/lib/api-handler';
+import { ReferencePathSchema, ReferenceQuerySchema } from '@/lib/api-schemas';
+import { ApiResponse } from '@/types/bible';
+
+interface RouteContext {
+  params: Promise<{ reference: string }>;
+}
+
+/**
+ * bible-api.com reports errors as a bare `{ error }` object, and missing references as "not found"
+ */
+function errorResponse(body: ApiResponse<never>, status: number = getErrorStatus(body.code)) {
+  return NextResponse.json({ error: status === 404 ? 'not found' : body.error }, { status });
+}
+
+/**
+ * Decode the path segment; bible-api.com clients send spaces as `+` or `%20`
+ */
+function decodeReference(segment: string): string {
+  try {
+    return decodeURIComponent(segment.replace(/\+/g, ' '));
+  } catch {
+    throw new ValidationError(`Invalid reference encoding: "${segment}"`);
+  }
+}
+
+// ===== API HANDLER =====
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const rateLimitResult = await rateLimit(request);
+  const response = rateLimitResult.success
+    ? await getReference(request, context)
+    : errorResponse(RATE_LIMITED_RESPONSE);
+
+  return withRateLimitHeaders(response, rateLimitResult);
+}
+
+async function getReference(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const startTime = performance.now();
+
+  try {
+    const { reference: segment } = await params;
+    const { searchParams } = new URL(request.url);
+    const { reference } = ReferencePathSchema.parse({ reference: decodeReference(segment) });
+    const query = ReferenceQuerySchema.parse(Object.fromEntries(searchParams));
+    const translation = translationRegistry.get(query.translation);
+
+    const passages = applySingleChapterBookMatching(
+      parsePassageReference(reference),
+      query.single_chapter_book_matching
+    );
+    if (countPassageChapters(passages) > MAX_PASSAGE_CHAPTERS) {
+      throw new ValidationError(`Passage is too long (max ${MAX_PASSAGE_CHAPTERS} chapters)`);
+    }
+
+    const result = await getBibleRepository(translation.id).getPassages(passages);
+    if (!result.success || !result.data) {
+      return errorResponse({ data: null, success: false, error: result.error, code: result.code });
+    }
+
+    logger.info('bible-api.com reference resolved', {
+      reference: result.data.reference,
+      verses: result.data.verseCount,
+      executionTime: Math.round(performance.now() - startTime),
+    });
+
+    return NextResponse.json(
+      toBibleApiReferenceResponse(result.data, query.verse_numbers === 'true', translation),
+      { headers: { 'Cache-Control': STATIC_CACHE_CONTROL } }
+    );
+  } catch (error) {
+    const body = toErrorResponse(error);
+    return errorResponse(body, getErrorStatus(body.code, error instanceof AppError ? error.category : undefined));
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * API route for one chapter of a Bible book
+ * Alias of /api/v1/books/{bookId}/chapters/{chapter}
+ */
+
+export { GET } from '@/app/api/v1/books/[bookId]/chapters/[chapter]/route';
@@ -0,0 +1,6 @@
+/**
+ * API route for one Bible book
+ * Alias of /api/v1/books/{bookId}
+ */
+
+export { GET } from '@/app/api/v1/books/[bookId]/route';
@@ -0,0 +1,6 @@
+/**
+ * API route for Bible books
+ * Alias of /api/v1/books, kept for existing clients
+ */
+
+export { GET } from '@/app/api/v1/books/route';
@@ -0,0 +1,6 @@
+/**
+ * API route for concordance entries
+ * Alias of /api/v1/concordance/{word}
+ */
+
+export { GET } from '@/app/api/v1/concordance/[word]/route';
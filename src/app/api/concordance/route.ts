@@ -0,0 +1,6 @@
+/**
+ * API route for the concordance index
+ * Alias of /api/v1/concordance
+ */
+
+export { GET } from '@/app/api/v1/concordance/route';
@@ -0,0 +1,6 @@
+/**
+ * API route for cross-references
+ * Alias of /api/v1/crossrefs
+ */
+
+export { GET } from '@/app/api/v1/crossrefs/route';
@@ -0,0 +1,14 @@
+/**
+ * OpenAPI document route
+ * GET /api/openapi.json, generated from the shared API schemas
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiSpec } from '@/lib/openapi';
+import { STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+
+export function GET() {
+  return NextResponse.json(buildOpenApiSpec(), {
+    headers: { 'Cache-Control': STATIC_CACHE_CONTROL },
+  });
+}
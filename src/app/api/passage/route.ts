@@ -0,0 +1,71 @@
+/**
+ * Passage API Route
+ * Resolves any reference string (whole chapters, ranges, multi-book lists) to its text
+ * as JSON or plain text, with long-lived cache headers since the text never changes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBibleRepository } from '@/lib/bible-repository';
+import {
+  parsePassageReference,
+  formatPassageText,
+  countPassageChapters,
+  MAX_PASSAGE_CHAPTERS,
+} from '@/lib/passage-reference';
+import { logger, AppError, ValidationError } from '@/lib/errors';
+import { rateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getErrorStatus, RATE_LIMITED_RESPONSE, STATIC_CACHE_CONTROL, toErrorResponse } from '@/lib/api-handler';
+import { PassageQuerySchema } from '@/lib/api-schemas';
+import { ApiResponse } from '@/types/bible';
+
+function errorResponse(body: ApiResponse<never>, status: number = getErrorStatus(body.code)) {
+  return NextResponse.json(body, { status });
+}
+
+// ===== API HANDLER =====
+
+export async function GET(request: NextRequest) {
+  const rateLimitResult = await rateLimit(request);
+  const response = rateLimitResult.success
+    ? await getPassage(request)
+    : errorResponse(RATE_LIMITED_RESPONSE);
+
+  return withRateLimitHeaders(response, rateLimitResult);
+}
+
+async function getPassage(request: NextRequest): Promise<NextResponse> {
+  const startTime = performance.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { ref, format, verseNumbers, translation } = PassageQuerySchema.parse(Object.fromEntries(searchParams));
+
+    const passages = parsePassageReference(ref);
+    if (countPassageChapters(passages) > MAX_PASSAGE_CHAPTERS) {
+      throw new ValidationError(`Passage is too long (max ${MAX_PASSAGE_CHAPTERS} chapters)`);
+    }
+
+    const result = await getBibleRepository(translation).getPassages(passages);
+    if (!result.success || !result.data) {
+      return errorResponse({ data: null, success: false, error: result.error || 'Passage not found', code: result.code });
+    }
+
+    logger.info('Passage resolved', {
+      reference: result.data.reference,
+      verses: result.data.verseCount,
+      format,
+      executionTime: Math.round(performance.now() - startTime),
+    });
+
+    if (format === 'text') {
+      return new NextResponse(formatPassageText(result.data, verseNumbers === 'true'), {
+        headers: { 'Cache-Control': STATIC_CACHE_CONTROL, 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json(result, { headers: { 'Cache-Control': STATIC_CACHE_CONTROL } });
+  } catch (error) {
+    const body = toErrorResponse(error);
+    return errorResponse(body, getErrorStatus(body.code, error instanceof AppError ? error.category : undefined));
+  }
+}
@@ -1,32 +1,23 @@
 /**
  * Random Bible Verse API Route
- * Compatible with bible-api.com format but returns Malagasy verses from GitHub repository
+ * Compatible with bible-api.com format but returns Malagasy verses from GitHub repository;
+ * `?translation=` picks another registered translation
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { bibleRepository } from '@/lib/bible-repository';
+import { z } from 'zod';
+import { getBibleRepository } from '@/lib/bible-repository';
 import { ALL_BIBLE_BOOKS } from '@/constants/bible';
-import { logger, AppError, ErrorCategory } from '@/lib/errors';
-import { rateLimit } from '@/lib/rate-limit';
+import { logger, AppError, ErrorCategory, ValidationError } from '@/lib/errors';
+import { rateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getBookApiId, toBibleApiTranslation } from '@/lib/bible-api-compat';
+import { RandomVerseResponseSchema, TranslationQuerySchema } from '@/lib/api-schemas';
+import { translationRegistry } from '@/lib/translations';
+import { Translation } from '@/types/bible';
 
 // ===== TYPES =====
 
-interface RandomVerseResponse {
-  translation: {
-    identifier: string;
-    name: string;
-    language: string;
-    language_code: string;
-    license: string;
-  };
-  random_verse: {
-    book_id: string;
-    book: string;
-    chapter: number;
-    verse: number;
-    text: string;
-  };
-}
+type RandomVerseResponse = z.infer<typeof RandomVerseResponseSchema>;
 
 // ===== UTILITY FUNCTIONS =====
 
@@ -54,87 +45,15 @@ function _getRandomVerseNumber(): number {
   return Math.floor(Math.random() * 50) + 1;
 }
 
-/**
- * Convert book ID to uppercase format similar to bible-api.com
- */
-function getBookApiId(bookId: string): string {
-  // Convert book IDs to a format similar to bible-api.com
-  const mapping: Record<string, string> = {
-    'genesis': 'GEN',
-    'exodus': 'EXO',
-    'leviticus': 'LEV',
-    'numbers': 'NUM',
-    'deuteronomy': 'DEU',
-    'joshua': 'JOS',
-    'judges': 'JDG',
-    'ruth': 'RUT',
-    '1-samuel': '1SA',
-    '2-samuel': '2SA',
-    '1-kings': '1KI',
-    '2-kings': '2KI',
-    '1-chronicles': '1CH',
-    '2-chronicles': '2CH',
-    'ezra': 'EZR',
-    'nehemiah': 'NEH',
-    'esther': 'EST',
-    'job': 'JOB',
-    'psalms': 'PSA',
-    'proverbs': 'PRO',
-    'ecclesiastes': 'ECC',
-    'song-of-songs': 'SNG',
-    'isaiah': 'ISA',
-    'jeremiah': 'JER',
-    'lamentations': 'LAM',
-    'ezekiel': 'EZK',
-    'daniel': 'DAN',
-    'hosea': 'HOS',
-    'joel': 'JOL',
-    'amos': 'AMO',
-    'obadiah': 'OBA',
-    'jonah': 'JON',
-    'micah': 'MIC',
-    'nahum': 'NAM',
-    'habakkuk': 'HAB',
-    'zephaniah': 'ZEP',
-    'haggai': 'HAG',
-    'zechariah': 'ZEC',
-    'malachi': 'MAL',
-    'matthew': 'MAT',
-    'mark': 'MRK',
-    'luke': 'LUK',
-    'john': 'JHN',
-    'acts': 'ACT',
-    'romans': 'ROM',
-    '1-corinthians': '1CO',
-    '2-corinthians': '2CO',
-    'galatians': 'GAL',
-    'ephesians': 'EPH',
-    'philippians': 'PHP',
-    'colossians': 'COL',
-    '1-thessalonians': '1TH',
-    '2-thessalonians': '2TH',
-    '1-timothy': '1TI',
-    '2-timothy': '2TI',
-    'titus': 'TIT',
-    'philemon': 'PHM',
-    'hebrews': 'HEB',
-    'james': 'JAS',
-    '1-peter': '1PE',
-    '2-peter': '2PE',
-    '1-john': '1JN',
-    '2-john': '2JN',
-    '3-john': '3JN',
-    'jude': 'JUD',
-    'revelation': 'REV',
-  };
-  
-  return mapping[bookId] || bookId.toUpperCase();
-}
-
 /**
  * Attempt to get a random verse with retry logic
  */
-async function getRandomVerseWithRetry(maxAttempts: number = 10): Promise<RandomVerseResponse | null> {
+async function getRandomVerseWithRetry(
+  translation: Translation,
+  maxAttempts: number = 10
+): Promise<RandomVerseResponse | null> {
+  const bibleRepository = getBibleRepository(translation.id);
+
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
       // Get random book
@@ -183,13 +102,7 @@ async function getRandomVerseWithRetry(maxAttempts: number = 10): Promise<Random
       
       // Build response in bible-api.com format
       return {
-        translation: {
-          identifier: "malagasy",
-          name: "Baiboly Malagasy",
-          language: "Malagasy",
-          language_code: "mg",
-          license: "Public Domain"
-        },
+        translation: toBibleApiTranslation(translation),
         random_verse: {
           book_id: getBookApiId(randomBook.id),
           book: randomBook.name, // Malagasy book name
@@ -211,26 +124,33 @@ async function getRandomVerseWithRetry(maxAttempts: number = 10): Promise<Random
 // ===== API HANDLER =====
 
 export async function GET(request: NextRequest) {
+  const rateLimitResult = await rateLimit(request);
+  const response = rateLimitResult.success
+    ? await getRandomVerse(request)
+    : NextResponse.json(
+      {
+        error: 'Too many requests. Please try again later.',
+        retryAfter: rateLimitResult.retryAfter,
+      },
+      { status: 429 }
+    );
+
+  return withRateLimitHeaders(response, rateLimitResult);
+}
+
+async function getRandomVerse(request: NextRequest): Promise<NextResponse> {
   const startTime = performance.now();
   
   try {
     console.info('=== RANDOM VERSE API DEBUG ===');
     
-    // Rate limiting
-    const rateLimitResult = await rateLimit(request);
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { 
-          error: 'Too many requests. Please try again later.',
-          retryAfter: rateLimitResult.retryAfter 
-        },
-        { status: 429 }
-      );
-    }
+    const { searchParams } = new URL(request.url);
+    const query = TranslationQuerySchema.parse(Object.fromEntries(searchParams));
+    const translation = translationRegistry.get(query.translation);
 
     // Get random verse
     console.info('Getting random verse...');
-    const randomVerseResponse = await getRandomVerseWithRetry();
+    const randomVerseResponse = await getRandomVerseWithRetry(translation);
     
     if (!randomVerseResponse) {
       throw new AppError('Failed to get random verse after multiple attempts', {
@@ -260,6 +180,16 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     const _executionTime = performance.now() - startTime;
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ') },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     
     if (error instanceof AppError) {
       logger.error('Application error in random verse', error);
@@ -6,77 +6,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { bibleRepository } from '@/lib/bible-repository';
-import { BOOKS_BY_ENGLISH_NAME } from '@/constants/bible';
-import { logger, ValidationError, AppError, ErrorCategory } from '@/lib/errors';
-import { rateLimit } from '@/lib/rate-limit';
-
-// ===== VALIDATION SCHEMAS =====
-
-const VerseRangeSchema = z.object({
-  start: z.number().int().positive(),
-  end: z.number().int().positive().optional(),
-});
-
-const SearchReferenceSchema = z.object({
-  book: z.string().min(1).max(50).trim(),
-  chapter: z.number().int().positive().max(150),
-  verses: z.array(z.union([
-    z.number().int().positive().max(200),
-    VerseRangeSchema
-  ])).min(1).max(10), // Maximum 10 verses/ranges per request
-});
+import { ALL_BIBLE_BOOKS } from '@/constants/bible';
+import { resolveBook } from '@/lib/book-resolver';
+import { logger, ValidationError, AppError } from '@/lib/errors';
+import { rateLimit, withRateLimitHeaders } from '@/lib/rate-limit';
+import { SearchReferenceSchema, SearchReferenceResponseSchema } from '@/lib/api-schemas';
 
 // ===== TYPES =====
 
-interface VerseResult {
-  book: string;
-  bookId: string;
-  chapter: string;
-  verse: string;
-  text: string;
-  reference: string;
-}
-
-interface SearchReferenceResponse {
-  verses: VerseResult[];  // Array of individual verse objects
-  text: string;           // Combined text of all verses (for backward compatibility)
-  reference: string;      // Single reference with Malagasy book name
-  book: string;           // Malagasy book name
-  bookId: string;
-  chapter: string;
-  requestedCount: number;
-  foundCount: number;
-  executionTime: number;
-}
+type SearchReferenceResponse = z.infer<typeof SearchReferenceResponseSchema>;
+type VerseResult = SearchReferenceResponse['verses'][number];
 
 // ===== UTILITY FUNCTIONS =====
 
-/**
- * Normalize book name to find matching book ID
- */
-function findBookByName(bookName: string): string | null {
-  const normalizedName = bookName.toLowerCase().trim();
-  
-  // Try exact English name match
-  const bookId = BOOKS_BY_ENGLISH_NAME.get(normalizedName);
-  if (bookId) {
-    return bookId;
-  }
-  
-  // Try partial matches for common abbreviations
-  const allBooks = Array.from(BOOKS_BY_ENGLISH_NAME.entries());
-  
-  // Find by abbreviation or partial match
-  for (const [englishName, id] of allBooks) {
-    if (englishName.toLowerCase().startsWith(normalizedName) ||
-        englishName.toLowerCase().includes(normalizedName)) {
-      return id;
-    }
-  }
-  
-  return null;
-}
-
 /**
  * Expand verse ranges into individual verse numbers
  */
@@ -146,6 +88,21 @@ function buildReference(bookName: string, chapter: string, verses: string[]): st
 // ===== API HANDLER =====
 
 export async function POST(request: NextRequest) {
+  const rateLimitResult = await rateLimit(request);
+  const response = rateLimitResult.success
+    ? await searchReference(request)
+    : NextResponse.json(
+      {
+        error: 'Too many requests. Please try again later.',
+        retryAfter: rateLimitResult.retryAfter,
+      },
+      { status: 429 }
+    );
+
+  return withRateLimitHeaders(response, rateLimitResult);
+}
+
+async function searchReference(request: NextRequest): Promise<NextResponse> {
   const startTime = performance.now();
   
   try {
@@ -167,18 +124,6 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Invalid JSON in request body');
     }
 
-    // Rate limiting
-    const rateLimitResult = await rateLimit(request);
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { 
-          error: 'Too many requests. Please try again later.',
-          retryAfter: rateLimitResult.retryAfter 
-        },
-        { status: 429 }
-      );
-    }
-
     // Validate request data
     console.info('Starting validation with schema...');
     const validatedData = SearchReferenceSchema.parse(parsedBody);
@@ -186,33 +131,34 @@ export async function POST(request: NextRequest) {
     
     const { book, chapter, verses } = validatedData;
 
-    // Find book by English name
+    // Resolve Malagasy/English names, abbreviations and USFM codes
     console.info('Looking up book by name:', book);
-    const bookId = findBookByName(book);
-    console.info('Found book ID:', bookId);
-    
-    if (!bookId) {
+    const resolution = resolveBook(book);
+    logger.debug('Book resolution', { book, status: resolution.status });
+
+    if (resolution.status === 'ambiguous') {
+      return NextResponse.json(
+        {
+          error: `Ambiguous book name: "${book}". Did you mean one of: ${resolution.candidates.map(candidate => candidate.name).join(', ')}?`,
+          candidates: resolution.candidates.map(candidate => ({ id: candidate.id, name: candidate.name })),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (resolution.status === 'not_found') {
       console.info('Book not found in mapping');
       return NextResponse.json(
         { 
           error: `Book not found: "${book}". Please check the spelling or try a different name.`,
-          availableBooks: Array.from(BOOKS_BY_ENGLISH_NAME.keys()).slice(0, 10)
+          availableBooks: ALL_BIBLE_BOOKS.slice(0, 10).map(candidate => candidate.name)
         },
         { status: 404 }
       );
     }
 
-    // Get book metadata
-    console.info('Getting book metadata for ID:', bookId);
-    const bookMeta = bibleRepository.getBookById(bookId);
-    console.info('Book metadata:', bookMeta);
-    
-    if (!bookMeta) {
-      throw new AppError('Book metadata not found', {
-        code: 'BOOK_META_ERROR',
-        category: ErrorCategory.DATA,
-      });
-    }
+    const bookMeta = resolution.book;
+    const bookId = bookMeta.id;
 
     // Get chapter data
     console.info('Getting chapter data for book:', bookId, 'chapter:', chapter.toString());
@@ -375,7 +321,7 @@ export async function GET() {
     method: 'POST',
     endpoint: '/api/search-reference',
     schema: {
-      book: 'string (English book name, e.g., "Genesis", "Matthew")',
+      book: 'string (Malagasy or English name, abbreviation or USFM code, e.g., "Jaona", "Sal", "1 Kor", "Matthew", "JHN")',
       chapter: 'number (chapter number)',
       verses: 'array of numbers or range objects { start: number, end?: number }'
     },
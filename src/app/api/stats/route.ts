@@ -0,0 +1,6 @@
+/**
+ * API route for corpus statistics
+ * Alias of /api/v1/stats
+ */
+
+export { GET } from '@/app/api/v1/stats/route';
@@ -0,0 +1,6 @@
+/**
+ * API route for available translations
+ * Alias of /api/v1/translations
+ */
+
+export { GET } from '@/app/api/v1/translations/route';
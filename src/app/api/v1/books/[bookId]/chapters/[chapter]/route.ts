@@ -0,0 +1,22 @@
+/**
+ * API v1: one chapter of a Bible book
+ * GET /api/v1/books/{bookId}/chapters/{chapter}
+ * Returns the chapter's verse count with the previous and next chapters for navigation
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { findBook } from '@/lib/book-resolver';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { BookChapterPathSchema, TranslationQuerySchema } from '@/lib/api-schemas';
+import { ChapterDetails } from '@/types/bible';
+
+interface RouteContext {
+  params: Promise<{ bookId: string; chapter: string }>;
+}
+
+export const GET = createApiHandler<ChapterDetails, RouteContext>(async (request, { params }) => {
+  const { searchParams } = new URL(request.url);
+  const { bookId, chapter } = BookChapterPathSchema.parse(await params);
+  const { translation } = TranslationQuerySchema.parse(Object.fromEntries(searchParams));
+  return getBibleRepository(translation).getChapterDetails(findBook(bookId).id, chapter);
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -0,0 +1,26 @@
+/**
+ * API v1: one Bible book
+ * GET /api/v1/books/{bookId}
+ * `bookId` accepts any name, abbreviation or USFM code the book resolver understands
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { findBook } from '@/lib/book-resolver';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { BookPathSchema, TranslationQuerySchema } from '@/lib/api-schemas';
+import { BookDetails } from '@/types/bible';
+
+interface RouteContext {
+  params: Promise<{ bookId: string }>;
+}
+
+export const GET = createApiHandler<BookDetails, RouteContext>(async (request, { params }) => {
+  const { searchParams } = new URL(request.url);
+  const { bookId } = BookPathSchema.parse(await params);
+  const { translation } = TranslationQuerySchema.parse(Object.fromEntries(searchParams));
+  const response = await getBibleRepository(translation).getBookDetails(findBook(bookId).id);
+
+  return response.success && response.data
+    ? { ...response, meta: { total: response.data.chapters.length } }
+    : response;
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -0,0 +1,16 @@
+/**
+ * API v1: Bible books
+ * GET /api/v1/books?testament=old|new&translation=malagasy
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { BooksQuerySchema } from '@/lib/api-schemas';
+import { BookInfo } from '@/types/bible';
+
+export const GET = createApiHandler<BookInfo[]>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { testament, translation } = BooksQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return getBibleRepository(translation).getAllBookInfo(testament);
+}, { cacheControl: STATIC_CACHE_CONTROL });
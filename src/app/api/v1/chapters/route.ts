@@ -0,0 +1,33 @@
+/**
+ * API v1: chapter text
+ * GET /api/v1/chapters?book=Jaona&chapter=3
+ * `book` accepts any name, abbreviation or USFM code the book resolver understands
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { findBook } from '@/lib/book-resolver';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { ChapterQuerySchema } from '@/lib/api-schemas';
+import { ChapterContent } from '@/types/bible';
+
+export const GET = createApiHandler<ChapterContent>(async request => {
+  const { searchParams } = new URL(request.url);
+  const query = ChapterQuerySchema.parse(Object.fromEntries(searchParams));
+
+  const book = findBook(query.book);
+  const chapter = query.chapter.toString();
+  const chapterResponse = await getBibleRepository(query.translation).getChapter(book.id, chapter);
+  if (!chapterResponse.success || !chapterResponse.data) {
+    return { data: null, success: false, error: chapterResponse.error, code: chapterResponse.code };
+  }
+
+  const verses = Object.entries(chapterResponse.data)
+    .sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+    .map(([number, text]) => ({ number, text }));
+
+  return {
+    data: { bookId: book.id, bookName: book.name, chapter, verses },
+    success: true,
+    meta: { total: verses.length },
+  };
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -0,0 +1,22 @@
+/**
+ * API v1: concordance entry
+ * GET /api/v1/concordance/{word}?limit=20
+ * Any form of a word finds its lemma, e.g. fitiavana and mitia both find tia
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { ConcordanceQuerySchema, ConcordanceWordPathSchema } from '@/lib/api-schemas';
+import { ConcordanceEntry } from '@/types/bible';
+
+interface RouteContext {
+  params: Promise<{ word: string }>;
+}
+
+export const GET = createApiHandler<ConcordanceEntry, RouteContext>(async (request, { params }) => {
+  const { searchParams } = new URL(request.url);
+  const { word } = ConcordanceWordPathSchema.parse(await params);
+  const { limit, translation } = ConcordanceQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return getBibleRepository(translation).getConcordanceEntry(word, limit);
+}, { cacheControl: STATIC_CACHE_CONTROL });
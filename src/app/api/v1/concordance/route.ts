@@ -0,0 +1,16 @@
+/**
+ * API v1: concordance index
+ * GET /api/v1/concordance?letter=a
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { ConcordanceIndexQuerySchema } from '@/lib/api-schemas';
+import { ConcordanceIndex } from '@/types/bible';
+
+export const GET = createApiHandler<ConcordanceIndex>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { letter, translation } = ConcordanceIndexQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return getBibleRepository(translation).getConcordanceIndex(letter);
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -0,0 +1,32 @@
+/**
+ * API v1: cross-references
+ * GET /api/v1/crossrefs?ref=Jaona 3:16&limit=20
+ * Linked verses come from the configured OpenBible.info dataset (see the README),
+ * with their text in the requested translation. Without the dataset it fails with
+ * CROSS_REFERENCES_UNAVAILABLE.
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { parsePassageReference } from '@/lib/passage-reference';
+import { ValidationError } from '@/lib/errors';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { CrossReferencesQuerySchema } from '@/lib/api-schemas';
+import { CrossReferenceResult } from '@/types/bible';
+
+export const GET = createApiHandler<CrossReferenceResult>(async request => {
+  const { searchParams } = new URL(request.url);
+  const query = CrossReferencesQuerySchema.parse(Object.fromEntries(searchParams));
+
+  const passages = parsePassageReference(query.ref);
+  const [passage] = passages;
+  const isSingleVerse = passages.length === 1
+    && passage.startVerse !== undefined
+    && passage.startChapter === passage.endChapter
+    && passage.endVerse === passage.startVerse;
+  if (!isSingleVerse) {
+    throw new ValidationError('Cross-references take a single verse, e.g. "Jaona 3:16"');
+  }
+
+  return getBibleRepository(query.translation)
+    .getCrossReferences(passage.bookId, passage.startChapter, passage.startVerse!, query.limit);
+}, { cacheControl: STATIC_CACHE_CONTROL });
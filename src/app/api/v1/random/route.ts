@@ -0,0 +1,23 @@
+/**
+ * API v1: random verses
+ * GET /api/v1/random?count=3&testament=new&books=john,romans or POST { count, options }
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, readJsonBody } from '@/lib/api-handler';
+import { RandomBodySchema, RandomQuerySchema } from '@/lib/api-schemas';
+import { Verse } from '@/types/bible';
+
+export const GET = createApiHandler<Verse[]>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { count, testament, books, translation } = RandomQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return getBibleRepository(translation)
+    .getRandomVerses(count, { testament, books: books?.split(',').filter(Boolean) });
+});
+
+export const POST = createApiHandler<Verse[]>(async request => {
+  const { count, options, translation } = RandomBodySchema.parse(await readJsonBody(request));
+
+  return getBibleRepository(translation).getRandomVerses(count, options);
+});
@@ -0,0 +1,32 @@
+/**
+ * API v1: full-text search
+ * GET /api/v1/search?q=... (query-string options) or POST { query, options }
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, readJsonBody } from '@/lib/api-handler';
+import { SearchBodySchema, SearchQuerySchema } from '@/lib/api-schemas';
+import { searchRateLimit } from '@/lib/rate-limit';
+import { SearchResult } from '@/types/bible';
+
+export const GET = createApiHandler<SearchResult>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { q, books, chapterFrom, chapterTo, caseSensitive, normalize, stemming, highlight, translation, ...options } =
+    SearchQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return getBibleRepository(translation).searchBible(q, {
+    ...options,
+    books: books?.split(',').filter(Boolean),
+    caseSensitive: caseSensitive === 'true',
+    normalize: normalize !== 'false',
+    stemming: stemming === 'true',
+    highlight: highlight === 'true',
+    chapters: chapterFrom ? { from: chapterFrom, to: chapterTo ?? chapterFrom } : undefined,
+  });
+}, { limiter: searchRateLimit });
+
+export const POST = createApiHandler<SearchResult>(async request => {
+  const { query, options, translation } = SearchBodySchema.parse(await readJsonBody(request));
+
+  return getBibleRepository(translation).searchBible(query, options);
+}, { limiter: searchRateLimit });
@@ -0,0 +1,16 @@
+/**
+ * API v1: corpus statistics
+ * GET /api/v1/stats?top=50
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { StatsQuerySchema } from '@/lib/api-schemas';
+import { CorpusStats } from '@/types/bible';
+
+export const GET = createApiHandler<CorpusStats>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { top, translation } = StatsQuerySchema.parse(Object.fromEntries(searchParams));
+
+  return { data: await getBibleRepository(translation).getCorpusStats(top), success: true };
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -0,0 +1,14 @@
+/**
+ * API v1: available translations
+ * GET /api/v1/translations
+ * IDs listed here are accepted by the `translation` parameter of the other routes
+ */
+
+import { createApiHandler } from '@/lib/api-handler';
+import { translationRegistry } from '@/lib/translations';
+import { Translation } from '@/types/bible';
+
+export const GET = createApiHandler<Translation[]>(async () => {
+  const translations = translationRegistry.list();
+  return { data: translations, success: true, meta: { total: translations.length } };
+});
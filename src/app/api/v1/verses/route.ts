@@ -0,0 +1,30 @@
+/**
+ * API v1: verses by reference
+ * GET /api/v1/verses?ref=Jaona 3:16-18; Sal 23
+ */
+
+import { getBibleRepository } from '@/lib/bible-repository';
+import {
+  parsePassageReference,
+  countPassageChapters,
+  MAX_PASSAGE_CHAPTERS,
+} from '@/lib/passage-reference';
+import { createApiHandler, STATIC_CACHE_CONTROL } from '@/lib/api-handler';
+import { VersesQuerySchema } from '@/lib/api-schemas';
+import { ValidationError } from '@/lib/errors';
+import { PassageResult } from '@/types/bible';
+
+export const GET = createApiHandler<PassageResult>(async request => {
+  const { searchParams } = new URL(request.url);
+  const { ref, translation } = VersesQuerySchema.parse(Object.fromEntries(searchParams));
+
+  const passages = parsePassageReference(ref);
+  if (countPassageChapters(passages) > MAX_PASSAGE_CHAPTERS) {
+    throw new ValidationError(`Passage is too long (max ${MAX_PASSAGE_CHAPTERS} chapters)`);
+  }
+
+  const result = await getBibleRepository(translation).getPassages(passages);
+  return result.success && result.data
+    ? { ...result, meta: { total: result.data.verseCount } }
+    : result;
+}, { cacheControl: STATIC_CACHE_CONTROL });
@@ -1,20 +1,38 @@
 /**
  * Chapter reading page - Displays Bible chapter with verses
- * Optimized for reading experience with navigation controls
+ * Optimized for reading experience with navigation controls.
+ * `?translation=` picks the text and `?parallel=` adds a second translation side by side.
  */
 
 import { Metadata } from "next";
 import { notFound } from "next/navigation";
 import Link from "next/link";
-import { ChevronLeft, ChevronRight, BookOpen } from "lucide-react";
+import { ChevronLeft, ChevronRight, BookOpen, Columns2 } from "lucide-react";
 import { Layout } from "@/components/layout";
 import { Button } from "@/components/ui/button";
 import { Chapter, BibleBreadcrumb } from "@/components/bible/verse-display";
-import { getBibleBook, getChapter } from "@/lib/bible-data";
-import { getBookById } from "@/lib/bible-data";
+import { ParallelChapter } from "@/components/bible/parallel-chapter";
+import { getChapter, getChapterCount, getBookById, getTranslations } from "@/lib/bible-data";
+import { cn } from "@/utils";
 
 interface ChapterPageProps {
   params: Promise<{ bookId: string; chapter: string }>;
+  searchParams: Promise<{ translation?: string; parallel?: string }>;
+}
+
+/**
+ * Query string that keeps the chosen translations across chapter links
+ */
+function toReadingQuery(translationId: string, defaultTranslationId: string, parallelId?: string): string {
+  const query = new URLSearchParams();
+  if (translationId !== defaultTranslationId) {
+    query.set("translation", translationId);
+  }
+  if (parallelId) {
+    query.set("parallel", parallelId);
+  }
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : "";
 }
 
 export async function generateMetadata({ params }: ChapterPageProps): Promise<Metadata> {
@@ -37,8 +55,9 @@ export async function generateMetadata({ params }: ChapterPageProps): Promise<Me
   };
 }
 
-export default async function ChapterPage({ params }: ChapterPageProps) {
+export default async function ChapterPage({ params, searchParams }: ChapterPageProps) {
   const { bookId, chapter } = await params;
+  const { translation, parallel } = await searchParams;
   
   // Get book metadata
   const bookMeta = getBookById(bookId);
@@ -46,25 +65,35 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
     notFound();
   }
 
+  // Unknown translation IDs fall back to the default text and single-translation reading
+  const translations = getTranslations();
+  const primaryTranslation = translations.find(item => item.id === translation) ?? translations[0];
+  const parallelTranslation = translations.find(item => item.id === parallel && item.id !== primaryTranslation.id);
+
   // Load chapter data
-  const chapterResponse = await getChapter(bookId, chapter);
+  const chapterResponse = await getChapter(bookId, chapter, primaryTranslation.id);
   if (!chapterResponse.success || !chapterResponse.data) {
     notFound();
   }
 
   const verses = chapterResponse.data;
+
+  // A chapter the second translation lacks shows as missing verses rather than an error
+  const parallelResponse = parallelTranslation
+    ? await getChapter(bookId, chapter, parallelTranslation.id)
+    : null;
   
-  // Get book data for navigation
-  const bookResponse = await getBibleBook(bookId);
-  const totalChapters = bookResponse.data ? Object.keys(bookResponse.data.chapters).length : 0;
+  // Get chapter count for navigation
+  const totalChapters = await getChapterCount(bookId, primaryTranslation.id);
   
   const currentChapterNum = parseInt(chapter);
   const prevChapter = currentChapterNum > 1 ? (currentChapterNum - 1).toString() : null;
   const nextChapter = currentChapterNum < totalChapters ? (currentChapterNum + 1).toString() : null;
+  const readingQuery = toReadingQuery(primaryTranslation.id, translations[0].id, parallelTranslation?.id);
 
   return (
     <Layout>
-      <div className="max-w-4xl mx-auto space-y-6">
+      <div className={cn("mx-auto space-y-6", parallelTranslation ? "max-w-6xl" : "max-w-4xl")}>
         {/* Navigation Header */}
         <div className="flex items-center justify-between">
           <Button asChild variant="ghost" size="sm">
@@ -77,7 +106,7 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
           <div className="flex items-center space-x-2">
             <Button asChild variant="outline" size="icon" disabled={!prevChapter}>
               {prevChapter ? (
-                <Link href={`/books/${bookId}/${prevChapter}`}>
+                <Link href={`/books/${bookId}/${prevChapter}${readingQuery}`}>
                   <ChevronLeft className="h-4 w-4" />
                 </Link>
               ) : (
@@ -93,7 +122,7 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
 
             <Button asChild variant="outline" size="icon" disabled={!nextChapter}>
               {nextChapter ? (
-                <Link href={`/books/${bookId}/${nextChapter}`}>
+                <Link href={`/books/${bookId}/${nextChapter}${readingQuery}`}>
                   <ChevronRight className="h-4 w-4" />
                 </Link>
               ) : (
@@ -111,17 +140,58 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
           chapter={chapter}
         />
 
+        {/* Parallel reading */}
+        {translations.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="flex items-center text-muted-foreground">
+              <Columns2 className="mr-2 h-4 w-4" />
+              Famakiana mifanila:
+            </span>
+            <Button asChild size="sm" variant={parallelTranslation ? "outline" : "default"}>
+              <Link href={`/books/${bookId}/${chapter}${toReadingQuery(primaryTranslation.id, translations[0].id)}`}>
+                {primaryTranslation.abbreviation} ihany
+              </Link>
+            </Button>
+            {translations
+              .filter(item => item.id !== primaryTranslation.id)
+              .map(item => (
+                <Button
+                  key={item.id}
+                  asChild
+                  size="sm"
+                  variant={parallelTranslation?.id === item.id ? "default" : "outline"}
+                >
+                  <Link
+                    href={`/books/${bookId}/${chapter}${toReadingQuery(primaryTranslation.id, translations[0].id, item.id)}`}
+                    title={item.name}
+                  >
+                    {primaryTranslation.abbreviation} + {item.abbreviation}
+                  </Link>
+                </Button>
+              ))}
+          </div>
+        )}
+
         {/* Chapter Content */}
         <div className="bg-background border rounded-lg p-6 shadow-sm">
-          <Chapter
-            bookName={bookMeta.name}
-            chapterNumber={chapter}
-            verses={verses}
-            showVerseNumbers={true}
-            showActions={true}
-            book={bookMeta.name}
-            bookId={bookId}
-          />
+          {parallelTranslation ? (
+            <ParallelChapter
+              bookName={bookMeta.name}
+              chapterNumber={chapter}
+              primary={{ translation: primaryTranslation, verses }}
+              secondary={{ translation: parallelTranslation, verses: parallelResponse?.data ?? {} }}
+            />
+          ) : (
+            <Chapter
+              bookName={bookMeta.name}
+              chapterNumber={chapter}
+              verses={verses}
+              showVerseNumbers={true}
+              showActions={true}
+              book={bookMeta.name}
+              bookId={bookId}
+            />
+          )}
         </div>
 
         {/* Chapter Navigation */}
@@ -129,7 +199,7 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
           <div>
             {prevChapter && (
               <Button asChild variant="outline">
-                <Link href={`/books/${bookId}/${prevChapter}`}>
+                <Link href={`/books/${bookId}/${prevChapter}${readingQuery}`}>
                   <ChevronLeft className="mr-2 h-4 w-4" />
                   Toko {prevChapter}
                 </Link>
@@ -146,7 +216,7 @@ export default async function ChapterPage({ params }: ChapterPageProps) {
           <div>
             {nextChapter && (
               <Button asChild variant="outline">
-                <Link href={`/books/${bookId}/${nextChapter}`}>
+                <Link href={`/books/${bookId}/${nextChapter}${readingQuery}`}>
                   Toko {nextChapter}
                   <ChevronRight className="ml-2 h-4 w-4" />
                 </Link>
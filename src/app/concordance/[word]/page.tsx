@@ -0,0 +1,83 @@
+/**
+ * Concordance entry page - Every form of a word with its occurrences
+ */
+
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ChevronLeft } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getConcordanceEntry } from "@/lib/bible-data";
+import { getIndexLetter } from "@/lib/concordance";
+import { formatNumber } from "@/utils";
+
+const REFERENCE_LIMIT = 100;
+
+interface ConcordanceEntryPageProps {
+  params: Promise<{ word: string }>;
+}
+
+export async function generateMetadata({ params }: ConcordanceEntryPageProps): Promise<Metadata> {
+  const { word } = await params;
+  return {
+    title: `${word} - Konkordansa - Ny Baiboly`,
+  };
+}
+
+export default async function ConcordanceEntryPage({ params }: ConcordanceEntryPageProps) {
+  const { word } = await params;
+  const response = await getConcordanceEntry(word, REFERENCE_LIMIT);
+  if (!response.success || !response.data) {
+    notFound();
+  }
+
+  const entry = response.data;
+
+  return (
+    <Layout>
+      <div className="space-y-8 max-w-5xl mx-auto">
+        <Button asChild variant="ghost" size="sm">
+          <Link href={`/concordance?letter=${encodeURIComponent(getIndexLetter(entry.lemma))}`}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Konkordansa
+          </Link>
+        </Button>
+
+        <section className="space-y-2">
+          <h1 className="text-4xl font-bold text-foreground">{entry.lemma}</h1>
+          <p className="text-muted-foreground">
+            Miseho {formatNumber(entry.count)} eo amin&apos;ny endrika {formatNumber(entry.forms.length)}
+          </p>
+        </section>
+
+        {entry.forms.map(form => (
+          <Card key={form.form} id={form.form}>
+            <CardHeader>
+              <CardTitle>{form.form}</CardTitle>
+              <CardDescription>
+                Miseho {formatNumber(form.count)}
+                {form.references.length === REFERENCE_LIMIT && ` — ireto ny andininy ${REFERENCE_LIMIT} voalohany`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {form.references.map(reference => (
+                  <li key={reference.reference}>
+                    <Link
+                      href={`/books/${reference.bookId}/${reference.chapter}#verse-${reference.verse}`}
+                      className="text-primary hover:underline"
+                    >
+                      {reference.reference}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Concordance page - A–Z index of every word in the Bible, grouped by root
+ */
+
+import { Metadata } from "next";
+import Link from "next/link";
+import { ListTree } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getConcordanceIndex } from "@/lib/bible-data";
+import { OTHER_LETTER } from "@/lib/concordance";
+import { formatNumber } from "@/utils";
+
+export const metadata: Metadata = {
+  title: "Konkordansa - Ny Baiboly",
+  description: "Ny teny rehetra ao amin'ny Baiboly Malagasy sy ny toerana misy azy",
+};
+
+interface ConcordancePageProps {
+  searchParams: Promise<{ letter?: string }>;
+}
+
+export default async function ConcordancePage({ searchParams }: ConcordancePageProps) {
+  const { letter } = await searchParams;
+  const requestedLetter = letter && /^[a-zA-Z#]$/.test(letter) ? letter : undefined;
+  const response = await getConcordanceIndex(requestedLetter);
+  const index = response.data;
+
+  return (
+    <Layout>
+      <div className="space-y-8 max-w-5xl mx-auto">
+        <section className="text-center space-y-4">
+          <h1 className="text-4xl font-bold text-foreground flex items-center justify-center gap-3">
+            <ListTree className="h-8 w-8" />
+            Konkordansa
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+            Ny teny rehetra ao amin&apos;ny Baiboly, voavondrona araka ny fototeniny
+            (ohatra: fitiavana, mitia ary tia).
+          </p>
+        </section>
+
+        {!index ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              Tsy azo ny konkordansa. Andramo indray afaka kelikely.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <nav aria-label="Litera" className="flex flex-wrap justify-center gap-2">
+              {index.letters.map(entry => (
+                <Link
+                  key={entry.letter}
+                  href={`/concordance?letter=${encodeURIComponent(entry.letter)}`}
+                  aria-current={entry.letter === index.letter ? "page" : undefined}
+                  className={`px-3 py-1 rounded-md border text-sm font-medium uppercase ${
+                    entry.letter === index.letter
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "border-border hover:bg-muted"
+                  }`}
+                >
+                  {entry.letter}
+                </Link>
+              ))}
+            </nav>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="uppercase">
+                  {index.letter === OTHER_LETTER ? "Hafa" : index.letter}
+                </CardTitle>
+                <CardDescription>Fototeny {formatNumber(index.lemmas.length)}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="grid sm:grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1">
+                  {index.lemmas.map(entry => (
+                    <li key={entry.lemma} className="flex items-baseline justify-between gap-2">
+                      <Link
+                        href={`/concordance/${encodeURIComponent(entry.lemma)}`}
+                        className="text-primary hover:underline"
+                      >
+                        {entry.lemma}
+                      </Link>
+                      <span className="text-sm text-muted-foreground">{formatNumber(entry.count)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+}
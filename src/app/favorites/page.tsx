@@ -8,64 +8,82 @@
 import * as React from 'react';
 import Link from 'next/link';
 import type { Route } from 'next';
-import { Heart, Trash2, BookOpen, Calendar } from 'lucide-react';
+import { Heart, Trash2, BookOpen, Calendar, GripVertical, X } from 'lucide-react';
 import { Layout } from '@/components/layout';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { formatDate } from '@/utils';
+import { cn, formatDate } from '@/utils';
 import { useFavorites, type Favorite } from '@/contexts/FavoritesContext';
-import { ALL_BIBLE_BOOKS } from '@/constants/bible';
+import { HighlightsList } from '@/components/favorites/HighlightsList';
+import { FavoritesFilterBar } from '@/components/favorites/FavoritesFilterBar';
+import { BulkActionsBar } from '@/components/favorites/BulkActionsBar';
+import { countTags, filterFavorites, FavoriteCollection } from '@/lib/favorite-collections';
 
-/**
- * Convert Malagasy book name or fileName to English book ID for URL routing
- */
-function getEnglishBookId(malagasyBookIdOrName: string): string {
-  // First, try to find by fileName (e.g., "genesisy" -> "genesis")
-  const bookByFileName = ALL_BIBLE_BOOKS.find(book => 
-    book.fileName.toLowerCase() === malagasyBookIdOrName.toLowerCase()
-  );
-  
-  if (bookByFileName) {
-    return bookByFileName.id;
-  }
-  
-  // Then try to find by Malagasy name (e.g., "Genesisy" -> "genesis")
-  const bookByName = ALL_BIBLE_BOOKS.find(book => 
-    book.name.toLowerCase() === malagasyBookIdOrName.toLowerCase()
-  );
-  
-  if (bookByName) {
-    return bookByName.id;
-  }
-  
-  // Fallback: try to clean up the input and match
-  const cleanInput = malagasyBookIdOrName
-    .toLowerCase()
-    .replace(/[^a-z0-9-]/g, '')
-    .replace(/-+/g, '-')
-    .replace(/^-|-$/g, '');
-    
-  const bookByCleanName = ALL_BIBLE_BOOKS.find(book => 
-    book.fileName === cleanInput || 
-    book.id === cleanInput ||
-    book.name.toLowerCase().replace(/[^a-z0-9-]/g, '').replace(/-+/g, '-') === cleanInput
+export default function FavoritesPage() {
+  const {
+    favorites,
+    loadError,
+    saveError,
+    removeFavorite,
+    clearAllFavorites,
+    exportFavorites,
+    importFavorites,
+    collections,
+    removeFavorites,
+    addTags,
+    removeTag,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    moveInCollection,
+  } = useFavorites();
+  const [collectionId, setCollectionId] = React.useState<string | undefined>();
+  const [tag, setTag] = React.useState<string | undefined>();
+  const [query, setQuery] = React.useState('');
+  const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
+  const [dragIndex, setDragIndex] = React.useState<number | null>(null);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+
+  const activeCollection = collections.find(collection => collection.id === collectionId);
+  const tags = React.useMemo(() => countTags(favorites), [favorites]);
+  const visibleFavorites = React.useMemo(
+    () => filterFavorites(favorites, { collection: activeCollection, tag, query }),
+    [favorites, activeCollection, tag, query]
   );
-  
-  if (bookByCleanName) {
-    return bookByCleanName.id;
-  }
-  
-  // If all else fails, return the input (hopefully it's already English)
-  console.warn(`Could not find English book ID for: ${malagasyBookIdOrName}`);
-  return malagasyBookIdOrName;
-}
+  // Dragging reorders the collection itself, so it is only offered on the unfiltered collection
+  const canReorder = Boolean(activeCollection) && !tag && !query.trim();
 
-export default function FavoritesPage() {
-  const { favorites, removeFavorite, clearAllFavorites, exportFavorites } = useFavorites();
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+  };
+
+  const handleDrop = (toIndex: number) => {
+    if (activeCollection && dragIndex !== null) {
+      moveInCollection(activeCollection.id, dragIndex, toIndex);
+    }
+    setDragIndex(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      importFavorites(JSON.parse(await file.text()));
+    } catch (error) {
+      console.error('Error importing favorites:', error);
+      alert('Tsy voavaky ilay rakitra.');
+    }
+  };
 
+  // Favorites carry canonical book IDs, which are also the route segments
   const getVerseUrl = (bookId: string, chapter: string, verse: string): Route => {
-    const englishBookId = getEnglishBookId(bookId);
-    return `/books/${englishBookId}/${chapter}#verse-${verse}` as Route;
+    return `/books/${bookId}/${chapter}#verse-${verse}` as Route;
   };
 
   return (
@@ -81,6 +99,22 @@ export default function FavoritesPage() {
           </p>
         </div>
 
+        {loadError && (
+          <Card className="border-destructive">
+            <CardContent className="pt-6 text-center text-destructive">
+              Tsy voavaky ny ankafizinao voatahiry. Avereno sokafana ny pejy.
+            </CardContent>
+          </Card>
+        )}
+
+        {saveError && (
+          <Card className="border-destructive">
+            <CardContent className="pt-6 text-center text-destructive">
+              Tsy voatahiry ny fanovana farany: {saveError.userMessage}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
           <Card>
@@ -122,6 +156,50 @@ export default function FavoritesPage() {
           </Card>
         </div>
 
+        {/* Filters */}
+        {favorites.length > 0 && (
+          <FavoritesFilterBar
+            collections={collections}
+            tags={tags}
+            collectionId={collectionId}
+            tag={tag}
+            query={query}
+            onCollectionChange={setCollectionId}
+            onTagChange={setTag}
+            onQueryChange={setQuery}
+            onCreateCollection={name => {
+              const collection = createCollection(name);
+              if (collection && selectedIds.length > 0) {
+                addToCollection(collection.id, selectedIds);
+              }
+            }}
+            onRenameCollection={renameCollection}
+            onDeleteCollection={deleteCollection}
+          />
+        )}
+
+        {/* Bulk actions */}
+        {selectedIds.length > 0 && (
+          <BulkActionsBar
+            selectedCount={selectedIds.length}
+            collections={collections}
+            activeCollection={activeCollection}
+            onAddTag={newTag => addTags(selectedIds, [newTag])}
+            onAddToCollection={id => addToCollection(id, selectedIds)}
+            onRemoveFromCollection={id => {
+              removeFromCollection(id, selectedIds);
+              setSelectedIds([]);
+            }}
+            onDelete={() => {
+              if (confirm(`Hofafana ve ireo ankafiziko ${selectedIds.length} voafidy?`)) {
+                removeFavorites(selectedIds);
+                setSelectedIds([]);
+              }
+            }}
+            onClear={() => setSelectedIds([])}
+          />
+        )}
+
         {/* Favorites List */}
         {favorites.length === 0 ? (
           <Card>
@@ -145,21 +223,55 @@ export default function FavoritesPage() {
               </div>
             </CardContent>
           </Card>
+        ) : visibleFavorites.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="py-8 text-center text-muted-foreground">
+                {activeCollection && activeCollection.favoriteIds.length === 0
+                  ? 'Mbola foana ity fitambarana ity. Safidio ny ankafiziko dia ampidiro eto.'
+                  : 'Tsy misy ankafiziko mifanaraka amin\'ny sivana'}
+              </p>
+            </CardContent>
+          </Card>
         ) : (
           <div className="space-y-4">
-            {favorites
-              .sort((a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime())
-              .map((favorite) => (
-                <FavoriteCard
-                  key={favorite.id}
-                  favorite={favorite}
-                  onRemove={() => removeFavorite(favorite.id)}
-                  verseUrl={getVerseUrl(favorite.bookId, favorite.chapter, favorite.verse)}
-                />
-              ))}
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{visibleFavorites.length} ankafiziko</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setSelectedIds(
+                  selectedIds.length === visibleFavorites.length ? [] : visibleFavorites.map(favorite => favorite.id)
+                )}
+              >
+                {selectedIds.length === visibleFavorites.length ? 'Aoka ny safidy' : 'Safidio daholo'}
+              </Button>
+            </div>
+
+            {visibleFavorites.map((favorite, index) => (
+              <FavoriteCard
+                key={favorite.id}
+                favorite={favorite}
+                collections={collections.filter(collection => collection.favoriteIds.includes(favorite.id))}
+                selected={selectedIds.includes(favorite.id)}
+                onSelect={() => toggleSelected(favorite.id)}
+                onRemove={() => removeFavorite(favorite.id)}
+                onRemoveTag={removedTag => removeTag([favorite.id], removedTag)}
+                verseUrl={getVerseUrl(favorite.bookId, favorite.chapter, favorite.verse)}
+                dragHandlers={canReorder ? {
+                  isDragging: dragIndex === index,
+                  onDragStart: () => setDragIndex(index),
+                  onDragEnd: () => setDragIndex(null),
+                  onDrop: () => handleDrop(index),
+                } : undefined}
+              />
+            ))}
           </div>
         )}
 
+        {/* Highlights */}
+        <HighlightsList />
+
         {/* Import/Export Actions */}
         {favorites.length > 0 && (
           <Card>
@@ -176,6 +288,17 @@ export default function FavoritesPage() {
                 >
                   Halaina
                 </Button>
+
+                <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+                  Ampidiro
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
                 
                 <Button 
                   variant="outline"
@@ -203,15 +326,59 @@ export default function FavoritesPage() {
  */
 interface FavoriteCardProps {
   favorite: Favorite;
+  collections: FavoriteCollection[];
+  selected: boolean;
+  onSelect: () => void;
   onRemove: () => void;
+  onRemoveTag: (tag: string) => void;
   verseUrl: Route;
+  /** Present when the card can be dragged to reorder its collection */
+  dragHandlers?: {
+    isDragging: boolean;
+    onDragStart: () => void;
+    onDragEnd: () => void;
+    onDrop: () => void;
+  };
 }
 
-function FavoriteCard({ favorite, onRemove, verseUrl }: FavoriteCardProps) {
+function FavoriteCard({
+  favorite,
+  collections,
+  selected,
+  onSelect,
+  onRemove,
+  onRemoveTag,
+  verseUrl,
+  dragHandlers,
+}: FavoriteCardProps) {
   return (
-    <Card className="group hover:shadow-md transition-shadow">
+    <Card
+      className={cn(
+        'group hover:shadow-md transition-shadow',
+        selected && 'ring-2 ring-primary/60',
+        dragHandlers?.isDragging && 'opacity-50'
+      )}
+      draggable={Boolean(dragHandlers)}
+      onDragStart={dragHandlers?.onDragStart}
+      onDragEnd={dragHandlers?.onDragEnd}
+      onDragOver={dragHandlers ? event => event.preventDefault() : undefined}
+      onDrop={dragHandlers?.onDrop}
+    >
       <CardContent className="pt-6">
-        <div className="flex items-start justify-between">
+        <div className="flex items-start gap-3">
+          <div className="flex flex-col items-center gap-2 pt-1">
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={onSelect}
+              aria-label={`Safidio ${favorite.reference}`}
+              className="h-4 w-4"
+            />
+            {dragHandlers && (
+              <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" aria-label="Sintony hamindra" />
+            )}
+          </div>
+
           <div className="flex-1 space-y-3">
             {/* Reference */}
             <div className="flex items-center space-x-2 text-sm text-muted-foreground">
@@ -230,6 +397,30 @@ function FavoriteCard({ favorite, onRemove, verseUrl }: FavoriteCardProps) {
               </p>
             </Link>
 
+            {/* Tags and collections */}
+            {((favorite.tags?.length ?? 0) > 0 || collections.length > 0) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {favorite.tags?.map(tag => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => onRemoveTag(tag)}
+                      aria-label={`Esory ny tikety ${tag}`}
+                      className="hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+                {collections.map(collection => (
+                  <Badge key={collection.id} variant="outline">
+                    {collection.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
             {/* Note */}
             {favorite.note && (
               <div className="bg-accent rounded-md p-3">
@@ -0,0 +1,212 @@
+/**
+ * Notes page - Study notes written on verses and passages
+ * `?ref=` opens the editor on a reference, `?edit=` on an existing note
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { ChevronDown, ChevronUp, NotebookPen, Pencil, Search, Trash2 } from 'lucide-react';
+import { Layout } from '@/components/layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { NoteEditor } from '@/components/notes/NoteEditor';
+import { getPassageHref, NoteMarkdown } from '@/components/notes/NoteMarkdown';
+import { formatBibleReference, formatDate } from '@/utils';
+import { getNoteReferences } from '@/lib/note-markdown';
+import { deleteStudyNote, getStudyNotes, searchStudyNotes, StudyNote } from '@/lib/study-notes';
+import { AppError } from '@/lib/errors';
+
+interface NotesPageProps {
+  searchParams: Promise<{ ref?: string; edit?: string; q?: string }>;
+}
+
+export default function NotesPage({ searchParams }: NotesPageProps) {
+  const params = React.use(searchParams);
+  const [notes, setNotes] = React.useState<StudyNote[]>([]);
+  const [query, setQuery] = React.useState(params.q ?? '');
+  const [editingId, setEditingId] = React.useState<string | null>(params.edit ?? null);
+
+  React.useEffect(() => {
+    getStudyNotes().then(setNotes);
+  }, []);
+
+  const visibleNotes = React.useMemo(() => searchStudyNotes(notes, query), [notes, query]);
+  const editingNote = notes.find(note => note.id === editingId);
+
+  const handleSaved = async () => {
+    setNotes(await getStudyNotes());
+    setEditingId(null);
+  };
+
+  const handleDelete = async (note: StudyNote) => {
+    if (confirm(`Hofafana ve ny fanamarihana amin'ny ${note.reference}?`)) {
+      try {
+        await deleteStudyNote(note.id);
+      } catch (error) {
+        alert(AppError.fromError(error as Error).userMessage);
+      }
+      setNotes(await getStudyNotes());
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Page Header */}
+        <div className="text-center space-y-4">
+          <h1 className="text-4xl font-bold text-foreground">
+            Fanamarihana
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            Ireo fanamarihana nosoratanao momba ny andinin-tsoratra
+          </p>
+        </div>
+
+        {/* Editor */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <NotebookPen className="mr-2 h-5 w-5" />
+              {editingNote ? `Hanova fanamarihana: ${editingNote.reference}` : 'Fanamarihana vaovao'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NoteEditor
+              key={editingNote?.id ?? 'new'}
+              note={editingNote}
+              initialReference={params.ref}
+              onSaved={handleSaved}
+              onCancel={editingNote ? () => setEditingId(null) : undefined}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Hitady teny na andininy, oh: fitiavana, Jaona 3"
+            className="pl-9"
+          />
+        </div>
+
+        {/* Notes List */}
+        {visibleNotes.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="py-8 text-center text-muted-foreground">
+                {notes.length === 0 ? 'Mbola tsy misy fanamarihana' : 'Tsy misy fanamarihana mifanaraka'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {visibleNotes.map(note => (
+              <NoteCard
+                key={note.id}
+                note={note}
+                onEdit={() => {
+                  setEditingId(note.id);
+                  window.scrollTo({ top: 0, behavior: 'smooth' });
+                }}
+                onDelete={() => handleDelete(note)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+/**
+ * Individual note card with its cross-links and history
+ */
+interface NoteCardProps {
+  note: StudyNote;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function NoteCard({ note, onEdit, onDelete }: NoteCardProps) {
+  const [showHistory, setShowHistory] = React.useState(false);
+  const references = React.useMemo(() => getNoteReferences(note.body), [note.body]);
+
+  return (
+    <Card className="group">
+      <CardContent className="pt-6 space-y-3">
+        {/* Reference and dates */}
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <Link href={getPassageHref(note.passage) as Route} className="font-medium text-primary hover:underline">
+            {note.reference}
+          </Link>
+          <span className="text-xs">
+            Nosoratana {formatDate(new Date(note.createdAt))}
+            {note.updatedAt !== note.createdAt && ` · Novaina ${formatDate(new Date(note.updatedAt))}`}
+          </span>
+        </div>
+
+        {/* Body */}
+        <NoteMarkdown markdown={note.body} className="text-foreground" />
+
+        {/* Cross-links */}
+        {references.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Andininy voatonona:</span>
+            {references.map((passage, index) => (
+              <Link
+                key={index}
+                href={getPassageHref(passage) as Route}
+                className="text-primary hover:underline"
+              >
+                {formatBibleReference(passage)}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {/* History */}
+        {showHistory && (
+          <div className="space-y-2 border-l-2 pl-3">
+            {note.history.map(revision => (
+              <div key={revision.replacedAt} className="space-y-1">
+                <div className="text-xs text-muted-foreground">
+                  Soratra nosoloina {formatDate(new Date(revision.replacedAt))}
+                </div>
+                <NoteMarkdown markdown={revision.body} className="text-sm text-muted-foreground" />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={onEdit}>
+            <Pencil className="mr-1 h-3 w-3" />
+            Ovay
+          </Button>
+          {note.history.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setShowHistory(value => !value)}>
+              {showHistory ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+              Tantara ({note.history.length})
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onDelete}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { RefreshCw, Book, Share2 } from 'lucide-react';
 import { DetailedFavoriteButton } from '@/components/favorites/FavoriteButton';
 import { ALL_BIBLE_BOOKS } from '@/constants/bible';
+import { getUserPreferences } from '@/lib/preferences';
 
 /**
  * Convert Malagasy book name to English book ID for consistency
@@ -60,7 +61,8 @@ const RandomVersesPage = () => {
     setError(null);
     
     try {
-      const response = await fetch('/api/random-verse');
+      const params = new URLSearchParams({ translation: (await getUserPreferences()).translation });
+      const response = await fetch(`/api/random-verse?${params}`);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -11,33 +11,76 @@ import { Layout } from '@/components/layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { VerseList } from '@/components/bible/verse-display';
-import { Testament } from '@/types/bible';
+import { SearchFacetSidebar, ChapterRange } from '@/components/search/SearchFacetSidebar';
+import { Testament, SearchHit, SearchFacets } from '@/types/bible';
 import { debounce } from '@/utils';
-
-interface SearchResult {
-  book: { id: string; name: string; testament: Testament };
-  chapter: string;
-  verse: string;
-  text: string;
-  relevance: number;
-}
+import { getUserPreferences } from '@/lib/preferences';
 
 export default function SearchPage() {
   const [query, setQuery] = React.useState('');
-  const [results, setResults] = React.useState<SearchResult[]>([]);
+  const [results, setResults] = React.useState<SearchHit[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [facets, setFacets] = React.useState<SearchFacets | null>(null);
   const [loading, setLoading] = React.useState(false);
+  const [loadingMore, setLoadingMore] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
   const [filters, setFilters] = React.useState({
     testament: '' as '' | Testament,
     caseSensitive: false,
+    stemming: false,
+    book: null as string | null,
+    chapters: null as ChapterRange | null,
   });
   const [recentSearches, setRecentSearches] = React.useState<string[]>([]);
+  // The request in flight; a newer search or page aborts it so late responses never overwrite newer results
+  const requestRef = React.useRef<AbortController | null>(null);
+
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  };
+
+  // Fetch one page of results; a cursor continues the previous search
+  const fetchResults = React.useCallback(async (searchQuery: string, signal: AbortSignal, cursor?: string) => {
+    const params = new URLSearchParams({
+      q: searchQuery,
+      caseSensitive: filters.caseSensitive.toString(),
+      stemming: filters.stemming.toString(),
+      limit: '50',
+      translation: (await getUserPreferences()).translation,
+    });
+
+    if (filters.testament !== '') {
+      params.append('testament', filters.testament === Testament.OLD ? 'old' : 'new');
+    }
+    if (filters.book) {
+      params.append('books', filters.book);
+    }
+    if (filters.chapters) {
+      params.append('chapterFrom', filters.chapters.from.toString());
+      params.append('chapterTo', filters.chapters.to.toString());
+    }
+    if (cursor) {
+      params.append('cursor', cursor);
+    }
+
+    const response = await fetch(`/api/search?${params.toString()}`, { signal });
+    return response.json();
+  }, [filters]);
 
   // Debounced search function
   const debouncedSearch = React.useMemo(
     () => debounce((searchQuery: string) => {
+      const signal = startRequest();
+
       if (!searchQuery.trim()) {
+        setLoading(false);
         setResults([]);
+        setTotal(0);
+        setNextCursor(null);
+        setFacets(null);
         return;
       }
 
@@ -47,21 +90,16 @@ export default function SearchPage() {
       (async () => {
         try {
           // Use API route for search
-          const params = new URLSearchParams({
-            q: searchQuery,
-            caseSensitive: filters.caseSensitive.toString(),
-            limit: '50',
-          });
-
-          if (filters.testament !== '') {
-            params.append('testament', filters.testament === Testament.OLD ? 'old' : 'new');
+          const searchResponse = await fetchResults(searchQuery, signal);
+          if (signal.aborted) {
+            return;
           }
 
-          const response = await fetch(`/api/search?${params.toString()}`);
-          const searchResponse = await response.json();
-
           if (searchResponse.success && searchResponse.data) {
-            setResults(searchResponse.data);
+            setResults(searchResponse.data.verses);
+            setTotal(searchResponse.data.total);
+            setNextCursor(searchResponse.data.nextCursor);
+            setFacets(searchResponse.data.facets);
             // Add to recent searches
             setRecentSearches(prev => {
               const updated = [searchQuery, ...prev.filter(s => s !== searchQuery)];
@@ -71,15 +109,55 @@ export default function SearchPage() {
             setError(searchResponse.error || 'Nisy olana tamin\'ny fikarohana');
           }
         } catch {
-          setError('Nisy olana tamin\'ny fikarohana');
+          if (!signal.aborted) {
+            setError('Nisy olana tamin\'ny fikarohana');
+          }
         } finally {
-          setLoading(false);
+          if (!signal.aborted) {
+            setLoading(false);
+          }
         }
       })();
     }, 300),
-    [filters]
+    [fetchResults]
   );
 
+  // Append the next page of results
+  const handleLoadMore = async () => {
+    if (!nextCursor) {
+      return;
+    }
+
+    const signal = startRequest();
+    setLoadingMore(true);
+    try {
+      const searchResponse = await fetchResults(query, signal, nextCursor);
+      if (signal.aborted) {
+        return;
+      }
+      if (searchResponse.success && searchResponse.data) {
+        setResults(prev => [...prev, ...searchResponse.data.verses]);
+        setNextCursor(searchResponse.data.nextCursor);
+      } else {
+        setError(searchResponse.error || 'Nisy olana tamin\'ny fikarohana');
+      }
+    } catch {
+      if (!signal.aborted) {
+        setError('Nisy olana tamin\'ny fikarohana');
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Re-run the current search when filters change (e.g. from the facet sidebar)
+  React.useEffect(() => {
+    if (query.trim()) {
+      debouncedSearch(query);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- typing already triggers its own search
+  }, [debouncedSearch]);
+
   // Handle search input change
   const handleSearchChange = (value: string) => {
     setQuery(value);
@@ -100,7 +178,7 @@ export default function SearchPage() {
 
   return (
     <Layout>
-      <div className="max-w-4xl mx-auto space-y-6">
+      <div className="max-w-6xl mx-auto space-y-6">
         {/* Page Header */}
         <div className="text-center space-y-4">
           <h1 className="text-4xl font-bold text-foreground">
@@ -153,6 +231,16 @@ export default function SearchPage() {
                   />
                   <span>Tsy manaiky ny harena</span>
                 </label>
+
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={filters.stemming}
+                    onChange={(e) => setFilters(prev => ({ ...prev, stemming: e.target.checked }))}
+                    className="rounded border-input"
+                  />
+                  <span>Tadiavo araka ny fototeny</span>
+                </label>
               </div>
             </div>
           </CardContent>
@@ -203,51 +291,75 @@ export default function SearchPage() {
           </Card>
         )}
 
-        {/* Results */}
-        {!loading && !error && results.length > 0 && (
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center text-lg">
-                <BookOpen className="mr-2 h-5 w-5" />
-                Vokatra ({results.length})
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <VerseList
-                verses={results.map(result => ({
-                  book: result.book.name,
-                  chapter: result.chapter,
-                  verse: result.verse,
-                  text: result.text,
+        {/* Results with facet sidebar */}
+        {!loading && !error && query && (
+          <div className="grid gap-6 lg:grid-cols-[16rem_1fr] items-start">
+            {facets && (
+              <SearchFacetSidebar
+                facets={facets}
+                selectedTestament={filters.testament === '' ? '' : filters.testament === Testament.OLD ? 'old' : 'new'}
+                selectedBook={filters.book}
+                selectedChapters={filters.chapters}
+                onTestamentChange={(testament) => setFilters(prev => ({
+                  ...prev,
+                  testament: testament === '' ? '' : testament === 'old' ? Testament.OLD : Testament.NEW,
                 }))}
-                onVerseClick={(book, chapter, verse) => {
-                  // Find the book ID from results
-                  const result = results.find(r => r.book.name === book && r.chapter === chapter && r.verse === verse);
-                  if (result) {
-                    handleVerseClick(result.book.id, chapter, verse);
-                  }
-                }}
-                searchTerm={query}
+                onBookChange={(book) => setFilters(prev => ({ ...prev, book }))}
+                onChaptersChange={(chapters) => setFilters(prev => ({ ...prev, chapters }))}
               />
-            </CardContent>
-          </Card>
-        )}
+            )}
 
-        {/* No Results */}
-        {!loading && !error && query && results.length === 0 && (
-          <Card>
-            <CardContent className="pt-6">
-              <div className="text-center py-8">
-                <BookOpen className="mx-auto h-12 w-12 text-muted-foreground/50 mb-4" />
-                <h3 className="text-lg font-medium text-foreground mb-2">
-                  Tsy misy vokatra
-                </h3>
-                <p className="text-muted-foreground">
-                  Andramo teny hafa na jereo ny fikarohana farany
-                </p>
-              </div>
-            </CardContent>
-          </Card>
+            <div className="space-y-6 lg:col-start-2">
+              {/* Results */}
+              {results.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center text-lg">
+                      <BookOpen className="mr-2 h-5 w-5" />
+                      Vokatra ({results.length} / {total})
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <VerseList
+                      verses={results}
+                      onVerseClick={(book, chapter, verse) => {
+                        // Find the book ID from results
+                        const result = results.find(r => r.book === book && r.chapter === chapter && r.verse === verse);
+                        if (result) {
+                          handleVerseClick(result.bookId, chapter, verse);
+                        }
+                      }}
+                      searchTerm={query}
+                    />
+                    {nextCursor && (
+                      <div className="mt-6 text-center">
+                        <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                          {loadingMore ? 'Mitady...' : 'Hijery bebe kokoa'}
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* No Results */}
+              {results.length === 0 && (
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-center py-8">
+                      <BookOpen className="mx-auto h-12 w-12 text-muted-foreground/50 mb-4" />
+                      <h3 className="text-lg font-medium text-foreground mb-2">
+                        Tsy misy vokatra
+                      </h3>
+                      <p className="text-muted-foreground">
+                        Andramo teny hafa na jereo ny fikarohana farany
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
         )}
 
         {/* Search Tips */}
@@ -261,6 +373,7 @@ export default function SearchPage() {
               <p>• Andramo teny samihafa raha tsy mahita vokatra</p>
               <p>• Ampiasao ny sivana hahafahana mikendry testameta manokana</p>
               <p>• Ny fikarohana dia tsy manaiky ny harena ka ny "Andriamanitra" sy "andriamanitra" dia mitovy</p>
+              <p>• Miaraka amin'ny "fototeny", ny "fitiavana" dia mahita koa ny "tia" sy "mitia"</p>
             </CardContent>
           </Card>
         )}
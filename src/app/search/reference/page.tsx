@@ -105,7 +105,7 @@ const SearchReferencePage: React.FC = () => {
       setSearchResult(data);
       
       // Save to search history
-      const queryString = `${reference.book} ${reference.chapter}:${
+      const queryString = `${data.book ?? reference.book} ${reference.chapter}:${
         reference.verses.map(v => 
           typeof v === 'number' ? v.toString() : `${v.start}${v.end ? `-${v.end}` : ''}`
         ).join(',')
@@ -18,7 +18,8 @@ import {
   RotateCcw,
   Sun,
   Moon,
-  Monitor
+  Monitor,
+  Languages
 } from 'lucide-react';
 import {
   getUserPreferences,
@@ -28,14 +29,44 @@ import {
   importPreferences,
   type UserPreferences,
 } from '@/lib/preferences';
+import { userStorage, type UserStorageKind } from '@/lib/user-storage';
+import { AppError } from '@/lib/errors';
+import { ApiResponse, Translation } from '@/types/bible';
+
+const STORAGE_KIND_NAMES: Record<UserStorageKind, string> = {
+  indexeddb: 'IndexedDB',
+  localstorage: 'localStorage',
+  memory: 'fitadidiana vonjimaika',
+};
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
 export default function SettingsPage() {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [importing, setImporting] = useState(false);
+  const [translations, setTranslations] = useState<Translation[]>([]);
+  const [storage, setStorage] = useState<{ kind: UserStorageKind; usage?: number; quota?: number } | null>(null);
 
   // Load preferences on mount
   useEffect(() => {
-    setPreferences(getUserPreferences());
+    getUserPreferences().then(setPreferences);
+  }, []);
+
+  // Show where user data is kept and how much room is left
+  useEffect(() => {
+    Promise.all([userStorage.getKind(), userStorage.getEstimate()])
+      .then(([kind, estimate]) => setStorage({ kind, ...estimate }))
+      .catch(error => console.error('Error reading storage estimate:', error));
+  }, []);
+
+  // Load the translations the server offers
+  useEffect(() => {
+    fetch('/api/translations')
+      .then(response => response.json() as Promise<ApiResponse<Translation[]>>)
+      .then(body => setTranslations(body.data ?? []))
+      .catch(error => console.error('Error loading translations:', error));
   }, []);
 
   const handlePreferenceChange = <K extends keyof UserPreferences>(
@@ -46,18 +77,25 @@ export default function SettingsPage() {
     
     const updated = { ...preferences, [key]: value };
     setPreferences(updated);
-    updatePreference(key, value);
+    updatePreference(key, value).catch(error => {
+      setPreferences(preferences);
+      alert(AppError.fromError(error as Error).userMessage);
+    });
   };
 
-  const handleReset = () => {
+  const handleReset = async () => {
     if (confirm('Miverina amin\'ny safidy tany am-boalohany ve ianao?')) {
-      resetPreferences();
-      setPreferences(getUserPreferences());
+      try {
+        await resetPreferences();
+      } catch (error) {
+        alert(AppError.fromError(error as Error).userMessage);
+      }
+      setPreferences(await getUserPreferences());
     }
   };
 
-  const handleExport = () => {
-    const data = exportPreferences();
+  const handleExport = async () => {
+    const data = await exportPreferences();
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -77,17 +115,17 @@ export default function SettingsPage() {
 
       setImporting(true);
       const reader = new FileReader();
-      reader.onload = (event) => {
+      reader.onload = async (event) => {
         try {
           const jsonString = event.target?.result as string;
-          if (importPreferences(jsonString)) {
-            setPreferences(getUserPreferences());
+          if (await importPreferences(jsonString)) {
+            setPreferences(await getUserPreferences());
             alert('Tafiditra soa aman-tsara ny safidy!');
           } else {
             alert('Nisy olana tamin\'ny fampidirana. Jereo ny rakitra.');
           }
-        } catch {
-          alert('Nisy olana tamin\'ny fampidirana ny safidy.');
+        } catch (error) {
+          alert(error instanceof AppError ? error.userMessage : 'Nisy olana tamin\'ny fampidirana ny safidy.');
         } finally {
           setImporting(false);
         }
@@ -121,6 +159,38 @@ export default function SettingsPage() {
           </p>
         </div>
 
+        {/* Translation */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Languages className="mr-2 h-5 w-5" />
+              Dikan-teny
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Ny dikan-teny ampiasaina amin&apos;ny fikarohana, ny andininy kisendrasendra ary ny andininy mifandraika
+            </p>
+            {translations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Mamaky ny dikan-teny...</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {translations.map(translation => (
+                  <Button
+                    key={translation.id}
+                    variant={preferences.translation === translation.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => handlePreferenceChange('translation', translation.id)}
+                    title={`${translation.language} — ${translation.license}`}
+                  >
+                    {translation.name} ({translation.abbreviation})
+                  </Button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Reading Preferences */}
         <Card>
           <CardHeader>
@@ -328,6 +398,13 @@ export default function SettingsPage() {
                 Averina amin\'ny voalohany
               </Button>
             </div>
+
+            {storage && (
+              <p className="mt-4 text-sm text-muted-foreground">
+                Voatahiry ao amin&apos;ny {STORAGE_KIND_NAMES[storage.kind]} ny angon-drakitrao
+                {storage.quota ? ` (${formatMegabytes(storage.usage ?? 0)} amin'ny ${formatMegabytes(storage.quota)})` : ''}
+              </p>
+            )}
           </CardContent>
         </Card>
 
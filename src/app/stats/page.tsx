@@ -0,0 +1,218 @@
+/**
+ * Statistics page - Chapter, verse and word counts computed from the Bible data
+ */
+
+import { Metadata } from "next";
+import Link from "next/link";
+import { BarChart3, BookOpen, FileText, Hash, Type } from "lucide-react";
+import { Layout } from "@/components/layout";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getCorpusStats } from "@/lib/bible-data";
+import { formatNumber } from "@/utils";
+import { ChapterLengthRecord, VerseLengthRecord } from "@/types/bible";
+
+export const metadata: Metadata = {
+  title: "Antontan'isa - Ny Baiboly",
+  description: "Isan'ny boky, toko, andininy ary teny ao amin'ny Baiboly Malagasy",
+};
+
+// Recompute the figures hourly, in step with the corpus statistics cache
+export const revalidate = 3600;
+
+const TOP_WORD_COUNT = 50;
+
+function ChapterRecord({ label, record }: { label: string; record: ChapterLengthRecord | null }) {
+  if (!record) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h4 className="font-semibold text-foreground">{label}</h4>
+      <Link href={`/books/${record.bookId}/${record.chapter}`} className="text-primary hover:underline">
+        {record.bookName} {record.chapter}
+      </Link>
+      <span className="text-muted-foreground"> — andininy {formatNumber(record.verseCount)}</span>
+    </div>
+  );
+}
+
+function VerseRecord({ label, record }: { label: string; record: VerseLengthRecord | null }) {
+  if (!record) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h4 className="font-semibold text-foreground">{label}</h4>
+      <Link
+        href={`/books/${record.bookId}/${record.chapter}#verse-${record.verse}`}
+        className="text-primary hover:underline"
+      >
+        {record.bookName} {record.chapter}:{record.verse}
+      </Link>
+      <span className="text-muted-foreground"> — teny {formatNumber(record.wordCount)}</span>
+      <p className="text-sm text-muted-foreground mt-1 italic">{record.text}</p>
+    </div>
+  );
+}
+
+export default async function StatsPage() {
+  const stats = await getCorpusStats(TOP_WORD_COUNT);
+
+  const totals = [
+    { label: "Boky", value: stats.totalBooks, icon: <BookOpen className="h-5 w-5 text-blue-500" /> },
+    { label: "Toko", value: stats.totalChapters, icon: <FileText className="h-5 w-5 text-green-500" /> },
+    { label: "Andininy", value: stats.totalVerses, icon: <Hash className="h-5 w-5 text-purple-500" /> },
+    { label: "Teny", value: stats.totalWords, icon: <Type className="h-5 w-5 text-orange-500" /> },
+    { label: "Teny samihafa", value: stats.uniqueWords, icon: <Type className="h-5 w-5 text-red-500" /> },
+  ];
+
+  return (
+    <Layout>
+      <div className="space-y-10 max-w-5xl mx-auto">
+        <section className="text-center space-y-4">
+          <h1 className="text-4xl font-bold text-foreground flex items-center justify-center gap-3">
+            <BarChart3 className="h-8 w-8" />
+            Antontan&apos;isa
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+            Isa voaisa mivantana avy amin&apos;ny angon-drakitra Baiboly. Ny teny dia isaina
+            araka ny fizarana ampiasain&apos;ny fikarohana (n&apos;ny = n + ny).
+          </p>
+        </section>
+
+        {stats.failedBooks.length > 0 && (
+          <p className="text-center text-sm text-destructive">
+            Tsy feno ireo isa ireo: boky {formatNumber(stats.failedBooks.length)} no tsy voavaky.
+          </p>
+        )}
+
+        <section className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {totals.map(total => (
+            <Card key={total.label}>
+              <CardContent className="pt-6 text-center space-y-1">
+                <div className="flex justify-center">{total.icon}</div>
+                <div className="text-2xl font-bold text-foreground">{formatNumber(total.value)}</div>
+                <div className="text-sm text-muted-foreground">{total.label}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </section>
+
+        <section>
+          <Card>
+            <CardHeader>
+              <CardTitle>Isa isaky ny Testameta</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full border-collapse border border-border">
+                <thead>
+                  <tr className="bg-muted">
+                    <th className="border border-border px-4 py-2 text-left">Testameta</th>
+                    <th className="border border-border px-4 py-2 text-right">Boky</th>
+                    <th className="border border-border px-4 py-2 text-right">Toko</th>
+                    <th className="border border-border px-4 py-2 text-right">Andininy</th>
+                    <th className="border border-border px-4 py-2 text-right">Teny</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.testaments.map(testament => (
+                    <tr key={testament.testamentId}>
+                      <td className="border border-border px-4 py-2">{testament.name}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(testament.books)}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(testament.chapters)}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(testament.verses)}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(testament.words)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Toko</CardTitle>
+              <CardDescription>Araka ny isan&apos;ny andininy</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ChapterRecord label="Toko lava indrindra" record={stats.longestChapter} />
+              <ChapterRecord label="Toko fohy indrindra" record={stats.shortestChapter} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Andininy</CardTitle>
+              <CardDescription>Araka ny isan&apos;ny teny</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <VerseRecord label="Andininy lava indrindra" record={stats.longestVerse} />
+              <VerseRecord label="Andininy fohy indrindra" record={stats.shortestVerse} />
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <Card>
+            <CardHeader>
+              <CardTitle>Teny {TOP_WORD_COUNT} miverimberina indrindra</CardTitle>
+              <CardDescription>Tsy miankina amin&apos;ny sora-baventy sy ny tsindry</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="flex flex-wrap gap-2">
+                {stats.topWords.map((entry, index) => (
+                  <li key={entry.word}>
+                    <Badge variant="secondary" className="text-sm">
+                      <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                      {entry.word}
+                      <span className="ml-2 font-normal">{formatNumber(entry.count)}</span>
+                    </Badge>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </section>
+
+        <section>
+          <Card>
+            <CardHeader>
+              <CardTitle>Isa isaky ny boky</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full border-collapse border border-border">
+                <thead>
+                  <tr className="bg-muted">
+                    <th className="border border-border px-4 py-2 text-left">Boky</th>
+                    <th className="border border-border px-4 py-2 text-right">Toko</th>
+                    <th className="border border-border px-4 py-2 text-right">Andininy</th>
+                    <th className="border border-border px-4 py-2 text-right">Teny</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.books.map(book => (
+                    <tr key={book.bookId}>
+                      <td className="border border-border px-4 py-2">
+                        <Link href={`/books/${book.bookId}`} className="text-primary hover:underline">
+                          {book.bookName}
+                        </Link>
+                      </td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(book.chapters)}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(book.verses)}</td>
+                      <td className="border border-border px-4 py-2 text-right">{formatNumber(book.words)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </section>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * One API operation rendered from the OpenAPI document
+ */
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { HttpMethod, JsonSchema, OpenApiOperation, OpenApiParameter } from '@/lib/openapi';
+
+interface OpenApiOperationCardProps {
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+  serverUrl: string;
+}
+
+const METHOD_BADGE_CLASS_NAMES: Record<HttpMethod, string> = {
+  get: 'bg-blue-100 text-blue-800',
+  post: 'bg-green-100 text-green-800',
+};
+
+/**
+ * Short type label for a parameter schema, e.g. `integer`, `"old" | "new"`
+ */
+function describeType(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  return Array.isArray(schema.type) ? schema.type.join(' | ') : String(schema.type ?? 'any');
+}
+
+/**
+ * Constraint notes for a parameter schema, e.g. `max 500, default 50`
+ */
+function describeConstraints(schema: JsonSchema): string {
+  const notes: string[] = [];
+  if (schema.minimum !== undefined) {
+    notes.push(`min ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined) {
+    notes.push(`max ${schema.maximum}`);
+  }
+  if (schema.maxLength !== undefined) {
+    notes.push(`max length ${schema.maxLength}`);
+  }
+  if (schema.default !== undefined) {
+    notes.push(`default ${JSON.stringify(schema.default)}`);
+  }
+  return notes.join(', ');
+}
+
+function ParameterTable({ parameters }: { parameters: OpenApiParameter[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse border border-border">
+        <thead>
+          <tr className="bg-muted">
+            <th className="border border-border px-4 py-2 text-left">Parameter</th>
+            <th className="border border-border px-4 py-2 text-left">Type</th>
+            <th className="border border-border px-4 py-2 text-left">Required</th>
+            <th className="border border-border px-4 py-2 text-left">Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          {parameters.map(parameter => {
+            const constraints = describeConstraints(parameter.schema);
+            return (
+              <tr key={`${parameter.in}:${parameter.name}`}>
+                <td className="border border-border px-4 py-2 font-mono text-sm">
+                  {parameter.in === 'path' ? `{${parameter.name}}` : parameter.name}
+                </td>
+                <td className="border border-border px-4 py-2 font-mono text-sm">{describeType(parameter.schema)}</td>
+                <td className="border border-border px-4 py-2">
+                  {parameter.required ? (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-red-100 text-red-800">Required</span>
+                  ) : (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium bg-gray-100 text-gray-800">Optional</span>
+                  )}
+                </td>
+                <td className="border border-border px-4 py-2">
+                  {parameter.description}
+                  {constraints && <span className="block text-sm text-muted-foreground">{constraints}</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function SchemaBlock({ schema }: { schema: JsonSchema }) {
+  return (
+    <pre className="bg-muted p-4 rounded overflow-x-auto text-sm">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+export function OpenApiOperationCard({ method, path, operation, serverUrl }: OpenApiOperationCardProps) {
+  const body = operation.requestBody?.content['application/json']?.schema;
+  const success = operation.responses['200'];
+  const errors = Object.entries(operation.responses).filter(([status]) => status !== '200');
+
+  return (
+    <Card id={operation.operationId} className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-md text-xs font-medium ${METHOD_BADGE_CLASS_NAMES[method]}`}>
+            {method.toUpperCase()}
+          </span>
+          {operation.summary}
+        </CardTitle>
+        {operation.description && <CardDescription>{operation.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Endpoint</h3>
+          <code className="bg-muted px-3 py-2 rounded block text-sm">
+            {method.toUpperCase()} {serverUrl}{path}
+          </code>
+        </div>
+
+        {operation.parameters && (
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Parameters</h3>
+            <ParameterTable parameters={operation.parameters} />
+          </div>
+        )}
+
+        {body && (
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Request Body</h3>
+            <SchemaBlock schema={body} />
+          </div>
+        )}
+
+        {success?.content && (
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Response ({Object.keys(success.content).join(', ')})</h3>
+            <SchemaBlock schema={success.content['application/json'].schema} />
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold mb-3">Errors</h3>
+          <ul className="list-disc pl-6 space-y-1 text-sm">
+            {errors.map(([status, response]) => (
+              <li key={status}>
+                <code>{status}</code> {response.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
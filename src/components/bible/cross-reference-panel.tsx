@@ -0,0 +1,112 @@
+/**
+ * Related verses panel
+ * Lists a verse's cross-references with their Malagasy text, fetched when the panel opens.
+ * Hidden when the server has no cross-reference dataset.
+ * Rendered inside verse paragraphs, so it only uses phrasing elements.
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { ApiResponse, CrossReferenceResult } from '@/types/bible';
+import { cn } from '@/utils';
+import { getUserPreferences } from '@/lib/preferences';
+
+interface CrossReferencePanelProps {
+  bookId: string;
+  chapter: string;
+  verse: string;
+  className?: string;
+}
+
+type PanelState =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'unavailable' }
+  | { status: 'ready'; result: CrossReferenceResult };
+
+export function CrossReferencePanel({ bookId, chapter, verse, className }: CrossReferencePanelProps) {
+  const [state, setState] = React.useState<PanelState>({ status: 'loading' });
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+
+    setState({ status: 'loading' });
+    getUserPreferences()
+      .then(preferences => {
+        const params = new URLSearchParams({
+          ref: `${bookId} ${chapter}:${verse}`,
+          translation: preferences.translation,
+        });
+        return fetch(`/api/crossrefs?${params}`, { signal: controller.signal });
+      })
+      .then(response => response.json() as Promise<ApiResponse<CrossReferenceResult>>)
+      .then(body => {
+        if (body.success && body.data) {
+          setState({ status: 'ready', result: body.data });
+        } else {
+          setState({ status: body.code === 'CROSS_REFERENCES_UNAVAILABLE' ? 'unavailable' : 'error' });
+        }
+      })
+      .catch(error => {
+        if ((error as Error).name !== 'AbortError') {
+          setState({ status: 'error' });
+        }
+      });
+
+    return () => controller.abort();
+  }, [bookId, chapter, verse]);
+
+  if (state.status === 'unavailable') {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn('block mt-2 mb-1 p-3 rounded-md border-l-4 border-primary/40 bg-muted/50 text-sm', className)}
+      onClick={event => event.stopPropagation()}
+    >
+      <span className="block font-semibold text-foreground mb-2">Andininy mifandraika</span>
+
+      {state.status === 'loading' && (
+        <span className="block text-muted-foreground">Mitady...</span>
+      )}
+
+      {state.status === 'error' && (
+        <span className="block text-muted-foreground">Tsy azo ny andininy mifandraika.</span>
+      )}
+
+      {state.status === 'ready' && state.result.crossReferences.length === 0 && (
+        <span className="block text-muted-foreground">Tsy misy andininy mifandraika voarakitra.</span>
+      )}
+
+      {state.status === 'ready' && state.result.crossReferences.map(crossReference => (
+        <span key={crossReference.id} className="block py-1">
+          <Link
+            href={`/books/${crossReference.passage.bookId}/${crossReference.passage.startChapter}#verse-${crossReference.passage.startVerse}`}
+            className="font-medium text-primary hover:underline mr-2"
+          >
+            {crossReference.reference}
+          </Link>
+          <span className="text-muted-foreground">{crossReference.text}</span>
+        </span>
+      ))}
+
+      {state.status === 'ready' && state.result.crossReferences.length > 0 && (
+        <span className="block mt-2 text-xs text-muted-foreground">
+          Loharano:{' '}
+          <a
+            href="https://www.openbible.info/labs/cross-references/"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="hover:underline"
+          >
+            OpenBible.info
+          </a>{' '}
+          (CC BY)
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Highlight toolbar
+ * Color picker and optional label for the verses selected in a chapter
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Check, Eraser, X } from 'lucide-react';
+import { cn } from '@/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { HIGHLIGHT_COLORS, HighlightColor } from '@/lib/highlights';
+
+/** Background of highlighted text, by color */
+export const HIGHLIGHT_CLASS_NAMES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-200/70 dark:bg-yellow-700/40',
+  green: 'bg-green-200/70 dark:bg-green-700/40',
+  blue: 'bg-sky-200/70 dark:bg-sky-700/40',
+  pink: 'bg-pink-200/70 dark:bg-pink-700/40',
+  purple: 'bg-purple-200/70 dark:bg-purple-700/40',
+};
+
+/** Swatch of each color in pickers and filters */
+export const HIGHLIGHT_SWATCH_CLASS_NAMES: Record<HighlightColor, string> = {
+  yellow: 'bg-yellow-300',
+  green: 'bg-green-300',
+  blue: 'bg-sky-300',
+  pink: 'bg-pink-300',
+  purple: 'bg-purple-300',
+};
+
+export const HIGHLIGHT_COLOR_NAMES: Record<HighlightColor, string> = {
+  yellow: 'Mavo',
+  green: 'Maitso',
+  blue: 'Manga',
+  pink: 'Mavokely',
+  purple: 'Volomparasy',
+};
+
+interface HighlightToolbarProps {
+  selectedCount: number;
+  onApply: (color: HighlightColor, label: string) => void;
+  onClear: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+export function HighlightToolbar({ selectedCount, onApply, onClear, onCancel, className }: HighlightToolbarProps) {
+  const [color, setColor] = React.useState<HighlightColor>('yellow');
+  const [label, setLabel] = React.useState('');
+
+  const handleApply = () => {
+    onApply(color, label);
+    setLabel('');
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Loko ho an'ny andininy voafidy"
+      className={cn(
+        'sticky bottom-4 z-10 flex flex-wrap items-center gap-3 rounded-lg border bg-background p-3 shadow-lg',
+        className
+      )}
+    >
+      <span className="text-sm font-medium text-foreground">
+        Andininy {selectedCount} voafidy
+      </span>
+
+      <div className="flex items-center gap-1">
+        {HIGHLIGHT_COLORS.map(option => (
+          <button
+            key={option}
+            type="button"
+            className={cn(
+              'h-6 w-6 rounded-full border-2 transition-transform',
+              HIGHLIGHT_SWATCH_CLASS_NAMES[option],
+              color === option ? 'border-foreground scale-110' : 'border-transparent'
+            )}
+            onClick={() => setColor(option)}
+            aria-pressed={color === option}
+            title={HIGHLIGHT_COLOR_NAMES[option]}
+          />
+        ))}
+      </div>
+
+      <Input
+        value={label}
+        onChange={event => setLabel(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Enter') {
+            handleApply();
+          }
+        }}
+        placeholder="Marika (tsy voatery)"
+        maxLength={60}
+        className="h-8 w-48"
+      />
+
+      <div className="flex items-center gap-1">
+        <Button size="sm" onClick={handleApply}>
+          <Check className="mr-1 h-3 w-3" />
+          Asio loko
+        </Button>
+        <Button size="sm" variant="outline" onClick={onClear} title="Esory ny loko">
+          <Eraser className="h-3 w-3" />
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel} title="Aoka ihany">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
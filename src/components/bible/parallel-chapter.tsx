@@ -0,0 +1,90 @@
+/**
+ * Parallel chapter component
+ * Shows one chapter in two translations side by side, one row per aligned verse
+ */
+
+import * as React from 'react';
+import { cn } from '@/utils';
+import { Translation, VerseData } from '@/types/bible';
+import { alignParallelVerses, formatRowLabel } from '@/lib/parallel-reading';
+
+interface ParallelChapterProps {
+  bookName: string;
+  chapterNumber: string;
+  primary: { translation: Translation; verses: Record<string, string> };
+  secondary: { translation: Translation; verses: Record<string, string> };
+  className?: string;
+}
+
+/**
+ * The verses one translation has for a row, or a note that it has none
+ */
+function ParallelCell({ verses, translation }: { verses: VerseData[]; translation: Translation }) {
+  if (verses.length === 0) {
+    return (
+      <p className="text-sm italic text-muted-foreground">
+        Tsy misy amin&apos;ny {translation.abbreviation}
+      </p>
+    );
+  }
+
+  return (
+    <p lang={translation.languageCode} className="leading-relaxed text-foreground">
+      {verses.map((verse, index) => (
+        <React.Fragment key={verse.number}>
+          <sup className="text-xs text-muted-foreground mr-1 select-none">{verse.number}</sup>
+          {verse.text}
+          {index < verses.length - 1 && ' '}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Two translations of a chapter aligned by verse number; merged verses share one row
+ */
+export function ParallelChapter({
+  bookName,
+  chapterNumber,
+  primary,
+  secondary,
+  className,
+}: ParallelChapterProps) {
+  const rows = alignParallelVerses(primary.verses, secondary.verses);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Chapter header */}
+      <div className="border-b pb-4">
+        <h1 className="text-3xl font-bold text-foreground">
+          {bookName}
+        </h1>
+        <p className="text-lg text-muted-foreground">
+          Toko {chapterNumber}
+        </p>
+      </div>
+
+      {/* Translation names */}
+      <div className="grid grid-cols-2 gap-x-6 border-b pb-2 text-sm font-semibold text-muted-foreground">
+        <span>{primary.translation.name}</span>
+        <span>{secondary.translation.name}</span>
+      </div>
+
+      {/* Aligned verses */}
+      <div className="divide-y">
+        {rows.map(row => (
+          <div
+            key={row.start}
+            id={`verse-${row.start}`}
+            aria-label={`Andininy ${formatRowLabel(row)}`}
+            className="grid grid-cols-2 gap-x-6 py-3"
+          >
+            <ParallelCell verses={row.primary} translation={primary.translation} />
+            <ParallelCell verses={row.secondary} translation={secondary.translation} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
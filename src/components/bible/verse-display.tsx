@@ -7,7 +7,8 @@
 
 import * as React from 'react';
 import Link from 'next/link';
-import { Heart, Bookmark } from 'lucide-react';
+import type { Route } from 'next';
+import { Heart, Bookmark, Link2, Highlighter, NotebookPen, StickyNote } from 'lucide-react';
 import { cn } from '@/utils';
 import { Button } from '@/components/ui/button';
 import { 
@@ -16,6 +17,49 @@ import {
   removeReadingBookmark
 } from '@/lib/favorites';
 import { useFavorites } from '@/contexts/FavoritesContext';
+import { CrossReferencePanel } from '@/components/bible/cross-reference-panel';
+import { HighlightToolbar, HIGHLIGHT_CLASS_NAMES } from '@/components/bible/highlight-toolbar';
+import { VerseNotesPanel } from '@/components/bible/verse-notes-panel';
+import {
+  addHighlight,
+  getChapterHighlights,
+  getHighlights,
+  HighlightColor,
+  removeVerseHighlights,
+  VerseHighlight,
+} from '@/lib/highlights';
+import { getUserPreferences } from '@/lib/preferences';
+import { getChapterNotes, getStudyNotes, StudyNote } from '@/lib/study-notes';
+import { AppError } from '@/lib/errors';
+import { MatchSpan } from '@/types/bible';
+
+const MARK_CLASS_NAME = 'bg-yellow-200 dark:bg-yellow-800';
+
+/**
+ * Render text with the given match spans wrapped in <mark>
+ */
+function HighlightedText({ text, matches }: { text: string; matches: MatchSpan[] }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const span of matches) {
+    if (span.start < cursor || span.end > text.length) {
+      continue;
+    }
+    if (span.start > cursor) {
+      parts.push(text.slice(cursor, span.start));
+    }
+    parts.push(
+      <mark key={span.start} className={MARK_CLASS_NAME}>
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  }
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
 
 interface VerseProps {
   number: string;
@@ -24,10 +68,20 @@ interface VerseProps {
   bookId?: string;
   chapter?: string;
   highlighted?: boolean;
+  /** Color the user marked this verse with */
+  highlightColor?: HighlightColor;
+  /** Part of the selection the highlight toolbar acts on */
+  selected?: boolean;
+  /** Study notes covering this verse, shown behind a margin indicator */
+  notes?: StudyNote[];
   searchTerm?: string;
+  /** Match spans from the search API; take precedence over searchTerm */
+  matches?: MatchSpan[];
   showNumber?: boolean;
   showActions?: boolean;
   onVerseClick?: (verseNumber: string) => void;
+  /** Adds or removes the verse from the highlight selection; shows the highlighter action */
+  onSelectToggle?: (verseNumber: string) => void;
   className?: string;
 }
 
@@ -41,14 +95,21 @@ export function Verse({
   bookId = '',
   chapter = '',
   highlighted = false,
+  highlightColor,
+  selected = false,
+  notes = [],
   searchTerm,
+  matches,
   showNumber = true,
   showActions = false,
   onVerseClick,
+  onSelectToggle,
   className,
 }: VerseProps) {
   const { isFavorite, toggleFavorite } = useFavorites();
   const [isBookmarkActive, setIsBookmarkActive] = React.useState(false);
+  const [showCrossReferences, setShowCrossReferences] = React.useState(false);
+  const [showNotes, setShowNotes] = React.useState(false);
 
   // Check if verse is in favorites on mount and when props change
   const isFavorited = React.useMemo(() => {
@@ -59,9 +120,19 @@ export function Verse({
   }, [book, bookId, chapter, number, isFavorite]);
 
   React.useEffect(() => {
+    let cancelled = false;
+
     if (book && chapter && number) {
-      setIsBookmarkActive(isBookmarked(bookId || book, chapter, number));
+      isBookmarked(bookId || book, chapter, number).then(bookmarked => {
+        if (!cancelled) {
+          setIsBookmarkActive(bookmarked);
+        }
+      });
     }
+
+    return () => {
+      cancelled = true;
+    };
   }, [book, bookId, chapter, number]);
 
   const handleClick = () => {
@@ -100,12 +171,27 @@ export function Verse({
     }
   };
 
+  const handleSelectToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelectToggle?.(number);
+  };
+
+  const handleCrossReferencesToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowCrossReferences(open => !open);
+  };
+
+  const handleNotesToggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowNotes(open => !open);
+  };
+
   // Highlight search terms in text
   const highlightedText = React.useMemo(() => {
     if (!searchTerm) {return text;}
     
     const regex = new RegExp(`(${searchTerm})`, 'gi');
-    return text.replace(regex, '<mark class="bg-yellow-200 dark:bg-yellow-800">$1</mark>');
+    return text.replace(regex, `<mark class="${MARK_CLASS_NAME}">$1</mark>`);
   }, [text, searchTerm]);
 
   return (
@@ -113,12 +199,29 @@ export function Verse({
       className={cn(
         'group relative inline-block cursor-pointer transition-colors p-2 rounded-lg',
         highlighted && 'bg-blue-100 dark:bg-blue-900/30',
+        selected && 'ring-2 ring-primary/60',
         'hover:bg-accent',
         className
       )}
       onClick={handleClick}
       id={`verse-${number}`}
     >
+      {/* Margin indicator for study notes */}
+      {notes.length > 0 && (
+        <button
+          type="button"
+          className={cn(
+            'absolute -left-4 top-2 text-amber-500 hover:text-amber-600',
+            showNotes && 'text-amber-600'
+          )}
+          onClick={handleNotesToggle}
+          aria-expanded={showNotes}
+          title={`Fanamarihana ${notes.length}`}
+        >
+          <StickyNote className="h-3 w-3" />
+        </button>
+      )}
+
       {/* Verse number */}
       {showNumber && (
         <sup className="text-xs text-muted-foreground mr-1 select-none">
@@ -127,11 +230,17 @@ export function Verse({
       )}
       
       {/* Verse text */}
-      <span
-        className="leading-relaxed"
-        // eslint-disable-next-line react/no-danger
-        dangerouslySetInnerHTML={{ __html: highlightedText }}
-      />
+      {matches ? (
+        <span className="leading-relaxed">
+          <HighlightedText text={text} matches={matches} />
+        </span>
+      ) : (
+        <span
+          className={cn('leading-relaxed', highlightColor && ['rounded-sm', HIGHLIGHT_CLASS_NAMES[highlightColor]])}
+          // eslint-disable-next-line react/no-danger
+          dangerouslySetInnerHTML={{ __html: highlightedText }}
+        />
+      )}
       
       {/* Actions (only show when showActions is true and on hover) */}
       {showActions && (book && chapter && number) && (
@@ -161,8 +270,65 @@ export function Verse({
           >
             <Bookmark className={cn("h-3 w-3", isBookmarkActive && "fill-current")} />
           </Button>
+
+          {onSelectToggle && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-6 w-6 p-0",
+                selected && "text-primary"
+              )}
+              onClick={handleSelectToggle}
+              aria-pressed={selected}
+              title={selected ? "Esory amin'ny voafidy" : "Safidio hasiana loko"}
+            >
+              <Highlighter className="h-3 w-3" />
+            </Button>
+          )}
+
+          {bookId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "h-6 w-6 p-0",
+                showCrossReferences && "text-primary"
+              )}
+              onClick={handleCrossReferencesToggle}
+              aria-expanded={showCrossReferences}
+              title={showCrossReferences ? "Afeno ny andininy mifandraika" : "Andininy mifandraika"}
+            >
+              <Link2 className="h-3 w-3" />
+            </Button>
+          )}
+
+          <Button
+            asChild
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            title="Hanoratra fanamarihana"
+          >
+            <Link
+              href={`/notes?ref=${encodeURIComponent(`${book} ${chapter}:${number}`)}` as Route}
+              onClick={e => e.stopPropagation()}
+            >
+              <NotebookPen className="h-3 w-3" />
+            </Link>
+          </Button>
         </span>
       )}
+
+      {/* Study notes */}
+      {showNotes && notes.length > 0 && (
+        <VerseNotesPanel notes={notes} />
+      )}
+
+      {/* Related verses */}
+      {showCrossReferences && bookId && (
+        <CrossReferencePanel bookId={bookId} chapter={chapter} verse={number} />
+      )}
     </span>
   );
 }
@@ -182,7 +348,7 @@ interface ChapterProps {
 }
 
 /**
- * Chapter component displaying multiple verses
+ * Chapter component displaying multiple verses with the reader's highlights and notes
  */
 export function Chapter({
   bookName,
@@ -200,6 +366,79 @@ export function Chapter({
   const verseEntries = Object.entries(verses).sort(([a], [b]) => 
     parseInt(a) - parseInt(b)
   );
+  const [highlights, setHighlights] = React.useState<VerseHighlight[]>([]);
+  const [showHighlights, setShowHighlights] = React.useState(true);
+  const [selection, setSelection] = React.useState<string[]>([]);
+  const [notes, setNotes] = React.useState<StudyNote[]>([]);
+
+  // Highlights and notes live in user storage, so they load after hydration; they need a book ID for verse IDs
+  React.useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getHighlights(), getUserPreferences(), getStudyNotes()]).then(([storedHighlights, preferences, storedNotes]) => {
+      if (cancelled) {
+        return;
+      }
+      setHighlights(storedHighlights);
+      setShowHighlights(preferences.highlightVerses);
+      setNotes(storedNotes);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    setSelection([]);
+  }, [bookId, chapterNumber]);
+
+  const verseHighlights = React.useMemo(
+    () => (bookId && showHighlights ? getChapterHighlights(highlights, bookId, chapterNumber) : {}),
+    [highlights, bookId, chapterNumber, showHighlights]
+  );
+
+  const verseNotes = React.useMemo(
+    () => (bookId ? getChapterNotes(notes, bookId, chapterNumber, Object.keys(verses)) : {}),
+    [notes, bookId, chapterNumber, verses]
+  );
+
+  const handleSelectToggle = (verseNumber: string) => {
+    setSelection(current =>
+      current.includes(verseNumber)
+        ? current.filter(number => number !== verseNumber)
+        : [...current, verseNumber]
+    );
+  };
+
+  const handleApplyHighlight = async (color: HighlightColor, label: string) => {
+    if (!bookId) {return;}
+
+    try {
+      setHighlights(await addHighlight({
+        bookId,
+        bookName: book || bookName,
+        chapter: chapterNumber,
+        verses: selection.map(number => ({ number, text: verses[number] ?? '' })),
+        color,
+        label,
+      }));
+      setSelection([]);
+    } catch (error) {
+      alert(AppError.fromError(error as Error).userMessage);
+    }
+  };
+
+  const handleClearHighlight = async () => {
+    if (!bookId) {return;}
+
+    try {
+      setHighlights(await removeVerseHighlights(bookId, chapterNumber, selection));
+      setSelection([]);
+    } catch (error) {
+      alert(AppError.fromError(error as Error).userMessage);
+    }
+  };
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -225,16 +464,30 @@ export function Chapter({
                 bookId={bookId}
                 chapter={chapterNumber}
                 highlighted={highlightedVerse === verseNumber}
+                highlightColor={verseHighlights[verseNumber]?.color}
+                selected={selection.includes(verseNumber)}
+                notes={verseNotes[verseNumber]}
                 searchTerm={searchTerm}
                 showNumber={showVerseNumbers}
                 showActions={showActions}
                 onVerseClick={onVerseClick}
+                onSelectToggle={bookId && showHighlights ? handleSelectToggle : undefined}
               />
               {index < verseEntries.length - 1 && ' '}
             </React.Fragment>
           ))}
         </p>
       </div>
+
+      {/* Highlight selected verses */}
+      {selection.length > 0 && (
+        <HighlightToolbar
+          selectedCount={selection.length}
+          onApply={handleApplyHighlight}
+          onClear={handleClearHighlight}
+          onCancel={() => setSelection([])}
+        />
+      )}
     </div>
   );
 }
@@ -245,6 +498,7 @@ interface VerseListProps {
     chapter: string;
     verse: string;
     text: string;
+    matches?: MatchSpan[];
   }>;
   onVerseClick?: (book: string, chapter: string, verse: string) => void;
   searchTerm?: string;
@@ -282,13 +536,15 @@ export function VerseList({
           </div>
           
           <p className="text-foreground">
-            {searchTerm ? (
+            {verse.matches ? (
+              <HighlightedText text={verse.text} matches={verse.matches} />
+            ) : searchTerm ? (
               <span 
                 // eslint-disable-next-line react/no-danger
                 dangerouslySetInnerHTML={{ 
                   __html: verse.text.replace(
                     new RegExp(`(${searchTerm})`, 'gi'),
-                    '<mark class="bg-yellow-200 dark:bg-yellow-800">$1</mark>'
+                    `<mark class="${MARK_CLASS_NAME}">$1</mark>`
                   )
                 }} 
               />
@@ -0,0 +1,44 @@
+/**
+ * Verse notes panel
+ * The study notes on a verse, opened from its margin indicator. Rendered inside verse
+ * paragraphs, so it only uses phrasing elements.
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import type { Route } from 'next';
+import { cn, formatDate } from '@/utils';
+import { NoteMarkdown } from '@/components/notes/NoteMarkdown';
+import { StudyNote } from '@/lib/study-notes';
+
+interface VerseNotesPanelProps {
+  notes: StudyNote[];
+  className?: string;
+}
+
+export function VerseNotesPanel({ notes, className }: VerseNotesPanelProps) {
+  return (
+    <span
+      className={cn('block mt-2 mb-1 p-3 rounded-md border-l-4 border-amber-400/60 bg-muted/50 text-sm', className)}
+      onClick={event => event.stopPropagation()}
+    >
+      <span className="block font-semibold text-foreground mb-2">Fanamarihana</span>
+
+      {notes.map(note => (
+        <span key={note.id} className="block py-2 border-t first:border-t-0 first:pt-0">
+          <span className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+            <span>
+              {note.reference} · {formatDate(new Date(note.updatedAt))}
+            </span>
+            <Link href={`/notes?edit=${encodeURIComponent(note.id)}` as Route} className="text-primary hover:underline">
+              Ovay
+            </Link>
+          </span>
+          <NoteMarkdown markdown={note.body} className="text-foreground" />
+        </span>
+      ))}
+    </span>
+  );
+}
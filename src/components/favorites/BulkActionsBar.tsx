@@ -0,0 +1,109 @@
+/**
+ * Bulk Actions Bar Component
+ * Tags, files or removes the favorites selected on the favorites page
+ */
+
+'use client';
+
+import * as React from 'react';
+import { FolderInput, FolderMinus, Tag, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FavoriteCollection } from '@/lib/favorite-collections';
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  collections: FavoriteCollection[];
+  /** Collection being viewed, which the selection can be taken out of */
+  activeCollection?: FavoriteCollection;
+  onAddTag: (tag: string) => void;
+  onAddToCollection: (collectionId: string) => void;
+  onRemoveFromCollection: (collectionId: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+export function BulkActionsBar({
+  selectedCount,
+  collections,
+  activeCollection,
+  onAddTag,
+  onAddToCollection,
+  onRemoveFromCollection,
+  onDelete,
+  onClear,
+}: BulkActionsBarProps) {
+  const [tag, setTag] = React.useState('');
+
+  const handleAddTag = () => {
+    if (tag.trim()) {
+      onAddTag(tag);
+      setTag('');
+    }
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Asa ho an'ny ankafiziko voafidy"
+      className="sticky top-20 z-10 flex flex-wrap items-center gap-3 rounded-lg border bg-background p-3 shadow-lg"
+    >
+      <span className="text-sm font-medium text-foreground">{selectedCount} voafidy</span>
+
+      <div className="flex items-center gap-1">
+        <Input
+          value={tag}
+          onChange={event => setTag(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === 'Enter') {
+              handleAddTag();
+            }
+          }}
+          placeholder="Tikety"
+          maxLength={40}
+          className="h-8 w-32"
+        />
+        <Button size="sm" variant="outline" onClick={handleAddTag} title="Asio tikety">
+          <Tag className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {collections.length > 0 && (
+        <div className="flex items-center gap-1">
+          <FolderInput className="h-4 w-4 text-muted-foreground" />
+          <select
+            value=""
+            onChange={event => {
+              if (event.target.value) {
+                onAddToCollection(event.target.value);
+              }
+            }}
+            aria-label="Ampidiro amin'ny fitambarana"
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="">Ampidiro amin&apos;ny...</option>
+            {collections.map(collection => (
+              <option key={collection.id} value={collection.id}>{collection.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {activeCollection && (
+        <Button size="sm" variant="outline" onClick={() => onRemoveFromCollection(activeCollection.id)}>
+          <FolderMinus className="mr-1 h-3 w-3" />
+          Esory amin&apos;ny {activeCollection.name}
+        </Button>
+      )}
+
+      <Button size="sm" variant="outline" onClick={onDelete} className="text-destructive hover:text-destructive">
+        <Trash2 className="mr-1 h-3 w-3" />
+        Fafao
+      </Button>
+
+      <Button size="sm" variant="ghost" onClick={onClear} title="Aoka ny safidy">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
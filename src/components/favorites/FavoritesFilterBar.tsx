@@ -0,0 +1,153 @@
+/**
+ * Favorites Filter Bar Component
+ * Picks a collection or tag to show, filters by text, and creates, renames or deletes collections
+ */
+
+'use client';
+
+import * as React from 'react';
+import { FolderPlus, Pencil, Search, Tag, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FavoriteCollection } from '@/lib/favorite-collections';
+
+interface FavoritesFilterBarProps {
+  collections: FavoriteCollection[];
+  tags: Array<{ tag: string; count: number }>;
+  collectionId?: string;
+  tag?: string;
+  query: string;
+  onCollectionChange: (collectionId?: string) => void;
+  onTagChange: (tag?: string) => void;
+  onQueryChange: (query: string) => void;
+  onCreateCollection: (name: string) => void;
+  onRenameCollection: (collectionId: string, name: string) => void;
+  onDeleteCollection: (collectionId: string) => void;
+}
+
+export function FavoritesFilterBar({
+  collections,
+  tags,
+  collectionId,
+  tag,
+  query,
+  onCollectionChange,
+  onTagChange,
+  onQueryChange,
+  onCreateCollection,
+  onRenameCollection,
+  onDeleteCollection,
+}: FavoritesFilterBarProps) {
+  const [newCollectionName, setNewCollectionName] = React.useState('');
+  const activeCollection = collections.find(collection => collection.id === collectionId);
+
+  const handleCreate = () => {
+    if (newCollectionName.trim()) {
+      onCreateCollection(newCollectionName);
+      setNewCollectionName('');
+    }
+  };
+
+  const handleRename = () => {
+    if (!activeCollection) {
+      return;
+    }
+    const name = prompt('Anarana vaovao ho an\'ny fitambarana:', activeCollection.name);
+    if (name) {
+      onRenameCollection(activeCollection.id, name);
+    }
+  };
+
+  const handleDelete = () => {
+    if (activeCollection && confirm(`Hofafana ve ny fitambarana "${activeCollection.name}"? Tsy voafafa ny ankafiziko.`)) {
+      onDeleteCollection(activeCollection.id);
+      onCollectionChange(undefined);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Collections */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={collectionId ? 'outline' : 'default'} onClick={() => onCollectionChange(undefined)}>
+          Rehetra
+        </Button>
+        {collections.map(collection => (
+          <Button
+            key={collection.id}
+            size="sm"
+            variant={collection.id === collectionId ? 'default' : 'outline'}
+            onClick={() => onCollectionChange(collection.id)}
+          >
+            {collection.name} ({collection.favoriteIds.length})
+          </Button>
+        ))}
+
+        {activeCollection && (
+          <>
+            <Button size="sm" variant="ghost" onClick={handleRename} title="Ovay anarana">
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleDelete}
+              className="text-destructive hover:text-destructive"
+              title="Fafao ny fitambarana"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </>
+        )}
+
+        <div className="flex items-center gap-1">
+          <Input
+            value={newCollectionName}
+            onChange={event => setNewCollectionName(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') {
+                handleCreate();
+              }
+            }}
+            placeholder="Fitambarana vaovao"
+            maxLength={60}
+            className="h-8 w-44"
+          />
+          <Button size="sm" variant="outline" onClick={handleCreate} title="Mamorona fitambarana">
+            <FolderPlus className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Tag className="h-4 w-4 text-muted-foreground" />
+          {tags.map(item => (
+            <Button
+              key={item.tag}
+              size="sm"
+              variant={item.tag === tag ? 'default' : 'outline'}
+              className="h-7 rounded-full"
+              onClick={() => onTagChange(item.tag === tag ? undefined : item.tag)}
+              aria-pressed={item.tag === tag}
+            >
+              {item.tag} ({item.count})
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Text */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={event => onQueryChange(event.target.value)}
+          placeholder="Hitady andininy, teny, fanamarihana na tikety..."
+          className="pl-9"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * Highlights List Component
+ * The user's colored verses, filterable by color and by label, reference or text
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Highlighter, Search, Trash2 } from 'lucide-react';
+import { cn, formatDate } from '@/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  HIGHLIGHT_CLASS_NAMES,
+  HIGHLIGHT_COLOR_NAMES,
+  HIGHLIGHT_SWATCH_CLASS_NAMES,
+} from '@/components/bible/highlight-toolbar';
+import {
+  filterHighlights,
+  formatHighlightReference,
+  getHighlights,
+  HIGHLIGHT_COLORS,
+  HighlightColor,
+  removeHighlight,
+  VerseHighlight,
+} from '@/lib/highlights';
+import { AppError } from '@/lib/errors';
+
+export function HighlightsList({ className }: { className?: string }) {
+  const [highlights, setHighlights] = React.useState<VerseHighlight[]>([]);
+  const [color, setColor] = React.useState<HighlightColor | undefined>();
+  const [query, setQuery] = React.useState('');
+
+  React.useEffect(() => {
+    getHighlights().then(setHighlights);
+  }, []);
+
+  const handleRemove = async (highlightId: string) => {
+    try {
+      setHighlights(await removeHighlight(highlightId));
+    } catch (error) {
+      alert(AppError.fromError(error as Error).userMessage);
+    }
+  };
+
+  const visibleHighlights = React.useMemo(
+    () => filterHighlights(highlights, { color, query }),
+    [highlights, color, query]
+  );
+
+  if (highlights.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Highlighter className="mr-2 h-5 w-5" />
+          Andininy nasiana loko ({highlights.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant={color ? 'outline' : 'default'} onClick={() => setColor(undefined)}>
+            Rehetra
+          </Button>
+          {HIGHLIGHT_COLORS.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={color === option ? 'default' : 'outline'}
+              onClick={() => setColor(option)}
+              aria-pressed={color === option}
+            >
+              <span className={cn('mr-2 h-3 w-3 rounded-full', HIGHLIGHT_SWATCH_CLASS_NAMES[option])} />
+              {HIGHLIGHT_COLOR_NAMES[option]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            placeholder="Hitady marika, andininy na teny..."
+            className="pl-9"
+          />
+        </div>
+
+        {/* Highlights */}
+        {visibleHighlights.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">Tsy misy mifanaraka amin&apos;ny sivana</p>
+        ) : (
+          <ul className="space-y-3">
+            {visibleHighlights.map(highlight => (
+              <li key={highlight.id} className="group rounded-md border p-4">
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <span className={cn('h-3 w-3 rounded-full', HIGHLIGHT_SWATCH_CLASS_NAMES[highlight.color])} />
+                    <Link
+                      href={`/books/${highlight.bookId}/${highlight.chapter}#verse-${highlight.verses[0].number}`}
+                      className="font-medium text-primary hover:underline"
+                    >
+                      {formatHighlightReference(highlight)}
+                    </Link>
+                    {highlight.label && <Badge variant="secondary">{highlight.label}</Badge>}
+                    <span className="text-xs">{formatDate(new Date(highlight.dateAdded))}</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemove(highlight.id)}
+                    className="text-destructive opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                    title="Esory ny loko"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                <p className="mt-2 leading-relaxed text-foreground">
+                  {highlight.verses.map(verse => (
+                    <React.Fragment key={verse.id}>
+                      <sup className="mr-1 text-xs text-muted-foreground">{verse.number}</sup>
+                      <span className={cn('rounded-sm', HIGHLIGHT_CLASS_NAMES[highlight.color])}>{verse.text}</span>{' '}
+                    </React.Fragment>
+                  ))}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
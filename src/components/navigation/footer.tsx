@@ -60,6 +60,21 @@ const Footer: React.FC = () => {
                   Tiako
                 </Link>
               </li>
+              <li>
+                <Link href="/notes" className="text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                  Fanamarihana
+                </Link>
+              </li>
+              <li>
+                <Link href="/stats" className="text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                  Antontan'isa
+                </Link>
+              </li>
+              <li>
+                <Link href="/concordance" className="text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                  Konkordansa
+                </Link>
+              </li>
             </ul>
           </div>
 
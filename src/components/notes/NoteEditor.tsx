@@ -0,0 +1,137 @@
+/**
+ * Note Editor Component
+ * Writes a new study note on a reference, or edits an existing note's text, with a
+ * Markdown preview
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Eye, Pencil, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { NoteMarkdown } from '@/components/notes/NoteMarkdown';
+import { parsePassageReference } from '@/lib/passage-reference';
+import { addStudyNote, StudyNote, updateStudyNote } from '@/lib/study-notes';
+import { AppError } from '@/lib/errors';
+
+interface NoteEditorProps {
+  /** Note being edited; its reference cannot change */
+  note?: StudyNote;
+  initialReference?: string;
+  onSaved: (note: StudyNote) => void;
+  onCancel?: () => void;
+}
+
+export function NoteEditor({ note, initialReference = '', onSaved, onCancel }: NoteEditorProps) {
+  const [reference, setReference] = React.useState(note?.reference ?? initialReference);
+  const [body, setBody] = React.useState(note?.body ?? '');
+  const [preview, setPreview] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!body.trim()) {
+      setError('Soraty aloha ny fanamarihana.');
+      return;
+    }
+
+    if (note) {
+      let updated: StudyNote | null;
+      try {
+        updated = await updateStudyNote(note.id, body);
+      } catch (saveError) {
+        setError(AppError.fromError(saveError as Error).userMessage);
+        return;
+      }
+      if (!updated) {
+        setError('Tsy hita intsony ity fanamarihana ity.');
+        return;
+      }
+      setError(null);
+      onSaved(updated);
+      return;
+    }
+
+    let passages;
+    try {
+      passages = parsePassageReference(reference);
+    } catch {
+      setError(`Tsy fantatra ny andininy "${reference}".`);
+      return;
+    }
+    if (passages.length !== 1) {
+      setError('Andininy iray na andininy misesy iray ihany no azo asiana fanamarihana.');
+      return;
+    }
+
+    let saved: StudyNote | null;
+    try {
+      saved = await addStudyNote(passages[0], body);
+    } catch (saveError) {
+      setError(AppError.fromError(saveError as Error).userMessage);
+      return;
+    }
+    if (!saved) {
+      setError('Tsy voatahiry ny fanamarihana.');
+      return;
+    }
+    setBody('');
+    setError(null);
+    onSaved(saved);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input
+        value={reference}
+        onChange={event => setReference(event.target.value)}
+        placeholder="Andininy, oh: Jaona 3:16-18"
+        disabled={Boolean(note)}
+        aria-label="Andininy"
+      />
+
+      {preview ? (
+        <div className="min-h-[10rem] rounded-md border p-3">
+          <NoteMarkdown markdown={body || '_Tsy misy soratra_'} />
+        </div>
+      ) : (
+        <textarea
+          value={body}
+          onChange={event => setBody(event.target.value)}
+          rows={6}
+          placeholder="Soraty eto ny fanamarihanao..."
+          aria-label="Fanamarihana"
+          className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        />
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Markdown: **matevina**, *mitongilana*, # lohateny, - lisitra, &gt; teny nalaina.
+        Rohy mankany amin&apos;andininy hafa: [[Romana 5:8]].
+      </p>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleSave}>
+          <Save className="mr-2 h-4 w-4" />
+          Tehirizo
+        </Button>
+        <Button variant="outline" onClick={() => setPreview(value => !value)}>
+          {preview ? <Pencil className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+          {preview ? 'Hanova' : 'Topi-maso'}
+        </Button>
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel}>
+            Aoka ihany
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
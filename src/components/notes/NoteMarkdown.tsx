@@ -0,0 +1,120 @@
+/**
+ * Note Markdown Component
+ * Renders a study note's Markdown subset as React elements. Only phrasing elements are
+ * used, so notes can be shown inside verse paragraphs.
+ */
+
+import * as React from 'react';
+import Link from 'next/link';
+import { BiblePassage } from '@/types/bible';
+import { cn } from '@/utils';
+import { NoteInline, parseNoteMarkdown } from '@/lib/note-markdown';
+
+/**
+ * Chapter page URL of a passage, scrolled to its first verse
+ */
+export function getPassageHref(passage: BiblePassage): string {
+  const anchor = passage.startVerse !== undefined ? `#verse-${passage.startVerse}` : '';
+  return `/books/${passage.bookId}/${passage.startChapter}${anchor}`;
+}
+
+function InlineContent({ tokens }: { tokens: NoteInline[] }) {
+  return (
+    <>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case 'strong':
+            return <strong key={index}>{token.text}</strong>;
+          case 'em':
+            return <em key={index}>{token.text}</em>;
+          case 'code':
+            return <code key={index} className="rounded bg-muted px-1 text-sm">{token.text}</code>;
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={token.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary underline"
+              >
+                {token.text}
+              </a>
+            );
+          case 'reference':
+            return (
+              <Link
+                key={index}
+                href={getPassageHref(token.passages[0])}
+                className="font-medium text-primary hover:underline"
+              >
+                {token.text}
+              </Link>
+            );
+          default:
+            return <React.Fragment key={index}>{token.text}</React.Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+const HEADING_CLASS_NAMES = {
+  1: 'text-lg font-bold',
+  2: 'text-base font-bold',
+  3: 'font-semibold',
+};
+
+export function NoteMarkdown({ markdown, className }: { markdown: string; className?: string }) {
+  const blocks = React.useMemo(() => parseNoteMarkdown(markdown), [markdown]);
+
+  return (
+    <span className={cn('block space-y-2 leading-relaxed', className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <span
+                key={index}
+                role="heading"
+                aria-level={block.level}
+                className={cn('block', HEADING_CLASS_NAMES[block.level])}
+              >
+                <InlineContent tokens={block.content} />
+              </span>
+            );
+          case 'quote':
+            return (
+              <span
+                key={index}
+                className="block border-l-2 border-muted-foreground/40 pl-3 italic text-muted-foreground"
+              >
+                <InlineContent tokens={block.content} />
+              </span>
+            );
+          case 'list':
+            return (
+              <span key={index} role="list" className="block space-y-1">
+                {block.items.map((item, itemIndex) => (
+                  <span key={itemIndex} role="listitem" className="flex gap-2">
+                    <span className="select-none text-muted-foreground">
+                      {block.ordered ? `${itemIndex + 1}.` : '•'}
+                    </span>
+                    <span>
+                      <InlineContent tokens={item} />
+                    </span>
+                  </span>
+                ))}
+              </span>
+            );
+          default:
+            return (
+              <span key={index} className="block">
+                <InlineContent tokens={block.content} />
+              </span>
+            );
+        }
+      })}
+    </span>
+  );
+}
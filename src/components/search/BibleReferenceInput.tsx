@@ -2,7 +2,7 @@
 
 import React, { useState } from 'react';
 import { Search } from 'lucide-react';
-import { BOOKS_BY_ENGLISH_NAME } from '@/constants/bible';
+import { parsePassageReference } from '@/lib/passage-reference';
 
 interface BibleReferenceInputProps {
   onSearch: (reference: {
@@ -23,77 +23,34 @@ const BibleReferenceInput: React.FC<BibleReferenceInputProps> = ({
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Parse verse input into array of numbers and ranges
-   */
-  const parseVerses = (input: string): (number | { start: number; end?: number })[] => {
-    const verses: (number | { start: number; end?: number })[] = [];
-    const parts = input.split(',');
-
-    for (const part of parts) {
-      const trimmed = part.trim();
-      
-      if (trimmed.includes('-')) {
-        // Range (e.g., "1-5")
-        const [start, end] = trimmed.split('-').map(s => parseInt(s.trim()));
-        if (isNaN(start) || isNaN(end)) {
-          throw new Error(`Invalid verse range: ${trimmed}`);
-        }
-        if (end < start) {
-          throw new Error(`Invalid range: ${start}-${end}`);
-        }
-        verses.push({ start, end });
-      } else {
-        // Single verse
-        const verseNum = parseInt(trimmed);
-        if (isNaN(verseNum)) {
-          throw new Error(`Invalid verse number: ${trimmed}`);
-        }
-        verses.push(verseNum);
-      }
-    }
-
-    return verses;
-  };
-
-  /**
-   * Parse reference string (e.g., "John 3:16" or "Genesis 1:1-3")
+   * Parse reference string (e.g., "Jaona 3:16" or "Genesis 1:1-3") with the shared passage grammar.
+   * This form looks up verses of a single chapter, so other passage shapes are rejected here.
    */
   const parseReferenceString = (referenceStr: string) => {
-    const trimmed = referenceStr.trim();
-    
-    // Try to match pattern: "Book Chapter:Verses"
-    const match = trimmed.match(/^(.+?)\s+(\d+):(.+)$/);
-    if (!match) {
-      throw new Error('Invalid format. Use: "Book Chapter:Verses" (e.g., "John 3:16" or "Genesis 1:1-3")');
-    }
+    const passages = parsePassageReference(referenceStr);
+    const [first] = passages;
 
-    const [, bookPart, chapterPart, versesPart] = match;
-    
-    // Validate book
-    const bookName = bookPart.trim().toLowerCase();
-    if (!BOOKS_BY_ENGLISH_NAME.has(bookName)) {
-      throw new Error(`Book "${bookPart.trim()}" not found. Please check spelling or use a different name.`);
+    if (passages.some(passage => passage.bookId !== first.bookId || passage.startChapter !== first.startChapter)) {
+      throw new Error('Please search one chapter at a time (e.g., "Jaona 3:16,18")');
     }
-
-    // Validate chapter
-    const chapterNum = parseInt(chapterPart);
-    if (isNaN(chapterNum) || chapterNum < 1) {
-      throw new Error('Chapter must be a positive number');
+    if (passages.some(passage => passage.endChapter !== passage.startChapter)) {
+      throw new Error('Cross-chapter ranges are not supported here. Search each chapter separately.');
     }
-
-    // Parse and validate verses
-    const verses = parseVerses(versesPart.trim());
-    if (verses.length === 0) {
-      throw new Error('Please enter at least one verse');
+    if (passages.some(passage => passage.startVerse === undefined)) {
+      throw new Error('Please include verses (e.g., "Sal 23:1-6")');
     }
 
+    const verses = passages.map(passage => passage.startVerse === passage.endVerse
+      ? passage.startVerse!
+      : { start: passage.startVerse!, end: passage.endVerse });
+
     if (verses.length > 10) {
       throw new Error('Maximum 10 verses or ranges allowed per search');
     }
 
     return {
-      book: bookName,
-      chapter: chapterNum,
+      book: first.bookId,
+      chapter: first.startChapter,
       verses,
     };
   };
@@ -133,7 +90,7 @@ const BibleReferenceInput: React.FC<BibleReferenceInputProps> = ({
               setReferenceInput(e.target.value);
               setError(null);
             }}
-            placeholder="e.g., John 3:16 or Genesis 1:1-3 or Psalm 23:1,4,6"
+            placeholder="e.g., Jaona 3:16 or 1 Kor 13:4-7 or Psalm 23:1,4,6"
             className="w-full px-4 py-3 text-lg border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm 
                      focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white
                      placeholder-gray-400 dark:placeholder-gray-500"
@@ -151,6 +108,7 @@ const BibleReferenceInput: React.FC<BibleReferenceInputProps> = ({
             <li><strong>Multiple verses:</strong> Psalm 23:1,4,6</li>
             <li><strong>Verse range:</strong> Genesis 1:1-5</li>
             <li><strong>Mixed format:</strong> Romans 8:1-3,28,35</li>
+            <li><strong>Malagasy names:</strong> Jaona 3:16, Sal 23:1, 1 Kor 13:4-7</li>
           </ul>
         </div>
 
@@ -0,0 +1,155 @@
+/**
+ * Facet sidebar for search results
+ * Shows where the hits fall and lets users narrow the search by testament, book and chapters
+ */
+
+'use client';
+
+import * as React from 'react';
+import { X } from 'lucide-react';
+import { SearchFacets } from '@/types/bible';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/utils';
+
+export interface ChapterRange {
+  from: number;
+  to: number;
+}
+
+interface SearchFacetSidebarProps {
+  facets: SearchFacets;
+  selectedTestament: '' | 'old' | 'new';
+  selectedBook: string | null;
+  selectedChapters: ChapterRange | null;
+  onTestamentChange: (testament: '' | 'old' | 'new') => void;
+  onBookChange: (bookId: string | null) => void;
+  onChaptersChange: (chapters: ChapterRange | null) => void;
+  className?: string;
+}
+
+interface FacetItemProps {
+  label: string;
+  count: number;
+  active: boolean;
+  onClick: () => void;
+}
+
+function FacetItem({ label, count, active, onClick }: FacetItemProps) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onClick}
+        className={cn(
+          'w-full flex items-center justify-between px-2 py-1 rounded-md text-sm text-left transition-colors',
+          active ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'
+        )}
+      >
+        <span className="truncate">{label}</span>
+        <span className={cn('ml-2 text-xs', active ? 'text-primary-foreground' : 'text-muted-foreground')}>
+          {count}
+        </span>
+      </button>
+    </li>
+  );
+}
+
+export function SearchFacetSidebar({
+  facets,
+  selectedTestament,
+  selectedBook,
+  selectedChapters,
+  onTestamentChange,
+  onBookChange,
+  onChaptersChange,
+  className,
+}: SearchFacetSidebarProps) {
+  // Chapter ranges only make sense once a single book is picked
+  const chapterRanges = selectedBook
+    ? facets.chapterRanges
+      .filter(range => range.bookId === selectedBook)
+      .sort((a, b) => a.from - b.from)
+    : [];
+  const hasSelection = selectedTestament !== '' || selectedBook !== null || selectedChapters !== null;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          Sivana araka ny vokatra
+          {hasSelection && (
+            <button
+              type="button"
+              onClick={() => {
+                onTestamentChange('');
+                onBookChange(null);
+                onChaptersChange(null);
+              }}
+              className="inline-flex items-center text-xs font-normal text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-3 w-3 mr-1" />
+              Esory
+            </button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Testameta</h4>
+          <ul className="space-y-1">
+            <FacetItem
+              label="Testameta Taloha"
+              count={facets.testaments.old}
+              active={selectedTestament === 'old'}
+              onClick={() => onTestamentChange(selectedTestament === 'old' ? '' : 'old')}
+            />
+            <FacetItem
+              label="Testameta Vaovao"
+              count={facets.testaments.new}
+              active={selectedTestament === 'new'}
+              onClick={() => onTestamentChange(selectedTestament === 'new' ? '' : 'new')}
+            />
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Boky</h4>
+          <ul className="space-y-1 max-h-80 overflow-y-auto">
+            {facets.books.map(book => (
+              <FacetItem
+                key={book.bookId}
+                label={book.name}
+                count={book.count}
+                active={selectedBook === book.bookId}
+                onClick={() => {
+                  onChaptersChange(null);
+                  onBookChange(selectedBook === book.bookId ? null : book.bookId);
+                }}
+              />
+            ))}
+          </ul>
+        </div>
+
+        {chapterRanges.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Toko</h4>
+            <ul className="space-y-1">
+              {chapterRanges.map(range => {
+                const active = selectedChapters?.from === range.from;
+                return (
+                  <FacetItem
+                    key={range.from}
+                    label={`Toko ${range.from}–${range.to}`}
+                    count={range.count}
+                    active={active}
+                    onClick={() => onChaptersChange(active ? null : { from: range.from, to: range.to })}
+                  />
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -48,6 +48,22 @@ const MonitoringConfigSchema = z.object({
   enableErrorTracking: z.boolean().default(true),
 });
 
+const DataSourceConfigSchema = z.object({
+  type: z.enum(['github', 'local', 'memory']).default('github'),
+  baseUrl: z.string().url().default('https://raw.githubusercontent.com/RaveloMevaSoavina/baiboly-json/refs/heads/master'),
+  localPath: z.string().default('public/api/data/baiboly-json'),
+});
+
+const TranslationConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Translation IDs use lowercase letters, digits and hyphens').max(40),
+  name: z.string().min(1),
+  abbreviation: z.string().min(1).max(10),
+  language: z.string().min(1),
+  languageCode: z.string().min(2).max(3),
+  license: z.string().default('Unknown'),
+  dataSource: DataSourceConfigSchema,
+});
+
 const FeatureFlagsSchema = z.object({
   analytics: z.boolean().default(false),
   debugging: z.boolean().default(false),
@@ -66,11 +82,18 @@ const AppConfigSchema = z.object({
   security: SecurityConfigSchema,
   api: ApiConfigSchema,
   monitoring: MonitoringConfigSchema,
+  dataSource: DataSourceConfigSchema,
+  /** Translations served alongside the default one, which reads from `dataSource` */
+  translations: z.array(TranslationConfigSchema).default([]),
   features: FeatureFlagsSchema,
   search: z.object({
     maxResults: z.number().int().positive().default(100),
     debounceDelay: z.number().positive().default(300),
     highlightEnabled: z.boolean().default(true),
+    indexPath: z.string().default('.cache/search-index.json'),
+  }),
+  crossReferences: z.object({
+    path: z.string().default('public/api/data/cross-references.tsv'),
   }),
 });
 
@@ -82,10 +105,27 @@ export type CacheConfig = z.infer<typeof CacheConfigSchema>;
 export type SecurityConfig = z.infer<typeof SecurityConfigSchema>;
 export type ApiConfig = z.infer<typeof ApiConfigSchema>;
 export type MonitoringConfig = z.infer<typeof MonitoringConfigSchema>;
+export type DataSourceConfig = z.infer<typeof DataSourceConfigSchema>;
+export type TranslationConfig = z.infer<typeof TranslationConfigSchema>;
 export type FeatureFlags = z.infer<typeof FeatureFlagsSchema>;
 
 // ===== CONFIGURATION BUILDER =====
 
+/**
+ * Parse a JSON-valued environment variable, falling back when it is unset or malformed
+ */
+function parseJsonEnv(value: string | undefined, fallback: unknown): unknown {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Ignoring malformed JSON environment variable:', error);
+    return fallback;
+  }
+}
+
 class ConfigurationManager {
   private static instance: ConfigurationManager;
   private config: AppConfig;
@@ -149,6 +189,14 @@ class ConfigurationManager {
         enableErrorTracking: process.env.ERROR_TRACKING_ENABLED !== 'false',
       },
       
+      dataSource: {
+        type: (process.env.BIBLE_DATA_SOURCE as 'github' | 'local' | 'memory') || 'github',
+        baseUrl: process.env.BIBLE_DATA_BASE_URL || 'https://raw.githubusercontent.com/RaveloMevaSoavina/baiboly-json/refs/heads/master',
+        localPath: process.env.BIBLE_DATA_LOCAL_PATH || 'public/api/data/baiboly-json',
+      },
+
+      translations: parseJsonEnv(process.env.BIBLE_TRANSLATIONS, []),
+      
       features: {
         analytics: process.env.NEXT_PUBLIC_ANALYTICS_ENABLED === 'true',
         debugging: environment === 'development',
@@ -161,6 +209,11 @@ class ConfigurationManager {
         maxResults: Number(process.env.NEXT_PUBLIC_MAX_SEARCH_RESULTS) || 100,
         debounceDelay: Number(process.env.NEXT_PUBLIC_DEBOUNCE_DELAY) || 300,
         highlightEnabled: process.env.SEARCH_HIGHLIGHT_ENABLED !== 'false',
+        indexPath: process.env.SEARCH_INDEX_PATH ?? '.cache/search-index.json',
+      },
+
+      crossReferences: {
+        path: process.env.CROSS_REFERENCES_PATH || 'public/api/data/cross-references.tsv',
       },
     };
 
@@ -3,7 +3,7 @@
  * Centralized configuration for all Bible books following DRY principles
  */
 
-import { BookMeta, Testament } from '@/types/bible';
+import { BookMeta, Testament, Translation } from '@/types/bible';
 
 /**
  * Old Testament books metadata
@@ -249,6 +249,300 @@ export const BOOKS_BY_ENGLISH_NAME = new Map<string, string>([
   ['rev', 'revelation'],
 ]);
 
+/**
+ * English display names, by internal book ID
+ */
+export const ENGLISH_BOOK_NAMES = new Map<string, string>([
+  ['genesis', 'Genesis'],
+  ['exodus', 'Exodus'],
+  ['leviticus', 'Leviticus'],
+  ['numbers', 'Numbers'],
+  ['deuteronomy', 'Deuteronomy'],
+  ['joshua', 'Joshua'],
+  ['judges', 'Judges'],
+  ['ruth', 'Ruth'],
+  ['1-samuel', '1 Samuel'],
+  ['2-samuel', '2 Samuel'],
+  ['1-kings', '1 Kings'],
+  ['2-kings', '2 Kings'],
+  ['1-chronicles', '1 Chronicles'],
+  ['2-chronicles', '2 Chronicles'],
+  ['ezra', 'Ezra'],
+  ['nehemiah', 'Nehemiah'],
+  ['esther', 'Esther'],
+  ['job', 'Job'],
+  ['psalms', 'Psalms'],
+  ['proverbs', 'Proverbs'],
+  ['ecclesiastes', 'Ecclesiastes'],
+  ['song-of-songs', 'Song of Songs'],
+  ['isaiah', 'Isaiah'],
+  ['jeremiah', 'Jeremiah'],
+  ['lamentations', 'Lamentations'],
+  ['ezekiel', 'Ezekiel'],
+  ['daniel', 'Daniel'],
+  ['hosea', 'Hosea'],
+  ['joel', 'Joel'],
+  ['amos', 'Amos'],
+  ['obadiah', 'Obadiah'],
+  ['jonah', 'Jonah'],
+  ['micah', 'Micah'],
+  ['nahum', 'Nahum'],
+  ['habakkuk', 'Habakkuk'],
+  ['zephaniah', 'Zephaniah'],
+  ['haggai', 'Haggai'],
+  ['zechariah', 'Zechariah'],
+  ['malachi', 'Malachi'],
+  ['matthew', 'Matthew'],
+  ['mark', 'Mark'],
+  ['luke', 'Luke'],
+  ['john', 'John'],
+  ['acts', 'Acts'],
+  ['romans', 'Romans'],
+  ['1-corinthians', '1 Corinthians'],
+  ['2-corinthians', '2 Corinthians'],
+  ['galatians', 'Galatians'],
+  ['ephesians', 'Ephesians'],
+  ['philippians', 'Philippians'],
+  ['colossians', 'Colossians'],
+  ['1-thessalonians', '1 Thessalonians'],
+  ['2-thessalonians', '2 Thessalonians'],
+  ['1-timothy', '1 Timothy'],
+  ['2-timothy', '2 Timothy'],
+  ['titus', 'Titus'],
+  ['philemon', 'Philemon'],
+  ['hebrews', 'Hebrews'],
+  ['james', 'James'],
+  ['1-peter', '1 Peter'],
+  ['2-peter', '2 Peter'],
+  ['1-john', '1 John'],
+  ['2-john', '2 John'],
+  ['3-john', '3 John'],
+  ['jude', 'Jude'],
+  ['revelation', 'Revelation'],
+]);
+
+/**
+ * Standard Malagasy book abbreviations (as printed in the Baiboly Malagasy)
+ * Maps abbreviations to internal book IDs
+ */
+export const MALAGASY_BOOK_ABBREVIATIONS = new Map<string, string>([
+  ['gen', 'genesis'],
+  ['eks', 'exodus'],
+  ['lev', 'leviticus'],
+  ['nom', 'numbers'],
+  ['deo', 'deuteronomy'],
+  ['jos', 'joshua'],
+  ['mpits', 'judges'],
+  ['rot', 'ruth'],
+  ['1 sam', '1-samuel'],
+  ['2 sam', '2-samuel'],
+  ['1 mpanj', '1-kings'],
+  ['2 mpanj', '2-kings'],
+  ['1 tant', '1-chronicles'],
+  ['2 tant', '2-chronicles'],
+  ['ezr', 'ezra'],
+  ['neh', 'nehemiah'],
+  ['est', 'esther'],
+  ['job', 'job'],
+  ['sal', 'psalms'],
+  ['ohab', 'proverbs'],
+  ['mpit', 'ecclesiastes'],
+  ['tonon', 'song-of-songs'],
+  ['isa', 'isaiah'],
+  ['jer', 'jeremiah'],
+  ['fitom', 'lamentations'],
+  ['ezek', 'ezekiel'],
+  ['dan', 'daniel'],
+  ['hos', 'hosea'],
+  ['joe', 'joel'],
+  ['amo', 'amos'],
+  ['oba', 'obadiah'],
+  ['jon', 'jonah'],
+  ['mik', 'micah'],
+  ['nah', 'nahum'],
+  ['hab', 'habakkuk'],
+  ['zef', 'zephaniah'],
+  ['hag', 'haggai'],
+  ['zak', 'zechariah'],
+  ['mal', 'malachi'],
+  ['mat', 'matthew'],
+  ['mar', 'mark'],
+  ['lio', 'luke'],
+  ['jao', 'john'],
+  ['asa', 'acts'],
+  ['rom', 'romans'],
+  ['1 kor', '1-corinthians'],
+  ['2 kor', '2-corinthians'],
+  ['gal', 'galatians'],
+  ['efe', 'ephesians'],
+  ['fil', 'philippians'],
+  ['kol', 'colossians'],
+  ['1 tes', '1-thessalonians'],
+  ['2 tes', '2-thessalonians'],
+  ['1 tim', '1-timothy'],
+  ['2 tim', '2-timothy'],
+  ['tit', 'titus'],
+  ['filem', 'philemon'],
+  ['heb', 'hebrews'],
+  ['jak', 'james'],
+  ['1 pet', '1-peter'],
+  ['2 pet', '2-peter'],
+  ['1 jao', '1-john'],
+  ['2 jao', '2-john'],
+  ['3 jao', '3-john'],
+  ['jod', 'jude'],
+  ['apok', 'revelation'],
+]);
+
+/**
+ * USFM book codes (Paratext/Unified Standard Format Markers), by internal book ID
+ */
+export const USFM_BOOK_CODES = new Map<string, string>([
+  ['genesis', 'GEN'],
+  ['exodus', 'EXO'],
+  ['leviticus', 'LEV'],
+  ['numbers', 'NUM'],
+  ['deuteronomy', 'DEU'],
+  ['joshua', 'JOS'],
+  ['judges', 'JDG'],
+  ['ruth', 'RUT'],
+  ['1-samuel', '1SA'],
+  ['2-samuel', '2SA'],
+  ['1-kings', '1KI'],
+  ['2-kings', '2KI'],
+  ['1-chronicles', '1CH'],
+  ['2-chronicles', '2CH'],
+  ['ezra', 'EZR'],
+  ['nehemiah', 'NEH'],
+  ['esther', 'EST'],
+  ['job', 'JOB'],
+  ['psalms', 'PSA'],
+  ['proverbs', 'PRO'],
+  ['ecclesiastes', 'ECC'],
+  ['song-of-songs', 'SNG'],
+  ['isaiah', 'ISA'],
+  ['jeremiah', 'JER'],
+  ['lamentations', 'LAM'],
+  ['ezekiel', 'EZK'],
+  ['daniel', 'DAN'],
+  ['hosea', 'HOS'],
+  ['joel', 'JOL'],
+  ['amos', 'AMO'],
+  ['obadiah', 'OBA'],
+  ['jonah', 'JON'],
+  ['micah', 'MIC'],
+  ['nahum', 'NAM'],
+  ['habakkuk', 'HAB'],
+  ['zephaniah', 'ZEP'],
+  ['haggai', 'HAG'],
+  ['zechariah', 'ZEC'],
+  ['malachi', 'MAL'],
+  ['matthew', 'MAT'],
+  ['mark', 'MRK'],
+  ['luke', 'LUK'],
+  ['john', 'JHN'],
+  ['acts', 'ACT'],
+  ['romans', 'ROM'],
+  ['1-corinthians', '1CO'],
+  ['2-corinthians', '2CO'],
+  ['galatians', 'GAL'],
+  ['ephesians', 'EPH'],
+  ['philippians', 'PHP'],
+  ['colossians', 'COL'],
+  ['1-thessalonians', '1TH'],
+  ['2-thessalonians', '2TH'],
+  ['1-timothy', '1TI'],
+  ['2-timothy', '2TI'],
+  ['titus', 'TIT'],
+  ['philemon', 'PHM'],
+  ['hebrews', 'HEB'],
+  ['james', 'JAS'],
+  ['1-peter', '1PE'],
+  ['2-peter', '2PE'],
+  ['1-john', '1JN'],
+  ['2-john', '2JN'],
+  ['3-john', '3JN'],
+  ['jude', 'JUD'],
+  ['revelation', 'REV'],
+]);
+
+/**
+ * OSIS book abbreviations, by internal book ID; used by open datasets such as OpenBible.info
+ */
+export const OSIS_BOOK_CODES = new Map<string, string>([
+  ['genesis', 'Gen'],
+  ['exodus', 'Exod'],
+  ['leviticus', 'Lev'],
+  ['numbers', 'Num'],
+  ['deuteronomy', 'Deut'],
+  ['joshua', 'Josh'],
+  ['judges', 'Judg'],
+  ['ruth', 'Ruth'],
+  ['1-samuel', '1Sam'],
+  ['2-samuel', '2Sam'],
+  ['1-kings', '1Kgs'],
+  ['2-kings', '2Kgs'],
+  ['1-chronicles', '1Chr'],
+  ['2-chronicles', '2Chr'],
+  ['ezra', 'Ezra'],
+  ['nehemiah', 'Neh'],
+  ['esther', 'Esth'],
+  ['job', 'Job'],
+  ['psalms', 'Ps'],
+  ['proverbs', 'Prov'],
+  ['ecclesiastes', 'Eccl'],
+  ['song-of-songs', 'Song'],
+  ['isaiah', 'Isa'],
+  ['jeremiah', 'Jer'],
+  ['lamentations', 'Lam'],
+  ['ezekiel', 'Ezek'],
+  ['daniel', 'Dan'],
+  ['hosea', 'Hos'],
+  ['joel', 'Joel'],
+  ['amos', 'Amos'],
+  ['obadiah', 'Obad'],
+  ['jonah', 'Jonah'],
+  ['micah', 'Mic'],
+  ['nahum', 'Nah'],
+  ['habakkuk', 'Hab'],
+  ['zephaniah', 'Zeph'],
+  ['haggai', 'Hag'],
+  ['zechariah', 'Zech'],
+  ['malachi', 'Mal'],
+  ['matthew', 'Matt'],
+  ['mark', 'Mark'],
+  ['luke', 'Luke'],
+  ['john', 'John'],
+  ['acts', 'Acts'],
+  ['romans', 'Rom'],
+  ['1-corinthians', '1Cor'],
+  ['2-corinthians', '2Cor'],
+  ['galatians', 'Gal'],
+  ['ephesians', 'Eph'],
+  ['philippians', 'Phil'],
+  ['colossians', 'Col'],
+  ['1-thessalonians', '1Thess'],
+  ['2-thessalonians', '2Thess'],
+  ['1-timothy', '1Tim'],
+  ['2-timothy', '2Tim'],
+  ['titus', 'Titus'],
+  ['philemon', 'Phlm'],
+  ['hebrews', 'Heb'],
+  ['james', 'Jas'],
+  ['1-peter', '1Pet'],
+  ['2-peter', '2Pet'],
+  ['1-john', '1John'],
+  ['2-john', '2John'],
+  ['3-john', '3John'],
+  ['jude', 'Jude'],
+  ['revelation', 'Rev'],
+]);
+
+/**
+ * Books with a single chapter, where a lone number in a reference may name a verse ("Joda 5")
+ */
+export const SINGLE_CHAPTER_BOOKS = new Set<string>(['obadiah', 'philemon', '2-john', '3-john', 'jude']);
+
 /**
  * Testament organization
  */
@@ -265,6 +559,21 @@ export const TESTAMENTS = {
   },
 } as const;
 
+/**
+ * The Malagasy Protestant text the application ships with; other translations are configured
+ * through `BIBLE_TRANSLATIONS`
+ */
+export const DEFAULT_TRANSLATION: Translation = {
+  id: 'malagasy',
+  name: 'Baiboly Malagasy',
+  abbreviation: 'MG',
+  language: 'Malagasy',
+  languageCode: 'mg',
+  license: 'Public Domain',
+};
+
+export const DEFAULT_TRANSLATION_ID = DEFAULT_TRANSLATION.id;
+
 /**
  * Application constants
  */
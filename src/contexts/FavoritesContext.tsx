@@ -1,26 +1,41 @@
 /**
  * Favorites Context for managing liked verses throughout the application
- * Provides centralized state management for user's favorite verses
+ * Provides centralized state management for user's favorite verses, persisted through
+ * the versioned favorites store in lib/favorites
  */
 
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  addToCollection as appendToCollection,
+  createFavoritesExport,
+  FavoriteCollection,
+  FavoritesExport,
+  mergeTags,
+  moveItem,
+  normalizeTag,
+  removeFromCollection as dropFromCollection,
+} from '@/lib/favorite-collections';
+import {
+  changeFavoritesStore,
+  loadFavoritesStore,
+  mergeFavoritesImport,
+  toCanonicalBookId,
+  toFavoriteId,
+  type Favorite,
+  type FavoritesStore,
+} from '@/lib/favorites';
+import { AppError, logger } from '@/lib/errors';
 
-export interface Favorite {
-  id: string;
-  book: string;
-  bookId: string;
-  chapter: string;
-  verse: string;
-  text: string;
-  reference: string;
-  note?: string;
-  dateAdded: string;
-}
+export type { Favorite };
 
 interface FavoritesContextType {
   favorites: Favorite[];
+  /** Set when the stored favorites could not be read, until a change is saved */
+  loadError: AppError | null;
+  /** Set while the latest changes could not be saved, e.g. when storage is full */
+  saveError: AppError | null;
   addFavorite: (verse: Omit<Favorite, 'id' | 'dateAdded'>) => void;
   removeFavorite: (id: string) => void;
   isFavorite: (bookId: string, chapter: string, verse: string) => boolean;
@@ -28,7 +43,18 @@ interface FavoritesContextType {
   toggleFavorite: (verse: Omit<Favorite, 'id' | 'dateAdded'>) => boolean;
   clearAllFavorites: () => void;
   exportFavorites: () => void;
-  importFavorites: (data: Favorite[]) => void;
+  importFavorites: (data: Favorite[] | FavoritesExport<Favorite>) => void;
+  // Tags and collections
+  collections: FavoriteCollection[];
+  removeFavorites: (ids: string[]) => void;
+  addTags: (ids: string[], tags: string[]) => void;
+  removeTag: (ids: string[], tag: string) => void;
+  createCollection: (name: string) => FavoriteCollection | null;
+  renameCollection: (collectionId: string, name: string) => void;
+  deleteCollection: (collectionId: string) => void;
+  addToCollection: (collectionId: string, ids: string[]) => void;
+  removeFromCollection: (collectionId: string, ids: string[]) => void;
+  moveInCollection: (collectionId: string, fromIndex: number, toIndex: number) => void;
 }
 
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
@@ -39,82 +65,104 @@ interface FavoritesProviderProps {
 
 export function FavoritesProvider({ children }: FavoritesProviderProps) {
   const [favorites, setFavorites] = useState<Favorite[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [collections, setCollections] = useState<FavoriteCollection[]>([]);
+  const [loadError, setLoadError] = useState<AppError | null>(null);
+  const [saveError, setSaveError] = useState<AppError | null>(null);
+  /** Set once a change was saved, so a slower initial load cannot show older favorites */
+  const changeSaved = useRef(false);
 
-  // Load favorites from localStorage on mount
+  const showStore = (store: FavoritesStore) => {
+    setFavorites(store.favorites);
+    setCollections(store.collections);
+  };
+
+  // Load favorites on mount; older storage layouts are migrated by the store
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem('bible-favorites');
-      if (stored) {
-        const parsedFavorites = JSON.parse(stored);
-        // Validate the data structure
-        if (Array.isArray(parsedFavorites)) {
-          setFavorites(parsedFavorites);
-          console.info('Loaded favorites from localStorage:', parsedFavorites.length);
+    let cancelled = false;
+
+    loadFavoritesStore()
+      .then(store => {
+        if (cancelled || changeSaved.current) {
+          return;
         }
-      }
-    } catch (error) {
-      console.error('Error loading favorites from localStorage:', error);
-      // Clear corrupted data
-      localStorage.removeItem('bible-favorites');
-    } finally {
-      setIsLoaded(true);
-    }
+        showStore(store);
+        logger.info('Loaded favorites from user storage', { favorites: store.favorites.length });
+      })
+      .catch(error => {
+        if (cancelled) {
+          return;
+        }
+        const appError = AppError.fromError(error as Error);
+        logger.error('Error loading favorites', appError);
+        setLoadError(appError);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save favorites to localStorage whenever it changes
-  useEffect(() => {
-    if (isLoaded) {
-      try {
-        localStorage.setItem('bible-favorites', JSON.stringify(favorites));
-        console.info('Saved favorites to localStorage:', favorites.length);
-      } catch (error) {
-        console.error('Error saving favorites to localStorage:', error);
-      }
-    }
-  }, [favorites, isLoaded]);
+  /**
+   * Apply a change to the stored favorites, then show the store as saved. Changes are made
+   * to the stored document rather than to this component's copy, so none is lost to another.
+   */
+  const changeFavorites = (change: (store: FavoritesStore) => FavoritesStore) => {
+    changeFavoritesStore(change)
+      .then(store => {
+        changeSaved.current = true;
+        showStore(store);
+        setLoadError(null);
+        setSaveError(null);
+      })
+      .catch(error => {
+        const appError = AppError.fromError(error as Error);
+        logger.error('Error saving favorites', appError);
+        setSaveError(appError);
+      });
+  };
 
   /**
-   * Generate unique ID for a verse
+   * Canonical ID for a verse; book names are resolved to book IDs
    */
   const generateVerseId = (bookId: string, chapter: string, verse: string): string => {
-    return `${bookId}-${chapter}-${verse}`;
+    return toFavoriteId(bookId, chapter, verse);
   };
 
   /**
    * Add a verse to favorites
    */
   const addFavorite = (verse: Omit<Favorite, 'id' | 'dateAdded'>) => {
-    const id = generateVerseId(verse.bookId, verse.chapter, verse.verse);
-    
-    // Check if already exists
-    if (favorites.some(fav => fav.id === id)) {
-      console.info('Verse already in favorites:', id);
-      return;
-    }
-
     const newFavorite: Favorite = {
       ...verse,
-      id,
+      id: generateVerseId(verse.bookId, verse.chapter, verse.verse),
+      bookId: toCanonicalBookId(verse.bookId),
       dateAdded: new Date().toISOString(),
     };
 
-    setFavorites(prev => {
-      const updated = [newFavorite, ...prev];
-      console.info('Added favorite:', newFavorite);
-      return updated;
-    });
+    changeFavorites(store =>
+      store.favorites.some(fav => fav.id === newFavorite.id)
+        ? store
+        : { ...store, favorites: [newFavorite, ...store.favorites] }
+    );
   };
 
   /**
    * Remove a verse from favorites
    */
   const removeFavorite = (id: string) => {
-    setFavorites(prev => {
-      const updated = prev.filter(fav => fav.id !== id);
-      console.info('Removed favorite:', id);
-      return updated;
-    });
+    removeFavorites([id]);
+  };
+
+  /**
+   * Remove several favorites, also from every collection
+   */
+  const removeFavorites = (ids: string[]) => {
+    const removed = new Set(ids);
+    changeFavorites(store => ({
+      ...store,
+      favorites: store.favorites.filter(fav => !removed.has(fav.id)),
+      collections: store.collections.map(collection => dropFromCollection(collection, ids)),
+    }));
   };
 
   /**
@@ -144,11 +192,9 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
 
     if (existingFavorite) {
       removeFavorite(id);
-      console.info('Toggled favorite OFF:', verse.reference);
       return false;
     } else {
       addFavorite(verse);
-      console.info('Toggled favorite ON:', verse.reference);
       return true;
     }
   };
@@ -157,14 +203,18 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
    * Clear all favorites
    */
   const clearAllFavorites = () => {
-    setFavorites([]);
+    changeFavorites(store => ({
+      ...store,
+      favorites: [],
+      collections: store.collections.map(collection => ({ ...collection, favoriteIds: [] })),
+    }));
   };
 
   /**
-   * Export favorites as JSON file
+   * Export favorites with their tags and collections as JSON file
    */
   const exportFavorites = () => {
-    const data = JSON.stringify(favorites, null, 2);
+    const data = JSON.stringify(createFavoritesExport(favorites, collections), null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -175,23 +225,111 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
   };
 
   /**
-   * Import favorites from data
+   * Import favorites from an export file; tags merge into existing favorites and
+   * collections merge into the one with the same ID or name
+   */
+  const importFavorites = (data: Favorite[] | FavoritesExport<Favorite>) => {
+    changeFavorites(store => mergeFavoritesImport(store, data));
+  };
+
+  /**
+   * Add tags to several favorites
    */
-  const importFavorites = (data: Favorite[]) => {
-    // Validate data structure
-    const validFavorites = data.filter(item => 
-      item.id && item.book && item.bookId && item.chapter && item.verse && item.text
+  const addTags = (ids: string[], tags: string[]) => {
+    const selected = new Set(ids);
+    changeFavorites(store => ({
+      ...store,
+      favorites: store.favorites.map(fav => (selected.has(fav.id) ? { ...fav, tags: mergeTags(fav.tags, tags) } : fav)),
+    }));
+  };
+
+  /**
+   * Remove a tag from several favorites
+   */
+  const removeTag = (ids: string[], tag: string) => {
+    const selected = new Set(ids);
+    const removed = normalizeTag(tag);
+    changeFavorites(store => ({
+      ...store,
+      favorites: store.favorites.map(fav =>
+        selected.has(fav.id) && fav.tags ? { ...fav, tags: fav.tags.filter(item => item !== removed) } : fav
+      ),
+    }));
+  };
+
+  /**
+   * Create an empty collection; names must be unique
+   */
+  const createCollection = (name: string): FavoriteCollection | null => {
+    const trimmed = name.trim();
+    if (!trimmed || collections.some(collection => collection.name === trimmed)) {
+      return null;
+    }
+
+    const collection: FavoriteCollection = {
+      id: `collection-${Date.now()}`,
+      name: trimmed,
+      favoriteIds: [],
+      dateCreated: new Date().toISOString(),
+    };
+    changeFavorites(store =>
+      store.collections.some(existing => existing.name === trimmed)
+        ? store
+        : { ...store, collections: [...store.collections, collection] }
     );
-    
-    // Merge with existing favorites, avoiding duplicates
-    const existingIds = new Set(favorites.map(fav => fav.id));
-    const newFavorites = validFavorites.filter(fav => !existingIds.has(fav.id));
-    
-    setFavorites(prev => [...newFavorites, ...prev]);
+    return collection;
+  };
+
+  /**
+   * Apply a change to one collection
+   */
+  const changeCollection = (collectionId: string, change: (collection: FavoriteCollection) => FavoriteCollection) => {
+    changeFavorites(store => ({
+      ...store,
+      collections: store.collections.map(collection => (collection.id === collectionId ? change(collection) : collection)),
+    }));
+  };
+
+  const renameCollection = (collectionId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    changeCollection(collectionId, collection => ({ ...collection, name: trimmed }));
+  };
+
+  /**
+   * Delete a collection; its favorites are kept
+   */
+  const deleteCollection = (collectionId: string) => {
+    changeFavorites(store => ({
+      ...store,
+      collections: store.collections.filter(collection => collection.id !== collectionId),
+    }));
+  };
+
+  const addToCollection = (collectionId: string, ids: string[]) => {
+    changeCollection(collectionId, collection => appendToCollection(collection, ids));
+  };
+
+  const removeFromCollection = (collectionId: string, ids: string[]) => {
+    changeCollection(collectionId, collection => dropFromCollection(collection, ids));
+  };
+
+  /**
+   * Reorder a collection, e.g. after a drag and drop
+   */
+  const moveInCollection = (collectionId: string, fromIndex: number, toIndex: number) => {
+    changeCollection(collectionId, collection => ({
+      ...collection,
+      favoriteIds: moveItem(collection.favoriteIds, fromIndex, toIndex),
+    }));
   };
 
   const contextValue: FavoritesContextType = {
     favorites,
+    loadError,
+    saveError,
     addFavorite,
     removeFavorite,
     isFavorite,
@@ -200,6 +338,16 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
     clearAllFavorites,
     exportFavorites,
     importFavorites,
+    collections,
+    removeFavorites,
+    addTags,
+    removeTag,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    moveInCollection,
   };
 
   return (
@@ -234,26 +382,18 @@ export function useFavoriteVerse(bookId: string, chapter: string, verse: string,
   
   const toggleVerseFavorite = () => {
     if (!verseData) {
-      console.warn('Cannot toggle favorite: verse data not provided', { bookId, chapter, verse });
-      return false;
-    }
-    
-    try {
-      const result = toggleFavorite({
-        book: verseData.book,
-        bookId,
-        chapter,
-        verse,
-        text: verseData.text,
-        reference: verseData.reference,
-      });
-      
-      console.info(`Favorite ${result ? 'added' : 'removed'}:`, verseData.reference);
-      return result;
-    } catch (error) {
-      console.error('Error toggling favorite:', error);
+      logger.warn('Cannot toggle favorite: verse data not provided', { bookId, chapter, verse });
       return false;
     }
+
+    return toggleFavorite({
+      book: verseData.book,
+      bookId,
+      chapter,
+      verse,
+      text: verseData.text,
+      reference: verseData.reference,
+    });
   };
 
   return {
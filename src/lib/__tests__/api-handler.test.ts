@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for the versioned API envelope
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createApiHandler, getErrorStatus, toErrorResponse } from '@/lib/api-handler';
+import { DataNotFoundError, ErrorCategory, ValidationError } from '@/lib/errors';
+import { RateLimitResult } from '@/lib/rate-limit';
+
+const allow = async (): Promise<RateLimitResult> => ({ success: true, limit: 60, remaining: 59, resetTime: 120_000 });
+const deny = async (): Promise<RateLimitResult> => ({
+  success: false,
+  limit: 60,
+  remaining: 0,
+  resetTime: 120_000,
+  retryAfter: 30,
+});
+const request = () => new NextRequest('http://localhost/api/v1/test');
+
+describe('getErrorStatus', () => {
+  it('should derive statuses from codes and categories', () => {
+    expect(getErrorStatus('DATA_NOT_FOUND')).toBe(404);
+    expect(getErrorStatus('VALIDATION_ERROR')).toBe(400);
+    expect(getErrorStatus('RATE_LIMITED')).toBe(429);
+    expect(getErrorStatus('CUSTOM_CODE', ErrorCategory.PERMISSION)).toBe(403);
+    expect(getErrorStatus(undefined)).toBe(500);
+  });
+});
+
+describe('toErrorResponse', () => {
+  it('should expose codes and hide unexpected messages', () => {
+    expect(toErrorResponse(new DataNotFoundError('Book', 'xyz'))).toMatchObject({ success: false, code: 'DATA_NOT_FOUND' });
+    expect(toErrorResponse(z.object({ a: z.string() }).safeParse({}).error)).toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    const unexpected = toErrorResponse(new Error('database password leaked'));
+    expect(unexpected.code).toBe('UNKNOWN_ERROR');
+    expect(unexpected.error).not.toContain('password');
+  });
+});
+
+describe('createApiHandler', () => {
+  it('should wrap data with rate-limit headers', async () => {
+    const handler = createApiHandler(async () => ({ data: [1, 2], success: true }), { limiter: allow, cacheControl: 'public' });
+    const response = await handler(request(), undefined);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('59');
+    expect(response.headers.get('X-RateLimit-Reset')).toBe('120');
+    expect(response.headers.get('Cache-Control')).toBe('public');
+    expect(await response.json()).toEqual({ data: [1, 2], success: true });
+  });
+
+  it('should map thrown errors and failed responses to statuses', async () => {
+    const thrown = await createApiHandler(async () => {
+      throw new ValidationError('Bad input');
+    }, { limiter: allow })(request(), undefined);
+    const failed = await createApiHandler(async () => ({
+      data: null,
+      success: false,
+      error: 'Missing',
+      code: 'DATA_NOT_FOUND',
+    }), { limiter: allow })(request(), undefined);
+
+    expect(thrown.status).toBe(400);
+    expect(await thrown.json()).toEqual({ data: null, success: false, error: 'Bad input', code: 'VALIDATION_ERROR' });
+    expect(failed.status).toBe(404);
+  });
+
+  it('should reject rate-limited requests before running the handler', async () => {
+    const handler = jest.fn();
+    const response = await createApiHandler(handler, { limiter: deny })(request(), undefined);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect((await response.json()).code).toBe('RATE_LIMITED');
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for the bible-api.com compatibility helpers
+ */
+
+import {
+  applySingleChapterBookMatching,
+  getBookApiId,
+  toBibleApiReferenceResponse,
+} from '@/lib/bible-api-compat';
+import { parsePassageReference } from '@/lib/passage-reference';
+import { PassageResult } from '@/types/bible';
+
+describe('getBookApiId', () => {
+  it('should map book IDs to USFM codes', () => {
+    expect(getBookApiId('john')).toBe('JHN');
+    expect(getBookApiId('1-corinthians')).toBe('1CO');
+  });
+});
+
+describe('applySingleChapterBookMatching', () => {
+  it('should read lone numbers of single-chapter books as verses', () => {
+    const [passage] = applySingleChapterBookMatching(parsePassageReference('Joda 5-7'), 'indifferent');
+
+    expect(passage).toMatchObject({ bookId: 'jude', startChapter: 1, endChapter: 1, startVerse: 5, endVerse: 7 });
+  });
+
+  it('should keep chapter 1, other books and strict mode unchanged', () => {
+    const passages = parsePassageReference('Joda 1; Sal 5');
+
+    expect(applySingleChapterBookMatching(passages, 'indifferent')).toEqual(passages);
+    expect(applySingleChapterBookMatching(parsePassageReference('Joda 5'), 'strict')[0].startChapter).toBe(5);
+  });
+});
+
+describe('toBibleApiReferenceResponse', () => {
+  const result: PassageResult = {
+    reference: 'Jaona 3:16-17',
+    passages: parsePassageReference('Jaona 3:16-17'),
+    sections: [{
+      bookId: 'john',
+      bookName: 'Jaona',
+      chapters: [{ chapter: '3', verses: [{ number: '16', text: 'Fa toy izao' }, { number: '17', text: 'Fa tsy naniraka' }] }],
+    }],
+    verseCount: 2,
+  };
+
+  it('should flatten verses into the bible-api.com shape', () => {
+    const response = toBibleApiReferenceResponse(result);
+
+    expect(response.verses[0]).toEqual({ book_id: 'JHN', book_name: 'Jaona', chapter: 3, verse: 16, text: 'Fa toy izao' });
+    expect(response.text).toBe('Fa toy izao\nFa tsy naniraka');
+    expect(response.translation_id).toBe(response.translation.identifier);
+  });
+
+  it('should prefix verse numbers on request', () => {
+    expect(toBibleApiReferenceResponse(result, true).text).toBe('(16) Fa toy izao\n(17) Fa tsy naniraka');
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Unit tests for Bible data sources
+ * Runs the repository against in-memory fixtures so no network access is needed
+ */
+
+import { Testament } from '@/types/bible';
+import {
+  GitHubRawDataSource,
+  InMemoryDataSource,
+  createBibleDataSource,
+  getCorpusFingerprint,
+} from '@/lib/bible-data-source';
+import { BibleDataRepository } from '@/lib/bible-repository';
+import { CrossReferenceIndex } from '@/lib/cross-references';
+import { parsePassageReference } from '@/lib/passage-reference';
+
+const genesisMeta = { id: 'genesis', name: 'Genesisy', fileName: 'genesisy', testament: Testament.OLD };
+const matthewMeta = { id: 'matthew', name: 'Matio', fileName: 'matio', testament: Testament.NEW };
+
+const fixtures = {
+  genesis: {
+    meta: { name: 'Genesisy', order: 1, chapter_number: 1 },
+    '1': {
+      '1': 'Tamin\'ny voalohany Andriamanitra nahary ny lanitra sy ny tany.',
+      '2': 'Ary ny tany dia tsy nisy endrika sady foana.',
+      '3': 'Ary ny fitiavana tsy mitsahatra.',
+      '4': 'Ary izy mitia ny lalàna.',
+    },
+  },
+};
+
+describe('BibleDataSource', () => {
+  describe('GitHubRawDataSource', () => {
+    it('should build encoded URLs per testament', () => {
+      const source = new GitHubRawDataSource('https://example.com/corpus/');
+
+      expect(source.getBookUrl(genesisMeta)).toBe('https://example.com/corpus/Testameta%20taloha/genesisy.json');
+      expect(source.getBookUrl(matthewMeta)).toBe('https://example.com/corpus/Testameta%20vaovao/matio.json');
+    });
+  });
+
+  describe('InMemoryDataSource', () => {
+    it('should return fixture data for known books', async () => {
+      const source = new InMemoryDataSource(fixtures);
+      const data = await source.readBook(genesisMeta);
+
+      expect(data.meta).toEqual(fixtures.genesis.meta);
+    });
+
+    it('should reject unknown books', async () => {
+      const source = new InMemoryDataSource(fixtures);
+
+      await expect(source.readBook(matthewMeta)).rejects.toThrow('not found');
+    });
+  });
+
+  describe('getCorpusFingerprint', () => {
+    it('should change when any book does', async () => {
+      const source = new InMemoryDataSource(fixtures);
+      const before = await getCorpusFingerprint(source, [genesisMeta, matthewMeta]);
+
+      expect(await getCorpusFingerprint(source, [genesisMeta, matthewMeta])).toBe(before);
+      source.setBook('matthew', { meta: { name: 'Matio', order: 40, chapter_number: 1 } });
+      expect(await getCorpusFingerprint(source, [genesisMeta, matthewMeta])).not.toBe(before);
+    });
+  });
+
+  describe('createBibleDataSource', () => {
+    it('should select the implementation from configuration', () => {
+      const baseConfig = { baseUrl: 'https://example.com', localPath: 'public/api/data/baiboly-json' };
+
+      expect(createBibleDataSource({ ...baseConfig, type: 'github' }).name).toBe('github');
+      expect(createBibleDataSource({ ...baseConfig, type: 'local' }).name).toBe('local');
+      expect(createBibleDataSource({ ...baseConfig, type: 'memory' }).name).toBe('memory');
+    });
+  });
+
+  describe('BibleDataRepository with fixtures', () => {
+    const repository = new BibleDataRepository(new InMemoryDataSource(fixtures), null);
+
+    it('should load chapters from the injected source', async () => {
+      const result = await repository.getChapter('genesis', '1');
+
+      expect(result.success).toBe(true);
+      expect(Object.keys(result.data ?? {})).toEqual(['1', '2', '3', '4']);
+    });
+
+    it('should search only the requested books and rank by relevance', async () => {
+      const result = await repository.searchBible('tany', { books: ['genesis'] });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.total).toBe(2);
+      expect(result.data?.verses.every(verse => verse.bookId === 'genesis')).toBe(true);
+    });
+
+    it('should fold diacritics unless normalization is off', async () => {
+      const folded = await repository.searchBible('lalana', { books: ['genesis'] });
+      const raw = await repository.searchBible('lalana', { books: ['genesis'], normalize: false });
+
+      expect(folded.data?.total).toBe(1);
+      expect(raw.data?.total).toBe(0);
+    });
+
+    it('should match word roots when stemming is on', async () => {
+      const result = await repository.searchBible('fitiavana', { books: ['genesis'], stemming: true });
+
+      expect(result.data?.verses.map(verse => verse.verse)).toEqual(['3', '4']);
+    });
+
+    it('should return match spans and optional snippets', async () => {
+      const result = await repository.searchBible('lalana', { books: ['genesis'], highlight: true });
+      const [hit] = result.data?.verses ?? [];
+
+      expect(hit.text.slice(hit.matches[0].start, hit.matches[0].end)).toBe('lalàna');
+      expect(hit.snippet).toBe('Ary izy mitia ny <mark>lalàna</mark>.');
+    });
+
+    it('should page through results with cursors and exact totals', async () => {
+      const first = await repository.searchBible('ny', { books: ['genesis'], limit: 3 });
+      const second = await repository.searchBible('ny', {
+        books: ['genesis'],
+        limit: 3,
+        cursor: first.data?.nextCursor ?? undefined,
+      });
+      const byPage = await repository.searchBible('ny', { books: ['genesis'], limit: 3, page: 2 });
+
+      expect(first.data?.total).toBe(4);
+      expect(first.data?.verses).toHaveLength(3);
+      expect(second.data?.verses).toHaveLength(1);
+      expect(second.data?.nextCursor).toBeNull();
+      expect(second.data?.verses).toEqual(byPage.data?.verses);
+
+      const pages = [...(first.data?.verses ?? []), ...(second.data?.verses ?? [])];
+      expect(new Set(pages.map(verse => verse.verse)).size).toBe(4);
+    });
+
+    it('should reject cursors issued for another query', async () => {
+      const first = await repository.searchBible('ny', { books: ['genesis'], limit: 1 });
+      const result = await repository.searchBible('tany', {
+        books: ['genesis'],
+        limit: 1,
+        cursor: first.data?.nextCursor ?? undefined,
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should return facet counts across all pages', async () => {
+      const result = await repository.searchBible('ny', { books: ['genesis'], limit: 1 });
+
+      expect(result.data?.facets.books).toEqual([{ bookId: 'genesis', name: 'Genesisy', count: 4 }]);
+      expect(result.data?.facets.testaments).toEqual({ old: 4, new: 0 });
+      expect(result.data?.facets.chapterRanges).toEqual([{ bookId: 'genesis', from: 1, to: 10, count: 4 }]);
+    });
+
+    it('should keep serving an index missing some books until the retry period is over', async () => {
+      const source = new InMemoryDataSource(fixtures);
+      const readBook = jest.spyOn(source, 'readBook');
+      const partialRepository = new BibleDataRepository(source, null, undefined, 'partial-fixture');
+
+      await partialRepository.searchBible('tany', { books: ['genesis'] });
+      const reads = readBook.mock.calls.length;
+      await partialRepository.searchBible('lanitra', { books: ['genesis'] });
+      expect(readBook).toHaveBeenCalledTimes(reads);
+
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000 * 60 * 5);
+      try {
+        await partialRepository.searchBible('voalohany', { books: ['genesis'] });
+      } finally {
+        now.mockRestore();
+      }
+      expect(readBook.mock.calls.length).toBeGreaterThan(reads);
+    });
+
+    it('should not resolve cached hits against a rebuilt index', async () => {
+      const source = new InMemoryDataSource({
+        exodus: { meta: { name: 'Eksodosy', order: 2, chapter_number: 1 }, '1': { '1': 'Ary Mosesy niteny.' } },
+      });
+      const rebuiltRepository = new BibleDataRepository(source, null, undefined, 'rebuilt-fixture');
+
+      const partial = await rebuiltRepository.searchBible('Mosesy');
+      source.setBook('genesis', fixtures.genesis);
+      // Past the partial index's retry period, within the search cache's lifetime
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000 * 60 * 2);
+      let rebuilt;
+      try {
+        rebuilt = await rebuiltRepository.searchBible('Mosesy');
+      } finally {
+        now.mockRestore();
+      }
+
+      expect(partial.data?.verses.map(verse => verse.bookId)).toEqual(['exodus']);
+      expect(rebuilt.data?.verses.map(verse => verse.text)).toEqual(['Ary Mosesy niteny.']);
+    });
+
+    it('should only search the requested chapter range', async () => {
+      const result = await repository.searchBible('ny', { books: ['genesis'], chapters: { from: 2, to: 5 } });
+
+      expect(result.data?.total).toBe(0);
+    });
+
+    it('should resolve passages grouped by book and chapter', async () => {
+      const result = await repository.getPassages(parsePassageReference('Gen 1:3-9; 1:1'));
+
+      expect(result.data?.reference).toBe('Genesisy 1:3-9; Genesisy 1:1');
+      expect(result.data?.sections).toHaveLength(1);
+      expect(result.data?.sections[0].chapters[0].verses.map(verse => verse.number)).toEqual(['3', '4', '1']);
+      expect(result.data?.verseCount).toBe(3);
+    });
+
+    it('should fail for chapters outside the book', async () => {
+      const result = await repository.getPassages(parsePassageReference('Gen 2'));
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should only load the books of the requested testament', async () => {
+      const source = new InMemoryDataSource(fixtures);
+      const readBook = jest.spyOn(source, 'readBook');
+      const testamentRepository = new BibleDataRepository(source, null, undefined, 'testament-fixture');
+
+      const result = await testamentRepository.getAllBookInfo('new');
+
+      expect(result.success).toBe(false);
+      expect(readBook).toHaveBeenCalled();
+      expect(readBook.mock.calls.every(([meta]) => meta.testament === Testament.NEW)).toBe(true);
+    });
+
+    it('should keep read failures retryable rather than reporting the book missing', async () => {
+      const offline = new InMemoryDataSource();
+      offline.readBook = () => Promise.reject(new Error('offline'));
+      const offlineRepository = new BibleDataRepository(offline, null, undefined, 'offline-fixture');
+
+      const result = await offlineRepository.getPassages(parsePassageReference('Gen 1:1'));
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe('DATA_SOURCE_READ_ERROR');
+    });
+
+    it('should return single verses and counts', async () => {
+      const verse = await repository.getVerse('genesis', '1', '2');
+
+      expect(verse.data).toContain('tsy nisy endrika');
+      expect(await repository.getChapterCount('genesis')).toBe(1);
+      expect(await repository.getVerseCount('genesis', '1')).toBe(4);
+    });
+
+    it('should describe books from the data', async () => {
+      const book = await repository.getBookDetails('genesis');
+
+      expect(book.data).toMatchObject({
+        name: 'Genesisy',
+        englishName: 'Genesis',
+        usfmCode: 'GEN',
+        testamentId: 'old',
+        order: 1,
+        chapterCount: 1,
+        verseCount: 4,
+        chapters: [{ chapter: 1, verseCount: 4 }],
+      });
+    });
+
+    it('should describe chapters with their neighbours', async () => {
+      const chapter = await repository.getChapterDetails('genesis', 1);
+      const missing = await repository.getChapterDetails('genesis', 2);
+
+      expect(chapter.data).toMatchObject({ bookId: 'genesis', chapter: 1, verseCount: 4, previous: null });
+      expect(missing.success).toBe(false);
+      expect(missing.code).toBe('DATA_NOT_FOUND');
+    });
+
+    it('should keep each translation\'s books apart in the shared caches', async () => {
+      const french = new BibleDataRepository(new InMemoryDataSource({
+        genesis: { meta: fixtures.genesis.meta, '1': { '1': 'Au commencement, Dieu créa les cieux et la terre.' } },
+      }), null, undefined, 'fr-segond');
+
+      const malagasyVerse = await repository.getVerse('genesis', '1', '1');
+      const frenchVerse = await french.getVerse('genesis', '1', '1');
+      const frenchBook = await french.getBook('genesis');
+
+      expect(malagasyVerse.data).toBe(fixtures.genesis['1']['1']);
+      expect(frenchVerse.data).toBe('Au commencement, Dieu créa les cieux et la terre.');
+      expect(frenchBook.data?.translationId).toBe('fr-segond');
+    });
+
+    it('should resolve cross-references to corpus text and skip missing targets', async () => {
+      const crossReferences = CrossReferenceIndex.parse('Gen.1.1\tGen.1.3-Gen.1.4\t5\nGen.1.1\tJohn.1.1\t9\n');
+      const withCrossReferences = new BibleDataRepository(
+        new InMemoryDataSource(fixtures), null, async () => crossReferences
+      );
+      const result = await withCrossReferences.getCrossReferences('genesis', 1, 1);
+
+      expect(result.data).toMatchObject({ id: 'GEN 1:1', reference: 'Genesisy 1:1', total: 2 });
+      expect(result.data?.crossReferences).toEqual([
+        expect.objectContaining({
+          id: 'GEN 1:3-4',
+          votes: 5,
+          text: 'Ary ny fitiavana tsy mitsahatra. Ary izy mitia ny lalàna.',
+        }),
+      ]);
+    });
+
+    it('should retry loading cross-references after a failed load', async () => {
+      const loader = jest.fn()
+        .mockRejectedValueOnce(new Error('unreadable'))
+        .mockResolvedValue(CrossReferenceIndex.parse('Gen.1.1\tGen.1.2\t1\n'));
+      const withCrossReferences = new BibleDataRepository(new InMemoryDataSource(fixtures), null, loader);
+
+      await expect(withCrossReferences.getCrossReferences('genesis', 1, 1)).rejects.toThrow('unreadable');
+      const result = await withCrossReferences.getCrossReferences('genesis', 1, 1);
+
+      expect(result.data?.total).toBe(1);
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for book name resolution
+ */
+
+import { findBook, normalizeBookName, resolveBook } from '@/lib/book-resolver';
+import { DataNotFoundError, ValidationError } from '@/lib/errors';
+
+const resolvedId = (input: string) => {
+  const resolution = resolveBook(input);
+  return resolution.status === 'found' ? resolution.book.id : resolution.status;
+};
+
+describe('normalizeBookName', () => {
+  it('should fold case, dots and numeric prefixes', () => {
+    expect(normalizeBookName(' 1Kor. ')).toBe('1 kor');
+    expect(normalizeBookName('II Tim')).toBe('2 tim');
+    expect(normalizeBookName('samoela-voalohany')).toBe('samoela voalohany');
+  });
+});
+
+describe('resolveBook', () => {
+  it('should resolve Malagasy names and abbreviations', () => {
+    expect(resolvedId('Jaona')).toBe('john');
+    expect(resolvedId('Sal')).toBe('psalms');
+    expect(resolvedId('1 Kor')).toBe('1-corinthians');
+    expect(resolvedId('1 Jaona')).toBe('1-john');
+    expect(resolvedId('1 Samoela')).toBe('1-samuel');
+    expect(resolvedId('Tononkirani Solomona')).toBe('song-of-songs');
+  });
+
+  it('should resolve English names and USFM codes', () => {
+    expect(resolvedId('John')).toBe('john');
+    expect(resolvedId('Song of Songs')).toBe('song-of-songs');
+    expect(resolvedId('JHN')).toBe('john');
+    expect(resolvedId('1CO')).toBe('1-corinthians');
+  });
+
+  it('should resolve unambiguous prefixes', () => {
+    expect(resolvedId('Apok')).toBe('revelation');
+    expect(resolvedId('Ohabo')).toBe('proverbs');
+  });
+
+  it('should report ambiguous prefixes instead of guessing', () => {
+    const resolution = resolveBook('Ja');
+
+    expect(resolution.status).toBe('ambiguous');
+    if (resolution.status === 'ambiguous') {
+      expect(resolution.candidates.map(book => book.id)).toEqual(expect.arrayContaining(['john', 'james']));
+    }
+  });
+
+  it('should not match names that merely contain the input', () => {
+    expect(resolvedId('ona')).toBe('not_found');
+  });
+});
+
+describe('findBook', () => {
+  it('should throw typed errors', () => {
+    expect(findBook('Matio').id).toBe('matthew');
+    expect(() => findBook('Ja')).toThrow(ValidationError);
+    expect(() => findBook('Xyz')).toThrow(DataNotFoundError);
+  });
+});
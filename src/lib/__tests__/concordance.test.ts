@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the word concordance
+ */
+
+import { BibleBook, BookMeta, Testament } from '@/types/bible';
+import { Concordance, OTHER_LETTER } from '@/lib/concordance';
+
+const johnMeta = { id: 'john', name: 'Jaona', fileName: 'jaona', testament: Testament.NEW };
+
+const books: Array<{ meta: BookMeta; book: BibleBook }> = [
+  {
+    meta: johnMeta,
+    book: {
+      ...johnMeta,
+      chapters: {
+        '3': { '16': 'Fa toy izao no nitiavan\'Andriamanitra izao tontolo izao', '35': 'Ny Ray tia ny Zanaka' },
+        '13': { '34': 'Mifankatiava ianareo; tahaka ny nitiavako anareo', '35': 'Raha mitia ianareo' },
+        '15': { '13': 'Tsy misy manana fitiavana lehibe noho izany 12 ny fitiavana' },
+      },
+    },
+  },
+];
+
+describe('Concordance', () => {
+  const concordance = Concordance.build(books);
+
+  it('should group word forms under their shortest attested root', () => {
+    const entry = concordance.lookup('Fitiavana', 10);
+
+    expect(entry?.lemma).toBe('tia');
+    expect(entry?.forms.map(form => form.form)).toEqual(expect.arrayContaining(['tia', 'fitiavana', 'mitia']));
+    expect(entry?.count).toBe(entry?.forms.reduce((sum, form) => sum + form.count, 0));
+  });
+
+  it('should count every occurrence but reference each verse once', () => {
+    const form = concordance.lookup('tia', 10)?.forms.find(candidate => candidate.form === 'fitiavana');
+
+    expect(form?.count).toBe(2);
+    expect(form?.references).toEqual([
+      { bookId: 'john', bookName: 'Jaona', chapter: 15, verse: 13, reference: 'Jaona 15:13' },
+    ]);
+  });
+
+  it('should resolve forms that do not occur in the corpus', () => {
+    expect(concordance.resolveLemma('tiavina')).toBe('tia');
+    expect(concordance.lookup('xyz', 10)).toBeNull();
+  });
+
+  it('should index lemmas by letter', () => {
+    const index = concordance.getIndex('t');
+
+    expect(index.letters[0].letter).toBe('a');
+    expect(index.letters[index.letters.length - 1].letter).toBe(OTHER_LETTER);
+    expect(index.lemmas.map(lemma => lemma.lemma)).toContain('tia');
+    expect(index.lemmas.every(lemma => lemma.lemma.startsWith('t'))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for corpus statistics
+ */
+
+import { BibleBook, BookMeta, Testament } from '@/types/bible';
+import { computeCorpusStats, getTopWords } from '@/lib/corpus-stats';
+
+const genesisMeta = { id: 'genesis', name: 'Genesisy', fileName: 'genesisy', testament: Testament.OLD };
+const johnMeta = { id: 'john', name: 'Jaona', fileName: 'jaona', testament: Testament.NEW };
+
+const books: Array<{ meta: BookMeta; book: BibleBook }> = [
+  {
+    meta: genesisMeta,
+    book: {
+      ...genesisMeta,
+      chapters: {
+        '1': { '1': 'Tamin\'ny voalohany Andriamanitra nahary', '2': 'Ary ny tany' },
+        '2': { '1': 'Ary vita ny lanitra sy ny tany', '2': '', '3': 'Ary Andriamanitra nitahy' },
+      },
+    },
+  },
+  {
+    meta: johnMeta,
+    book: { ...johnMeta, chapters: { '11': { '35': 'Nitomany Jesoa' } } },
+  },
+];
+
+describe('computeCorpusStats', () => {
+  const stats = computeCorpusStats(books, 3);
+
+  it('should count chapters, verses and tokens per book and testament', () => {
+    expect(stats.books.map(book => [book.bookId, book.chapters, book.verses, book.words])).toEqual([
+      ['genesis', 2, 5, 18],
+      ['john', 1, 1, 2],
+    ]);
+    expect(stats.testaments.map(testament => [testament.testamentId, testament.books, testament.words])).toEqual([
+      ['old', 1, 18],
+      ['new', 1, 2],
+    ]);
+    expect(stats).toMatchObject({ totalBooks: 2, totalChapters: 3, totalVerses: 6, totalWords: 20 });
+    expect(stats.failedBooks).toEqual([]);
+  });
+
+  it('should list the books left out of partial figures', () => {
+    expect(computeCorpusStats(books.slice(0, 1), 3, ['john'])).toMatchObject({ totalBooks: 1, failedBooks: ['john'] });
+  });
+
+  it('should find the longest and shortest chapters and non-empty verses', () => {
+    expect(stats.longestChapter).toMatchObject({ bookId: 'genesis', chapter: 2, verseCount: 3 });
+    expect(stats.shortestChapter).toMatchObject({ bookId: 'john', chapter: 11, verseCount: 1 });
+    expect(stats.longestVerse).toMatchObject({ bookId: 'genesis', chapter: 2, verse: 1, wordCount: 7 });
+    expect(stats.shortestVerse).toMatchObject({ bookId: 'john', chapter: 11, verse: 35, wordCount: 2 });
+  });
+
+  it('should rank words by frequency, then alphabetically', () => {
+    expect(stats.topWords).toEqual([
+      { word: 'ny', count: 4 },
+      { word: 'ary', count: 3 },
+      { word: 'andriamanitra', count: 2 },
+    ]);
+    expect(getTopWords(new Map([['b', 1], ['a', 1]]), 5).map(entry => entry.word)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the cross-reference dataset
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CrossReferenceIndex, loadCrossReferenceIndex, parseDatasetVerse, toUsfmPassageId, toUsfmVerseId,
+} from '@/lib/cross-references';
+import { CrossReferencesUnavailableError } from '@/lib/errors';
+
+const dataset = [
+  '# Sample',
+  'From Verse\tTo Verse\tVotes',
+  'John.3.16\tRom.5.8\t120',
+  'John.3.16\t1John.4.9-1John.4.10\t250',
+  'JHN.3.16\tJHN.1.14-JHN.2.1\t3',
+  'John.3.16\tNowhere.1.1\t10',
+  'John.3.16\tRom.5.8-Rom.5.6\t10',
+  'Gen.1.1\tJohn.1.1\t80',
+].join('\n');
+
+describe('cross-references', () => {
+  it('should read OSIS and USFM book codes', () => {
+    expect(parseDatasetVerse('1John.4.9')).toEqual({ bookId: '1-john', chapter: 4, verse: 9 });
+    expect(parseDatasetVerse('1JN.4.9')).toEqual({ bookId: '1-john', chapter: 4, verse: 9 });
+    expect(parseDatasetVerse('Gen.1')).toBeNull();
+    expect(parseDatasetVerse('Nowhere.1.1')).toBeNull();
+  });
+
+  it('should format USFM verse and passage IDs', () => {
+    expect(toUsfmVerseId('john', 3, 16)).toBe('JHN 3:16');
+    expect(toUsfmPassageId({
+      bookId: 'john', bookName: 'Jaona', startChapter: 1, endChapter: 2, startVerse: 14, endVerse: 1,
+    })).toBe('JHN 1:14-2:1');
+  });
+
+  describe('CrossReferenceIndex', () => {
+    const index = CrossReferenceIndex.parse(dataset);
+
+    it('should key links by source verse, most votes first', () => {
+      const links = index.get('JHN 3:16');
+
+      expect(index.size).toBe(2);
+      expect(links.map(link => toUsfmPassageId(link.passage))).toEqual(['1JN 4:9-10', 'ROM 5:8', 'JHN 1:14-2:1']);
+      expect(links[0].votes).toBe(250);
+    });
+
+    it('should skip unknown books and reversed ranges', () => {
+      expect(index.get('JHN 3:16')).toHaveLength(3);
+      expect(index.get('ROM 5:8')).toEqual([]);
+    });
+  });
+
+  describe('loadCrossReferenceIndex', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'cross-references-'));
+
+    afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+    it('should load the dataset file', async () => {
+      const filePath = join(directory, 'dataset.tsv');
+      writeFileSync(filePath, dataset);
+
+      expect((await loadCrossReferenceIndex(filePath)).size).toBe(2);
+    });
+
+    it('should fail when the dataset file is missing', async () => {
+      await expect(loadCrossReferenceIndex(join(directory, 'missing.tsv')))
+        .rejects.toBeInstanceOf(CrossReferencesUnavailableError);
+    });
+
+    it('should fail when the dataset has no usable lines', async () => {
+      const filePath = join(directory, 'empty.tsv');
+      writeFileSync(filePath, 'From Verse\tTo Verse\tVotes\n');
+
+      await expect(loadCrossReferenceIndex(filePath)).rejects.toBeInstanceOf(CrossReferencesUnavailableError);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for favorite tags and collections
+ */
+
+import {
+  addToCollection,
+  countTags,
+  createFavoritesExport,
+  FavoriteCollection,
+  filterFavorites,
+  mergeTags,
+  moveItem,
+  parseFavoritesExport,
+  TaggedFavorite,
+} from '@/lib/favorite-collections';
+
+const favorite = (id: string, dateAdded: string, tags?: string[]): TaggedFavorite => ({
+  id,
+  book: 'Jaona',
+  text: `Andininy ${id}`,
+  reference: `Jaona 3:${id}`,
+  tags,
+  dateAdded,
+});
+
+const FAVORITES = [
+  favorite('16', '2026-01-01T00:00:00Z', ['fitiavana']),
+  favorite('17', '2026-02-01T00:00:00Z', ['fitiavana', 'famonjena']),
+  favorite('18', '2026-03-01T00:00:00Z'),
+];
+
+const COLLECTION: FavoriteCollection = {
+  id: 'c1',
+  name: 'Sekoly alahady',
+  favoriteIds: ['18', '16'],
+  dateCreated: '2026-01-01T00:00:00Z',
+};
+
+describe('tags', () => {
+  it('should normalize and deduplicate tags', () => {
+    expect(mergeTags(['fitiavana'], ['  Fitiavana ', 'Fampaherezana  vaovao', ''])).toEqual([
+      'fitiavana',
+      'fampaherezana vaovao',
+    ]);
+  });
+
+  it('should count tags, most used first', () => {
+    expect(countTags(FAVORITES)).toEqual([
+      { tag: 'fitiavana', count: 2 },
+      { tag: 'famonjena', count: 1 },
+    ]);
+  });
+});
+
+describe('collections', () => {
+  it('should reorder items and clamp the target position', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveItem(['a', 'b', 'c'], 1, 10)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should append only favorites the collection lacks', () => {
+    expect(addToCollection(COLLECTION, ['16', '17']).favoriteIds).toEqual(['18', '16', '17']);
+  });
+});
+
+describe('filterFavorites', () => {
+  it('should keep collection order inside a collection and newest first otherwise', () => {
+    expect(filterFavorites(FAVORITES).map(item => item.id)).toEqual(['18', '17', '16']);
+    expect(filterFavorites(FAVORITES, { collection: COLLECTION }).map(item => item.id)).toEqual(['18', '16']);
+  });
+
+  it('should filter by tag and text together', () => {
+    expect(filterFavorites(FAVORITES, { tag: 'fitiavana', query: '3:17' }).map(item => item.id)).toEqual(['17']);
+    expect(filterFavorites(FAVORITES, { query: 'FAMONJENA' }).map(item => item.id)).toEqual(['17']);
+  });
+});
+
+describe('parseFavoritesExport', () => {
+  it('should read version 1 files as a bare list of favorites', () => {
+    expect(parseFavoritesExport(FAVORITES)).toEqual({ favorites: FAVORITES, collections: [] });
+  });
+
+  it('should round-trip version 2 files and drop unknown collection entries', () => {
+    const file = createFavoritesExport(FAVORITES.slice(1), [COLLECTION, { id: 'broken' }] as FavoriteCollection[]);
+    const parsed = parseFavoritesExport(JSON.parse(JSON.stringify(file)));
+
+    expect(parsed.favorites).toHaveLength(2);
+    expect(parsed.collections).toEqual([{ ...COLLECTION, favoriteIds: ['18'] }]);
+  });
+});
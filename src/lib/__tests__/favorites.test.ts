@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the favorites store and its migration
+ */
+
+import {
+  addToFavorites,
+  FAVORITES_STORE_VERSION,
+  getFavoriteVerses,
+  isInFavorites,
+  loadFavoritesStore,
+  mergeFavoritesImport,
+  migrateFavorites,
+  toFavoriteId,
+  type Favorite,
+} from '@/lib/favorites';
+import { userStorage } from '@/lib/user-storage';
+
+/** Written by lib/favorites before version 2: IDs from the book name */
+const LIBRARY_V1 = [
+  { id: 'Jaona-3-16', book: 'Jaona', chapter: '3', verse: '16', text: 'Fa toy izao', dateAdded: '2020-05-01T00:00:00Z', note: 'Fitiavana' },
+  { id: 'Salamo-23-1', book: 'Salamo', chapter: '23', verse: '1', text: 'Jehovah no Mpiandry ahy', dateAdded: '2021-01-01T00:00:00Z' },
+];
+
+/** Written by FavoritesContext before version 2: IDs from the book ID */
+const CONTEXT_V1 = [
+  {
+    id: 'john-3-16',
+    book: 'Jaona',
+    bookId: 'john',
+    chapter: '3',
+    verse: '16',
+    text: 'Fa toy izao',
+    reference: 'Jaona 3:16',
+    note: 'Jaona 3:16 no Filazantsara',
+    tags: ['fitiavana'],
+    dateAdded: '2023-02-01T00:00:00Z',
+  },
+  {
+    id: 'Test Book-1-1',
+    book: 'Test Book',
+    bookId: 'Test Book',
+    chapter: '1',
+    verse: '1',
+    text: 'tsy fantatra',
+    reference: 'Test Book 1:1',
+    dateAdded: '2022-01-01T00:00:00Z',
+  },
+];
+
+describe('toFavoriteId', () => {
+  it('should resolve book names and IDs to the same canonical ID', () => {
+    expect(toFavoriteId('Jaona', '3', '16')).toBe('john-3-16');
+    expect(toFavoriteId('john', '3', '16')).toBe('john-3-16');
+    expect(toFavoriteId('Salamo', '23', '1')).toBe('psalms-23-1');
+  });
+});
+
+describe('migrateFavorites', () => {
+  it('should merge both formats into canonical IDs without losing entries', () => {
+    const store = migrateFavorites({
+      library: LIBRARY_V1,
+      context: CONTEXT_V1,
+      collections: [{ id: 'c1', name: 'Fitiavana', favoriteIds: ['john-3-16', 'Test Book-1-1'], dateCreated: '2023-01-01' }],
+    });
+
+    expect(store.version).toBe(FAVORITES_STORE_VERSION);
+    expect(store.favorites.map(favorite => favorite.id)).toEqual(['Test Book-1-1', 'psalms-23-1', 'john-3-16']);
+    expect(store.collections[0].favoriteIds).toEqual(['john-3-16', 'Test Book-1-1']);
+  });
+
+  it('should combine duplicate verses keeping the earliest date and every note and tag', () => {
+    const john = migrateFavorites({ library: LIBRARY_V1, context: CONTEXT_V1 }).favorites
+      .find(favorite => favorite.id === 'john-3-16');
+
+    expect(john).toMatchObject({
+      bookId: 'john',
+      reference: 'Jaona 3:16',
+      note: 'Fitiavana\n\nJaona 3:16 no Filazantsara',
+      tags: ['fitiavana'],
+      dateAdded: '2020-05-01T00:00:00Z',
+    });
+  });
+
+  it('should remap collection entries that used name-based IDs', () => {
+    const store = migrateFavorites({
+      library: LIBRARY_V1,
+      collections: [{ id: 'c1', name: 'Salamo', favoriteIds: ['Salamo-23-1', 'missing-1-1'], dateCreated: '2023-01-01' }],
+    });
+
+    expect(store.collections[0].favoriteIds).toEqual(['psalms-23-1']);
+  });
+});
+
+describe('mergeFavoritesImport', () => {
+  const store = migrateFavorites({
+    context: [CONTEXT_V1[0]],
+    collections: [{ id: 'collection-1', name: 'Fitiavana', favoriteIds: ['john-3-16'], dateCreated: '2023-01-01' }],
+  });
+
+  it('should add new verses and merge tags into existing ones', () => {
+    const merged = mergeFavoritesImport(store, [
+      { ...CONTEXT_V1[0], tags: ['fanantenana'] },
+      ...LIBRARY_V1.slice(1) as unknown as Favorite[],
+    ]);
+
+    expect(merged.favorites.map(fav => fav.id)).toEqual(['psalms-23-1', 'john-3-16']);
+    expect(merged.favorites[1].tags).toEqual(['fitiavana', 'fanantenana']);
+  });
+
+  it('should merge a collection into the one with the same ID even when renamed', () => {
+    const merged = mergeFavoritesImport(store, {
+      version: 2,
+      exportedAt: '2024-01-01',
+      favorites: LIBRARY_V1 as unknown as Favorite[],
+      collections: [
+        { id: 'collection-1', name: 'Fitiavana sy fanantenana', favoriteIds: ['Salamo-23-1'], dateCreated: '2024-01-01' },
+      ],
+    });
+
+    expect(merged.collections).toHaveLength(1);
+    expect(merged.collections[0]).toMatchObject({ id: 'collection-1', favoriteIds: ['john-3-16', 'psalms-23-1'] });
+  });
+});
+
+describe('loadFavoritesStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should migrate legacy keys once, backing up the raw data first', async () => {
+    localStorage.setItem('ny-baiboly-favorites', JSON.stringify(LIBRARY_V1));
+    localStorage.setItem('bible-favorites', JSON.stringify(CONTEXT_V1));
+
+    expect((await loadFavoritesStore()).favorites).toHaveLength(3);
+    expect(localStorage.getItem('bible-favorites')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('ny-baiboly-favorites-backup')!)[0]['bible-favorites'])
+      .toEqual(CONTEXT_V1);
+    expect(JSON.parse(localStorage.getItem('ny-baiboly-favorites')!).version).toBe(FAVORITES_STORE_VERSION);
+
+    expect(await getFavoriteVerses()).toHaveLength(3);
+    expect(await isInFavorites('Salamo', '23', '1')).toBe(true);
+  });
+
+  it('should keep unreadable legacy data in the backup', async () => {
+    localStorage.setItem('ny-baiboly-favorites-backup', JSON.stringify([{ backedUpAt: '2024-01-01' }]));
+    localStorage.setItem('bible-favorites', '[{"id": broken');
+
+    expect((await loadFavoritesStore()).favorites).toEqual([]);
+    const backups = JSON.parse(localStorage.getItem('ny-baiboly-favorites-backup')!);
+    expect(backups).toHaveLength(2);
+    expect(backups[1]['bible-favorites']).toBe('[{"id": broken');
+  });
+
+  it('should keep every favorite added at the same time', async () => {
+    await Promise.all([
+      addToFavorites({ book: 'Jaona', bookId: 'john', chapter: '3', verse: '16', text: 'Fa toy izao' }),
+      addToFavorites({ book: 'Salamo', bookId: 'psalms', chapter: '23', verse: '1', text: 'Jehovah no Mpiandry ahy' }),
+    ]);
+
+    expect((await getFavoriteVerses()).map(fav => fav.id).sort()).toEqual(['john-3-16', 'psalms-23-1']);
+  });
+
+  it('should keep favorites added while legacy data is being migrated', async () => {
+    localStorage.setItem('bible-favorites', JSON.stringify(CONTEXT_V1));
+
+    await Promise.all([
+      loadFavoritesStore(),
+      addToFavorites({ book: 'Salamo', bookId: 'psalms', chapter: '23', verse: '1', text: 'Jehovah no Mpiandry ahy' }),
+      loadFavoritesStore(),
+      addToFavorites({ book: 'Genesisy', bookId: 'genesis', chapter: '1', verse: '1', text: 'Tamin\'ny voalohany' }),
+    ]);
+
+    expect((await getFavoriteVerses()).map(fav => fav.id).sort())
+      .toEqual(['Test Book-1-1', 'genesis-1-1', 'john-3-16', 'psalms-23-1']);
+    expect(JSON.parse(localStorage.getItem('ny-baiboly-favorites-backup')!)).toHaveLength(1);
+  });
+
+  it('should fail rather than return an empty store when storage cannot be read', async () => {
+    localStorage.setItem('ny-baiboly-favorites', JSON.stringify(LIBRARY_V1));
+    const get = jest.spyOn(userStorage, 'get').mockRejectedValueOnce(new Error('unreadable'));
+
+    await expect(loadFavoritesStore()).rejects.toThrow('unreadable');
+    get.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for verse highlights
+ */
+
+import {
+  addHighlight,
+  applyHighlight,
+  filterHighlights,
+  formatHighlightReference,
+  getChapterHighlights,
+  getHighlights,
+  removeVerseHighlights,
+  VerseHighlight,
+} from '@/lib/highlights';
+
+const JOHN_3 = { bookId: 'john', bookName: 'Jaona', chapter: '3' };
+
+describe('applyHighlight', () => {
+  it('should key a multi-verse selection by USFM verse IDs in verse order', () => {
+    const [highlight] = applyHighlight([], {
+      ...JOHN_3,
+      verses: [{ number: '17', text: 'Fa Andriamanitra...' }, { number: '16', text: 'Fa toy izao...' }],
+      color: 'yellow',
+      label: '  Fitiavana ',
+    });
+
+    expect(highlight.verses.map(verse => verse.id)).toEqual(['JHN 3:16', 'JHN 3:17']);
+    expect(highlight.label).toBe('Fitiavana');
+    expect(formatHighlightReference(highlight)).toBe('Jaona 3:16-17');
+  });
+
+  it('should give each verse one color, newest selection winning', () => {
+    let highlights = applyHighlight([], {
+      ...JOHN_3,
+      verses: [{ number: '16', text: 'a' }, { number: '18', text: 'c' }],
+      color: 'yellow',
+    });
+    highlights = applyHighlight(highlights, { ...JOHN_3, verses: [{ number: '16', text: 'a' }], color: 'green' });
+
+    const byVerse = getChapterHighlights(highlights, 'john', '3');
+    expect(byVerse['16'].color).toBe('green');
+    expect(byVerse['18'].color).toBe('yellow');
+    expect(formatHighlightReference(byVerse['18'])).toBe('Jaona 3:18');
+  });
+
+  it('should ignore an empty selection', () => {
+    expect(applyHighlight([], { ...JOHN_3, verses: [], color: 'blue' })).toEqual([]);
+  });
+});
+
+describe('filterHighlights', () => {
+  const highlights: VerseHighlight[] = [
+    applyHighlight([], { ...JOHN_3, verses: [{ number: '16', text: 'Fa toy izao' }], color: 'yellow' })[0],
+    applyHighlight([], {
+      bookId: 'psalms',
+      bookName: 'Salamo',
+      chapter: '23',
+      verses: [{ number: '1', text: 'Jehovah no Mpiandry ahy' }],
+      color: 'green',
+      label: 'Fampaherezana',
+    })[0],
+  ];
+
+  it('should filter by color', () => {
+    expect(filterHighlights(highlights, { color: 'green' }).map(formatHighlightReference)).toEqual(['Salamo 23:1']);
+  });
+
+  it('should match labels, references and text without case', () => {
+    expect(filterHighlights(highlights, { query: 'fampahereZANA' })).toHaveLength(1);
+    expect(filterHighlights(highlights, { query: 'jaona 3' })).toHaveLength(1);
+    expect(filterHighlights(highlights, { query: 'mpiandry' })).toHaveLength(1);
+    expect(filterHighlights(highlights, { query: '  ' })).toHaveLength(2);
+  });
+});
+
+describe('highlight storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should persist highlights and drop emptied ones when verses are cleared', async () => {
+    await addHighlight({ ...JOHN_3, verses: [{ number: '16', text: 'a' }], color: 'pink' });
+    expect(await getHighlights()).toHaveLength(1);
+
+    expect(await removeVerseHighlights('john', '3', ['16'])).toEqual([]);
+    expect(await getHighlights()).toEqual([]);
+  });
+
+  it('should skip stored entries with unknown colors', async () => {
+    localStorage.setItem('ny-baiboly-highlights', JSON.stringify([{ id: 'x', color: 'red', verses: [] }]));
+
+    expect(await getHighlights()).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for Malagasy normalization and stemming
+ */
+
+import { foldText, stemMalagasy } from '@/lib/malagasy-text';
+
+const shareStem = (a: string, b: string) => {
+  const stems = new Set(stemMalagasy(a));
+  return stemMalagasy(b).some(stem => stems.has(stem));
+};
+
+describe('foldText', () => {
+  it('should fold diacritics', () => {
+    expect(foldText('Lalàna sy Jehôvah')).toBe('lalana sy jehovah');
+  });
+
+  it('should unify apostrophe variants', () => {
+    expect(foldText('n’ny an‘i')).toBe('n\'ny an\'i');
+  });
+
+  it('should keep case when asked', () => {
+    expect(foldText('Andriamanitra', true)).toBe('Andriamanitra');
+  });
+});
+
+describe('stemMalagasy', () => {
+  it('should relate fitiavana, mitia and tia', () => {
+    expect(stemMalagasy('fitiavana')).toContain('tia');
+    expect(shareStem('fitiavana', 'mitia')).toBe(true);
+    expect(shareStem('fitiavana', 'tia')).toBe(true);
+  });
+
+  it('should undo prefix nasalization', () => {
+    expect(shareStem('manoratra', 'soratra')).toBe(true);
+    expect(shareStem('mamonjy', 'vonjy')).toBe(true);
+  });
+
+  it('should treat final y and i alike', () => {
+    expect(shareStem('vonjy', 'vonjena')).toBe(true);
+  });
+
+  it('should not strip short roots', () => {
+    expect(stemMalagasy('tia')).toEqual(['tia']);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for the generated OpenAPI document
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { buildOpenApiSpec, zodToJsonSchema } from '@/lib/openapi';
+
+/** Every route under src/app/api as an OpenAPI path, e.g. /api/{reference} */
+function listApiRoutes(dir: string = path.join(process.cwd(), 'src/app/api')): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listApiRoutes(fullPath);
+    }
+    if (entry.name !== 'route.ts') {
+      return [];
+    }
+    const route = path.relative(path.join(process.cwd(), 'src/app'), dir).split(path.sep).join('/');
+    return [`/${route.replace(/\[(\w+)\]/g, '{$1}')}`];
+  });
+}
+
+describe('zodToJsonSchema', () => {
+  it('should convert constraints, defaults and optional fields', () => {
+    const schema = z.object({
+      q: z.string().min(1).describe('Query'),
+      limit: z.coerce.number().int().positive().max(500).default(50),
+      testament: z.enum(['old', 'new']).optional(),
+      cursor: z.string().nullable(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        q: { type: 'string', minLength: 1, description: 'Query' },
+        limit: { type: 'integer', exclusiveMinimum: 0, maximum: 500, default: 50 },
+        testament: { type: 'string', enum: ['old', 'new'] },
+        cursor: { type: ['string', 'null'] },
+      },
+      required: ['q', 'cursor'],
+    });
+  });
+});
+
+describe('buildOpenApiSpec', () => {
+  const spec = buildOpenApiSpec();
+
+  it('should document every API route', () => {
+    const documented = Object.keys(spec.paths);
+    const undocumented = listApiRoutes().filter(route => route !== '/api/openapi.json' && !documented.includes(route));
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('should resolve every component reference', () => {
+    const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g) ?? [];
+
+    for (const ref of new Set(refs)) {
+      expect(spec.components.schemas).toHaveProperty(ref.split('/').pop()!);
+    }
+  });
+
+  it('should document the random filters', () => {
+    const parameters = spec.paths['/api/v1/random'].get?.parameters?.map(parameter => parameter.name);
+
+    expect(parameters).toEqual(['count', 'testament', 'books', 'translation']);
+  });
+});
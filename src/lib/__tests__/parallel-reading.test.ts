@@ -0,0 +1,40 @@
+/**
+ * Unit tests for parallel reading alignment
+ */
+
+import { alignParallelVerses, formatRowLabel } from '@/lib/parallel-reading';
+
+describe('alignParallelVerses', () => {
+  it('should pair verses by number in numeric order', () => {
+    const rows = alignParallelVerses(
+      { '10': 'folo', '2': 'roa', '1': 'iray' },
+      { '1': 'un', '2': 'deux', '10': 'dix' }
+    );
+
+    expect(rows.map(formatRowLabel)).toEqual(['1', '2', '10']);
+    expect(rows[2]).toEqual({
+      start: 10,
+      end: 10,
+      primary: [{ number: '10', text: 'folo' }],
+      secondary: [{ number: '10', text: 'dix' }],
+    });
+  });
+
+  it('should leave a side empty where its translation lacks the verse', () => {
+    const rows = alignParallelVerses({ '1': 'iray', '2': 'roa', '3': 'telo' }, { '1': 'un', '2': '', '3': 'trois' });
+
+    expect(rows[1].primary).toHaveLength(1);
+    expect(rows[1].secondary).toEqual([]);
+  });
+
+  it('should span merged verses across the other side\'s separate ones', () => {
+    const rows = alignParallelVerses(
+      { '3': 'telo', '4': 'efatra', '5': 'dimy', '6': 'enina' },
+      { '3': 'trois', '4-5': 'quatre et cinq', '6': 'six' }
+    );
+
+    expect(rows.map(formatRowLabel)).toEqual(['3', '4-5', '6']);
+    expect(rows[1].primary.map(verse => verse.number)).toEqual(['4', '5']);
+    expect(rows[1].secondary.map(verse => verse.number)).toEqual(['4-5']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the passage reference grammar
+ */
+
+import { formatPassageList, parsePassageReference } from '@/lib/passage-reference';
+import { DataNotFoundError, ValidationError } from '@/lib/errors';
+
+const summarize = (input: string) => parsePassageReference(input).map(passage => [
+  passage.bookId,
+  passage.startChapter,
+  passage.startVerse,
+  passage.endChapter,
+  passage.endVerse,
+]);
+
+describe('parsePassageReference', () => {
+  it('should parse whole chapters and chapter ranges', () => {
+    expect(summarize('Sal 23')).toEqual([['psalms', 23, undefined, 23, undefined]]);
+    expect(summarize('Gen 1-3')).toEqual([['genesis', 1, undefined, 3, undefined]]);
+  });
+
+  it('should parse verses, verse ranges and cross-chapter ranges', () => {
+    expect(summarize('Jaona 3:16')).toEqual([['john', 3, 16, 3, 16]]);
+    expect(summarize('1 Kor 13:4-7')).toEqual([['1-corinthians', 13, 4, 13, 7]]);
+    expect(summarize('Jaona 3:16-4:3')).toEqual([['john', 3, 16, 4, 3]]);
+  });
+
+  it('should treat comma items after a verse as verses of the same chapter', () => {
+    expect(summarize('Sal 23:1,4-6, 24:1')).toEqual([
+      ['psalms', 23, 1, 23, 1],
+      ['psalms', 23, 4, 23, 6],
+      ['psalms', 24, 1, 24, 1],
+    ]);
+  });
+
+  it('should parse semicolon lists and reuse the previous book', () => {
+    expect(summarize('Rom 8:28; Fil 4:13; 4:19')).toEqual([
+      ['romans', 8, 28, 8, 28],
+      ['philippians', 4, 13, 4, 13],
+      ['philippians', 4, 19, 4, 19],
+    ]);
+  });
+
+  it('should reject malformed references', () => {
+    expect(() => parsePassageReference('Jaona')).toThrow(ValidationError);
+    expect(() => parsePassageReference('3:16')).toThrow(ValidationError);
+    expect(() => parsePassageReference('Jaona 4:3-3:16')).toThrow(ValidationError);
+    expect(() => parsePassageReference('Xyz 1:1')).toThrow(DataNotFoundError);
+  });
+});
+
+describe('formatPassageList', () => {
+  it('should round-trip through the parser', () => {
+    const reference = 'Salamo 23; Genesisy 1-3; Jaona 3:16-4:3; 1 Korintianina 13:4-7; Filipianina 4:13';
+    const passages = parsePassageReference(reference);
+
+    expect(formatPassageList(passages)).toBe(reference);
+    expect(parsePassageReference(formatPassageList(passages))).toEqual(passages);
+  });
+});
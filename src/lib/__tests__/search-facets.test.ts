@@ -0,0 +1,34 @@
+/**
+ * Unit tests for search facet counts
+ */
+
+import { computeSearchFacets, getChapterRangeStart } from '@/lib/search-facets';
+
+const verse = (bookId: string, chapter: string) => ({ bookId, chapter, verse: '1', text: '' });
+
+describe('computeSearchFacets', () => {
+  it('should group chapters into ranges of ten', () => {
+    expect(getChapterRangeStart(1)).toBe(1);
+    expect(getChapterRangeStart(10)).toBe(1);
+    expect(getChapterRangeStart(11)).toBe(11);
+    expect(getChapterRangeStart(150)).toBe(141);
+  });
+
+  it('should count hits per book, testament and chapter range', () => {
+    const facets = computeSearchFacets([
+      verse('genesis', '1'),
+      verse('psalms', '23'),
+      verse('psalms', '27'),
+      verse('psalms', '119'),
+      verse('john', '3'),
+    ]);
+
+    expect(facets.books.map(book => [book.bookId, book.count])).toEqual([
+      ['psalms', 3],
+      ['genesis', 1],
+      ['john', 1],
+    ]);
+    expect(facets.testaments).toEqual({ old: 4, new: 1 });
+    expect(facets.chapterRanges[0]).toEqual({ bookId: 'psalms', from: 21, to: 30, count: 2 });
+  });
+});
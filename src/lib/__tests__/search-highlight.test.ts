@@ -0,0 +1,58 @@
+/**
+ * Unit tests for search match spans and snippets
+ */
+
+import { foldText } from '@/lib/malagasy-text';
+import { buildSnippet, findMatchSpans } from '@/lib/search-highlight';
+import { parseSearchQuery, collectPositiveTerms } from '@/lib/search-query';
+
+const spansFor = (text: string, query: string, stemming: boolean = false) =>
+  findMatchSpans(text, collectPositiveTerms(parseSearchQuery(query).root), {
+    prepare: value => foldText(value),
+    stemming,
+  });
+
+describe('findMatchSpans', () => {
+  it('should map folded matches back to original offsets', () => {
+    const text = 'Ary izy mitia ny lalàna.';
+    const [span] = spansFor(text, 'lalana');
+
+    expect(text.slice(span.start, span.end)).toBe('lalàna');
+  });
+
+  it('should cover decomposed diacritics', () => {
+    const text = 'ny lala\u0300na';
+    const [span] = spansFor(text, 'lalana');
+
+    expect(span).toEqual({ start: 3, end: 10, term: 'lalana' });
+  });
+
+  it('should highlight whole words matched by stemming', () => {
+    const text = 'Ary ny fitiavana tsy mitsahatra, fa izy mitia.';
+    const spans = spansFor(text, 'tia', true);
+
+    expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['fitiavana', 'mitia']);
+  });
+
+  it('should merge overlapping spans from several terms', () => {
+    const text = 'Jesoa Kristy Tompo';
+    const spans = spansFor(text, '"Jesoa Kristy" OR Kristy');
+
+    expect(spans).toHaveLength(1);
+    expect(text.slice(spans[0].start, spans[0].end)).toBe('Jesoa Kristy');
+  });
+});
+
+describe('buildSnippet', () => {
+  const text = 'iray roa telo efatra dimy enina fito valo sivy folo';
+
+  it('should keep a context window around the first match', () => {
+    const spans = [{ start: text.indexOf('dimy'), end: text.indexOf('dimy') + 4, term: 'dimy' }];
+
+    expect(buildSnippet(text, spans, 2)).toBe('… telo efatra <mark>dimy</mark> enina fito …');
+  });
+
+  it('should escape verse text', () => {
+    expect(buildSnippet('a <b> c', [{ start: 0, end: 1, term: 'a' }], 5)).toBe('<mark>a</mark> &lt;b&gt; c');
+  });
+});
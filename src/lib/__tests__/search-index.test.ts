@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the inverted search index
+ */
+
+import { BibleBook, Testament } from '@/types/bible';
+import { SearchIndex, SEARCH_INDEX_VERSION, isUsableIndex, tokenize } from '@/lib/search-index';
+
+const origin = { source: 'memory', location: 'memory', fingerprint: 'abc' };
+
+const genesisMeta = { id: 'genesis', name: 'Genesisy', fileName: 'genesisy', testament: Testament.OLD };
+
+const genesis: BibleBook = {
+  ...genesisMeta,
+  chapters: {
+    '2': { '1': 'Ary vita ny lanitra sy ny tany.' },
+    '1': {
+      '10': 'Ary ny tany maina nataon\'Andriamanitra hoe tany.',
+      '1': 'Tamin\'ny voalohany Andriamanitra nahary ny lanitra sy ny tany.',
+    },
+  },
+};
+
+describe('SearchIndex', () => {
+  const index = SearchIndex.build([{ meta: genesisMeta, book: genesis }], origin);
+
+  it('should tokenize on non-letter characters', () => {
+    expect(tokenize('Tamin\'ny voalohany, Andriamanitra!')).toEqual(['tamin', 'ny', 'voalohany', 'andriamanitra']);
+  });
+
+  it('should index verses in canonical order', () => {
+    const refs = [0, 1, 2].map(docId => {
+      const doc = index.getDocument(docId);
+      return `${doc.chapter}:${doc.verse}`;
+    });
+
+    expect(refs).toEqual(['1:1', '1:10', '2:1']);
+  });
+
+  it('should intersect postings for multi-word queries', () => {
+    expect(index.findCandidates('lanitra tany')).toEqual([0, 2]);
+  });
+
+  it('should match query tokens inside longer words', () => {
+    expect(index.findCandidates('manitra')).toEqual([0, 1]);
+    expect(index.findCandidates('ani')).toEqual([0, 1, 2]);
+    expect(index.findCandidates('nitrx')).toEqual([]);
+  });
+
+  it('should round-trip through the serialized format', () => {
+    const serialized = index.serialize();
+    const restored = SearchIndex.deserialize(JSON.parse(JSON.stringify(serialized)));
+
+    expect(serialized.version).toBe(SEARCH_INDEX_VERSION);
+    expect(restored.size).toBe(index.size);
+    expect(restored.findCandidates('voalohany')).toEqual(index.findCandidates('voalohany'));
+  });
+
+  it('should reject indexes built from another source, location, corpus or version', () => {
+    const serialized = index.serialize();
+
+    expect(isUsableIndex(serialized, origin)).toBe(true);
+    expect(isUsableIndex(serialized, { ...origin, source: 'github' })).toBe(false);
+    expect(isUsableIndex(serialized, { ...origin, location: 'public/other' })).toBe(false);
+    expect(isUsableIndex(serialized, { ...origin, fingerprint: 'def' })).toBe(false);
+    expect(isUsableIndex({ ...serialized, version: SEARCH_INDEX_VERSION + 1 }, origin)).toBe(false);
+  });
+
+  it('should accept an index from the same location when the corpus cannot be checked', () => {
+    expect(isUsableIndex(index.serialize(), { ...origin, fingerprint: null })).toBe(true);
+  });
+});
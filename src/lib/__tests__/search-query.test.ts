@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the search query language
+ */
+
+import { BibleBook, Testament } from '@/types/bible';
+import { SearchIndex } from '@/lib/search-index';
+import { foldText } from '@/lib/malagasy-text';
+import { parseSearchQuery, collectPositiveTerms, executeSearchQuery } from '@/lib/search-query';
+
+const johnMeta = { id: 'john', name: 'Jaona', fileName: 'jaona', testament: Testament.NEW };
+
+const john: BibleBook = {
+  ...johnMeta,
+  chapters: {
+    '1': {
+      '1': 'Jesoa Kristy no fitiavana.',
+      '2': 'Ny lalàna sy ny fitiavana avy amin\'i Jesoa Kristy.',
+      '3': 'Jesoa dia nandeha, ary Kristy no nahatonga ny fitiavana.',
+      '4': 'Ny fanahy no mamelona.',
+    },
+  },
+};
+
+const index = SearchIndex.build([{ meta: johnMeta, book: john }], { source: 'memory', location: 'memory', fingerprint: null });
+
+const run = (query: string) => {
+  const parsed = parseSearchQuery(query);
+  return executeSearchQuery(parsed.root, {
+    index,
+    prepare: text => foldText(text),
+    stemming: false,
+    isAllowed: () => true,
+  }).map(docId => index.getDocument(docId).verse);
+};
+
+describe('parseSearchQuery', () => {
+  it('should keep plain queries as a single implicit phrase', () => {
+    expect(parseSearchQuery('Jesoa Kristy').root).toEqual({ type: 'phrase', value: 'Jesoa Kristy', implicit: true });
+  });
+
+  it('should parse phrases, AND and exclusions', () => {
+    const parsed = parseSearchQuery('"Jesoa Kristy" AND fitiavana -lalàna');
+
+    expect(parsed.root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'phrase', value: 'Jesoa Kristy' },
+        { type: 'term', value: 'fitiavana' },
+        { type: 'not', child: { type: 'term', value: 'lalàna' } },
+      ],
+    });
+    expect(collectPositiveTerms(parsed.root).map(term => term.value)).toEqual(['Jesoa Kristy', 'fitiavana']);
+  });
+
+  it('should extract field filters', () => {
+    const parsed = parseSearchQuery('fanahy book:salamo testament:taloha');
+
+    expect(parsed.books).toEqual(['salamo']);
+    expect(parsed.testament).toBe('old');
+  });
+
+  it('should reject malformed queries', () => {
+    expect(() => parseSearchQuery('"Jesoa Kristy')).toThrow('Unterminated');
+    expect(() => parseSearchQuery('(fanahy OR fo')).toThrow('Missing ")"');
+    expect(() => parseSearchQuery('(a OR b) NEAR/3 c')).toThrow('NEAR/n');
+    expect(() => parseSearchQuery('book:salamo')).toThrow('at least one word');
+  });
+});
+
+describe('executeSearchQuery', () => {
+  it('should combine phrases, AND and exclusions', () => {
+    expect(run('"Jesoa Kristy" AND fitiavana -lalàna')).toEqual(['1']);
+  });
+
+  it('should union OR branches', () => {
+    expect(run('fanahy OR lalana')).toEqual(['2', '4']);
+  });
+
+  it('should honour NEAR distance', () => {
+    expect(run('Jesoa NEAR/1 Kristy')).toEqual(['1', '2']);
+    expect(run('Jesoa NEAR/4 Kristy')).toEqual(['1', '2', '3']);
+  });
+
+  it('should treat a leading NOT as everything else', () => {
+    expect(run('NOT Jesoa')).toEqual(['4']);
+  });
+});
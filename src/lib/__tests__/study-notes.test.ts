@@ -0,0 +1,112 @@
+/**
+ * Unit tests for study notes and their Markdown
+ */
+
+import { getNoteReferences, parseNoteInline, parseNoteMarkdown } from '@/lib/note-markdown';
+import {
+  addStudyNote,
+  getChapterNotes,
+  getStudyNotes,
+  MAX_NOTE_HISTORY,
+  searchStudyNotes,
+  updateStudyNote,
+} from '@/lib/study-notes';
+import { parsePassageReference } from '@/lib/passage-reference';
+import { StorageQuotaError } from '@/lib/errors';
+
+describe('parseNoteMarkdown', () => {
+  it('should parse headings, lists, quotes and paragraphs', () => {
+    const blocks = parseNoteMarkdown([
+      '# Fitiavana',
+      'Andriamanitra',
+      'tia izao tontolo izao.',
+      '',
+      '- voalohany',
+      '- faharoa',
+      '1. iray',
+      '> teny nalaina',
+    ].join('\n'));
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'list', 'quote']);
+    expect(blocks[1]).toEqual({ type: 'paragraph', content: [{ type: 'text', text: 'Andriamanitra tia izao tontolo izao.' }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: 'voalohany' }], [{ text: 'faharoa' }]] });
+    expect(blocks[3]).toMatchObject({ ordered: true });
+  });
+
+  it('should parse inline emphasis, code and web links', () => {
+    expect(parseNoteInline('**tia** *tokoa* `agape` [lahatsoratra](https://example.org)')).toEqual([
+      { type: 'strong', text: 'tia' },
+      { type: 'text', text: ' ' },
+      { type: 'em', text: 'tokoa' },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'agape' },
+      { type: 'text', text: ' ' },
+      { type: 'link', text: 'lahatsoratra', href: 'https://example.org' },
+    ]);
+  });
+
+  it('should resolve reference links and keep unknown ones as text', () => {
+    const [link, text] = parseNoteInline('[[Rom 5:8]] [[Tsy misy 1:1]]');
+
+    expect(link).toMatchObject({ type: 'reference', text: 'Rom 5:8', passages: [{ bookId: 'romans', startVerse: 8 }] });
+    expect(text).toEqual({ type: 'text', text: ' [[Tsy misy 1:1]]' });
+    expect(getNoteReferences('Jereo [[Rom 5:8]] sy [[1 Jaona 4:9-10]]').map(passage => passage.bookId))
+      .toEqual(['romans', '1-john']);
+  });
+});
+
+describe('study notes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should attach notes to ranges and show them on each covered verse', async () => {
+    const note = await addStudyNote(parsePassageReference('Jaona 3:16-17')[0], 'Fitiavana');
+
+    expect(note?.reference).toBe('Jaona 3:16-17');
+    const byVerse = getChapterNotes(await getStudyNotes(), 'john', '3', ['15', '16', '17']);
+    expect(Object.keys(byVerse)).toEqual(['16', '17']);
+  });
+
+  it('should keep earlier texts in the history, newest first', async () => {
+    const note = await addStudyNote(parsePassageReference('Sal 23:1')[0], 'voalohany');
+    await updateStudyNote(note!.id, 'faharoa');
+    const updated = await updateStudyNote(note!.id, 'fahatelo');
+
+    expect(updated?.body).toBe('fahatelo');
+    expect(updated?.history.map(revision => revision.body)).toEqual(['faharoa', 'voalohany']);
+
+    for (let index = 0; index < MAX_NOTE_HISTORY + 5; index++) {
+      await updateStudyNote(note!.id, `${index}`);
+    }
+    expect((await getStudyNotes())[0].history).toHaveLength(MAX_NOTE_HISTORY);
+  });
+
+  it('should tell unchanged, missing and unsaved edits apart', async () => {
+    const note = await addStudyNote(parsePassageReference('Sal 23:1')[0], 'voalohany');
+
+    expect(await updateStudyNote(note!.id, 'voalohany')).toEqual(note);
+    expect(await updateStudyNote('missing', 'faharoa')).toBeNull();
+
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    try {
+      await expect(updateStudyNote(note!.id, 'faharoa')).rejects.toBeInstanceOf(StorageQuotaError);
+    } finally {
+      setItem.mockRestore();
+    }
+    expect((await getStudyNotes())[0].body).toBe('voalohany');
+  });
+
+  it('should search text and notes on or linking to a referenced passage', async () => {
+    await addStudyNote(parsePassageReference('Jaona 3:16')[0], 'Fitiavan\'Andriamanitra');
+    await addStudyNote(parsePassageReference('Sal 23:1')[0], 'Mpiandry; jereo koa [[Jaona 10:11]]');
+    const notes = await getStudyNotes();
+
+    expect(searchStudyNotes(notes, 'mpiandry').map(note => note.reference)).toEqual(['Salamo 23:1']);
+    expect(searchStudyNotes(notes, 'Jaona 3')).toHaveLength(1);
+    expect(searchStudyNotes(notes, 'Jaona 10').map(note => note.reference)).toEqual(['Salamo 23:1']);
+    expect(searchStudyNotes(notes, '')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for the translation registry
+ */
+
+import { getConfig } from '@/config/app';
+import { DEFAULT_TRANSLATION_ID } from '@/constants/bible';
+import { ValidationError } from '@/lib/errors';
+import { getSearchIndexPath } from '@/lib/search-index';
+import { createTranslationRegistry } from '@/lib/translations';
+
+const french = {
+  id: 'fr-segond',
+  name: 'Louis Segond 1910',
+  abbreviation: 'LSG',
+  language: 'French',
+  languageCode: 'fr',
+  license: 'Public Domain',
+  dataSource: { type: 'local' as const, baseUrl: 'https://example.com', localPath: 'data/lsg' },
+};
+
+describe('TranslationRegistry', () => {
+  const registry = createTranslationRegistry({
+    ...getConfig(),
+    translations: [french, { ...french, id: DEFAULT_TRANSLATION_ID }],
+  });
+
+  it('should list the default translation first and skip duplicate IDs', () => {
+    expect(registry.list().map(translation => translation.id)).toEqual([DEFAULT_TRANSLATION_ID, 'fr-segond']);
+    expect(registry.getDefault().dataSource).toEqual(getConfig().dataSource);
+  });
+
+  it('should keep data sources out of the public listing', () => {
+    expect(registry.list()[1]).not.toHaveProperty('dataSource');
+    expect(registry.get('fr-segond').dataSource.localPath).toBe('data/lsg');
+  });
+
+  it('should reject unknown translations', () => {
+    expect(() => registry.get('klingon')).toThrow(ValidationError);
+    expect(() => registry.register(french)).toThrow(ValidationError);
+  });
+});
+
+describe('getSearchIndexPath', () => {
+  it('should keep the configured path for the default translation', () => {
+    expect(getSearchIndexPath(DEFAULT_TRANSLATION_ID, '.cache/search-index.json')).toBe('.cache/search-index.json');
+    expect(getSearchIndexPath('fr-segond', '.cache/search-index.json')).toBe('.cache/search-index.fr-segond.json');
+    expect(getSearchIndexPath('fr-segond', '')).toBe('');
+  });
+});
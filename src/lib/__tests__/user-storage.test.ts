@@ -0,0 +1,179 @@
+/**
+ * Unit tests for user data storage and its migrations
+ */
+
+import { StorageQuotaError, UserStorageUnavailableError } from '@/lib/errors';
+import {
+  IndexedDbBackend,
+  INDEXEDDB_IMPORT_MARKER_KEY,
+  LocalStorageBackend,
+  MemoryBackend,
+  openDefaultBackend,
+  runMigrations,
+  SCHEMA_VERSION_KEY,
+  UserStorage,
+  USER_DATA_MIGRATIONS,
+} from '@/lib/user-storage';
+
+/**
+ * Just enough of IndexedDB for the backend: every open succeeds with a fresh connection
+ * onto one shared document map
+ */
+function createFakeIndexedDb() {
+  const documents = new Map<string, unknown>();
+  const connections: IDBDatabase[] = [];
+
+  const respond = (transaction: IDBTransaction, value: unknown): IDBRequest => {
+    const request = {} as { result: unknown; onsuccess: (() => void) | null };
+    setTimeout(() => {
+      request.result = value;
+      request.onsuccess?.();
+      transaction.oncomplete?.(new Event('complete'));
+    });
+    return request as unknown as IDBRequest;
+  };
+
+  const transaction = (): IDBTransaction => {
+    const current = {} as IDBTransaction;
+    Object.assign(current, {
+      objectStore: () => ({
+        get: (key: string) => respond(current, documents.get(key)),
+        put: (value: unknown, key: string) => {
+          documents.set(key, value);
+          return respond(current, key);
+        },
+        delete: (key: string) => {
+          documents.delete(key);
+          return respond(current, undefined);
+        },
+        getAllKeys: () => respond(current, Array.from(documents.keys())),
+      }),
+    });
+    return current;
+  };
+
+  const factory = {
+    open: jest.fn(() => {
+      const request = {} as { result: IDBDatabase; onsuccess: (() => void) | null };
+      setTimeout(() => {
+        request.result = { close: jest.fn(), transaction } as unknown as IDBDatabase;
+        connections.push(request.result);
+        request.onsuccess?.();
+      });
+      return request;
+    }),
+  };
+
+  return { factory: factory as unknown as IDBFactory & typeof factory, connections };
+}
+
+describe('runMigrations', () => {
+  it('should run pending migrations in order and record the version reached', async () => {
+    const backend = new MemoryBackend();
+    const applied: number[] = [];
+    const migrations = [2, 1, 3].map(version => ({
+      version,
+      description: `step ${version}`,
+      migrate: async () => {
+        applied.push(version);
+      },
+    }));
+
+    await backend.set(SCHEMA_VERSION_KEY, 1);
+
+    expect(await runMigrations(backend, migrations)).toBe(3);
+    expect(applied).toEqual([2, 3]);
+    expect(await backend.get(SCHEMA_VERSION_KEY)).toBe(3);
+  });
+
+  it('should leave the version unchanged when a migration fails', async () => {
+    const backend = new MemoryBackend();
+    const failing = { version: 1, description: 'broken', migrate: () => Promise.reject(new Error('broken')) };
+
+    await expect(runMigrations(backend, [failing])).rejects.toThrow('broken');
+    expect(await backend.get(SCHEMA_VERSION_KEY)).toBeUndefined();
+  });
+});
+
+describe('localStorage import', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should move user data into IndexedDB, keeping unreadable values as text', async () => {
+    localStorage.setItem('ny-baiboly-preferences', JSON.stringify({ fontSize: 'large' }));
+    localStorage.setItem('bible-favorites', '[{"id": broken');
+    localStorage.setItem('bible-search-history', JSON.stringify(['Jaona 3:16']));
+    const backend = new MemoryBackend('indexeddb');
+
+    await runMigrations(backend, USER_DATA_MIGRATIONS);
+
+    expect(await backend.get('ny-baiboly-preferences')).toEqual({ fontSize: 'large' });
+    expect(await backend.get('bible-favorites')).toBe('[{"id": broken');
+    expect(localStorage.getItem('ny-baiboly-preferences')).toBeNull();
+    expect(localStorage.getItem('bible-search-history')).not.toBeNull();
+    expect(localStorage.getItem(INDEXEDDB_IMPORT_MARKER_KEY)).not.toBeNull();
+  });
+
+  it('should not fall back to localStorage once data was imported into IndexedDB', async () => {
+    expect((await openDefaultBackend()).kind).toBe('localstorage');
+
+    localStorage.setItem(INDEXEDDB_IMPORT_MARKER_KEY, '2024-01-01T00:00:00Z');
+    await expect(openDefaultBackend()).rejects.toBeInstanceOf(UserStorageUnavailableError);
+  });
+
+  it('should leave data in place when localStorage is the backend', async () => {
+    localStorage.setItem('ny-baiboly-notes', '[]');
+
+    await runMigrations(new LocalStorageBackend(), USER_DATA_MIGRATIONS);
+
+    expect(localStorage.getItem('ny-baiboly-notes')).toBe('[]');
+  });
+});
+
+describe('UserStorage', () => {
+  it('should apply concurrent updates one after another', async () => {
+    const storage = new UserStorage(async () => new MemoryBackend(), []);
+
+    await Promise.all(
+      [1, 2, 3].map(value => storage.update<number[]>('list', current => [...(current ?? []), value]))
+    );
+
+    expect(await storage.get('list')).toEqual([1, 2, 3]);
+  });
+
+  it('should retry opening after a failure', async () => {
+    const openBackend = jest.fn()
+      .mockRejectedValueOnce(new Error('blocked'))
+      .mockResolvedValue(new MemoryBackend());
+    const storage = new UserStorage(openBackend, []);
+
+    await expect(storage.get('anything')).rejects.toThrow('blocked');
+    expect(await storage.getKind()).toBe('memory');
+    expect(openBackend).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reopen IndexedDB after closing it for an upgrade in another tab', async () => {
+    const { factory, connections } = createFakeIndexedDb();
+    const storage = new UserStorage(() => IndexedDbBackend.open('test', factory), []);
+
+    await storage.set('ny-baiboly-notes', ['first']);
+    connections[0].onversionchange?.(new Event('versionchange') as IDBVersionChangeEvent);
+
+    expect(connections[0].close).toHaveBeenCalled();
+    expect(await storage.get('ny-baiboly-notes')).toEqual(['first']);
+    expect(factory.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a full localStorage as a quota error', async () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+
+    try {
+      await expect(new LocalStorageBackend().set('ny-baiboly-notes', [])).rejects.toBeInstanceOf(StorageQuotaError);
+    } finally {
+      setItem.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Versioned API plumbing
+ * Wraps /api/v1 route handlers in one `ApiResponse` envelope, with error codes taken from
+ * `AppError.code`, HTTP statuses derived from `ErrorCategory` and rate-limit headers on every response
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiResponse } from '@/types/bible';
+import { logger, AppError, ErrorCategory, ValidationError } from '@/lib/errors';
+import { rateLimit, RateLimitResult, withRateLimitHeaders } from '@/lib/rate-limit';
+
+// ===== TYPES =====
+
+export type ApiHandler<T, C> = (request: NextRequest, context: C) => Promise<ApiResponse<T>>;
+
+export interface ApiHandlerOptions {
+  /** Rate limiter to apply (defaults to the general limiter) */
+  limiter?: (request: NextRequest) => Promise<RateLimitResult>;
+  /** Cache-Control header for successful responses */
+  cacheControl?: string;
+}
+
+/** Cache policy for responses over the (immutable) Bible text */
+export const STATIC_CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+// ===== ERROR CODES =====
+
+/** Codes raised by the API layer itself; everything else comes from `AppError.code` */
+export const API_ERROR_CODES = {
+  RATE_LIMITED: 'RATE_LIMITED',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+} as const;
+
+/** Envelope for a request the rate limiter turned away */
+export const RATE_LIMITED_RESPONSE: ApiResponse<never> = {
+  data: null,
+  success: false,
+  error: 'Too many requests. Please try again later.',
+  code: API_ERROR_CODES.RATE_LIMITED,
+};
+
+const STATUS_BY_CATEGORY: Record<ErrorCategory, number> = {
+  [ErrorCategory.VALIDATION]: 400,
+  [ErrorCategory.PERMISSION]: 403,
+  [ErrorCategory.DATA]: 404,
+  [ErrorCategory.BUSINESS]: 422,
+  [ErrorCategory.EXTERNAL]: 502,
+  [ErrorCategory.NETWORK]: 503,
+  [ErrorCategory.SYSTEM]: 500,
+};
+
+/** Categories of the built-in error codes, for failures that arrive as an `ApiResponse` */
+const CATEGORY_BY_CODE: Record<string, ErrorCategory> = {
+  VALIDATION_ERROR: ErrorCategory.VALIDATION,
+  DATA_NOT_FOUND: ErrorCategory.DATA,
+  NETWORK_ERROR: ErrorCategory.NETWORK,
+  BUSINESS_LOGIC_ERROR: ErrorCategory.BUSINESS,
+};
+
+/**
+ * HTTP status for an error code, or for its category when the error is at hand
+ */
+export function getErrorStatus(code: string | undefined, category?: ErrorCategory): number {
+  if (code === API_ERROR_CODES.RATE_LIMITED) {
+    return 429;
+  }
+  const resolvedCategory = category ?? (code ? CATEGORY_BY_CODE[code] : undefined);
+  return resolvedCategory ? STATUS_BY_CATEGORY[resolvedCategory] : 500;
+}
+
+/**
+ * Convert anything a handler throws into a failed envelope
+ */
+export function toErrorResponse(error: unknown): ApiResponse<never> {
+  if (error instanceof z.ZodError) {
+    return {
+      data: null,
+      success: false,
+      error: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+      code: API_ERROR_CODES.VALIDATION_ERROR,
+    };
+  }
+
+  const appError = AppError.fromError(error as Error);
+  const exposeMessage = appError.category === ErrorCategory.VALIDATION || appError.category === ErrorCategory.DATA;
+  if (!exposeMessage) {
+    logger.error('Unexpected error in API handler', appError);
+  }
+
+  return {
+    data: null,
+    success: false,
+    error: exposeMessage ? appError.message : 'An unexpected error occurred. Please try again later.',
+    code: appError.code,
+  };
+}
+
+/**
+ * Parse a JSON request body
+ * @throws ValidationError when the body is not valid JSON
+ */
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown>> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Invalid JSON in request body');
+  }
+}
+
+// ===== HANDLER WRAPPER =====
+
+/**
+ * Wrap a handler that returns an `ApiResponse`: rate limits the request, maps failures
+ * to their HTTP status and adds the rate-limit headers to every response
+ */
+export function createApiHandler<T, C = unknown>(handler: ApiHandler<T, C>, options: ApiHandlerOptions = {}) {
+  const { limiter = rateLimit, cacheControl } = options;
+
+  return async (request: NextRequest, context: C): Promise<NextResponse> => {
+    const rateLimitResult = await limiter(request);
+    if (!rateLimitResult.success) {
+      return withRateLimitHeaders(NextResponse.json(RATE_LIMITED_RESPONSE, { status: 429 }), rateLimitResult);
+    }
+
+    let body: ApiResponse<T>;
+    let status = 200;
+    try {
+      body = await handler(request, context);
+      if (!body.success) {
+        status = getErrorStatus(body.code);
+      }
+    } catch (error) {
+      body = toErrorResponse(error);
+      status = getErrorStatus(body.code, error instanceof AppError ? error.category : undefined);
+    }
+
+    const headers = status === 200 && cacheControl ? { 'Cache-Control': cacheControl } : undefined;
+    return withRateLimitHeaders(NextResponse.json(body, { status, headers }), rateLimitResult);
+  };
+}
@@ -0,0 +1,508 @@
+/**
+ * API schemas
+ * Single source for request validation and response shapes of every API route;
+ * the OpenAPI document in `@/lib/openapi` is generated from these
+ */
+
+import { z } from 'zod';
+import {
+  BibleStats, BookDetails, BookInfo, BookMeta, BiblePassage, ChapterContent, ChapterDetails, ChapterInfo,
+  ChapterLengthRecord, ConcordanceEntry, ConcordanceIndex, CorpusStats, CrossReferenceResult, MatchSpan,
+  PassageChapter, PassageResult, PassageSection, SearchFacets, SearchHit, SearchResult, Testament, Translation,
+  Verse, VerseData,
+} from '@/types/bible';
+import { MAX_TOP_WORDS } from '@/lib/corpus-stats';
+import { MAX_CONCORDANCE_REFERENCES, OTHER_LETTER } from '@/lib/concordance';
+import type { BibleApiReferenceResponse, BibleApiTranslation, BibleApiVerse } from '@/lib/bible-api-compat';
+
+// ===== SHARED =====
+
+const TestamentFilterSchema = z.enum(['old', 'new']).describe('Restrict to a testament');
+
+/** Boolean flag as sent in a query string */
+const QueryFlagSchema = z.enum(['true', 'false']);
+
+const BookIdListSchema = z.array(z.string().min(1)).max(66).describe('Book IDs (take precedence over testament)');
+
+const TranslationParamSchema = z.string().trim().min(1).max(40)
+  .describe('Translation ID from /api/v1/translations; defaults to the Malagasy text');
+
+// ===== REQUEST SCHEMAS =====
+
+export const SearchOptionsSchema = z.object({
+  books: BookIdListSchema.optional(),
+  testament: TestamentFilterSchema.optional(),
+  caseSensitive: z.boolean().default(false),
+  normalize: z.boolean().default(true).describe('Fold diacritics and apostrophe variants before matching'),
+  stemming: z.boolean().default(false).describe('Match Malagasy word roots, e.g. fitiavana finds tia'),
+  limit: z.number().int().positive().max(500).default(50),
+  offset: z.number().int().min(0).default(0),
+  chapters: z.object({
+    from: z.number().int().positive(),
+    to: z.number().int().positive(),
+  }).refine(range => range.from <= range.to, 'Chapter range start must not exceed its end').optional()
+    .describe('Only search chapters in this inclusive range'),
+  highlight: z.boolean().default(false).describe('Add an HTML snippet with <mark>ed matches to each hit'),
+  snippetContext: z.number().int().min(0).max(50).default(10).describe('Words of context around the first match'),
+  page: z.number().int().positive().optional().describe('1-based page number (overrides offset)'),
+  cursor: z.string().min(1).max(200).optional().describe('nextCursor of a previous response (overrides page and offset)'),
+});
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required')
+    .describe('Query: words, "phrases", AND/OR/NOT, -term, NEAR/n, ( ), book: and testament: filters'),
+  books: z.string().optional().describe('Comma-separated book IDs'),
+  testament: TestamentFilterSchema.optional(),
+  caseSensitive: QueryFlagSchema.optional(),
+  normalize: QueryFlagSchema.optional().describe('"false" to match diacritics exactly'),
+  stemming: QueryFlagSchema.optional().describe('Match Malagasy word roots'),
+  limit: z.coerce.number().int().positive().max(500).optional().describe('Page size (default 50)'),
+  offset: z.coerce.number().int().min(0).optional(),
+  chapterFrom: z.coerce.number().int().positive().optional(),
+  chapterTo: z.coerce.number().int().positive().optional().describe('Defaults to chapterFrom'),
+  highlight: QueryFlagSchema.optional().describe('Add an HTML snippet to each hit'),
+  snippetContext: z.coerce.number().int().min(0).max(50).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  cursor: z.string().min(1).max(200).optional(),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const SearchBodySchema = z.object({
+  query: z.string().trim().min(1, 'Search query is required'),
+  options: SearchOptionsSchema.partial().optional(),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const RandomQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(10).default(1),
+  testament: TestamentFilterSchema.optional(),
+  books: z.string().optional().describe('Comma-separated book IDs'),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const RandomBodySchema = z.object({
+  count: z.number().int().min(1).max(10).default(1),
+  options: z.object({
+    testament: TestamentFilterSchema.optional(),
+    books: BookIdListSchema.optional(),
+  }).optional(),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const BooksQuerySchema = z.object({
+  testament: TestamentFilterSchema.optional(),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const ChapterQuerySchema = z.object({
+  book: z.string().trim().min(1, 'Book is required').max(50).describe('Book name, abbreviation, USFM code or ID'),
+  chapter: z.coerce.number().int().positive().max(150),
+  translation: TranslationParamSchema.optional(),
+});
+
+/** Query of routes whose other inputs are all path parameters */
+export const TranslationQuerySchema = z.object({
+  translation: TranslationParamSchema.optional(),
+});
+
+export const BookPathSchema = z.object({
+  bookId: z.string().trim().min(1, 'Book is required').max(50).describe('Book ID, name, abbreviation or USFM code'),
+});
+
+export const BookChapterPathSchema = BookPathSchema.extend({
+  chapter: z.coerce.number().int().positive().max(150),
+});
+
+export const StatsQuerySchema = z.object({
+  top: z.coerce.number().int().min(0).max(MAX_TOP_WORDS).default(50).describe('Number of most frequent words to return'),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const ConcordanceWordPathSchema = z.object({
+  word: z.string().trim().min(1, 'Word is required').max(50).describe('Any form of the word, e.g. fitiavana'),
+});
+
+export const ConcordanceQuerySchema = z.object({
+  limit: z.coerce.number().int().min(0).max(MAX_CONCORDANCE_REFERENCES).default(20)
+    .describe('References per word form'),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const ConcordanceIndexQuerySchema = z.object({
+  letter: z.string().regex(/^[a-zA-Z#]$/, `Letter must be a-z or ${OTHER_LETTER}`).optional()
+    .describe(`Index letter (${OTHER_LETTER} for other characters); defaults to the first letter`),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const CrossReferencesQuerySchema = z.object({
+  ref: z.string().trim().min(1, 'Reference is required').max(100)
+    .describe('A single verse, e.g. "Jaona 3:16" or "JHN 3:16"'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const VersesQuerySchema = z.object({
+  ref: z.string().trim().min(1, 'Reference is required').max(500)
+    .describe('Reference, e.g. "Sal 23", "Jaona 3:16-4:3" or "Rom 8:28; Fil 4:13"'),
+  translation: TranslationParamSchema.optional(),
+});
+
+export const PassageQuerySchema = VersesQuerySchema.extend({
+  format: z.enum(['json', 'text']).default('json'),
+  verseNumbers: QueryFlagSchema.default('true').describe('"false" to omit verse numbers in plain text'),
+});
+
+export const ReferencePathSchema = z.object({
+  reference: z.string().trim().min(1, 'Reference is required').max(500)
+    .describe('Reference with spaces as + or %20, e.g. jaona+3:16'),
+});
+
+export const ReferenceQuerySchema = z.object({
+  single_chapter_book_matching: z.enum(['indifferent', 'strict']).default('indifferent')
+    .describe('"indifferent" reads "Joda 5" as verse 5 of a single-chapter book'),
+  verse_numbers: QueryFlagSchema.default('false').describe('Prefix verses in text with "(n) "'),
+  translation: TranslationParamSchema.optional(),
+});
+
+const VerseRangeSchema = z.object({
+  start: z.number().int().positive(),
+  end: z.number().int().positive().optional(),
+});
+
+export const SearchReferenceSchema = z.object({
+  book: z.string().min(1).max(50).trim().describe('Book name, abbreviation, USFM code or ID'),
+  chapter: z.number().int().positive().max(150),
+  verses: z.array(z.union([
+    z.number().int().positive().max(200),
+    VerseRangeSchema,
+  ])).min(1).max(10).describe('Verse numbers or { start, end } ranges (at most 10 items)'),
+});
+
+// ===== RESPONSE SCHEMAS =====
+
+export const TranslationSchema: z.ZodType<Translation> = z.object({
+  id: z.string(),
+  name: z.string(),
+  abbreviation: z.string(),
+  language: z.string(),
+  languageCode: z.string().describe('ISO 639-1 code'),
+  license: z.string(),
+});
+
+export const BookMetaSchema: z.ZodType<BookMeta> = z.object({
+  id: z.string(),
+  name: z.string().describe('Malagasy name'),
+  fileName: z.string(),
+  testament: z.nativeEnum(Testament),
+  chapterCount: z.number().int().optional(),
+});
+
+const ChapterInfoSchema: z.ZodType<ChapterInfo> = z.object({
+  chapter: z.number().int(),
+  verseCount: z.number().int(),
+});
+
+const BookInfoShape = {
+  id: z.string(),
+  name: z.string().describe('Malagasy name'),
+  englishName: z.string(),
+  usfmCode: z.string().describe('USFM book code, e.g. JHN'),
+  fileName: z.string(),
+  testament: z.nativeEnum(Testament),
+  testamentId: z.enum(['old', 'new']),
+  order: z.number().int().describe('1-based canonical position'),
+  chapterCount: z.number().int(),
+  verseCount: z.number().int(),
+};
+
+export const BookInfoSchema: z.ZodType<BookInfo> = z.object(BookInfoShape);
+
+export const BookDetailsSchema: z.ZodType<BookDetails> = z.object({
+  ...BookInfoShape,
+  chapters: z.array(ChapterInfoSchema),
+});
+
+const ChapterLocationSchema = z.object({
+  bookId: z.string(),
+  chapter: z.number().int(),
+});
+
+export const ChapterDetailsSchema: z.ZodType<ChapterDetails> = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapter: z.number().int(),
+  verseCount: z.number().int(),
+  previous: ChapterLocationSchema.nullable().describe('Previous chapter, crossing book boundaries'),
+  next: ChapterLocationSchema.nullable().describe('Next chapter, crossing book boundaries'),
+});
+
+const ConcordanceReferenceSchema = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapter: z.number().int(),
+  verse: z.number().int(),
+  reference: z.string(),
+});
+
+export const ConcordanceEntrySchema: z.ZodType<ConcordanceEntry> = z.object({
+  lemma: z.string(),
+  count: z.number().int().describe('Occurrences of all forms'),
+  forms: z.array(z.object({
+    form: z.string(),
+    count: z.number().int(),
+    references: z.array(ConcordanceReferenceSchema).describe('First verses in canonical order'),
+  })).describe('Most frequent first'),
+});
+
+export const ConcordanceIndexSchema: z.ZodType<ConcordanceIndex> = z.object({
+  letters: z.array(z.object({ letter: z.string(), lemmaCount: z.number().int() })),
+  letter: z.string(),
+  lemmas: z.array(z.object({ lemma: z.string(), count: z.number().int(), formCount: z.number().int() })),
+});
+
+export const VerseDataSchema: z.ZodType<VerseData> = z.object({
+  number: z.string(),
+  text: z.string(),
+});
+
+export const VerseSchema: z.ZodType<Verse> = z.object({
+  book: z.string(),
+  bookId: z.string().optional(),
+  chapter: z.string(),
+  verse: z.string(),
+  text: z.string(),
+  translationId: z.string().optional(),
+});
+
+export const MatchSpanSchema: z.ZodType<MatchSpan> = z.object({
+  start: z.number().int(),
+  end: z.number().int().describe('Exclusive UTF-16 offset into text'),
+  term: z.string(),
+});
+
+export const SearchHitSchema: z.ZodType<SearchHit> = z.object({
+  book: z.string(),
+  bookId: z.string(),
+  chapter: z.string(),
+  verse: z.string(),
+  text: z.string(),
+  translationId: z.string().optional(),
+  relevance: z.number(),
+  matches: z.array(MatchSpanSchema),
+  snippet: z.string().optional(),
+});
+
+export const SearchFacetsSchema: z.ZodType<SearchFacets> = z.object({
+  books: z.array(z.object({ bookId: z.string(), name: z.string(), count: z.number().int() })),
+  testaments: z.object({ old: z.number().int(), new: z.number().int() }),
+  chapterRanges: z.array(z.object({
+    bookId: z.string(),
+    from: z.number().int(),
+    to: z.number().int(),
+    count: z.number().int(),
+  })),
+});
+
+export const SearchResultSchema: z.ZodType<SearchResult> = z.object({
+  verses: z.array(SearchHitSchema),
+  total: z.number().int(),
+  hasMore: z.boolean(),
+  offset: z.number().int(),
+  limit: z.number().int(),
+  page: z.number().int(),
+  nextCursor: z.string().nullable(),
+  facets: SearchFacetsSchema,
+  query: z.string(),
+  searchOptions: SearchOptionsSchema,
+  executionTime: z.number(),
+});
+
+export const BiblePassageSchema: z.ZodType<BiblePassage> = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  startChapter: z.number().int(),
+  endChapter: z.number().int(),
+  startVerse: z.number().int().optional(),
+  endVerse: z.number().int().optional(),
+});
+
+const PassageChapterSchema: z.ZodType<PassageChapter> = z.object({
+  chapter: z.string(),
+  verses: z.array(VerseDataSchema),
+});
+
+const PassageSectionSchema: z.ZodType<PassageSection> = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapters: z.array(PassageChapterSchema),
+});
+
+export const PassageResultSchema: z.ZodType<PassageResult> = z.object({
+  reference: z.string().describe('Normalized reference'),
+  passages: z.array(BiblePassageSchema),
+  sections: z.array(PassageSectionSchema),
+  verseCount: z.number().int(),
+});
+
+export const ChapterContentSchema: z.ZodType<ChapterContent> = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapter: z.string(),
+  verses: z.array(VerseDataSchema),
+});
+
+export const CrossReferenceResultSchema: z.ZodType<CrossReferenceResult> = z.object({
+  id: z.string().describe('USFM verse ID, e.g. JHN 3:16'),
+  reference: z.string(),
+  crossReferences: z.array(z.object({
+    id: z.string().describe('USFM ID of the target verse or range'),
+    passage: BiblePassageSchema,
+    reference: z.string(),
+    votes: z.number().int().describe('Dataset relevance votes'),
+    text: z.string().describe('Malagasy text of the target'),
+  })).describe('Most relevant first'),
+  total: z.number().int().describe('Cross-references in the dataset, including any beyond limit'),
+});
+
+const BibleStatsShape = {
+  totalBooks: z.number().int(),
+  totalChapters: z.number().int(),
+  totalVerses: z.number().int(),
+  oldTestamentBooks: z.number().int(),
+  newTestamentBooks: z.number().int(),
+  averageVersesPerChapter: z.number(),
+  lastUpdated: z.string(),
+};
+
+export const BibleStatsSchema: z.ZodType<BibleStats> = z.object(BibleStatsShape);
+
+const CorpusCountsShape = {
+  chapters: z.number().int(),
+  verses: z.number().int(),
+  words: z.number().int().describe('Tokens as split by the search tokenizer'),
+};
+
+const ChapterLengthRecordSchema: z.ZodType<ChapterLengthRecord> = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapter: z.number().int(),
+  verseCount: z.number().int(),
+});
+
+const VerseLengthRecordSchema = z.object({
+  bookId: z.string(),
+  bookName: z.string(),
+  chapter: z.number().int(),
+  verse: z.number().int(),
+  wordCount: z.number().int(),
+  text: z.string(),
+});
+
+export const CorpusStatsSchema: z.ZodType<CorpusStats> = z.object({
+  ...BibleStatsShape,
+  totalWords: z.number().int(),
+  uniqueWords: z.number().int(),
+  testaments: z.array(z.object({
+    testamentId: z.enum(['old', 'new']),
+    name: z.string(),
+    books: z.number().int(),
+    ...CorpusCountsShape,
+  })),
+  books: z.array(z.object({
+    bookId: z.string(),
+    bookName: z.string(),
+    testamentId: z.enum(['old', 'new']),
+    ...CorpusCountsShape,
+  })),
+  longestChapter: ChapterLengthRecordSchema.nullable(),
+  shortestChapter: ChapterLengthRecordSchema.nullable(),
+  longestVerse: VerseLengthRecordSchema.nullable(),
+  shortestVerse: VerseLengthRecordSchema.nullable().describe('Shortest non-empty verse'),
+  topWords: z.array(z.object({ word: z.string(), count: z.number().int() })).describe('Most frequent first'),
+  failedBooks: z.array(z.string()).describe('Books that could not be loaded and are left out of every figure'),
+});
+
+export const BibleApiTranslationSchema: z.ZodType<BibleApiTranslation> = z.object({
+  identifier: z.string(),
+  name: z.string(),
+  language: z.string(),
+  language_code: z.string(),
+  license: z.string(),
+});
+
+const BibleApiVerseSchema: z.ZodType<BibleApiVerse> = z.object({
+  book_id: z.string().describe('USFM code'),
+  book_name: z.string(),
+  chapter: z.number().int(),
+  verse: z.number().int(),
+  text: z.string(),
+});
+
+export const BibleApiReferenceResponseSchema: z.ZodType<BibleApiReferenceResponse> = z.object({
+  reference: z.string(),
+  verses: z.array(BibleApiVerseSchema),
+  text: z.string(),
+  translation: BibleApiTranslationSchema,
+  translation_id: z.string(),
+  translation_name: z.string(),
+  translation_note: z.string(),
+});
+
+export const RandomVerseResponseSchema = z.object({
+  translation: BibleApiTranslationSchema,
+  random_verse: z.object({
+    book_id: z.string().describe('USFM code'),
+    book: z.string().describe('Malagasy book name'),
+    chapter: z.number().int(),
+    verse: z.number().int(),
+    text: z.string(),
+  }),
+});
+
+export const SearchReferenceResponseSchema = z.object({
+  verses: z.array(z.object({
+    book: z.string(),
+    bookId: z.string(),
+    chapter: z.string(),
+    verse: z.string(),
+    text: z.string(),
+    reference: z.string(),
+  })),
+  text: z.string().describe('All found verses joined by spaces'),
+  reference: z.string(),
+  book: z.string(),
+  bookId: z.string(),
+  chapter: z.string(),
+  requestedCount: z.number().int(),
+  foundCount: z.number().int(),
+  executionTime: z.number(),
+});
+
+// ===== ENVELOPES =====
+
+const ResponseMetaSchema = z.object({
+  total: z.number().int().optional(),
+  page: z.number().int().optional(),
+  limit: z.number().int().optional(),
+});
+
+/**
+ * The `ApiResponse<T>` envelope around a data schema
+ */
+export function apiResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    data: data.nullable(),
+    success: z.boolean(),
+    error: z.string().optional(),
+    code: z.string().optional().describe('AppError code, e.g. VALIDATION_ERROR or DATA_NOT_FOUND'),
+    meta: ResponseMetaSchema.optional(),
+  });
+}
+
+export const ApiErrorResponseSchema = apiResponseSchema(z.null());
+
+/** Error body of the routes that keep their own response shape */
+export const PlainErrorResponseSchema = z.object({
+  error: z.string(),
+  retryAfter: z.number().int().optional(),
+});
@@ -0,0 +1,125 @@
+/**
+ * bible-api.com compatibility
+ * Response shapes and helpers shared by the routes that mirror bible-api.com,
+ * so existing clients can switch to the Malagasy text by changing only the host
+ */
+
+import { BiblePassage, PassageResult, Translation } from '@/types/bible';
+import { DEFAULT_TRANSLATION, SINGLE_CHAPTER_BOOKS, USFM_BOOK_CODES } from '@/constants/bible';
+
+// ===== TYPES =====
+
+export interface BibleApiTranslation {
+  identifier: string;
+  name: string;
+  language: string;
+  language_code: string;
+  license: string;
+}
+
+export interface BibleApiVerse {
+  book_id: string;
+  book_name: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface BibleApiReferenceResponse {
+  reference: string;
+  verses: BibleApiVerse[];
+  text: string;
+  translation: BibleApiTranslation;
+  /** Flat translation fields read by older bible-api.com clients */
+  translation_id: string;
+  translation_name: string;
+  translation_note: string;
+}
+
+/**
+ * How a lone number after a single-chapter book is read:
+ * `indifferent` treats "Joda 5" as verse 5, `strict` always reads it as a chapter
+ */
+export type SingleChapterBookMatching = 'indifferent' | 'strict';
+
+// ===== HELPERS =====
+
+/**
+ * Describe a registered translation the way bible-api.com does
+ */
+export function toBibleApiTranslation(translation: Translation): BibleApiTranslation {
+  return {
+    identifier: translation.id,
+    name: translation.name,
+    language: translation.language,
+    language_code: translation.languageCode,
+    license: translation.license,
+  };
+}
+
+export const BIBLE_API_TRANSLATION: BibleApiTranslation = toBibleApiTranslation(DEFAULT_TRANSLATION);
+
+/**
+ * Convert a book ID to the uppercase USFM code bible-api.com uses ("john" → "JHN")
+ */
+export function getBookApiId(bookId: string): string {
+  return USFM_BOOK_CODES.get(bookId) ?? bookId.toUpperCase();
+}
+
+/**
+ * Reinterpret chapter numbers of single-chapter books as verses ("Joda 5-7" → "Joda 1:5-7").
+ * Chapter 1 itself still means the whole book.
+ */
+export function applySingleChapterBookMatching(
+  passages: BiblePassage[],
+  mode: SingleChapterBookMatching
+): BiblePassage[] {
+  if (mode === 'strict') {
+    return passages;
+  }
+
+  return passages.map(passage => {
+    const isChapterOnly = passage.startVerse === undefined && passage.endVerse === undefined;
+    if (!SINGLE_CHAPTER_BOOKS.has(passage.bookId) || !isChapterOnly || passage.endChapter === 1) {
+      return passage;
+    }
+    return {
+      ...passage,
+      startChapter: 1,
+      endChapter: 1,
+      startVerse: passage.startChapter,
+      endVerse: passage.endChapter,
+    };
+  });
+}
+
+/**
+ * Build the bible-api.com reference response from a resolved passage
+ * @param verseNumbers - Prefix each verse in `text` with its number, e.g. "(16) "
+ */
+export function toBibleApiReferenceResponse(
+  result: PassageResult,
+  verseNumbers: boolean = false,
+  translation: Translation = DEFAULT_TRANSLATION
+): BibleApiReferenceResponse {
+  const apiTranslation = toBibleApiTranslation(translation);
+  const verses = result.sections.flatMap(section => section.chapters.flatMap(chapter =>
+    chapter.verses.map(verse => ({
+      book_id: getBookApiId(section.bookId),
+      book_name: section.bookName,
+      chapter: parseInt(chapter.chapter, 10),
+      verse: parseInt(verse.number, 10),
+      text: verse.text,
+    }))
+  ));
+
+  return {
+    reference: result.reference,
+    verses,
+    text: verses.map(verse => (verseNumbers ? `(${verse.verse}) ${verse.text}` : verse.text)).join('\n'),
+    translation: apiTranslation,
+    translation_id: apiTranslation.identifier,
+    translation_name: apiTranslation.name,
+    translation_note: apiTranslation.license,
+  };
+}
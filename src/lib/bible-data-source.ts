@@ -0,0 +1,230 @@
+/**
+ * Pluggable data sources for raw Bible book JSON
+ * Decouples where the corpus lives (GitHub, local disk, fixtures) from the repository
+ */
+
+import { BookMeta, Testament } from '@/types/bible';
+import { getConfig, type DataSourceConfig } from '@/config/app';
+import { DataNotFoundError } from '@/lib/errors';
+
+// ===== INTERFACES =====
+
+/**
+ * Raw book payload as stored in the baiboly-json corpus:
+ * a `meta` object plus one record of verses per chapter key
+ */
+export type RawBookData = Record<string, unknown>;
+
+export interface BibleDataSource {
+  /** Identifier used in logs and cache diagnostics */
+  readonly name: string;
+  /** Where the corpus is read from (base URL, directory), so data derived from one copy is not reused for another */
+  readonly location: string;
+  /** Load the raw JSON payload for a single book */
+  readBook(bookMeta: BookMeta): Promise<RawBookData>;
+  /**
+   * Cheap signature of a book's current content (ETag, size and modification time), without
+   * reading it; `missing` for books the source lacks
+   */
+  getBookSignature(bookMeta: BookMeta): Promise<string>;
+}
+
+/** Signature of a book the data source does not have */
+export const MISSING_BOOK_SIGNATURE = 'missing';
+
+// ===== HELPERS =====
+
+/**
+ * Get the corpus directory name for a testament
+ */
+export function getTestamentDirectory(testament: Testament): string {
+  return testament === Testament.OLD ? 'Testameta taloha' : 'Testameta vaovao';
+}
+
+/**
+ * Fingerprint of the whole corpus from its book signatures; changes whenever any book does
+ */
+export async function getCorpusFingerprint(dataSource: BibleDataSource, books: BookMeta[]): Promise<string> {
+  const signatures = await Promise.all(books.map(book => dataSource.getBookSignature(book)));
+
+  // FNV-1a over "bookId=signature" lines
+  let hash = 0x811c9dc5;
+  for (const line of books.map((book, index) => `${book.id}=${signatures[index]}\n`)) {
+    for (let index = 0; index < line.length; index++) {
+      hash ^= line.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// ===== IMPLEMENTATIONS =====
+
+/**
+ * Reads books over HTTP from a raw GitHub checkout (or any host with the same layout)
+ */
+export class GitHubRawDataSource implements BibleDataSource {
+  public readonly name = 'github';
+
+  constructor(private baseUrl: string) {}
+
+  public get location(): string {
+    return this.baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Get the HTTP URL for a book's JSON file
+   */
+  public getBookUrl(bookMeta: BookMeta): string {
+    // URL encode the testament directory to handle spaces properly
+    const encodedTestamentDir = encodeURIComponent(getTestamentDirectory(bookMeta.testament));
+    const baseUrl = this.baseUrl.replace(/\/+$/, '');
+
+    return `${baseUrl}/${encodedTestamentDir}/${bookMeta.fileName}.json`;
+  }
+
+  public async readBook(bookMeta: BookMeta): Promise<RawBookData> {
+    const url = this.getBookUrl(bookMeta);
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return JSON.parse(await response.text());
+  }
+
+  public async getBookSignature(bookMeta: BookMeta): Promise<string> {
+    const response = await fetch(this.getBookUrl(bookMeta), { method: 'HEAD' });
+
+    if (response.status === 404) {
+      return MISSING_BOOK_SIGNATURE;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.headers.get('etag') ?? response.headers.get('content-length') ?? '';
+  }
+}
+
+/**
+ * Reads books from a local copy of the corpus, for offline and self-hosted setups
+ */
+export class LocalFileSystemDataSource implements BibleDataSource {
+  public readonly name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  public get location(): string {
+    return this.rootDir;
+  }
+
+  private async getBookPath(bookMeta: BookMeta): Promise<string> {
+    // Loaded lazily so client bundles never pull in Node built-ins
+    const path = await import('path');
+
+    return path.resolve(
+      process.cwd(),
+      this.rootDir,
+      getTestamentDirectory(bookMeta.testament),
+      `${bookMeta.fileName}.json`
+    );
+  }
+
+  public async readBook(bookMeta: BookMeta): Promise<RawBookData> {
+    const [{ readFile }, filePath] = await Promise.all([
+      import('fs/promises'),
+      this.getBookPath(bookMeta),
+    ]);
+
+    return JSON.parse(await readFile(filePath, 'utf-8'));
+  }
+
+  public async getBookSignature(bookMeta: BookMeta): Promise<string> {
+    const [{ stat }, filePath] = await Promise.all([
+      import('fs/promises'),
+      this.getBookPath(bookMeta),
+    ]);
+
+    try {
+      const stats = await stat(filePath);
+      return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return MISSING_BOOK_SIGNATURE;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Serves books from in-memory fixtures keyed by book ID, for deterministic tests
+ */
+export class InMemoryDataSource implements BibleDataSource {
+  public readonly name = 'memory';
+  public readonly location = 'memory';
+  private books: Map<string, RawBookData>;
+
+  constructor(books: Record<string, RawBookData> = {}) {
+    this.books = new Map(Object.entries(books));
+  }
+
+  public setBook(bookId: string, data: RawBookData): void {
+    this.books.set(bookId, data);
+  }
+
+  public async readBook(bookMeta: BookMeta): Promise<RawBookData> {
+    const data = this.books.get(bookMeta.id);
+    if (!data) {
+      throw new DataNotFoundError('Book fixture', bookMeta.id);
+    }
+
+    // Hand out a copy so callers can't mutate the fixture
+    return JSON.parse(JSON.stringify(data));
+  }
+
+  public async getBookSignature(bookMeta: BookMeta): Promise<string> {
+    const data = this.books.get(bookMeta.id);
+    return data ? String(JSON.stringify(data).length) : MISSING_BOOK_SIGNATURE;
+  }
+}
+
+// ===== FACTORY =====
+
+/**
+ * Create a data source from configuration
+ */
+export function createBibleDataSource(
+  sourceConfig: DataSourceConfig = getConfig().dataSource
+): BibleDataSource {
+  switch (sourceConfig.type) {
+    case 'local':
+      return new LocalFileSystemDataSource(sourceConfig.localPath);
+    case 'memory':
+      return new InMemoryDataSource();
+    case 'github':
+    default:
+      return new GitHubRawDataSource(sourceConfig.baseUrl);
+  }
+}
+
+let defaultDataSource: BibleDataSource | null = null;
+
+/**
+ * Get the shared, configuration-selected data source
+ */
+export function getBibleDataSource(): BibleDataSource {
+  if (!defaultDataSource) {
+    defaultDataSource = createBibleDataSource();
+  }
+  return defaultDataSource;
+}
+
+/**
+ * Replace the shared data source (e.g. fixtures in tests)
+ */
+export function setBibleDataSource(source: BibleDataSource): void {
+  defaultDataSource = source;
+}
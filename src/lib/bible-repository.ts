@@ -5,11 +5,33 @@
 
 import { z } from 'zod';
 
-import { BibleBook, BookMeta, ApiResponse, Testament, Verse, SearchOptions, SearchResult } from '@/types/bible';
-import { ALL_BIBLE_BOOKS, BOOKS_BY_ID } from '@/constants/bible';
-import { retryWithBackoff } from '@/utils';
+import {
+  BibleBook, BookMeta, ApiResponse, Testament, Verse, SearchHit, SearchOptions, SearchResult, RandomVerseOptions,
+  BiblePassage, PassageResult, PassageSection, BibleStats, BookDetails, BookInfo, ChapterDetails, CorpusStats,
+  ConcordanceEntry, ConcordanceIndex, CrossReference, CrossReferenceResult,
+} from '@/types/bible';
+import {
+  ALL_BIBLE_BOOKS, BOOKS_BY_ID, DEFAULT_TRANSLATION_ID, ENGLISH_BOOK_NAMES, USFM_BOOK_CODES,
+} from '@/constants/bible';
+import { formatBibleReference, retryWithBackoff } from '@/utils';
 import { cacheManager, withCache } from '@/lib/cache';
 import { logger, performanceMonitor, AppError, ErrorCategory, ValidationError, DataNotFoundError } from '@/lib/errors';
+import { BibleDataSource, createBibleDataSource, getBibleDataSource, getCorpusFingerprint } from '@/lib/bible-data-source';
+import { foldText } from '@/lib/malagasy-text';
+import { resolveBook } from '@/lib/book-resolver';
+import { parseSearchQuery, collectPositiveTerms, executeSearchQuery } from '@/lib/search-query';
+import { findMatchSpans, buildSnippet } from '@/lib/search-highlight';
+import { formatPassageList } from '@/lib/passage-reference';
+import { computeSearchFacets } from '@/lib/search-facets';
+import { fingerprintSearch, encodeSearchCursor, decodeSearchCursor } from '@/lib/search-cursor';
+import {
+  SearchIndex, SearchIndexOrigin, SearchIndexStore, createSearchIndexStore, getSearchIndexPath, isUsableIndex, tokenize,
+} from '@/lib/search-index';
+import { SearchOptionsSchema } from '@/lib/api-schemas';
+import { computeCorpusStats, MAX_TOP_WORDS } from '@/lib/corpus-stats';
+import { Concordance } from '@/lib/concordance';
+import { CrossReferenceIndex, loadCrossReferenceIndex, toUsfmPassageId, toUsfmVerseId } from '@/lib/cross-references';
+import { translationRegistry } from '@/lib/translations';
 
 // ===== VALIDATION SCHEMAS =====
 
@@ -24,83 +46,413 @@ const BookDataSchema = z.object({
   meta: MetaSchema,
 }).catchall(z.record(z.string(), z.string())); // Allow additional chapter keys with verse records
 
-const SearchOptionsValidationSchema = z.object({
-  testament: z.enum(['old', 'new']).optional(),
-  caseSensitive: z.boolean().default(false),
-  limit: z.number().int().positive().max(500).default(50),
-  offset: z.number().int().min(0).default(0),
-});
+type ValidatedSearchOptions = z.infer<typeof SearchOptionsSchema>;
+
+/** A search hit as cached between pages: [index doc ID, relevance] */
+type RankedHit = [number, number];
 
 // ===== INTERFACES =====
 
 interface BibleRepository {
+  readonly translationId: string;
   getBook(bookId: string): Promise<ApiResponse<BibleBook>>;
   getChapter(bookId: string, chapterNumber: string): Promise<ApiResponse<Record<string, string>>>;
   getAllBooks(): BookMeta[];
   getBooksByTestament(testament: Testament): BookMeta[];
   getBookById(bookId: string): BookMeta | null;
+  getVerse(bookId: string, chapterNumber: string, verseNumber: string): Promise<ApiResponse<string>>;
+  getChapterCount(bookId: string): Promise<number>;
+  getVerseCount(bookId: string, chapterNumber: string): Promise<number>;
   searchBible(query: string, options?: SearchOptions): Promise<ApiResponse<SearchResult>>;
-  getRandomVerses(count?: number): Promise<ApiResponse<Verse[]>>;
+  getRandomVerses(count?: number, options?: RandomVerseOptions): Promise<ApiResponse<Verse[]>>;
+  getPassages(passages: BiblePassage[]): Promise<ApiResponse<PassageResult>>;
   getStats(): Promise<BibleStats>;
-}
-
-interface BibleStats {
-  totalBooks: number;
-  totalChapters: number;
-  totalVerses: number;
-  oldTestamentBooks: number;
-  newTestamentBooks: number;
-  averageVersesPerChapter: number;
-  lastUpdated: string;
+  getCorpusStats(topWords?: number): Promise<CorpusStats>;
+  getConcordanceEntry(word: string, referenceLimit?: number): Promise<ApiResponse<ConcordanceEntry>>;
+  getConcordanceIndex(letter?: string): Promise<ApiResponse<ConcordanceIndex>>;
+  getCrossReferences(bookId: string, chapter: number, verse: number, limit?: number): Promise<ApiResponse<CrossReferenceResult>>;
+  getBookDetails(bookId: string): Promise<ApiResponse<BookDetails>>;
+  getAllBookInfo(testament?: 'old' | 'new'): Promise<ApiResponse<BookInfo[]>>;
+  getChapterDetails(bookId: string, chapter: number): Promise<ApiResponse<ChapterDetails>>;
 }
 
 // ===== CACHE CONFIGURATION =====
 
+/** The named caches are shared by every translation's repository, so sizes are per translation */
+const TRANSLATION_COUNT = Math.max(1, translationRegistry.list().length);
+
 const CACHE_CONFIG = {
-  book: { ttl: 1000 * 60 * 30, maxSize: 66, compress: true }, // 30 minutes
-  chapter: { ttl: 1000 * 60 * 15, maxSize: 200, compress: true }, // 15 minutes
-  search: { ttl: 1000 * 60 * 5, maxSize: 100, compress: true }, // 5 minutes
-  stats: { ttl: 1000 * 60 * 60, maxSize: 1, compress: false }, // 1 hour
+  book: { ttl: 1000 * 60 * 30, maxSize: 66 * TRANSLATION_COUNT, compress: true }, // 30 minutes
+  chapter: { ttl: 1000 * 60 * 15, maxSize: 200 * TRANSLATION_COUNT, compress: true }, // 15 minutes
+  search: { ttl: 1000 * 60 * 5, maxSize: 100 * TRANSLATION_COUNT, compress: true }, // 5 minutes
+  stats: { ttl: 1000 * 60 * 60, maxSize: TRANSLATION_COUNT, compress: false }, // 1 hour
+  bookDetails: { ttl: 1000 * 60 * 60, maxSize: 66 * TRANSLATION_COUNT, compress: false }, // 1 hour
+  corpusStats: { ttl: 1000 * 60 * 60, maxSize: TRANSLATION_COUNT, compress: false }, // 1 hour
 };
 
+/** How long a search index built without some books is served before a rebuild is tried */
+const PARTIAL_INDEX_RETRY_MS = 1000 * 60; // 1 minute
+
+/**
+ * A search index as loaded by a repository. Cached hits hold its document IDs, so they are
+ * keyed by its generation and only read back against the same index.
+ */
+interface LoadedSearchIndex {
+  index: SearchIndex;
+  generation: number;
+  /** False when some books failed to load and are missing from the index */
+  complete: boolean;
+}
+
+/** Generation of the last loaded search index, across all repositories */
+let searchIndexGeneration = 0;
+
+// ===== HELPERS =====
+
+/**
+ * Chapter keys of a loaded book in numeric order, without the `meta` entry
+ */
+function getChapterKeys(chapters: Record<string, unknown>): string[] {
+  return Object.keys(chapters)
+    .filter(key => key !== 'meta')
+    .sort((a, b) => Number(a) - Number(b));
+}
+
+/**
+ * Describe a loaded book: names, codes, canonical position and verse counts per chapter
+ */
+function toBookDetails(bookMeta: BookMeta, chapters: Record<string, Record<string, string>>): BookDetails {
+  const chapterInfo = getChapterKeys(chapters).map(chapter => ({
+    chapter: Number(chapter),
+    verseCount: Object.keys(chapters[chapter]).length,
+  }));
+
+  return {
+    ...bookMeta,
+    englishName: ENGLISH_BOOK_NAMES.get(bookMeta.id) ?? bookMeta.name,
+    usfmCode: USFM_BOOK_CODES.get(bookMeta.id) ?? bookMeta.id.toUpperCase(),
+    testamentId: bookMeta.testament === Testament.OLD ? 'old' : 'new',
+    order: ALL_BIBLE_BOOKS.indexOf(bookMeta) + 1,
+    chapterCount: chapterInfo.length,
+    verseCount: chapterInfo.reduce((sum, chapter) => sum + chapter.verseCount, 0),
+    chapters: chapterInfo,
+  };
+}
+
+/**
+ * Count non-overlapping occurrences of needle in haystack
+ */
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Simple relevance score: exact phrase hits weigh most, individual query words add a little
+ */
+function scoreRelevance(haystack: string, needle: string): number {
+  const exactMatches = countOccurrences(haystack, needle);
+  const wordMatches = needle.split(/\s+/).filter(word => word && haystack.includes(word)).length;
+
+  return exactMatches * 10 + wordMatches;
+}
+
+/**
+ * Check a chapter against an optional inclusive range
+ */
+function isInChapterRange(chapter: string, range?: { from: number; to: number }): boolean {
+  if (!range) {
+    return true;
+  }
+  const number = Number(chapter);
+  return number >= range.from && number <= range.to;
+}
+
+/**
+ * Text normalization shared by matching, ranking and highlighting
+ */
+function createTextPreparer(options: { caseSensitive: boolean; normalize: boolean }): (text: string) => string {
+  const { caseSensitive, normalize } = options;
+  return (text: string) => normalize
+    ? foldText(text, caseSensitive)
+    : caseSensitive ? text : text.toLowerCase();
+}
+
 // ===== REPOSITORY IMPLEMENTATION =====
 
-class BibleDataRepository implements BibleRepository {
-  private static instance: BibleDataRepository;
+export class BibleDataRepository implements BibleRepository {
+  private static instances = new Map<string, BibleDataRepository>();
   private bookCache = cacheManager.getCache<BibleBook>('books', CACHE_CONFIG.book);
   private chapterCache = cacheManager.getCache<Record<string, string>>('chapters', CACHE_CONFIG.chapter);
-  private searchCache = cacheManager.getCache<SearchResult>('search', CACHE_CONFIG.search);
+  private searchCache = cacheManager.getCache<RankedHit[]>('search', CACHE_CONFIG.search);
   private statsCache = cacheManager.getCache<BibleStats>('stats', CACHE_CONFIG.stats);
+  private bookDetailsCache = cacheManager.getCache<BookDetails>('book-details', CACHE_CONFIG.bookDetails);
+  private corpusStatsCache = cacheManager.getCache<CorpusStats>('corpus-stats', CACHE_CONFIG.corpusStats);
 
-  public static getInstance(): BibleDataRepository {
-    if (!BibleDataRepository.instance) {
-      BibleDataRepository.instance = new BibleDataRepository();
+  /**
+   * Get the shared repository of a translation (the default one when no ID is given)
+   * @throws ValidationError for translations missing from the registry
+   */
+  public static getInstance(translationId: string = DEFAULT_TRANSLATION_ID): BibleDataRepository {
+    let instance = BibleDataRepository.instances.get(translationId);
+    if (!instance) {
+      const translation = translationRegistry.get(translationId);
+      // The default translation keeps the shared, replaceable data source
+      instance = translation.id === DEFAULT_TRANSLATION_ID
+        ? new BibleDataRepository()
+        : new BibleDataRepository(
+          createBibleDataSource(translation.dataSource),
+          createSearchIndexStore(getSearchIndexPath(translation.id)),
+          undefined,
+          translation.id
+        );
+      BibleDataRepository.instances.set(translationId, instance);
     }
-    return BibleDataRepository.instance;
+    return instance;
+  }
+
+  private searchIndex: Promise<LoadedSearchIndex> | null = null;
+  /** Set while the search index lacks some books: when to try building it again */
+  private searchIndexRetryAt: number | null = null;
+  private concordance: Promise<Concordance> | null = null;
+  private crossReferenceIndex: Promise<CrossReferenceIndex> | null = null;
+
+  constructor(
+    private dataSource: BibleDataSource = getBibleDataSource(),
+    private indexStore: SearchIndexStore | null = createSearchIndexStore(),
+    private crossReferenceLoader: () => Promise<CrossReferenceIndex> = () => loadCrossReferenceIndex(),
+    public readonly translationId: string = DEFAULT_TRANSLATION_ID
+  ) {}
+
+  /**
+   * Namespace a cache key by translation; the named caches are shared by every repository
+   */
+  private cacheKey(key: string): string {
+    return `${this.translationId}:${key}`;
+  }
+
+  /**
+   * Swap the underlying data source and drop anything loaded from the previous one
+   */
+  public setDataSource(dataSource: BibleDataSource): void {
+    this.dataSource = dataSource;
+    this.searchIndex = null;
+    this.searchIndexRetryAt = null;
+    this.concordance = null;
+    this.clearCaches();
   }
 
   /**
-   * Safely read and parse JSON file from HTTP URL with validation
+   * Get the full-text index, loading it from the store or building it on first use.
+   * An index missing some books is served for a while before a full rebuild is tried again.
    */
-  private async readJsonFile(url: string): Promise<Record<string, Record<string, string>>> {
+  public async getSearchIndex(): Promise<SearchIndex> {
+    return (await this.getLoadedSearchIndex()).index;
+  }
+
+  private getLoadedSearchIndex(): Promise<LoadedSearchIndex> {
+    if (this.searchIndexRetryAt !== null && Date.now() >= this.searchIndexRetryAt) {
+      this.searchIndex = null;
+      this.searchIndexRetryAt = null;
+    }
+    if (!this.searchIndex) {
+      this.searchIndex = this.loadSearchIndex().catch(error => {
+        // Don't memoize failures; the next search retries
+        this.searchIndex = null;
+        throw error;
+      });
+    }
+    return this.searchIndex;
+  }
+
+  private async loadSearchIndex(): Promise<LoadedSearchIndex> {
+    const timerId = performanceMonitor.startTimer('search_index_load');
+    const source = this.dataSource.name;
+
+    const stored = await this.indexStore?.load();
+    const origin: SearchIndexOrigin = {
+      source,
+      location: this.dataSource.location,
+      fingerprint: stored ? await this.getCorpusFingerprint() : null,
+    };
+    if (isUsableIndex(stored ?? null, origin)) {
+      const index = SearchIndex.deserialize(stored!);
+      performanceMonitor.endTimer(timerId, { source, verses: index.size, fromStore: true });
+      return { index, generation: ++searchIndexGeneration, complete: true };
+    }
+
+    const { books, failedBooks } = await this.loadAllBooks();
+    const index = SearchIndex.build(books, { ...origin, fingerprint: origin.fingerprint ?? await this.getCorpusFingerprint() });
+
+    if (failedBooks.length > 0) {
+      // Serve what we have but keep it out of the store, and rebuild once the retry period is over
+      logger.warn('Search index built without some books', { failedBooks, retryInMs: PARTIAL_INDEX_RETRY_MS });
+      this.searchIndexRetryAt = Date.now() + PARTIAL_INDEX_RETRY_MS;
+    } else {
+      await this.indexStore?.save(index.serialize());
+    }
+
+    performanceMonitor.endTimer(timerId, { source, verses: index.size, fromStore: false });
+    return { index, generation: ++searchIndexGeneration, complete: failedBooks.length === 0 };
+  }
+
+  /**
+   * Fingerprint of the current corpus, or null when the data source cannot be checked
+   */
+  private async getCorpusFingerprint(): Promise<string | null> {
+    try {
+      return await getCorpusFingerprint(this.dataSource, this.getAllBooks());
+    } catch (error) {
+      logger.warn('Could not fingerprint the corpus', { source: this.dataSource.name, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Get the word concordance, building it from every book on first use
+   */
+  public getConcordance(): Promise<Concordance> {
+    if (!this.concordance) {
+      this.concordance = this.buildConcordance().catch(error => {
+        this.concordance = null;
+        throw error;
+      });
+    }
+    return this.concordance;
+  }
+
+  private async buildConcordance(): Promise<Concordance> {
+    const timerId = performanceMonitor.startTimer('concordance_build');
+    const { books, failedBooks } = await this.loadAllBooks();
+    const concordance = Concordance.build(books);
+
+    if (failedBooks.length > 0) {
+      // Serve what we have and rebuild on the next lookup
+      logger.warn('Concordance built without some books', { failedBooks });
+      this.concordance = null;
+    }
+
+    performanceMonitor.endTimer(timerId, { books: books.length, lemmas: concordance.size });
+    return concordance;
+  }
+
+  /**
+   * Look up all forms of a word's lemma with up to `referenceLimit` references per form
+   */
+  public async getConcordanceEntry(word: string, referenceLimit: number = 20): Promise<ApiResponse<ConcordanceEntry>> {
+    if (tokenize(word).length !== 1) {
+      const error = new ValidationError('Concordance lookups take a single word');
+      return { data: null, success: false, error: error.message, code: error.code };
+    }
+
+    const concordance = await this.getConcordance();
+    const entry = concordance.lookup(word, referenceLimit);
+    if (!entry) {
+      const error = new DataNotFoundError('Word', word);
+      return { data: null, success: false, error: error.message, code: error.code };
+    }
+
+    return { data: entry, success: true, meta: { total: entry.forms.length } };
+  }
+
+  /**
+   * Get the A–Z concordance index with the lemmas under `letter`
+   */
+  public async getConcordanceIndex(letter?: string): Promise<ApiResponse<ConcordanceIndex>> {
+    const concordance = await this.getConcordance();
+    const index = concordance.getIndex(letter);
+    return { data: index, success: true, meta: { total: index.lemmas.length } };
+  }
+
+  /**
+   * Get a verse's cross-references, most relevant first, with the Malagasy text of each target.
+   * Targets outside the Malagasy versification are left out.
+   */
+  public async getCrossReferences(
+    bookId: string,
+    chapter: number,
+    verse: number,
+    limit: number = 20
+  ): Promise<ApiResponse<CrossReferenceResult>> {
+    const verseResponse = await this.getVerse(bookId, chapter.toString(), verse.toString());
+    if (!verseResponse.success) {
+      return { data: null, success: false, error: verseResponse.error, code: verseResponse.code };
+    }
+
+    if (!this.crossReferenceIndex) {
+      this.crossReferenceIndex = this.crossReferenceLoader().catch(error => {
+        this.crossReferenceIndex = null;
+        throw error;
+      });
+    }
+    const links = (await this.crossReferenceIndex).get(toUsfmVerseId(bookId, chapter, verse));
+
+    const crossReferences: CrossReference[] = [];
+    for (const { passage, votes } of links.slice(0, limit)) {
+      const passageResponse = await this.getPassages([passage]);
+      if (!passageResponse.success || !passageResponse.data) {
+        logger.debug('Cross-reference target not in corpus', { target: toUsfmPassageId(passage) });
+        continue;
+      }
+
+      crossReferences.push({
+        id: toUsfmPassageId(passage),
+        passage,
+        reference: passageResponse.data.reference,
+        votes,
+        text: passageResponse.data.sections
+          .flatMap(section => section.chapters.flatMap(chapterData => chapterData.verses.map(item => item.text)))
+          .join(' '),
+      });
+    }
+
+    return {
+      data: {
+        id: toUsfmVerseId(bookId, chapter, verse),
+        reference: formatBibleReference(BOOKS_BY_ID.get(bookId)?.name ?? bookId, chapter, verse),
+        crossReferences,
+        total: links.length,
+      },
+      success: true,
+      meta: { total: links.length, limit },
+    };
+  }
+
+  /**
+   * Load every book in canonical order, collecting the IDs of books that failed to load
+   */
+  private async loadAllBooks(): Promise<{ books: Array<{ meta: BookMeta; book: BibleBook }>; failedBooks: string[] }> {
+    const books: Array<{ meta: BookMeta; book: BibleBook }> = [];
+    const failedBooks: string[] = [];
+
+    for (const meta of this.getAllBooks()) {
+      const bookResponse = await this.getBook(meta.id);
+      if (bookResponse.success && bookResponse.data) {
+        books.push({ meta, book: bookResponse.data });
+      } else {
+        failedBooks.push(meta.id);
+      }
+    }
+
+    return { books, failedBooks };
+  }
+
+  /**
+   * Read a book's raw JSON from the data source and validate it
+   */
+  private async readBookData(bookMeta: BookMeta): Promise<Record<string, Record<string, string>>> {
     const timerId = performanceMonitor.startTimer('file_read');
+    const source = this.dataSource.name;
     
     try {
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const content = await response.text();
-      const data = JSON.parse(content);
-      
-      console.info('📋 DEBUG: Raw data meta:', data.meta);
-      console.info('📋 DEBUG: Transforming data...');
+      const data = await this.dataSource.readBook(bookMeta);
       
       // Transform numeric keys to strings for consistency, preserve meta as-is
       const transformedData: Record<string, Record<string, string> | { name: string; order: number; chapter_number: number }> = {
-        meta: data.meta  // Keep meta object as-is with proper types
+        meta: data.meta as { name: string; order: number; chapter_number: number }  // Keep meta object as-is with proper types
       };
       
       for (const [chapterKey, chapterData] of Object.entries(data)) {
@@ -117,60 +469,43 @@ class BibleDataRepository implements BibleRepository {
         }
       }
       
-      console.info('📋 DEBUG: Transformed data meta:', transformedData.meta);
-      console.info('📋 DEBUG: Transformed data chapters:', Object.keys(transformedData).filter(k => k !== 'meta'));
-      
       // Validate the transformed data structure
-      console.info('📋 DEBUG: Starting validation...');
       const validatedData = BookDataSchema.parse(transformedData);
-      console.info('📋 DEBUG: Validation successful!');
       
       performanceMonitor.endTimer(timerId, { 
-        metadata: { url }, 
+        metadata: { bookId: bookMeta.id, source }, 
         success: true,
-        size: content.length 
       });
       
       return validatedData;
     } catch (error) {
       performanceMonitor.endTimer(timerId, { 
-        metadata: { url }, 
+        metadata: { bookId: bookMeta.id, source }, 
         success: false,
         error: (error as Error).message 
       });
       
       if (error instanceof z.ZodError) {
-        console.info('📋 DEBUG: Zod validation error details:', JSON.stringify(error.errors, null, 2));
         throw new ValidationError(
-          `Invalid Bible data format from ${url}: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-          { metadata: { url, zodErrors: error.errors } }
+          `Invalid Bible data format for ${bookMeta.id} from ${source}: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
+          { metadata: { bookId: bookMeta.id, source, zodErrors: error.errors } }
         );
       }
       
-      throw new AppError(`Failed to read Bible data from ${url}`, {
-        code: 'HTTP_READ_ERROR',
+      if (error instanceof DataNotFoundError) {
+        throw error;
+      }
+      
+      throw new AppError(`Failed to read Bible data for ${bookMeta.id} from ${source}`, {
+        code: 'DATA_SOURCE_READ_ERROR',
         category: ErrorCategory.SYSTEM,
-        context: { metadata: { url } },
+        retryable: true,
+        context: { metadata: { bookId: bookMeta.id, source } },
         cause: error as Error,
       });
     }
   }
 
-  /**
-   * Get the HTTP URL for a book's JSON file
-   */
-  private getBookFileUrl(bookMeta: BookMeta): string {
-    // Use GitHub raw URL for data access
-    const testamentDir = bookMeta.testament === Testament.OLD ? 'Testameta taloha' : 'Testameta vaovao';
-    
-    // URL encode the testament directory to handle spaces properly
-    const encodedTestamentDir = encodeURIComponent(testamentDir);
-    
-    const url = `https://raw.githubusercontent.com/RaveloMevaSoavina/baiboly-json/refs/heads/master/${encodedTestamentDir}/${bookMeta.fileName}.json`;
-    console.info(url)
-    return url;
-  }
-
   /**
    * Get all available Bible books
    */
@@ -205,7 +540,7 @@ class BibleDataRepository implements BibleRepository {
       }
 
       // Check cache first
-      const cachedBook = this.bookCache.get(bookId);
+      const cachedBook = this.bookCache.get(this.cacheKey(bookId));
       if (cachedBook) {
         performanceMonitor.endTimer(timerId, { bookId, cached: true });
         logger.debug('Book cache hit', { bookId });
@@ -218,12 +553,12 @@ class BibleDataRepository implements BibleRepository {
         throw new DataNotFoundError('Book', bookId);
       }
 
-      // Read book data with retry logic using HTTP URL
-      const fileUrl = this.getBookFileUrl(bookMeta);
+      // Read book data with retry logic from the configured data source
       const bookData = await retryWithBackoff(
-        () => this.readJsonFile(fileUrl),
+        () => this.readBookData(bookMeta),
         3, // maxRetries
-        100 // baseDelay
+        100, // baseDelay
+        error => !(error instanceof AppError) || error.retryable
       );
 
       // Construct complete book object
@@ -233,10 +568,11 @@ class BibleDataRepository implements BibleRepository {
         fileName: bookMeta.fileName,
         testament: bookMeta.testament,
         chapters: bookData,
+        translationId: this.translationId,
       };
 
       // Cache the result
-      this.bookCache.set(bookId, bibleBook);
+      this.bookCache.set(this.cacheKey(bookId), bibleBook);
 
       performanceMonitor.endTimer(timerId, { bookId, cached: false });
       logger.info('Book loaded successfully', { bookId, chapters: Object.keys(bookData).length });
@@ -251,6 +587,7 @@ class BibleDataRepository implements BibleRepository {
           data: null,
           success: false,
           error: error.userMessage,
+          code: error.code,
         };
       }
 
@@ -261,6 +598,7 @@ class BibleDataRepository implements BibleRepository {
         data: null,
         success: false,
         error: 'Tsy afaka naka ny boky. Azafady andramo indray.',
+        code: appError.code,
       };
     }
   }
@@ -280,7 +618,7 @@ class BibleDataRepository implements BibleRepository {
         throw new ValidationError('Book ID and chapter number are required');
       }
 
-      const cacheKey = `${bookId}:${chapterNumber}`;
+      const cacheKey = this.cacheKey(`${bookId}:${chapterNumber}`);
       
       // Check cache first
       const cachedChapter = this.chapterCache.get(cacheKey);
@@ -296,6 +634,7 @@ class BibleDataRepository implements BibleRepository {
           data: null,
           success: false,
           error: bookResponse.error || 'Book not found',
+          code: bookResponse.code,
         };
       }
 
@@ -324,6 +663,7 @@ class BibleDataRepository implements BibleRepository {
           data: null,
           success: false,
           error: error.userMessage,
+          code: error.code,
         };
       }
 
@@ -334,12 +674,232 @@ class BibleDataRepository implements BibleRepository {
         data: null,
         success: false,
         error: 'Tsy afaka naka ny toko. Azafady andramo indray.',
+        code: appError.code,
       };
     }
   }
 
   /**
-   * Search Bible verses with enhanced features
+   * Get a single verse's text
+   */
+  public async getVerse(
+    bookId: string,
+    chapterNumber: string,
+    verseNumber: string
+  ): Promise<ApiResponse<string>> {
+    const chapterResponse = await this.getChapter(bookId, chapterNumber);
+    if (!chapterResponse.success || !chapterResponse.data) {
+      return {
+        data: null,
+        success: false,
+        error: chapterResponse.error || 'Chapter not found',
+        code: chapterResponse.code,
+      };
+    }
+
+    const verseText = chapterResponse.data[verseNumber];
+    if (!verseText) {
+      const error = new DataNotFoundError('Verse', `${bookId}:${chapterNumber}:${verseNumber}`);
+      logger.debug('Verse not found', { bookId, chapterNumber, verseNumber });
+      return {
+        data: null,
+        success: false,
+        error: error.userMessage,
+        code: error.code,
+      };
+    }
+
+    return { data: verseText, success: true };
+  }
+
+  /**
+   * Get the number of chapters in a book (0 if the book can't be loaded)
+   */
+  public async getChapterCount(bookId: string): Promise<number> {
+    const bookResponse = await this.getBook(bookId);
+    if (!bookResponse.success || !bookResponse.data) {
+      return 0;
+    }
+
+    return getChapterKeys(bookResponse.data.chapters).length;
+  }
+
+  /**
+   * Get the number of verses in a chapter (0 if the chapter can't be loaded)
+   */
+  public async getVerseCount(bookId: string, chapterNumber: string): Promise<number> {
+    const chapterResponse = await this.getChapter(bookId, chapterNumber);
+    if (!chapterResponse.success || !chapterResponse.data) {
+      return 0;
+    }
+
+    return Object.keys(chapterResponse.data).length;
+  }
+
+  /**
+   * Get a book's metadata and per-chapter verse counts, read from the data
+   */
+  public async getBookDetails(bookId: string): Promise<ApiResponse<BookDetails>> {
+    const cached = this.bookDetailsCache.get(this.cacheKey(bookId));
+    if (cached) {
+      return { data: cached, success: true };
+    }
+
+    const bookMeta = this.getBookById(bookId);
+    if (!bookMeta) {
+      const error = new DataNotFoundError('Book', bookId);
+      return { data: null, success: false, error: error.message, code: error.code };
+    }
+
+    const bookResponse = await this.getBook(bookId);
+    if (!bookResponse.success || !bookResponse.data) {
+      return { data: null, success: false, error: bookResponse.error, code: bookResponse.code };
+    }
+
+    const details = toBookDetails(bookMeta, bookResponse.data.chapters);
+    this.bookDetailsCache.set(this.cacheKey(bookId), details);
+    return { data: details, success: true };
+  }
+
+  /**
+   * Get the metadata of every book, or of one testament's, with real chapter and verse counts,
+   * in canonical order. Only the requested books are loaded, concurrently.
+   */
+  public async getAllBookInfo(testament?: 'old' | 'new'): Promise<ApiResponse<BookInfo[]>> {
+    const responses = await Promise.all(
+      this.resolveBooks(undefined, testament).map(bookMeta => this.getBookDetails(bookMeta.id))
+    );
+
+    const failed = responses.find(response => !response.success || !response.data);
+    if (failed) {
+      return { data: null, success: false, error: failed.error, code: failed.code };
+    }
+
+    const books = responses.map(response => {
+      const { chapters: _chapters, ...info } = response.data!;
+      return info;
+    });
+    return { data: books, success: true, meta: { total: books.length } };
+  }
+
+  /**
+   * Get a chapter's verse count and the chapters before and after it, across book boundaries
+   */
+  public async getChapterDetails(bookId: string, chapter: number): Promise<ApiResponse<ChapterDetails>> {
+    const bookResponse = await this.getBookDetails(bookId);
+    if (!bookResponse.success || !bookResponse.data) {
+      return { data: null, success: false, error: bookResponse.error, code: bookResponse.code };
+    }
+
+    const book = bookResponse.data;
+    const index = book.chapters.findIndex(info => info.chapter === chapter);
+    if (index === -1) {
+      const error = new DataNotFoundError('Chapter', `${bookId}:${chapter}`);
+      return { data: null, success: false, error: error.message, code: error.code };
+    }
+
+    const neighbour = async (offset: -1 | 1) => {
+      const sibling = book.chapters[index + offset];
+      if (sibling) {
+        return { bookId, chapter: sibling.chapter };
+      }
+
+      const adjacentBook = ALL_BIBLE_BOOKS[book.order - 1 + offset];
+      if (!adjacentBook) {
+        return null;
+      }
+      const adjacent = await this.getBookDetails(adjacentBook.id);
+      const chapters = adjacent.data?.chapters ?? [];
+      const target = offset === 1 ? chapters[0] : chapters[chapters.length - 1];
+      return target ? { bookId: adjacentBook.id, chapter: target.chapter } : null;
+    };
+
+    return {
+      data: {
+        ...book.chapters[index],
+        bookId,
+        bookName: book.name,
+        previous: await neighbour(-1),
+        next: await neighbour(1),
+      },
+      success: true,
+    };
+  }
+
+  /**
+   * Resolve which books an operation applies to; an explicit book list wins over testament
+   */
+  private resolveBooks(books?: string[], testament?: 'old' | 'new'): BookMeta[] {
+    if (books?.length) {
+      return this.getAllBooks().filter(book => books.includes(book.id));
+    }
+
+    if (testament) {
+      return this.getBooksByTestament(testament === 'old' ? Testament.OLD : Testament.NEW);
+    }
+
+    return this.getAllBooks();
+  }
+
+  /**
+   * Resolve a `book:` query filter with the shared book resolver
+   */
+  private resolveBookFilter(value: string): string {
+    const resolution = resolveBook(value);
+
+    if (resolution.status === 'ambiguous') {
+      throw new ValidationError(
+        `Ambiguous book in search filter: "${value}" (${resolution.candidates.map(book => book.name).join(', ')})`
+      );
+    }
+    if (resolution.status === 'not_found') {
+      throw new ValidationError(`Unknown book in search filter: "${value}"`);
+    }
+    return resolution.book.id;
+  }
+
+  /**
+   * Run a query over the index and rank every hit.
+   * Ordering is total: relevance descending, then canonical (book, chapter, verse) order.
+   */
+  private rankSearchHits(
+    index: SearchIndex,
+    query: string,
+    options: Pick<ValidatedSearchOptions, 'books' | 'testament' | 'chapters' | 'caseSensitive' | 'normalize' | 'stemming'>
+  ): RankedHit[] {
+    // Parse the query language; field filters narrow the option-level book selection
+    const parsedQuery = parseSearchQuery(query);
+    const queryBooks = parsedQuery.books.map(value => this.resolveBookFilter(value));
+    const booksToSearch = this.resolveBooks(options.books, options.testament)
+      .filter(book => queryBooks.length === 0 || queryBooks.includes(book.id))
+      .filter(book => !parsedQuery.testament || book.testament === (parsedQuery.testament === 'old' ? Testament.OLD : Testament.NEW));
+
+    const { stemming } = options;
+    const prepare = createTextPreparer(options);
+    const allowedBooks = new Set(booksToSearch.map(book => book.id));
+    const rankingTerms = collectPositiveTerms(parsedQuery.root).map(term => prepare(term.value));
+
+    const docIds = executeSearchQuery(parsedQuery.root, {
+      index,
+      prepare,
+      stemming,
+      isAllowed: doc => allowedBooks.has(doc.bookId) && isInChapterRange(doc.chapter, options.chapters),
+    });
+
+    const rankedHits: RankedHit[] = docIds.map(docId => {
+      const haystack = prepare(index.getDocument(docId).text);
+      // Stem-only matches still rank above nothing, below exact hits
+      const relevance = rankingTerms.reduce((score, term) => score + scoreRelevance(haystack, term), 0) + (stemming ? 1 : 0);
+      return [docId, relevance];
+    });
+
+    // Doc IDs follow canonical order, so they make a deterministic tie-breaker
+    return rankedHits.sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+  }
+
+  /**
+   * Search Bible verses with enhanced features.
+   * Supports quoted phrases, AND/OR/NOT, -exclusion, NEAR/n and book:/testament: filters.
    */
   public async searchBible(
     query: string, 
@@ -359,83 +919,72 @@ class BibleDataRepository implements BibleRepository {
       }
 
       // Validate search options
-      const validatedOptions = SearchOptionsValidationSchema.parse(options);
-      const cacheKey = `${sanitizedQuery}:${JSON.stringify(validatedOptions)}`;
-
-      // Check cache
-      const cachedResult = this.searchCache.get(cacheKey);
-      if (cachedResult) {
-        performanceMonitor.endTimer(timerId, { query: sanitizedQuery, cached: true });
-        return { data: cachedResult, success: true };
-      }
+      const validatedOptions = SearchOptionsSchema.parse(options);
+      const { page, cursor, offset: requestedOffset, limit, highlight, snippetContext, ...filters } = validatedOptions;
 
-      // Determine books to search
-      const booksToSearch = validatedOptions.testament 
-        ? this.getBooksByTestament(validatedOptions.testament === 'old' ? Testament.OLD : Testament.NEW)
-        : this.getAllBooks();
+      // Pages are views over one ranked hit list, cached per translation, query and filters
+      const fingerprint = fingerprintSearch([this.translationId, sanitizedQuery, filters]);
+      const offset = cursor
+        ? decodeSearchCursor(cursor, fingerprint)
+        : page ? (page - 1) * limit : requestedOffset;
 
-      const searchResults: Verse[] = [];
       const searchStartTime = performance.now();
-
-      // Search through books
-      for (const bookMeta of booksToSearch) {
-        try {
-          const bookResponse = await this.getBook(bookMeta.id);
-          if (!bookResponse.success || !bookResponse.data) {
-            logger.warn('Skipping book due to load error', { bookId: bookMeta.id });
-            continue;
-          }
-
-          const book = bookResponse.data;
-          
-          // Search through chapters
-          for (const [chapterNum, chapter] of Object.entries(book.chapters)) {
-            for (const [verseNum, verseText] of Object.entries(chapter)) {
-              const matches = validatedOptions.caseSensitive
-                ? verseText.includes(sanitizedQuery)
-                : verseText.toLowerCase().includes(sanitizedQuery.toLowerCase());
-
-              if (matches) {
-                searchResults.push({
-                  book: bookMeta.name,
-                  chapter: chapterNum,
-                  verse: verseNum,
-                  text: verseText,
-                });
-
-                // Stop if we've reached the limit
-                if (searchResults.length >= validatedOptions.limit) {
-                  break;
-                }
-              }
-            }
-            if (searchResults.length >= validatedOptions.limit) {break;}
-          }
-          if (searchResults.length >= validatedOptions.limit) {break;}
-        } catch (error) {
-          logger.warn('Error searching book', { bookId: bookMeta.id, error: (error as Error).message });
-          continue;
+      // One index for the whole request: ranked hits are document IDs of this index
+      const { index, generation, complete } = await this.getLoadedSearchIndex();
+      const cacheKey = `${fingerprint}:${generation}`;
+      let rankedHits = this.searchCache.get(cacheKey);
+      const cached = rankedHits !== null;
+      if (!rankedHits) {
+        rankedHits = this.rankSearchHits(index, sanitizedQuery, filters);
+        // Hits from an index missing some books would go stale as soon as it is rebuilt
+        if (complete) {
+          this.searchCache.set(cacheKey, rankedHits);
         }
       }
 
+      // Spans are only computed for the hits on this page
+      const terms = collectPositiveTerms(parseSearchQuery(sanitizedQuery).root);
+      const highlightOptions = { prepare: createTextPreparer(filters), stemming: filters.stemming };
+
+      const verses: SearchHit[] = rankedHits.slice(offset, offset + limit).map(([docId, relevance]) => {
+        const doc = index.getDocument(docId);
+        const matches = findMatchSpans(doc.text, terms, highlightOptions);
+        return {
+          book: BOOKS_BY_ID.get(doc.bookId)?.name ?? doc.bookId,
+          bookId: doc.bookId,
+          chapter: doc.chapter,
+          verse: doc.verse,
+          text: doc.text,
+          translationId: this.translationId,
+          relevance,
+          matches,
+          ...(highlight && { snippet: buildSnippet(doc.text, matches, snippetContext) }),
+        };
+      });
+
       const executionTime = performance.now() - searchStartTime;
-      const hasMore = searchResults.length === validatedOptions.limit;
+      const total = rankedHits.length;
+      const hasMore = offset + limit < total;
 
       const result: SearchResult = {
-        verses: searchResults.slice(validatedOptions.offset, validatedOptions.offset + validatedOptions.limit),
-        total: searchResults.length,
+        verses,
+        total,
         hasMore,
+        offset,
+        limit,
+        page: Math.floor(offset / limit) + 1,
+        nextCursor: hasMore ? encodeSearchCursor(offset + limit, fingerprint) : null,
+        facets: computeSearchFacets(
+          [...rankedHits].sort((a, b) => a[0] - b[0]).map(([docId]) => index.getDocument(docId))
+        ),
         query: sanitizedQuery,
         searchOptions: validatedOptions,
         executionTime,
       };
 
-      // Cache the result
-      this.searchCache.set(cacheKey, result);
-
       performanceMonitor.endTimer(timerId, { 
         query: sanitizedQuery, 
-        cached: false,
+        cached,
         results: result.verses.length,
         executionTime 
       });
@@ -443,11 +992,16 @@ class BibleDataRepository implements BibleRepository {
       logger.info('Bible search completed', {
         query: sanitizedQuery,
         results: result.verses.length,
+        total,
         executionTime: Math.round(executionTime),
-        cached: false,
+        cached,
       });
 
-      return { data: result, success: true };
+      return {
+        data: result,
+        success: true,
+        meta: { total, page: result.page, limit },
+      };
     } catch (error) {
       performanceMonitor.endTimer(timerId, { query, success: false });
       
@@ -457,6 +1011,7 @@ class BibleDataRepository implements BibleRepository {
           data: null,
           success: false,
           error: error.userMessage,
+          code: error.code,
         };
       }
 
@@ -467,14 +1022,117 @@ class BibleDataRepository implements BibleRepository {
         data: null,
         success: false,
         error: 'Nisy olana nandritra ny fikarohana. Azafady andramo indray.',
+        code: appError.code,
       };
     }
   }
 
   /**
-   * Get random Bible verses
+   * Resolve parsed passages to their text, grouped by book and chapter.
+   * Ranges running past the end of a chapter are clamped; a passage with no verses at all is an error.
    */
-  public async getRandomVerses(count: number = 1): Promise<ApiResponse<Verse[]>> {
+  public async getPassages(passages: BiblePassage[]): Promise<ApiResponse<PassageResult>> {
+    const timerId = performanceMonitor.startTimer('get_passages');
+    const reference = formatPassageList(passages);
+
+    try {
+      if (passages.length === 0) {
+        throw new ValidationError('At least one passage is required');
+      }
+
+      const sections: PassageSection[] = [];
+      let verseCount = 0;
+
+      for (const passage of passages) {
+        const bookResponse = await this.getBook(passage.bookId);
+        if (!bookResponse.success || !bookResponse.data) {
+          if (bookResponse.code === 'DATA_NOT_FOUND') {
+            throw new DataNotFoundError('Book', passage.bookId);
+          }
+          // Read failures keep their own code so they stay retryable instead of a cacheable 404
+          performanceMonitor.endTimer(timerId, { reference, success: false });
+          logger.warn('Failed to load passages', { reference, code: bookResponse.code });
+          return { data: null, success: false, error: bookResponse.error, code: bookResponse.code };
+        }
+
+        // Consecutive passages from the same book share a section
+        let section = sections[sections.length - 1];
+        if (section?.bookId !== passage.bookId) {
+          section = { bookId: passage.bookId, bookName: passage.bookName, chapters: [] };
+          sections.push(section);
+        }
+
+        let passageVerses = 0;
+        for (let chapter = passage.startChapter; chapter <= passage.endChapter; chapter++) {
+          const chapterData = bookResponse.data.chapters[chapter.toString()];
+          if (!chapterData) {
+            throw new DataNotFoundError('Chapter', `${passage.bookId}:${chapter}`);
+          }
+
+          const from = chapter === passage.startChapter ? passage.startVerse ?? 1 : 1;
+          const to = chapter === passage.endChapter ? passage.endVerse ?? Infinity : Infinity;
+          const verses = Object.keys(chapterData)
+            .map(Number)
+            .filter(verse => verse >= from && verse <= to)
+            .sort((a, b) => a - b)
+            .map(verse => ({ number: verse.toString(), text: chapterData[verse.toString()] }));
+
+          // A verse list like "Sal 23:1,4" adds to the chapter it continues
+          const previous = section.chapters[section.chapters.length - 1];
+          if (previous?.chapter === chapter.toString()) {
+            const seen = new Set(previous.verses.map(verse => verse.number));
+            previous.verses.push(...verses.filter(verse => !seen.has(verse.number)));
+          } else {
+            section.chapters.push({ chapter: chapter.toString(), verses });
+          }
+          passageVerses += verses.length;
+        }
+
+        if (passageVerses === 0) {
+          throw new DataNotFoundError('Verse', formatPassageList([passage]));
+        }
+        verseCount += passageVerses;
+      }
+
+      performanceMonitor.endTimer(timerId, { reference, verseCount });
+      logger.debug('Passages loaded', { reference, verseCount });
+
+      return {
+        data: { reference, passages, sections, verseCount },
+        success: true,
+      };
+    } catch (error) {
+      performanceMonitor.endTimer(timerId, { reference, success: false });
+
+      if (error instanceof AppError) {
+        logger.warn('Failed to load passages', { reference, error: error.message });
+        return {
+          data: null,
+          success: false,
+          error: error.userMessage,
+          code: error.code,
+        };
+      }
+
+      const appError = AppError.fromError(error as Error);
+      logger.error('Unexpected error loading passages', appError, { reference });
+
+      return {
+        data: null,
+        success: false,
+        error: appError.userMessage,
+        code: appError.code,
+      };
+    }
+  }
+
+  /**
+   * Get random Bible verses, optionally restricted to a testament or set of books
+   */
+  public async getRandomVerses(
+    count: number = 1,
+    options: RandomVerseOptions = {}
+  ): Promise<ApiResponse<Verse[]>> {
     const timerId = performanceMonitor.startTimer('get_random_verses');
     
     try {
@@ -482,70 +1140,102 @@ class BibleDataRepository implements BibleRepository {
         throw new ValidationError('Count must be between 1 and 10');
       }
 
-      const cacheKey = `random_${count}`;
-      
-      const randomVerses = await withCache(
-        cacheKey,
-        async () => {
-          const resultVerses: Verse[] = [];
-          const allBooks = this.getAllBooks();
-          
-          for (let i = 0; i < count; i++) {
-            // Select random book
-            const randomBook = allBooks[Math.floor(Math.random() * allBooks.length)];
-            
-            const bookResponse = await this.getBook(randomBook.id);
-            if (!bookResponse.success || !bookResponse.data) {
-              continue;
-            }
+      const booksToUse = this.resolveBooks(options.books, options.testament);
+      if (booksToUse.length === 0) {
+        return { data: [], success: true };
+      }
 
-            const book = bookResponse.data;
-            const chapters = Object.keys(book.chapters);
-            
-            // Select random chapter
-            const randomChapter = chapters[Math.floor(Math.random() * chapters.length)];
-            const chapterVerses = Object.keys(book.chapters[randomChapter]);
-            
-            // Select random verse
-            const randomVerse = chapterVerses[Math.floor(Math.random() * chapterVerses.length)];
-            const verseText = book.chapters[randomChapter][randomVerse];
-
-            resultVerses.push({
-              book: randomBook.name,
-              chapter: randomChapter,
-              verse: randomVerse,
-              text: verseText,
-            });
-          }
+      const resultVerses: Verse[] = [];
+      const seen = new Set<string>();
+      const maxAttempts = count * 10; // Prevent infinite loops
 
-          return resultVerses;
-        },
-        { ttl: 60000 } // Cache for 1 minute
-      );
+      for (let attempt = 0; resultVerses.length < count && attempt < maxAttempts; attempt++) {
+        // Select random book
+        const randomBook = booksToUse[Math.floor(Math.random() * booksToUse.length)];
+        
+        const bookResponse = await this.getBook(randomBook.id);
+        if (!bookResponse.success || !bookResponse.data) {
+          continue;
+        }
+
+        const book = bookResponse.data;
+        const chapters = getChapterKeys(book.chapters);
+        if (chapters.length === 0) {
+          continue;
+        }
+        
+        // Select random chapter
+        const randomChapter = chapters[Math.floor(Math.random() * chapters.length)];
+        const chapterVerses = Object.keys(book.chapters[randomChapter]);
+        if (chapterVerses.length === 0) {
+          continue;
+        }
+        
+        // Select random verse, skipping duplicates
+        const randomVerse = chapterVerses[Math.floor(Math.random() * chapterVerses.length)];
+        const verseKey = `${randomBook.id}:${randomChapter}:${randomVerse}`;
+        if (seen.has(verseKey)) {
+          continue;
+        }
+        seen.add(verseKey);
+
+        resultVerses.push({
+          book: randomBook.name,
+          bookId: randomBook.id,
+          chapter: randomChapter,
+          verse: randomVerse,
+          text: book.chapters[randomChapter][randomVerse],
+          translationId: this.translationId,
+        });
+      }
       
-      return { data: randomVerses, success: true };
+      return { data: resultVerses, success: true };
     } catch (error) {
-      performanceMonitor.endTimer(timerId, { count, success: false });
-      
       const appError = AppError.fromError(error as Error);
-      logger.error('Failed to get random verses', appError, { count });
+      logger.error('Failed to get random verses', appError, { count, options });
       
       return {
         data: null,
         success: false,
-        error: 'Tsy afaka naka ireo andininy. Azafady andramo indray.',
+        error: appError instanceof ValidationError
+          ? appError.message
+          : 'Tsy afaka naka ireo andininy. Azafady andramo indray.',
+        code: appError.code,
       };
     } finally {
       performanceMonitor.endTimer(timerId, { count });
     }
   }
 
+  /**
+   * Drop every cached book, chapter and search result
+   */
+  public clearCaches(): void {
+    this.bookCache.clear();
+    this.chapterCache.clear();
+    this.searchCache.clear();
+    this.statsCache.clear();
+    this.bookDetailsCache.clear();
+    this.corpusStatsCache.clear();
+  }
+
+  /**
+   * Get cache item counts (for debugging/monitoring)
+   */
+  public getCacheStats(): { books: number; chapters: number; searches: number } {
+    return {
+      books: this.bookCache.size(),
+      chapters: this.chapterCache.size(),
+      searches: this.searchCache.size(),
+    };
+  }
+
   /**
    * Get Bible statistics
    */
   public async getStats(): Promise<BibleStats> {
     return await withCache(
-      'bible_stats',
+      this.cacheKey('bible_stats'),
       async () => {
         const timerId = performanceMonitor.startTimer('get_bible_stats');
         
@@ -562,7 +1252,7 @@ class BibleDataRepository implements BibleRepository {
             try {
               const bookResponse = await this.getBook(bookMeta.id);
               if (bookResponse.success && bookResponse.data) {
-                const chapters = Object.keys(bookResponse.data.chapters);
+                const chapters = getChapterKeys(bookResponse.data.chapters);
                 totalChapters += chapters.length;
                 
                 for (const chapterNum of chapters) {
@@ -595,12 +1285,40 @@ class BibleDataRepository implements BibleRepository {
       CACHE_CONFIG.stats
     );
   }
+
+  /**
+   * Get per-book and per-testament counts, length extremes and the `topWords` most frequent words
+   */
+  public async getCorpusStats(topWords: number = 50): Promise<CorpusStats> {
+    let stats = this.corpusStatsCache.get(this.cacheKey('corpus'));
+
+    if (!stats) {
+      const timerId = performanceMonitor.startTimer('get_corpus_stats');
+      const { books, failedBooks } = await this.loadAllBooks();
+      stats = computeCorpusStats(books, MAX_TOP_WORDS, failedBooks);
+
+      if (failedBooks.length > 0) {
+        // Serve partial figures but recompute on the next request
+        logger.warn('Corpus statistics computed without some books', { failedBooks });
+      } else {
+        this.corpusStatsCache.set(this.cacheKey('corpus'), stats);
+      }
+      performanceMonitor.endTimer(timerId, { books: books.length, words: stats.totalWords });
+    }
+
+    return { ...stats, topWords: stats.topWords.slice(0, topWords) };
+  }
 }
 
 // ===== SINGLETON EXPORT =====
 
 export const bibleRepository = BibleDataRepository.getInstance();
 
+/**
+ * Get the repository of a translation; the default translation's is `bibleRepository`
+ */
+export const getBibleRepository = (translationId?: string) => BibleDataRepository.getInstance(translationId);
+
 // ===== LEGACY FUNCTION EXPORTS (for backward compatibility) =====
 
 export const getAllBooks = () => bibleRepository.getAllBooks();
@@ -609,4 +1327,8 @@ export const getBookById = (bookId: string) => bibleRepository.getBookById(bookI
 export const getBibleBook = (bookId: string) => bibleRepository.getBook(bookId);
 export const getChapter = (bookId: string, chapterNumber: string) => bibleRepository.getChapter(bookId, chapterNumber);
 export const searchBible = (query: string, options?: SearchOptions) => bibleRepository.searchBible(query, options);
-export const getRandomVerses = (count?: number) => bibleRepository.getRandomVerses(count);
+export const getVerse = (bookId: string, chapterNumber: string, verseNumber: string) =>
+  bibleRepository.getVerse(bookId, chapterNumber, verseNumber);
+export const getChapterCount = (bookId: string) => bibleRepository.getChapterCount(bookId);
+export const getVerseCount = (bookId: string, chapterNumber: string) => bibleRepository.getVerseCount(bookId, chapterNumber);
+export const getRandomVerses = (count?: number, options?: RandomVerseOptions) => bibleRepository.getRandomVerses(count, options);
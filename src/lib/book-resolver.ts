@@ -0,0 +1,132 @@
+/**
+ * Book name resolution shared by reference parsing, search filters and the APIs
+ * Accepts Malagasy names and abbreviations, English names and abbreviations,
+ * USFM codes and internal IDs, and reports ambiguous input instead of guessing
+ */
+
+import { BookMeta } from '@/types/bible';
+import {
+  ALL_BIBLE_BOOKS,
+  BOOKS_BY_ENGLISH_NAME,
+  MALAGASY_BOOK_ABBREVIATIONS,
+  USFM_BOOK_CODES,
+} from '@/constants/bible';
+import { DataNotFoundError, ValidationError } from '@/lib/errors';
+import { foldText } from '@/lib/malagasy-text';
+
+// ===== TYPES =====
+
+export type BookResolution =
+  | { status: 'found'; book: BookMeta }
+  | { status: 'ambiguous'; candidates: BookMeta[] }
+  | { status: 'not_found' };
+
+// ===== NORMALIZATION =====
+
+const ROMAN_PREFIXES: Record<string, string> = { i: '1', ii: '2', iii: '3' };
+
+/** Malagasy ordinals used in Old Testament book names (Samoela voalohany = 1 Samoela) */
+const MALAGASY_ORDINALS: Record<string, string> = { voalohany: '1', faharoa: '2', fahatelo: '3' };
+
+/**
+ * Normalize a book name for lookup: folded, lowercase, no dots or dashes,
+ * and a numeric prefix separated by one space ("1Kor." → "1 kor", "II Tim" → "2 tim")
+ */
+export function normalizeBookName(name: string): string {
+  return foldText(name)
+    .replace(/[.\-_]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(iii|ii|i) (?=\p{L})/u, (_match, roman: string) => `${ROMAN_PREFIXES[roman]} `)
+    .replace(/^(\d)(?=\p{L})/u, '$1 ');
+}
+
+// ===== ALIAS INDEX =====
+
+/**
+ * normalized alias -> book IDs; an alias shared by several books is ambiguous on purpose
+ */
+const BOOK_ALIASES = buildAliasIndex();
+
+function buildAliasIndex(): Map<string, Set<string>> {
+  const aliases = new Map<string, Set<string>>();
+  const add = (alias: string, bookId: string) => {
+    const key = normalizeBookName(alias);
+    const ids = aliases.get(key);
+    if (ids) {
+      ids.add(bookId);
+    } else {
+      aliases.set(key, new Set([bookId]));
+    }
+  };
+
+  for (const book of ALL_BIBLE_BOOKS) {
+    add(book.id, book.id);
+    add(book.name, book.id);
+    add(book.fileName, book.id);
+
+    const ordinal = /^(.+) (voalohany|faharoa|fahatelo)$/i.exec(book.name);
+    if (ordinal) {
+      add(`${MALAGASY_ORDINALS[ordinal[2].toLowerCase()]} ${ordinal[1]}`, book.id);
+    }
+  }
+  BOOKS_BY_ENGLISH_NAME.forEach((bookId, name) => add(name, bookId));
+  MALAGASY_BOOK_ABBREVIATIONS.forEach((bookId, abbreviation) => add(abbreviation, bookId));
+  USFM_BOOK_CODES.forEach((code, bookId) => add(code, bookId));
+
+  return aliases;
+}
+
+function toBooks(bookIds: Iterable<string>): BookMeta[] {
+  const ids = new Set(bookIds);
+  // Canonical order keeps ambiguity messages stable
+  return ALL_BIBLE_BOOKS.filter(book => ids.has(book.id));
+}
+
+// ===== RESOLUTION =====
+
+/**
+ * Resolve user input to a book.
+ * Exact aliases win; otherwise the input must be the prefix of aliases of exactly one book.
+ */
+export function resolveBook(input: string): BookResolution {
+  const normalized = normalizeBookName(input);
+  if (!normalized) {
+    return { status: 'not_found' };
+  }
+
+  const exact = BOOK_ALIASES.get(normalized);
+  const matches = exact ?? new Set(
+    Array.from(BOOK_ALIASES)
+      .filter(([alias]) => alias.startsWith(normalized))
+      .flatMap(([, bookIds]) => Array.from(bookIds))
+  );
+
+  const candidates = toBooks(matches);
+  if (candidates.length === 1) {
+    return { status: 'found', book: candidates[0] };
+  }
+  return candidates.length === 0 ? { status: 'not_found' } : { status: 'ambiguous', candidates };
+}
+
+/**
+ * Resolve user input to a book or throw
+ * @throws DataNotFoundError when nothing matches
+ * @throws ValidationError when the input matches several books
+ */
+export function findBook(input: string): BookMeta {
+  const resolution = resolveBook(input);
+
+  switch (resolution.status) {
+    case 'found':
+      return resolution.book;
+    case 'ambiguous':
+      throw new ValidationError(
+        `Ambiguous book name "${input}": ${resolution.candidates.map(book => book.name).join(', ')}`,
+        { metadata: { candidates: resolution.candidates.map(book => book.id) } }
+      );
+    case 'not_found':
+      throw new DataNotFoundError('Book', input);
+  }
+}
+
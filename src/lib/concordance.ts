@@ -0,0 +1,231 @@
+/**
+ * Word concordance
+ * Every word form in the corpus with its occurrence count and references, grouped under
+ * a lemma derived with the Malagasy stemmer
+ */
+
+import {
+  BibleBook, BookMeta, ConcordanceEntry, ConcordanceIndex, ConcordanceLemma, ConcordanceReference,
+} from '@/types/bible';
+import { formatBibleReference } from '@/utils';
+import { stemMalagasy } from '@/lib/malagasy-text';
+import { tokenize } from '@/lib/search-index';
+
+// ===== TYPES =====
+
+interface ConcordanceVerse {
+  meta: BookMeta;
+  chapter: number;
+  verse: number;
+}
+
+interface FormOccurrences {
+  count: number;
+  /** Verse positions in canonical order, capped at MAX_CONCORDANCE_REFERENCES */
+  verses: number[];
+}
+
+interface LemmaGroup {
+  count: number;
+  forms: string[];
+}
+
+/** References kept per word form; lookups can ask for fewer */
+export const MAX_CONCORDANCE_REFERENCES = 500;
+
+/** Index bucket for lemmas that do not start with a Latin letter */
+export const OTHER_LETTER = '#';
+
+// ===== HELPERS =====
+
+/**
+ * Index letter of a lemma
+ */
+export function getIndexLetter(lemma: string): string {
+  return /^[a-z]/.test(lemma) ? lemma[0] : OTHER_LETTER;
+}
+
+/**
+ * The corpus spelling of a stem candidate; stems write a final -y as -i
+ */
+function findAttestedForm(candidate: string, forms: Map<string, FormOccurrences>): string | undefined {
+  if (forms.has(candidate)) {
+    return candidate;
+  }
+  const ySpelling = candidate.endsWith('i') ? `${candidate.slice(0, -1)}y` : null;
+  return ySpelling && forms.has(ySpelling) ? ySpelling : undefined;
+}
+
+// ===== CONCORDANCE =====
+
+export class Concordance {
+  private lemmaCache = new Map<string, string | null>();
+
+  private constructor(
+    private verses: ConcordanceVerse[],
+    private forms: Map<string, FormOccurrences>,
+    private lemmaByForm: Map<string, string>,
+    private lemmas: Map<string, LemmaGroup>
+  ) {}
+
+  /**
+   * Build a concordance from loaded books; books must be passed in canonical order
+   */
+  public static build(books: Array<{ meta: BookMeta; book: BibleBook }>): Concordance {
+    const verses: ConcordanceVerse[] = [];
+    const forms = new Map<string, FormOccurrences>();
+
+    for (const { meta, book } of books) {
+      const chapterKeys = Object.keys(book.chapters)
+        .filter(key => key !== 'meta')
+        .sort((a, b) => Number(a) - Number(b));
+
+      for (const chapter of chapterKeys) {
+        const chapterVerses = book.chapters[chapter];
+        const verseKeys = Object.keys(chapterVerses).sort((a, b) => Number(a) - Number(b));
+
+        for (const verse of verseKeys) {
+          const position = verses.length;
+          verses.push({ meta, chapter: Number(chapter), verse: Number(verse) });
+
+          for (const token of tokenize(chapterVerses[verse])) {
+            const occurrences = forms.get(token) ?? { count: 0, verses: [] };
+            occurrences.count += 1;
+            const last = occurrences.verses[occurrences.verses.length - 1];
+            if (last !== position && occurrences.verses.length < MAX_CONCORDANCE_REFERENCES) {
+              occurrences.verses.push(position);
+            }
+            forms.set(token, occurrences);
+          }
+        }
+      }
+    }
+
+    const concordance = new Concordance(verses, forms, new Map(), new Map());
+    concordance.groupForms();
+    return concordance;
+  }
+
+  /** Number of lemmas */
+  public get size(): number {
+    return this.lemmas.size;
+  }
+
+  /**
+   * Lemma a word belongs to, whether or not that exact form occurs in the corpus
+   */
+  public resolveLemma(word: string): string | null {
+    const [token] = tokenize(word);
+    if (!token) {
+      return null;
+    }
+    const form = this.lemmaByForm.has(token) ? token : this.chooseLemma(token);
+    return form ? this.lemmaByForm.get(form) ?? null : null;
+  }
+
+  /**
+   * All forms of a word's lemma with up to `referenceLimit` references each
+   */
+  public lookup(word: string, referenceLimit: number): ConcordanceEntry | null {
+    const lemma = this.resolveLemma(word);
+    const group = lemma ? this.lemmas.get(lemma) : undefined;
+    if (!lemma || !group) {
+      return null;
+    }
+
+    return {
+      lemma,
+      count: group.count,
+      forms: group.forms.map(form => {
+        const occurrences = this.forms.get(form)!;
+        return {
+          form,
+          count: occurrences.count,
+          references: occurrences.verses.slice(0, referenceLimit).map(position => this.toReference(position)),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Letters that have lemmas, and the lemmas under one of them (the first letter by default)
+   */
+  public getIndex(letter?: string): ConcordanceIndex {
+    const lemmaCounts = new Map<string, number>();
+    for (const lemma of this.lemmas.keys()) {
+      const indexLetter = getIndexLetter(lemma);
+      lemmaCounts.set(indexLetter, (lemmaCounts.get(indexLetter) ?? 0) + 1);
+    }
+
+    const letters = Array.from(lemmaCounts, ([indexLetter, lemmaCount]) => ({ letter: indexLetter, lemmaCount }))
+      .sort((a, b) => (a.letter === OTHER_LETTER ? 1 : b.letter === OTHER_LETTER ? -1 : a.letter.localeCompare(b.letter)));
+    const selected = letter?.toLowerCase() ?? letters[0]?.letter ?? 'a';
+
+    const lemmas: ConcordanceLemma[] = Array.from(this.lemmas)
+      .filter(([lemma]) => getIndexLetter(lemma) === selected)
+      .map(([lemma, group]) => ({ lemma, count: group.count, formCount: group.forms.length }))
+      .sort((a, b) => a.lemma.localeCompare(b.lemma));
+
+    return { letters, letter: selected, lemmas };
+  }
+
+  /**
+   * Assign every form to a lemma and collect the groups, most frequent form first
+   */
+  private groupForms(): void {
+    for (const form of this.forms.keys()) {
+      let lemma = form;
+      const visited = new Set<string>();
+      // A lemma can have a shorter lemma of its own; follow the chain until it settles
+      while (!visited.has(lemma)) {
+        visited.add(lemma);
+        lemma = this.chooseLemma(lemma) ?? lemma;
+      }
+      this.lemmaByForm.set(form, lemma);
+    }
+
+    for (const [form, lemma] of this.lemmaByForm) {
+      const group = this.lemmas.get(lemma) ?? { count: 0, forms: [] };
+      group.count += this.forms.get(form)!.count;
+      group.forms.push(form);
+      this.lemmas.set(lemma, group);
+    }
+
+    for (const group of this.lemmas.values()) {
+      group.forms.sort((a, b) => this.forms.get(b)!.count - this.forms.get(a)!.count || a.localeCompare(b));
+    }
+  }
+
+  /**
+   * The shortest attested stem candidate of a token, preferring the more frequent form on ties
+   */
+  private chooseLemma(token: string): string | null {
+    if (this.lemmaCache.has(token)) {
+      return this.lemmaCache.get(token)!;
+    }
+
+    const attested = Array.from(new Set(
+      stemMalagasy(token)
+        .map(candidate => findAttestedForm(candidate, this.forms))
+        .filter((form): form is string => Boolean(form))
+    ));
+    attested.sort((a, b) => a.length - b.length
+      || this.forms.get(b)!.count - this.forms.get(a)!.count
+      || a.localeCompare(b));
+
+    const lemma = attested[0] ?? null;
+    this.lemmaCache.set(token, lemma);
+    return lemma;
+  }
+
+  private toReference(position: number): ConcordanceReference {
+    const { meta, chapter, verse } = this.verses[position];
+    return {
+      bookId: meta.id,
+      bookName: meta.name,
+      chapter,
+      verse,
+      reference: formatBibleReference(meta.name, chapter, verse),
+    };
+  }
+}
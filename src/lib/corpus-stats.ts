@@ -0,0 +1,136 @@
+/**
+ * Corpus statistics
+ * Chapter, verse and word counts per book and testament, length extremes and word
+ * frequencies, all counted with the search tokenizer so figures match what search sees
+ */
+
+import {
+  BibleBook, BookMeta, BookStats, ChapterLengthRecord, CorpusStats, Testament, TestamentStats,
+  VerseLengthRecord, WordFrequency,
+} from '@/types/bible';
+import { TESTAMENTS } from '@/constants/bible';
+import { tokenize } from '@/lib/search-index';
+
+/** Upper bound for the `top` word frequency list */
+export const MAX_TOP_WORDS = 500;
+
+/**
+ * The `count` most frequent words; ties are broken alphabetically so the list is stable
+ */
+export function getTopWords(frequencies: Map<string, number>, count: number): WordFrequency[] {
+  return Array.from(frequencies, ([word, wordCount]) => ({ word, count: wordCount }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, count);
+}
+
+/**
+ * Compute statistics over loaded books; books must be passed in canonical order so
+ * ties in the length rankings go to the earliest chapter or verse. `failedBooks` lists
+ * the books that could not be loaded, so partial figures are marked as such.
+ */
+export function computeCorpusStats(
+  books: Array<{ meta: BookMeta; book: BibleBook }>,
+  topWordCount: number = MAX_TOP_WORDS,
+  failedBooks: string[] = []
+): CorpusStats {
+  const frequencies = new Map<string, number>();
+  const bookStats: BookStats[] = [];
+  let longestChapter: ChapterLengthRecord | null = null;
+  let shortestChapter: ChapterLengthRecord | null = null;
+  let longestVerse: VerseLengthRecord | null = null;
+  let shortestVerse: VerseLengthRecord | null = null;
+
+  for (const { meta, book } of books) {
+    const stats: BookStats = {
+      bookId: meta.id,
+      bookName: meta.name,
+      testamentId: meta.testament === Testament.OLD ? 'old' : 'new',
+      chapters: 0,
+      verses: 0,
+      words: 0,
+    };
+
+    const chapterKeys = Object.keys(book.chapters)
+      .filter(key => key !== 'meta')
+      .sort((a, b) => Number(a) - Number(b));
+
+    for (const chapter of chapterKeys) {
+      const verses = book.chapters[chapter];
+      const verseKeys = Object.keys(verses).sort((a, b) => Number(a) - Number(b));
+      const chapterRecord = { bookId: meta.id, bookName: meta.name, chapter: Number(chapter), verseCount: verseKeys.length };
+
+      stats.chapters += 1;
+      stats.verses += verseKeys.length;
+      if (!longestChapter || chapterRecord.verseCount > longestChapter.verseCount) {
+        longestChapter = chapterRecord;
+      }
+      if (!shortestChapter || chapterRecord.verseCount < shortestChapter.verseCount) {
+        shortestChapter = chapterRecord;
+      }
+
+      for (const verse of verseKeys) {
+        const tokens = tokenize(verses[verse]);
+        stats.words += tokens.length;
+        for (const token of tokens) {
+          frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+        }
+
+        if (tokens.length === 0) {
+          continue;
+        }
+        const verseRecord = {
+          bookId: meta.id,
+          bookName: meta.name,
+          chapter: Number(chapter),
+          verse: Number(verse),
+          wordCount: tokens.length,
+          text: verses[verse],
+        };
+        if (!longestVerse || verseRecord.wordCount > longestVerse.wordCount) {
+          longestVerse = verseRecord;
+        }
+        if (!shortestVerse || verseRecord.wordCount < shortestVerse.wordCount) {
+          shortestVerse = verseRecord;
+        }
+      }
+    }
+
+    bookStats.push(stats);
+  }
+
+  const testaments: TestamentStats[] = ([Testament.OLD, Testament.NEW] as const).map(testament => {
+    const testamentId = testament === Testament.OLD ? 'old' : 'new';
+    const testamentBooks = bookStats.filter(stats => stats.testamentId === testamentId);
+    return {
+      testamentId,
+      name: TESTAMENTS[testament].name,
+      books: testamentBooks.length,
+      chapters: testamentBooks.reduce((sum, stats) => sum + stats.chapters, 0),
+      verses: testamentBooks.reduce((sum, stats) => sum + stats.verses, 0),
+      words: testamentBooks.reduce((sum, stats) => sum + stats.words, 0),
+    };
+  });
+
+  const totalChapters = bookStats.reduce((sum, stats) => sum + stats.chapters, 0);
+  const totalVerses = bookStats.reduce((sum, stats) => sum + stats.verses, 0);
+
+  return {
+    totalBooks: bookStats.length,
+    totalChapters,
+    totalVerses,
+    totalWords: bookStats.reduce((sum, stats) => sum + stats.words, 0),
+    uniqueWords: frequencies.size,
+    oldTestamentBooks: testaments[0].books,
+    newTestamentBooks: testaments[1].books,
+    averageVersesPerChapter: totalChapters > 0 ? Math.round(totalVerses / totalChapters) : 0,
+    testaments,
+    books: bookStats,
+    longestChapter,
+    shortestChapter,
+    longestVerse,
+    shortestVerse,
+    topWords: getTopWords(frequencies, topWordCount),
+    failedBooks,
+    lastUpdated: new Date().toISOString(),
+  };
+}
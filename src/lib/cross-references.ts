@@ -0,0 +1,183 @@
+/**
+ * Cross-reference dataset
+ * Verse-to-verse links keyed by USFM verse IDs ("JHN 3:16"), loaded from the tab-separated
+ * format of the OpenBible.info Treasury of Scripture Knowledge export:
+ *
+ *   From Verse   To Verse              Votes
+ *   John.3.16    Rom.5.8               120
+ *   John.3.16    1John.4.9-1John.4.10  98
+ *
+ * Book codes may be OSIS (John, 1John) or USFM (JHN, 1JN). The dataset is licensed CC BY and is
+ * not bundled; see the README for where to get it and the attribution it requires.
+ */
+
+import { BiblePassage } from '@/types/bible';
+import { BOOKS_BY_ID, OSIS_BOOK_CODES, USFM_BOOK_CODES } from '@/constants/bible';
+import { getConfig } from '@/config/app';
+import { CrossReferencesUnavailableError, logger, performanceMonitor } from '@/lib/errors';
+
+// ===== TYPES =====
+
+/**
+ * A target passage and its relevance votes from the dataset
+ */
+export interface CrossReferenceLink {
+  passage: BiblePassage;
+  votes: number;
+}
+
+interface DatasetVerse {
+  bookId: string;
+  chapter: number;
+  verse: number;
+}
+
+// ===== VERSE IDS =====
+
+/** Lowercased OSIS and USFM codes to book IDs */
+const BOOK_IDS_BY_CODE = new Map<string, string>([
+  ...Array.from(OSIS_BOOK_CODES, ([bookId, code]): [string, string] => [code.toLowerCase(), bookId]),
+  ...Array.from(USFM_BOOK_CODES, ([bookId, code]): [string, string] => [code.toLowerCase(), bookId]),
+]);
+
+const DATASET_VERSE = /^([1-3]?[A-Za-z]+)\.(\d+)\.(\d+)$/;
+
+/**
+ * USFM ID of a verse, e.g. "JHN 3:16"
+ */
+export function toUsfmVerseId(bookId: string, chapter: number, verse: number): string {
+  return `${USFM_BOOK_CODES.get(bookId) ?? bookId.toUpperCase()} ${chapter}:${verse}`;
+}
+
+/**
+ * USFM ID of a passage: "ROM 5:8", "1JN 4:9-10" or, across chapters, "JHN 3:16-4:3"
+ */
+export function toUsfmPassageId(passage: BiblePassage): string {
+  const start = toUsfmVerseId(passage.bookId, passage.startChapter, passage.startVerse ?? 1);
+  if (passage.endChapter !== passage.startChapter) {
+    return `${start}-${passage.endChapter}:${passage.endVerse}`;
+  }
+  return passage.endVerse !== undefined && passage.endVerse !== passage.startVerse
+    ? `${start}-${passage.endVerse}`
+    : start;
+}
+
+/**
+ * Parse a dataset verse such as "Gen.1.1" or "1JN.4.9"
+ */
+export function parseDatasetVerse(token: string): DatasetVerse | null {
+  const match = DATASET_VERSE.exec(token.trim());
+  const bookId = match ? BOOK_IDS_BY_CODE.get(match[1].toLowerCase()) : undefined;
+  if (!match || !bookId) {
+    return null;
+  }
+  return { bookId, chapter: Number(match[2]), verse: Number(match[3]) };
+}
+
+/**
+ * Parse a dataset target: one verse or a `start-end` range within one book
+ */
+function parseDatasetTarget(token: string): BiblePassage | null {
+  const [startToken, endToken] = token.split('-');
+  const start = parseDatasetVerse(startToken);
+  const end = endToken ? parseDatasetVerse(endToken) : start;
+  if (!start || !end || end.bookId !== start.bookId) {
+    return null;
+  }
+
+  const isOrdered = end.chapter > start.chapter || (end.chapter === start.chapter && end.verse >= start.verse);
+  if (!isOrdered) {
+    return null;
+  }
+
+  return {
+    bookId: start.bookId,
+    bookName: BOOKS_BY_ID.get(start.bookId)?.name ?? start.bookId,
+    startChapter: start.chapter,
+    endChapter: end.chapter,
+    startVerse: start.verse,
+    endVerse: end.verse,
+  };
+}
+
+// ===== INDEX =====
+
+export class CrossReferenceIndex {
+  private constructor(private links: Map<string, CrossReferenceLink[]>) {}
+
+  /**
+   * Parse a dataset; header, comment and malformed lines are skipped
+   */
+  public static parse(text: string): CrossReferenceIndex {
+    const links = new Map<string, CrossReferenceLink[]>();
+    let skipped = 0;
+
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.trim() || line.startsWith('#') || line.startsWith('From Verse')) {
+        continue;
+      }
+
+      const [fromToken, toToken, votesToken] = line.split('\t');
+      const from = parseDatasetVerse(fromToken ?? '');
+      const passage = parseDatasetTarget(toToken ?? '');
+      if (!from || !passage) {
+        skipped += 1;
+        continue;
+      }
+
+      const id = toUsfmVerseId(from.bookId, from.chapter, from.verse);
+      const list = links.get(id) ?? [];
+      list.push({ passage, votes: Number(votesToken) || 0 });
+      links.set(id, list);
+    }
+
+    for (const list of links.values()) {
+      list.sort((a, b) => b.votes - a.votes);
+    }
+    if (skipped > 0) {
+      logger.warn('Skipped malformed cross-reference lines', { skipped });
+    }
+
+    return new CrossReferenceIndex(links);
+  }
+
+  /** Number of source verses with cross-references */
+  public get size(): number {
+    return this.links.size;
+  }
+
+  /**
+   * Cross-references of a verse, most votes first
+   */
+  public get(verseId: string): CrossReferenceLink[] {
+    return this.links.get(verseId) ?? [];
+  }
+}
+
+// ===== LOADING =====
+
+/**
+ * Load the configured dataset (server only)
+ * @throws CrossReferencesUnavailableError when the file is missing, unreadable or has no usable lines
+ */
+export async function loadCrossReferenceIndex(
+  filePath: string = getConfig().crossReferences.path
+): Promise<CrossReferenceIndex> {
+  const timerId = performanceMonitor.startTimer('cross_references_load');
+
+  let index: CrossReferenceIndex;
+  try {
+    // Loaded lazily so client bundles never pull in Node built-ins
+    const [{ readFile }, path] = await Promise.all([import('fs/promises'), import('path')]);
+    index = CrossReferenceIndex.parse(await readFile(path.resolve(process.cwd(), filePath), 'utf-8'));
+  } catch (error) {
+    performanceMonitor.endTimer(timerId, { verses: 0, path: filePath });
+    throw new CrossReferencesUnavailableError(filePath, error as Error);
+  }
+
+  performanceMonitor.endTimer(timerId, { verses: index.size, path: filePath });
+  if (index.size === 0) {
+    throw new CrossReferencesUnavailableError(filePath);
+  }
+  return index;
+}
@@ -236,6 +236,69 @@ export class BusinessLogicError extends AppError {
   }
 }
 
+export class StorageQuotaError extends AppError {
+  constructor(
+    key: string,
+    cause?: Error,
+    context?: Partial<ErrorContext>
+  ) {
+    super(`Storage quota exceeded while saving "${key}"`, {
+      code: 'STORAGE_QUOTA_EXCEEDED',
+      category: ErrorCategory.SYSTEM,
+      severity: ErrorSeverity.HIGH,
+      context: {
+        ...context,
+        metadata: { key },
+      },
+      recoverable: true,
+      retryable: false,
+      userMessage: 'Feno ny toerana fitehirizana ao amin\'ny navigateur. Fafao ny angon-drakitra tsy ilaina.',
+      cause,
+    });
+  }
+}
+
+export class UserStorageUnavailableError extends AppError {
+  constructor(
+    message: string,
+    cause?: Error,
+    context?: Partial<ErrorContext>
+  ) {
+    super(message, {
+      code: 'USER_STORAGE_UNAVAILABLE',
+      category: ErrorCategory.SYSTEM,
+      severity: ErrorSeverity.HIGH,
+      context,
+      recoverable: true,
+      retryable: true,
+      userMessage: 'Tsy azo sokafana ny angon-drakitrao voatahiry. Hidio ny tabilao hafa ary avereno sokafana ny pejy.',
+      cause,
+    });
+  }
+}
+
+export class CrossReferencesUnavailableError extends AppError {
+  constructor(
+    path: string,
+    cause?: Error,
+    context?: Partial<ErrorContext>
+  ) {
+    super(`Cross-reference dataset unavailable at "${path}"`, {
+      code: 'CROSS_REFERENCES_UNAVAILABLE',
+      category: ErrorCategory.SYSTEM,
+      severity: ErrorSeverity.HIGH,
+      context: {
+        ...context,
+        metadata: { path },
+      },
+      recoverable: true,
+      retryable: true,
+      userMessage: 'Tsy misy ny andininy mifandraika amin\'ity fametrahana ity.',
+      cause,
+    });
+  }
+}
+
 // ===== LOGGER INTERFACE =====
 
 export const LogLevel = {
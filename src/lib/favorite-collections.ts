@@ -0,0 +1,172 @@
+/**
+ * Favorite tags and collections
+ * Tags are free-form words on a favorite; collections are named, ordered lists of
+ * favorites ("Fanambadiana", "Sekoly alahady herinandro 3"). A favorite may carry several
+ * tags and belong to several collections. Pure helpers shared by FavoritesContext and
+ * the favorites page.
+ */
+
+// ===== TYPES =====
+
+/**
+ * The fields filtering needs; FavoritesContext's Favorite satisfies it
+ */
+export interface TaggedFavorite {
+  id: string;
+  book: string;
+  text: string;
+  reference: string;
+  note?: string;
+  tags?: string[];
+  dateAdded: string;
+}
+
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  /** Favorite IDs in reading order */
+  favoriteIds: string[];
+  dateCreated: string;
+}
+
+export interface FavoritesFilter {
+  tag?: string;
+  collection?: FavoriteCollection;
+  /** Matched against the reference, text, note and tags, ignoring case */
+  query?: string;
+}
+
+/**
+ * Export file contents; version 1 files were a bare array of favorites
+ */
+export interface FavoritesExport<T extends TaggedFavorite = TaggedFavorite> {
+  version: 2;
+  exportedAt: string;
+  favorites: T[];
+  collections: FavoriteCollection[];
+}
+
+export const FAVORITES_EXPORT_VERSION = 2;
+
+// ===== TAGS =====
+
+/**
+ * Tidy a tag: trimmed, inner whitespace collapsed, lowercase
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Add tags to a list without duplicates; empty tags are ignored
+ */
+export function mergeTags(current: string[] = [], added: string[]): string[] {
+  const tags = new Set(current);
+  for (const tag of added.map(normalizeTag)) {
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * Every tag in use with how many favorites carry it, most used first
+ */
+export function countTags(favorites: TaggedFavorite[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const tag of favorites.flatMap(favorite => favorite.tags ?? [])) {
+    counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// ===== COLLECTIONS =====
+
+/**
+ * Move one item of a list to another position
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length) {
+    return items;
+  }
+  const updated = [...items];
+  const [item] = updated.splice(fromIndex, 1);
+  updated.splice(Math.max(0, Math.min(toIndex, updated.length)), 0, item);
+  return updated;
+}
+
+/**
+ * Append favorites to a collection, skipping ones it already holds
+ */
+export function addToCollection(collection: FavoriteCollection, favoriteIds: string[]): FavoriteCollection {
+  const missing = favoriteIds.filter(id => !collection.favoriteIds.includes(id));
+  return missing.length > 0 ? { ...collection, favoriteIds: [...collection.favoriteIds, ...missing] } : collection;
+}
+
+export function removeFromCollection(collection: FavoriteCollection, favoriteIds: string[]): FavoriteCollection {
+  const removed = new Set(favoriteIds);
+  return { ...collection, favoriteIds: collection.favoriteIds.filter(id => !removed.has(id)) };
+}
+
+// ===== FILTERING =====
+
+/**
+ * Favorites matching a filter. Inside a collection the collection's order is kept;
+ * otherwise the newest come first.
+ */
+export function filterFavorites<T extends TaggedFavorite>(favorites: T[], filter: FavoritesFilter = {}): T[] {
+  const query = filter.query?.trim().toLowerCase();
+  const byId = new Map(favorites.map(favorite => [favorite.id, favorite]));
+
+  const candidates = filter.collection
+    ? filter.collection.favoriteIds.flatMap(id => byId.get(id) ?? [])
+    : [...favorites].sort((a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime());
+
+  return candidates
+    .filter(favorite => !filter.tag || (favorite.tags ?? []).includes(filter.tag))
+    .filter(favorite => {
+      if (!query) {
+        return true;
+      }
+      const haystack = [favorite.reference, favorite.text, favorite.note ?? '', ...(favorite.tags ?? [])]
+        .join('\n')
+        .toLowerCase();
+      return haystack.includes(query);
+    });
+}
+
+// ===== IMPORT / EXPORT =====
+
+export function createFavoritesExport<T extends TaggedFavorite>(
+  favorites: T[],
+  collections: FavoriteCollection[]
+): FavoritesExport<T> {
+  return {
+    version: FAVORITES_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    favorites,
+    collections,
+  };
+}
+
+/**
+ * Read an export file of either version; collections lose IDs of favorites the file lacks
+ */
+export function parseFavoritesExport<T extends TaggedFavorite>(
+  data: unknown
+): { favorites: T[]; collections: FavoriteCollection[] } {
+  if (Array.isArray(data)) {
+    return { favorites: data as T[], collections: [] };
+  }
+
+  const file = data as Partial<FavoritesExport<T>> | null;
+  const favorites = Array.isArray(file?.favorites) ? file.favorites : [];
+  const favoriteIds = new Set(favorites.map(favorite => favorite?.id));
+  const collections = (Array.isArray(file?.collections) ? file.collections : [])
+    .filter(collection => collection?.id && collection.name && Array.isArray(collection.favoriteIds))
+    .map(collection => ({ ...collection, favoriteIds: collection.favoriteIds.filter(id => favoriteIds.has(id)) }));
+
+  return { favorites, collections };
+}
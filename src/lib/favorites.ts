@@ -1,14 +1,66 @@
 /**
  * Favorites utility functions
- * Manages user's favorite verses and bookmarks using localStorage
+ * Manages user's favorite verses and bookmarks in user storage. Favorites, with their tags
+ * and collections, live in one versioned document under `ny-baiboly-favorites`; the layouts
+ * older versions wrote are migrated into it, with canonical IDs, the first time it is read.
  */
 
 import { BibleVerse } from '@/types/bible';
-
-export interface FavoriteVerse extends BibleVerse {
+import { BOOKS_BY_ID } from '@/constants/bible';
+import { resolveBook } from '@/lib/book-resolver';
+import {
+  addToCollection,
+  FavoriteCollection,
+  FavoritesExport,
+  mergeTags,
+  parseFavoritesExport,
+} from '@/lib/favorite-collections';
+import { userStorage } from '@/lib/user-storage';
+import { logger } from '@/lib/errors';
+
+export interface Favorite {
+  /** Canonical ID, `bookId-chapter-verse`, e.g. "john-3-16" */
   id: string;
+  book: string;
+  bookId: string;
+  chapter: string;
+  verse: string;
+  text: string;
+  reference: string;
+  note?: string;
+  /** User-defined tags, normalized to lowercase */
+  tags?: string[];
   dateAdded: string;
+}
+
+export interface FavoritesStore {
+  version: number;
+  favorites: Favorite[];
+  collections: FavoriteCollection[];
+}
+
+/**
+ * What older versions stored, parsed
+ */
+export interface LegacyFavoritesData {
+  /** `ny-baiboly-favorites`: this module's version 1 array, or a versioned store */
+  library?: unknown;
+  /** `bible-favorites`: the favorites context's array */
+  context?: unknown;
+  /** `bible-favorite-collections`: the favorites context's collections */
+  collections?: unknown;
+}
+
+/**
+ * A favorite as version 1 of this module stored it, with an ID built from the book name
+ */
+interface LegacyFavoriteVerse extends BibleVerse {
+  id: string;
+  bookId?: string;
+  reference?: string;
+  dateAdded?: string;
   note?: string;
+  tags?: string[];
 }
 
 export interface ReadingBookmark {
@@ -22,105 +74,355 @@ export interface ReadingBookmark {
   lastRead?: string;
 }
 
+export const FAVORITES_STORE_VERSION = 2;
+
 const FAVORITES_KEY = 'ny-baiboly-favorites';
 const BOOKMARKS_KEY = 'ny-baiboly-bookmarks';
+const PROGRESS_KEY = 'ny-baiboly-progress';
+
+/** Keys the favorites context wrote before the stores were merged */
+const LEGACY_CONTEXT_FAVORITES_KEY = 'bible-favorites';
+const LEGACY_CONTEXT_COLLECTIONS_KEY = 'bible-favorite-collections';
+
+/** Raw data from before each migration, kept in case anything needs recovering */
+const FAVORITES_BACKUP_KEY = 'ny-baiboly-favorites-backup';
+
+// ===== IDS =====
 
 /**
- * Get all favorite verses from localStorage
+ * Book ID for an ID, Malagasy or English name, abbreviation or file name; unknown books are kept as given
  */
-export function getFavoriteVerses(): FavoriteVerse[] {
-  if (typeof window === 'undefined') {return [];}
-  
-  try {
-    const stored = localStorage.getItem(FAVORITES_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error('Error loading favorites:', error);
-    return [];
+export function toCanonicalBookId(book: string): string {
+  if (BOOKS_BY_ID.has(book)) {
+    return book;
   }
+  const resolution = resolveBook(book);
+  return resolution.status === 'found' ? resolution.book.id : book;
 }
 
 /**
- * Add a verse to favorites
+ * Canonical favorite ID of a verse, e.g. "john-3-16" for ("Jaona", "3", "16")
  */
-export function addToFavorites(verse: BibleVerse, note?: string): void {
-  if (typeof window === 'undefined') {return;}
+export function toFavoriteId(book: string, chapter: string, verse: string): string {
+  return `${toCanonicalBookId(book)}-${chapter}-${verse}`;
+}
 
-  try {
-    const favorites = getFavoriteVerses();
-    const id = `${verse.book}-${verse.chapter}-${verse.verse}`;
-    
-    // Check if already exists
-    if (favorites.some(fav => fav.id === id)) {
-      return;
+// ===== MIGRATION =====
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isVersionedStore(value: unknown): value is FavoritesStore {
+  return typeof value === 'object' && value !== null && Array.isArray((value as FavoritesStore).favorites);
+}
+
+/**
+ * A stored entry of either format with canonical IDs, or null when it lacks a verse location
+ */
+function toCanonicalFavorite(entry: unknown): Favorite | null {
+  const verse = entry as Partial<LegacyFavoriteVerse> | null;
+  const book = verse?.bookId || verse?.book;
+  if (!book || !verse?.chapter || !verse.verse) {
+    return null;
+  }
+
+  const chapter = String(verse.chapter);
+  const verseNumber = String(verse.verse);
+  const bookId = toCanonicalBookId(book);
+  const bookName = verse.book && verse.book !== verse.bookId ? verse.book : BOOKS_BY_ID.get(bookId)?.name ?? book;
+
+  return {
+    id: `${bookId}-${chapter}-${verseNumber}`,
+    book: bookName,
+    bookId,
+    chapter,
+    verse: verseNumber,
+    text: verse.text ?? '',
+    reference: verse.reference || `${bookName} ${chapter}:${verseNumber}`,
+    ...(verse.note && { note: verse.note }),
+    ...(verse.tags?.length && { tags: mergeTags([], verse.tags) }),
+    dateAdded: verse.dateAdded || new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Combine two entries for the same verse: the earliest date, every distinct note and tag
+ */
+function mergeFavorite(existing: Favorite, incoming: Favorite): Favorite {
+  const notes = Array.from(new Set([existing.note, incoming.note].filter((note): note is string => Boolean(note))));
+  const tags = mergeTags(existing.tags, incoming.tags ?? []);
+
+  return {
+    ...existing,
+    text: existing.text || incoming.text,
+    ...(notes.length > 0 && { note: notes.join('\n\n') }),
+    ...(tags.length > 0 && { tags }),
+    dateAdded: incoming.dateAdded < existing.dateAdded ? incoming.dateAdded : existing.dateAdded,
+  };
+}
+
+/**
+ * Merge every favorites layout into one store with canonical IDs. Entries for the same
+ * verse are combined rather than dropped, and collections follow their favorites' new IDs.
+ */
+export function migrateFavorites(data: LegacyFavoritesData): FavoritesStore {
+  const library = isVersionedStore(data.library) ? data.library : null;
+  const entries = [
+    ...(library ? library.favorites : asArray(data.library)),
+    ...asArray(data.context),
+  ];
+
+  const favorites = new Map<string, Favorite>();
+  const idMap = new Map<string, string>();
+  for (const entry of entries) {
+    const favorite = toCanonicalFavorite(entry);
+    if (!favorite) {
+      logger.warn('Skipping favorite without a verse location', { entry });
+      continue;
     }
+    const existing = favorites.get(favorite.id);
+    favorites.set(favorite.id, existing ? mergeFavorite(existing, favorite) : favorite);
+    idMap.set((entry as Favorite).id ?? favorite.id, favorite.id);
+    idMap.set(favorite.id, favorite.id);
+  }
 
-    const newFavorite: FavoriteVerse = {
-      ...verse,
-      id,
-      dateAdded: new Date().toISOString(),
-      note,
-    };
+  const collections: FavoriteCollection[] = [];
+  for (const entry of [...(library?.collections ?? []), ...asArray(data.collections)]) {
+    const collection = entry as Partial<FavoriteCollection> | null;
+    if (!collection?.id || !collection.name || !Array.isArray(collection.favoriteIds)) {
+      continue;
+    }
+    const favoriteIds = collection.favoriteIds.flatMap(id => idMap.get(id) ?? []);
+    const existing = collections.find(item => item.id === collection.id || item.name === collection.name);
+    if (existing) {
+      existing.favoriteIds = Array.from(new Set([...existing.favoriteIds, ...favoriteIds]));
+    } else {
+      collections.push({
+        id: collection.id,
+        name: collection.name,
+        favoriteIds: Array.from(new Set(favoriteIds)),
+        dateCreated: collection.dateCreated ?? new Date().toISOString(),
+      });
+    }
+  }
 
-    const updated = [newFavorite, ...favorites];
-    localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
-  } catch (error) {
-    console.error('Error adding to favorites:', error);
+  return {
+    version: FAVORITES_STORE_VERSION,
+    favorites: Array.from(favorites.values()).sort((a, b) => b.dateAdded.localeCompare(a.dateAdded)),
+    collections,
+  };
+}
+
+/**
+ * Merge an export file into a store: new verses are added, tags merge into existing
+ * favorites, and each collection merges into the one with the same ID or name
+ */
+export function mergeFavoritesImport(
+  store: FavoritesStore,
+  data: Favorite[] | FavoritesExport<Favorite>
+): FavoritesStore {
+  // Older files may hold name-based IDs; migrating gives them canonical ones
+  const parsed = parseFavoritesExport<Favorite>(data);
+  const imported = migrateFavorites({ context: parsed.favorites, collections: parsed.collections });
+  const importedById = new Map(imported.favorites.filter(fav => fav.text).map(fav => [fav.id, fav]));
+
+  const existingIds = new Set(store.favorites.map(fav => fav.id));
+  const newFavorites = Array.from(importedById.values()).filter(fav => !existingIds.has(fav.id));
+
+  const collections = [...store.collections];
+  for (const collection of imported.collections) {
+    const ids = collection.favoriteIds.filter(id => importedById.has(id));
+    const index = collections.findIndex(existing => existing.id === collection.id || existing.name === collection.name);
+    if (index >= 0) {
+      collections[index] = addToCollection(collections[index], ids);
+    } else {
+      collections.push({ ...collection, favoriteIds: ids });
+    }
+  }
+
+  return {
+    ...store,
+    favorites: [
+      ...newFavorites,
+      ...store.favorites.map(fav => {
+        const tags = importedById.get(fav.id)?.tags;
+        return tags ? { ...fav, tags: mergeTags(fav.tags, tags) } : fav;
+      }),
+    ],
+    collections,
+  };
+}
+
+// ===== STORAGE =====
+
+/** Keys the favorites store and older layouts are read from, in `LegacyFavoritesData` order */
+const STORED_FAVORITES_KEYS = [FAVORITES_KEY, LEGACY_CONTEXT_FAVORITES_KEY, LEGACY_CONTEXT_COLLECTIONS_KEY];
+
+/** The migration in progress, shared by every load that finds legacy data */
+let favoritesMigration: Promise<FavoritesStore> | null = null;
+
+async function readStoredFavorites(): Promise<LegacyFavoritesData> {
+  const [library, context, collections] = await Promise.all(STORED_FAVORITES_KEYS.map(key => userStorage.get(key)));
+  return { library, context, collections };
+}
+
+/**
+ * The store as read when it needs no migration, otherwise null
+ */
+function toCurrentStore({ library, context, collections }: LegacyFavoritesData): FavoritesStore | null {
+  const hasLegacyData = context !== undefined || collections !== undefined;
+  if (isVersionedStore(library) && library.version === FAVORITES_STORE_VERSION && !hasLegacyData) {
+    return library;
+  }
+  if (library === undefined && !hasLegacyData) {
+    return { version: FAVORITES_STORE_VERSION, favorites: [], collections: [] };
+  }
+  return null;
+}
+
+/**
+ * Back up the raw data, merge it into the store and remove the legacy keys. The data is
+ * read again here, as an earlier migration may have finished since the caller looked, and
+ * the store is merged inside its update so no write made meanwhile is lost.
+ */
+async function migrateStoredFavorites(): Promise<FavoritesStore> {
+  const data = await readStoredFavorites();
+  const current = toCurrentStore(data);
+  if (current) {
+    return current;
+  }
+
+  // Documents that were not valid JSON come back as their raw text, so the backup keeps them
+  const snapshot = {
+    [FAVORITES_KEY]: data.library,
+    [LEGACY_CONTEXT_FAVORITES_KEY]: data.context,
+    [LEGACY_CONTEXT_COLLECTIONS_KEY]: data.collections,
+  };
+  await userStorage.update<unknown[]>(FAVORITES_BACKUP_KEY, backups => [
+    ...asArray(backups),
+    { backedUpAt: new Date().toISOString(), ...snapshot },
+  ]);
+
+  const store = await userStorage.update<FavoritesStore>(FAVORITES_KEY, library =>
+    migrateFavorites({ ...data, library })
+  );
+  await Promise.all([LEGACY_CONTEXT_FAVORITES_KEY, LEGACY_CONTEXT_COLLECTIONS_KEY].map(key => userStorage.remove(key)));
+  logger.info('Migrated favorites', { version: FAVORITES_STORE_VERSION, favorites: store.favorites.length });
+  return store;
+}
+
+/**
+ * Load the favorites store, migrating older layouts into it first. The raw legacy data is
+ * backed up before migrating, and legacy keys are only removed once the store is saved.
+ * Loads that find legacy data while a migration runs wait for it rather than start another.
+ * @throws When the stored favorites cannot be read or migrated; an empty store is never
+ * returned in their place, so callers cannot save over them
+ */
+export async function loadFavoritesStore(): Promise<FavoritesStore> {
+  if (typeof window === 'undefined') {
+    return { version: FAVORITES_STORE_VERSION, favorites: [], collections: [] };
+  }
+
+  const current = toCurrentStore(await readStoredFavorites());
+  if (current) {
+    return current;
   }
+
+  favoritesMigration ??= migrateStoredFavorites().finally(() => {
+    favoritesMigration = null;
+  });
+  return favoritesMigration;
+}
+
+/**
+ * Apply a change to the stored favorites without other writes in between; every change to
+ * favorites and collections goes through here. Older layouts are migrated first, so the
+ * change always sees a versioned store.
+ * @returns The store as saved
+ * @throws StorageQuotaError when the browser is out of space
+ */
+export async function changeFavoritesStore(
+  change: (store: FavoritesStore) => FavoritesStore
+): Promise<FavoritesStore> {
+  const loaded = await loadFavoritesStore();
+  return userStorage.update<FavoritesStore>(FAVORITES_KEY, stored => ({
+    ...change(isVersionedStore(stored) ? stored : loaded),
+    version: FAVORITES_STORE_VERSION,
+  }));
+}
+
+/**
+ * Get all favorite verses
+ */
+export async function getFavoriteVerses(): Promise<Favorite[]> {
+  return (await loadFavoritesStore()).favorites;
 }
 
 /**
- * Remove a verse from favorites
+ * Add a verse to favorites
  */
-export function removeFromFavorites(verseId: string): void {
+export async function addToFavorites(verse: BibleVerse & { bookId?: string }, note?: string): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
-  try {
-    const favorites = getFavoriteVerses();
-    const updated = favorites.filter(fav => fav.id !== verseId);
-    localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
-  } catch (error) {
-    console.error('Error removing from favorites:', error);
+  const favorite = toCanonicalFavorite({ ...verse, note, dateAdded: new Date().toISOString() });
+  if (!favorite) {
+    return;
   }
+
+  await changeFavoritesStore(store =>
+    store.favorites.some(fav => fav.id === favorite.id)
+      ? store
+      : { ...store, favorites: [favorite, ...store.favorites] }
+  );
 }
 
 /**
- * Check if a verse is in favorites
+ * Remove a verse from favorites, also from every collection
  */
-export function isInFavorites(book: string, chapter: string, verse: string): boolean {
+export async function removeFromFavorites(verseId: string): Promise<void> {
+  if (typeof window === 'undefined') {return;}
+
+  await changeFavoritesStore(store => ({
+    ...store,
+    favorites: store.favorites.filter(fav => fav.id !== verseId),
+    collections: store.collections.map(collection => ({
+      ...collection,
+      favoriteIds: collection.favoriteIds.filter(id => id !== verseId),
+    })),
+  }));
+}
+
+/**
+ * Check if a verse is in favorites; `book` may be a book ID or name
+ */
+export async function isInFavorites(book: string, chapter: string, verse: string): Promise<boolean> {
   if (typeof window === 'undefined') {return false;}
 
-  const favorites = getFavoriteVerses();
-  const id = `${book}-${chapter}-${verse}`;
-  return favorites.some(fav => fav.id === id);
+  const id = toFavoriteId(book, chapter, verse);
+  return (await getFavoriteVerses()).some(fav => fav.id === id);
 }
 
 /**
  * Update favorite verse note
  */
-export function updateFavoriteNote(verseId: string, note: string): void {
+export async function updateFavoriteNote(verseId: string, note: string): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
-  try {
-    const favorites = getFavoriteVerses();
-    const updated = favorites.map(fav => 
-      fav.id === verseId ? { ...fav, note } : fav
-    );
-    localStorage.setItem(FAVORITES_KEY, JSON.stringify(updated));
-  } catch (error) {
-    console.error('Error updating favorite note:', error);
-  }
+  await changeFavoritesStore(store => ({
+    ...store,
+    favorites: store.favorites.map(fav => (fav.id === verseId ? { ...fav, note } : fav)),
+  }));
 }
 
 /**
- * Get all reading bookmarks from localStorage
+ * Get all reading bookmarks
  */
-export function getReadingBookmarks(): ReadingBookmark[] {
+export async function getReadingBookmarks(): Promise<ReadingBookmark[]> {
   if (typeof window === 'undefined') {return [];}
   
   try {
-    const stored = localStorage.getItem(BOOKMARKS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return asArray(await userStorage.get(BOOKMARKS_KEY)) as ReadingBookmark[];
   } catch (error) {
     console.error('Error loading bookmarks:', error);
     return [];
@@ -130,40 +432,40 @@ export function getReadingBookmarks(): ReadingBookmark[] {
 /**
  * Add a reading bookmark
  */
-export function addReadingBookmark(
+export async function addReadingBookmark(
   bookId: string,
   bookName: string,
   chapter: string,
   verse?: string,
   title?: string
-): void {
+): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
   try {
-    const bookmarks = getReadingBookmarks();
     const id = `${bookId}-${chapter}${verse ? '-' + verse : ''}`;
-    
-    // Check if already exists
-    if (bookmarks.some(bookmark => bookmark.id === id)) {
-      return;
-    }
-
     const defaultTitle = verse 
       ? `${bookName} ${chapter}:${verse}`
       : `${bookName} ${chapter}`;
 
-    const newBookmark: ReadingBookmark = {
-      id,
-      bookId,
-      bookName,
-      chapter,
-      verse,
-      title: title || defaultTitle,
-      dateCreated: new Date().toISOString(),
-    };
-
-    const updated = [newBookmark, ...bookmarks];
-    localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(updated));
+    await userStorage.update<ReadingBookmark[]>(BOOKMARKS_KEY, stored => {
+      const bookmarks = asArray(stored) as ReadingBookmark[];
+
+      // Check if already exists
+      if (bookmarks.some(bookmark => bookmark.id === id)) {
+        return bookmarks;
+      }
+
+      const newBookmark: ReadingBookmark = {
+        id,
+        bookId,
+        bookName,
+        chapter,
+        verse,
+        title: title || defaultTitle,
+        dateCreated: new Date().toISOString(),
+      };
+      return [newBookmark, ...bookmarks];
+    });
   } catch (error) {
     console.error('Error adding bookmark:', error);
   }
@@ -172,13 +474,13 @@ export function addReadingBookmark(
 /**
  * Remove a reading bookmark
  */
-export function removeReadingBookmark(bookmarkId: string): void {
+export async function removeReadingBookmark(bookmarkId: string): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
   try {
-    const bookmarks = getReadingBookmarks();
-    const updated = bookmarks.filter(bookmark => bookmark.id !== bookmarkId);
-    localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(updated));
+    await userStorage.update<ReadingBookmark[]>(BOOKMARKS_KEY, stored =>
+      (asArray(stored) as ReadingBookmark[]).filter(bookmark => bookmark.id !== bookmarkId)
+    );
   } catch (error) {
     console.error('Error removing bookmark:', error);
   }
@@ -187,17 +489,17 @@ export function removeReadingBookmark(bookmarkId: string): void {
 /**
  * Update bookmark last read time
  */
-export function updateBookmarkLastRead(bookmarkId: string): void {
+export async function updateBookmarkLastRead(bookmarkId: string): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
   try {
-    const bookmarks = getReadingBookmarks();
-    const updated = bookmarks.map(bookmark => 
-      bookmark.id === bookmarkId 
-        ? { ...bookmark, lastRead: new Date().toISOString() }
-        : bookmark
+    await userStorage.update<ReadingBookmark[]>(BOOKMARKS_KEY, stored =>
+      (asArray(stored) as ReadingBookmark[]).map(bookmark => 
+        bookmark.id === bookmarkId 
+          ? { ...bookmark, lastRead: new Date().toISOString() }
+          : bookmark
+      )
     );
-    localStorage.setItem(BOOKMARKS_KEY, JSON.stringify(updated));
   } catch (error) {
     console.error('Error updating bookmark:', error);
   }
@@ -206,10 +508,10 @@ export function updateBookmarkLastRead(bookmarkId: string): void {
 /**
  * Check if a location is bookmarked
  */
-export function isBookmarked(bookId: string, chapter: string, verse?: string): boolean {
+export async function isBookmarked(bookId: string, chapter: string, verse?: string): Promise<boolean> {
   if (typeof window === 'undefined') {return false;}
 
-  const bookmarks = getReadingBookmarks();
+  const bookmarks = await getReadingBookmarks();
   const id = `${bookId}-${chapter}${verse ? '-' + verse : ''}`;
   return bookmarks.some(bookmark => bookmark.id === id);
 }
@@ -217,12 +519,11 @@ export function isBookmarked(bookId: string, chapter: string, verse?: string): b
 /**
  * Get reading progress for the current session
  */
-export function getReadingProgress(): Record<string, unknown> {
+export async function getReadingProgress(): Promise<Record<string, unknown>> {
   if (typeof window === 'undefined') {return {};}
   
   try {
-    const stored = localStorage.getItem('ny-baiboly-progress');
-    return stored ? JSON.parse(stored) : {};
+    return (await userStorage.get<Record<string, unknown>>(PROGRESS_KEY)) ?? {};
   } catch (error) {
     console.error('Error loading reading progress:', error);
     return {};
@@ -232,28 +533,27 @@ export function getReadingProgress(): Record<string, unknown> {
 /**
  * Update reading progress
  */
-export function updateReadingProgress(bookId: string, chapter: string, verse?: string): void {
+export async function updateReadingProgress(bookId: string, chapter: string, verse?: string): Promise<void> {
   if (typeof window === 'undefined') {return;}
 
   try {
-    const progress = getReadingProgress();
     const timestamp = new Date().toISOString();
-    
-    progress[bookId] = {
-      lastChapter: chapter,
-      lastVerse: verse,
-      lastRead: timestamp,
-    };
-
-    // Keep global last read position
-    progress.lastPosition = {
-      bookId,
-      chapter,
-      verse,
-      timestamp,
-    };
-
-    localStorage.setItem('ny-baiboly-progress', JSON.stringify(progress));
+
+    await userStorage.update<Record<string, unknown>>(PROGRESS_KEY, stored => ({
+      ...stored,
+      [bookId]: {
+        lastChapter: chapter,
+        lastVerse: verse,
+        lastRead: timestamp,
+      },
+      // Keep global last read position
+      lastPosition: {
+        bookId,
+        chapter,
+        verse,
+        timestamp,
+      },
+    }));
   } catch (error) {
     console.error('Error updating reading progress:', error);
   }
@@ -262,11 +562,11 @@ export function updateReadingProgress(bookId: string, chapter: string, verse?: s
 /**
  * Get last reading position
  */
-export function getLastReadingPosition(): { bookId: string; chapter: string; verse?: string } | null {
+export async function getLastReadingPosition(): Promise<{ bookId: string; chapter: string; verse?: string } | null> {
   if (typeof window === 'undefined') {return null;}
 
   try {
-    const progress = getReadingProgress();
+    const progress = await getReadingProgress();
     const lastPosition = progress.lastPosition as { bookId: string; chapter: string; verse?: string } | undefined;
     return lastPosition || null;
   } catch (error) {
@@ -0,0 +1,224 @@
+/**
+ * Verse highlights
+ * Colored markings on verses, kept in user storage next to favorites. A highlight is one
+ * selection of verses within a chapter, keyed by the USFM verse IDs the cross-reference
+ * dataset uses ("JHN 3:16"); each verse carries at most one color.
+ */
+
+import { VerseData } from '@/types/bible';
+import { USFM_BOOK_CODES } from '@/constants/bible';
+import { userStorage } from '@/lib/user-storage';
+
+// ===== TYPES =====
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+/**
+ * A highlighted verse as it appeared when marked
+ */
+export interface HighlightedVerse extends VerseData {
+  /** USFM verse ID, e.g. "JHN 3:16"; merged verses such as "4-5" use their first verse */
+  id: string;
+}
+
+export interface VerseHighlight {
+  id: string;
+  bookId: string;
+  bookName: string;
+  chapter: string;
+  verses: HighlightedVerse[];
+  color: HighlightColor;
+  label?: string;
+  dateAdded: string;
+}
+
+export interface HighlightInput {
+  bookId: string;
+  bookName: string;
+  chapter: string;
+  verses: VerseData[];
+  color: HighlightColor;
+  label?: string;
+}
+
+export interface HighlightFilter {
+  color?: HighlightColor;
+  /** Matched against the label, reference and verse text, ignoring case */
+  query?: string;
+}
+
+const HIGHLIGHTS_KEY = 'ny-baiboly-highlights';
+
+// ===== HELPERS =====
+
+function toVerseId(bookId: string, chapter: string, verseNumber: string): string {
+  const code = USFM_BOOK_CODES.get(bookId) ?? bookId.toUpperCase();
+  return `${code} ${parseInt(chapter, 10)}:${parseInt(verseNumber, 10)}`;
+}
+
+function isHighlightColor(value: unknown): value is HighlightColor {
+  return HIGHLIGHT_COLORS.includes(value as HighlightColor);
+}
+
+/**
+ * Drop the given verses of a chapter from every highlight; emptied highlights are removed
+ */
+function withoutVerses(highlights: VerseHighlight[], bookId: string, chapter: string, verseNumbers: string[]) {
+  const removed = new Set(verseNumbers);
+
+  return highlights
+    .map(highlight =>
+      highlight.bookId === bookId && highlight.chapter === chapter
+        ? { ...highlight, verses: highlight.verses.filter(verse => !removed.has(verse.number)) }
+        : highlight
+    )
+    .filter(highlight => highlight.verses.length > 0);
+}
+
+/**
+ * Reference of a highlight, e.g. "Jaona 3:16", "Jaona 3:16-18" or "Jaona 3:16, 18"
+ */
+export function formatHighlightReference(highlight: VerseHighlight): string {
+  const numbers = highlight.verses.map(verse => verse.number);
+  const isRun = numbers.every(
+    (number, index) => index === 0 || parseInt(number, 10) === parseInt(numbers[index - 1], 10) + 1
+  );
+  const verses = numbers.length > 1 && isRun ? `${numbers[0]}-${numbers[numbers.length - 1]}` : numbers.join(', ');
+
+  return `${highlight.bookName} ${highlight.chapter}:${verses}`;
+}
+
+// ===== SELECTION =====
+
+/**
+ * Add a highlight over a selection; the selected verses lose any color they had before
+ */
+export function applyHighlight(highlights: VerseHighlight[], input: HighlightInput): VerseHighlight[] {
+  const verses = [...input.verses]
+    .sort((a, b) => parseInt(a.number, 10) - parseInt(b.number, 10))
+    .map(verse => ({ ...verse, id: toVerseId(input.bookId, input.chapter, verse.number) }));
+  if (verses.length === 0) {
+    return highlights;
+  }
+
+  const label = input.label?.trim();
+  const highlight: VerseHighlight = {
+    id: `${verses[0].id}-${Date.now()}`,
+    bookId: input.bookId,
+    bookName: input.bookName,
+    chapter: input.chapter,
+    verses,
+    color: input.color,
+    ...(label && { label }),
+    dateAdded: new Date().toISOString(),
+  };
+
+  const remaining = withoutVerses(highlights, input.bookId, input.chapter, verses.map(verse => verse.number));
+  return [highlight, ...remaining];
+}
+
+/**
+ * The highlight of each verse in a chapter, by verse number
+ */
+export function getChapterHighlights(
+  highlights: VerseHighlight[],
+  bookId: string,
+  chapter: string
+): Record<string, VerseHighlight> {
+  const byVerse: Record<string, VerseHighlight> = {};
+
+  for (const highlight of highlights) {
+    if (highlight.bookId !== bookId || highlight.chapter !== chapter) {
+      continue;
+    }
+    for (const verse of highlight.verses) {
+      byVerse[verse.number] = highlight;
+    }
+  }
+
+  return byVerse;
+}
+
+/**
+ * Highlights matching a color and/or search text, newest first
+ */
+export function filterHighlights(highlights: VerseHighlight[], filter: HighlightFilter = {}): VerseHighlight[] {
+  const query = filter.query?.trim().toLowerCase();
+
+  return highlights
+    .filter(highlight => !filter.color || highlight.color === filter.color)
+    .filter(highlight => {
+      if (!query) {
+        return true;
+      }
+      const haystack = [
+        highlight.label ?? '',
+        formatHighlightReference(highlight),
+        ...highlight.verses.map(verse => verse.text),
+      ].join('\n').toLowerCase();
+      return haystack.includes(query);
+    })
+    .sort((a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime());
+}
+
+// ===== STORAGE =====
+
+function readHighlights(stored: unknown): VerseHighlight[] {
+  return Array.isArray(stored)
+    ? stored.filter((item: VerseHighlight) => isHighlightColor(item?.color) && Array.isArray(item.verses))
+    : [];
+}
+
+/**
+ * Get all highlights from user storage; entries with an unknown color are dropped
+ */
+export async function getHighlights(): Promise<VerseHighlight[]> {
+  if (typeof window === 'undefined') {return [];}
+
+  try {
+    return readHighlights(await userStorage.get(HIGHLIGHTS_KEY));
+  } catch (error) {
+    console.error('Error loading highlights:', error);
+    return [];
+  }
+}
+
+/**
+ * Apply a change to the stored highlights and return the result
+ * @throws StorageQuotaError when the browser is out of space
+ */
+async function changeHighlights(change: (highlights: VerseHighlight[]) => VerseHighlight[]): Promise<VerseHighlight[]> {
+  if (typeof window === 'undefined') {return [];}
+
+  return userStorage.update<VerseHighlight[]>(HIGHLIGHTS_KEY, stored => change(readHighlights(stored)));
+}
+
+/**
+ * Color a selection of verses and return the updated highlights
+ */
+export function addHighlight(input: HighlightInput): Promise<VerseHighlight[]> {
+  return changeHighlights(highlights => applyHighlight(highlights, input));
+}
+
+/**
+ * Clear the color of some verses in a chapter and return the updated highlights
+ */
+export function removeVerseHighlights(bookId: string, chapter: string, verseNumbers: string[]): Promise<VerseHighlight[]> {
+  return changeHighlights(highlights => withoutVerses(highlights, bookId, chapter, verseNumbers));
+}
+
+/**
+ * Remove a whole highlight and return the updated highlights
+ */
+export function removeHighlight(highlightId: string): Promise<VerseHighlight[]> {
+  return changeHighlights(highlights => highlights.filter(highlight => highlight.id !== highlightId));
+}
+
+/**
+ * Clear all highlights
+ */
+export async function clearHighlights(): Promise<void> {
+  await changeHighlights(() => []);
+}
@@ -0,0 +1,134 @@
+/**
+ * Malagasy text normalization and light stemming for search
+ * Folds diacritics and apostrophe variants, and strips common affixes so that
+ * derived forms (mitia, fitiavana) meet their root (tia)
+ */
+
+// ===== NORMALIZATION =====
+
+/** Typographic apostrophes found in the corpus and in user input */
+const APOSTROPHE_VARIANTS = /[‘’ʼ`´]/g;
+
+/**
+ * Fold diacritics (à, ô, ñ…) and apostrophe variants to plain ASCII forms
+ * @param text - Text to fold
+ * @param preserveCase - Keep letter case (for case-sensitive searches)
+ * @returns Folded text; length may differ from the input
+ */
+export function foldText(text: string, preserveCase: boolean = false): string {
+  const folded = text
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .replace(APOSTROPHE_VARIANTS, '\'');
+
+  return preserveCase ? folded : folded.toLowerCase();
+}
+
+// ===== STEMMING =====
+
+/** Minimum root length kept by the stemmer; shorter remainders are too ambiguous */
+const MIN_ROOT_LENGTH = 3;
+
+/**
+ * Verbal and nominal prefixes, longest first.
+ * Prefixes ending in a nasal replace the root's first consonant (nasalization),
+ * so their roots are reconstructed with the candidates below.
+ */
+const PREFIXES = [
+  'mampan', 'mampam', 'mampi', 'mampa',
+  'mpan', 'mpam', 'maha', 'mpi', 'mpa',
+  'man', 'mam', 'fan', 'fam',
+  'mi', 'ma', 'fi', 'fa',
+];
+
+/** Consonants absorbed by a preceding `n` (man + soratra → manoratra) */
+const N_ABSORBED = ['s', 't', 'ts'];
+
+/** Consonants absorbed by a preceding `m` (mam + vonjy → mamonjy) */
+const M_ABSORBED = ['v', 'f', 'p', 'b'];
+
+/** Passive and nominal suffixes, longest first */
+const SUFFIXES = ['ana', 'ina', 'ena', 'na'];
+
+/** Linking consonants inserted before a suffix (tia + v + ana → tiavana) */
+const LINKING_CONSONANTS = new Set(['v', 'z', 's', 'n', 'r', 'h', 'k', 'f']);
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+/**
+ * Word-final `y` is the orthographic form of `i`; compare roots with `i`
+ */
+function canonicalizeRoot(root: string): string {
+  return root.endsWith('y') ? `${root.slice(0, -1)}i` : root;
+}
+
+/**
+ * Undo nasalization after stripping a nasal-final prefix
+ */
+function restoreNasalizedRoot(prefix: string, remainder: string): string[] {
+  const roots = [remainder];
+  if (!VOWELS.has(remainder[0])) {
+    return roots;
+  }
+
+  if (prefix.endsWith('n')) {
+    roots.push(...N_ABSORBED.map(consonant => consonant + remainder));
+  } else if (prefix.endsWith('m')) {
+    roots.push(...M_ABSORBED.map(consonant => consonant + remainder));
+  }
+  return roots;
+}
+
+/**
+ * Strip a suffix and any linking consonant in front of it
+ */
+function stripSuffixes(word: string): string[] {
+  const roots: string[] = [];
+
+  for (const suffix of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < MIN_ROOT_LENGTH) {
+      continue;
+    }
+
+    const root = word.slice(0, -suffix.length);
+    roots.push(root);
+
+    const last = root[root.length - 1];
+    const beforeLast = root[root.length - 2];
+    if (LINKING_CONSONANTS.has(last) && VOWELS.has(beforeLast) && root.length - 1 >= MIN_ROOT_LENGTH) {
+      roots.push(root.slice(0, -1));
+    }
+    if (!VOWELS.has(last)) {
+      // Roots written with a final -y lose it before a suffix (vonjy → vonjena)
+      roots.push(`${root}i`);
+    }
+    break;
+  }
+
+  return roots;
+}
+
+/**
+ * Get candidate roots for a folded, lowercase token.
+ * Always includes the token itself; two words match when their stem sets intersect.
+ */
+export function stemMalagasy(token: string): string[] {
+  const stems = new Set<string>([canonicalizeRoot(token)]);
+  const bases = [token];
+
+  for (const prefix of PREFIXES) {
+    if (token.startsWith(prefix) && token.length - prefix.length >= MIN_ROOT_LENGTH) {
+      bases.push(...restoreNasalizedRoot(prefix, token.slice(prefix.length)));
+      break;
+    }
+  }
+
+  for (const base of bases) {
+    stems.add(canonicalizeRoot(base));
+    for (const root of stripSuffixes(base)) {
+      stems.add(canonicalizeRoot(root));
+    }
+  }
+
+  return Array.from(stems).filter(stem => stem.length >= MIN_ROOT_LENGTH || stem === canonicalizeRoot(token));
+}
@@ -0,0 +1,154 @@
+/**
+ * Study note Markdown
+ * The Markdown subset notes are written in, parsed into blocks the UI renders as React
+ * elements (never as raw HTML):
+ *
+ *   # Heading, ## Heading, ### Heading
+ *   - item / * item / 1. item      lists
+ *   > quoted text                  block quotes
+ *   **bold**, *italic*, _italic_, `code`, [text](https://...)
+ *   [[Jaona 3:16]]                 link to a passage, resolved by the reference parser
+ */
+
+import { BiblePassage } from '@/types/bible';
+import { parsePassageReference } from '@/lib/passage-reference';
+
+// ===== TYPES =====
+
+export type NoteInline =
+  | { type: 'text' | 'strong' | 'em' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'reference'; text: string; passages: BiblePassage[] };
+
+export type NoteBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; content: NoteInline[] }
+  | { type: 'paragraph' | 'quote'; content: NoteInline[] }
+  | { type: 'list'; ordered: boolean; items: NoteInline[][] };
+
+// ===== INLINE =====
+
+/** One alternative per inline form; the first group that matched decides the token */
+const INLINE = /\[\[([^\]]+)\]\]|\*\*([^*]+)\*\*|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|\*([^*]+)\*|_([^_]+)_/g;
+
+const REFERENCE_LINK = /\[\[([^\]]+)\]\]/g;
+
+/**
+ * Passages a `[[...]]` link names, or null when the reference parser rejects it
+ */
+function resolveReference(reference: string): BiblePassage[] | null {
+  try {
+    return parsePassageReference(reference);
+  } catch {
+    return null;
+  }
+}
+
+export function parseNoteInline(text: string): NoteInline[] {
+  const tokens: NoteInline[] = [];
+  let cursor = 0;
+
+  const pushText = (value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else if (value) {
+      tokens.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(INLINE)) {
+    const [source, reference, strong, code, linkText, href, star, underscore] = match;
+    pushText(text.slice(cursor, match.index));
+    cursor = match.index + source.length;
+
+    if (reference !== undefined) {
+      const passages = resolveReference(reference);
+      if (passages) {
+        tokens.push({ type: 'reference', text: reference.trim(), passages });
+      } else {
+        pushText(source);
+      }
+    } else if (strong !== undefined) {
+      tokens.push({ type: 'strong', text: strong });
+    } else if (code !== undefined) {
+      tokens.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      tokens.push({ type: 'link', text: linkText, href });
+    } else {
+      tokens.push({ type: 'em', text: star ?? underscore });
+    }
+  }
+  pushText(text.slice(cursor));
+
+  return tokens;
+}
+
+// ===== BLOCKS =====
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const UNORDERED_ITEM = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+
+/**
+ * Parse a note into blocks; consecutive lines of a paragraph or quote are joined
+ */
+export function parseNoteMarkdown(markdown: string): NoteBlock[] {
+  const blocks: NoteBlock[] = [];
+  let lines: string[] = [];
+  let lineType: 'paragraph' | 'quote' = 'paragraph';
+  let list = null as { ordered: boolean; items: string[] } | null;
+
+  const flush = () => {
+    if (lines.length > 0) {
+      blocks.push({ type: lineType, content: parseNoteInline(lines.join(' ')) });
+      lines = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseNoteInline) });
+      list = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const heading = HEADING.exec(line);
+    const quote = QUOTE.exec(line);
+    const item = UNORDERED_ITEM.exec(line) ?? ORDERED_ITEM.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        content: parseNoteInline(heading[2]),
+      });
+    } else if (item) {
+      const ordered = ORDERED_ITEM.test(line);
+      if (lines.length > 0 || list?.ordered !== ordered) {
+        flush();
+      }
+      list ??= { ordered, items: [] };
+      list.items.push(item[1]);
+    } else {
+      const type = quote ? 'quote' : 'paragraph';
+      if (list || (lines.length > 0 && lineType !== type)) {
+        flush();
+      }
+      lineType = type;
+      lines.push(quote ? quote[1] : line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Passages a note links to with `[[...]]`, in order of appearance
+ */
+export function getNoteReferences(markdown: string): BiblePassage[] {
+  return Array.from(markdown.matchAll(REFERENCE_LINK)).flatMap(match => resolveReference(match[1]) ?? []);
+}
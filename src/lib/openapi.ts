@@ -0,0 +1,537 @@
+/**
+ * OpenAPI 3.1 document generated from the shared API schemas
+ * Served at /api/openapi.json and rendered by the API documentation page
+ */
+
+import { z } from 'zod';
+import { APP_CONFIG } from '@/constants/bible';
+import {
+  ApiErrorResponseSchema, BibleApiReferenceResponseSchema, BibleApiTranslationSchema, BiblePassageSchema,
+  BibleStatsSchema, BookChapterPathSchema, BookDetailsSchema, BookInfoSchema, BookMetaSchema, BookPathSchema,
+  BooksQuerySchema, ChapterContentSchema, ChapterDetailsSchema, ChapterQuerySchema, ConcordanceEntrySchema,
+  ConcordanceIndexQuerySchema, ConcordanceIndexSchema, ConcordanceQuerySchema, ConcordanceWordPathSchema,
+  CrossReferenceResultSchema, CrossReferencesQuerySchema, CorpusStatsSchema, MatchSpanSchema, PassageQuerySchema,
+  PassageResultSchema, PlainErrorResponseSchema, RandomBodySchema, RandomQuerySchema, RandomVerseResponseSchema,
+  ReferencePathSchema, ReferenceQuerySchema, SearchBodySchema, SearchFacetsSchema, SearchHitSchema,
+  SearchOptionsSchema, SearchQuerySchema, SearchReferenceResponseSchema, SearchReferenceSchema, SearchResultSchema,
+  StatsQuerySchema, TranslationQuerySchema, TranslationSchema, VerseDataSchema, VerseSchema, VersesQuerySchema,
+  apiResponseSchema,
+} from '@/lib/api-schemas';
+
+// ===== TYPES =====
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type HttpMethod = 'get' | 'post';
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string; description: string }>;
+  tags: Array<{ name: string; description: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+interface OperationDefinition {
+  method: HttpMethod;
+  path: string;
+  /** Further paths serving the same handler */
+  aliases?: string[];
+  operationId: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  pathParams?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+  /** Non-JSON success content types, e.g. text/plain */
+  alternateContent?: string[];
+  errors: number[];
+  errorSchema: z.ZodTypeAny;
+}
+
+// ===== SCHEMA CONVERSION =====
+
+/** Named schemas emitted once under components and referenced everywhere else */
+const COMPONENT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  Translation: TranslationSchema,
+  BookMeta: BookMetaSchema,
+  BookInfo: BookInfoSchema,
+  BookDetails: BookDetailsSchema,
+  ChapterDetails: ChapterDetailsSchema,
+  VerseData: VerseDataSchema,
+  Verse: VerseSchema,
+  MatchSpan: MatchSpanSchema,
+  SearchHit: SearchHitSchema,
+  SearchFacets: SearchFacetsSchema,
+  SearchOptions: SearchOptionsSchema,
+  SearchResult: SearchResultSchema,
+  BiblePassage: BiblePassageSchema,
+  PassageResult: PassageResultSchema,
+  ChapterContent: ChapterContentSchema,
+  BibleStats: BibleStatsSchema,
+  CorpusStats: CorpusStatsSchema,
+  ConcordanceEntry: ConcordanceEntrySchema,
+  ConcordanceIndex: ConcordanceIndexSchema,
+  CrossReferenceResult: CrossReferenceResultSchema,
+  BibleApiTranslation: BibleApiTranslationSchema,
+  BibleApiReferenceResponse: BibleApiReferenceResponseSchema,
+  ApiError: ApiErrorResponseSchema,
+};
+
+const COMPONENT_NAMES = new Map(Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [schema, name]));
+
+/**
+ * Convert a Zod schema to JSON Schema (draft 2020-12, as used by OpenAPI 3.1).
+ * Transforms and refinements are described by their input schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny, useRefs: boolean = true): JsonSchema {
+  const componentName = useRefs ? COMPONENT_NAMES.get(schema) : undefined;
+  if (componentName) {
+    return { $ref: `#/components/schemas/${componentName}` };
+  }
+
+  const json = convertSchema(schema);
+  return schema.description && !json.description ? { ...json, description: schema.description } : json;
+}
+
+function convertSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        json.minLength = check.value;
+      }
+      if (check.kind === 'max') {
+        json.maxLength = check.value;
+      }
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      }
+      if (check.kind === 'max') {
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return { type: 'string', enum: Object.values(schema.enum).filter(value => typeof value === 'string') };
+  }
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) {
+      json.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      json.maxItems = schema._def.maxLength.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length > 0 && { required }),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    if (inner.type === 'null') {
+      return inner;
+    }
+    return typeof inner.type === 'string' && !inner.enum
+      ? { ...inner, type: [inner.type, 'null'] }
+      : { anyOf: [inner, { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  return {};
+}
+
+/**
+ * One OpenAPI parameter per key of an object schema
+ */
+function toParameters(schema: z.AnyZodObject, location: 'query' | 'path'): OpenApiParameter[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, value]) => {
+    const { description, ...json } = zodToJsonSchema(value);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !value.isOptional(),
+      ...(typeof description === 'string' && { description }),
+      schema: json,
+    };
+  });
+}
+
+// ===== OPERATIONS =====
+
+const V1_ERRORS = [400, 404, 429, 500];
+
+const OPERATIONS: OperationDefinition[] = [
+  {
+    method: 'get',
+    path: '/api/v1/translations',
+    aliases: ['/api/translations'],
+    operationId: 'listTranslations',
+    summary: 'List translations',
+    description: 'Reading, search and reference routes take one of these IDs as `translation`; '
+      + 'without it they serve the Malagasy text.',
+    tag: 'v1',
+    response: apiResponseSchema(z.array(TranslationSchema)),
+    errors: [429, 500],
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/books',
+    aliases: ['/api/books'],
+    operationId: 'listBooks',
+    summary: 'List books',
+    description: 'Malagasy and English names, USFM code, canonical order and chapter and verse counts read from the data.',
+    tag: 'v1',
+    query: BooksQuerySchema,
+    response: apiResponseSchema(z.array(BookInfoSchema)),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/books/{bookId}',
+    aliases: ['/api/books/{bookId}'],
+    operationId: 'getBook',
+    summary: 'Get one book with verse counts per chapter',
+    tag: 'v1',
+    pathParams: BookPathSchema,
+    query: TranslationQuerySchema,
+    response: apiResponseSchema(BookDetailsSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/books/{bookId}/chapters/{chapter}',
+    aliases: ['/api/books/{bookId}/chapters/{chapter}'],
+    operationId: 'getChapterDetails',
+    summary: 'Get a chapter\'s verse count and neighbours',
+    tag: 'v1',
+    pathParams: BookChapterPathSchema,
+    query: TranslationQuerySchema,
+    response: apiResponseSchema(ChapterDetailsSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/chapters',
+    operationId: 'getChapter',
+    summary: 'Get one chapter',
+    tag: 'v1',
+    query: ChapterQuerySchema,
+    response: apiResponseSchema(ChapterContentSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/verses',
+    operationId: 'getVerses',
+    summary: 'Get verses by reference',
+    description: 'Accepts whole chapters, ranges, cross-chapter ranges and `;`-separated lists, up to 50 chapters.',
+    tag: 'v1',
+    query: VersesQuerySchema,
+    response: apiResponseSchema(PassageResultSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/search',
+    aliases: ['/api/search'],
+    operationId: 'searchVerses',
+    summary: 'Search verses',
+    description: 'Ranked full-text search with facets and cursor pagination.',
+    tag: 'v1',
+    query: SearchQuerySchema,
+    response: apiResponseSchema(SearchResultSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/search',
+    aliases: ['/api/search'],
+    operationId: 'searchVersesWithBody',
+    summary: 'Search verses (JSON body)',
+    tag: 'v1',
+    body: SearchBodySchema,
+    response: apiResponseSchema(SearchResultSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/random',
+    aliases: ['/api/random'],
+    operationId: 'getRandomVerses',
+    summary: 'Get random verses',
+    tag: 'v1',
+    query: RandomQuerySchema,
+    response: apiResponseSchema(z.array(VerseSchema)),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/v1/random',
+    aliases: ['/api/random'],
+    operationId: 'getRandomVersesWithBody',
+    summary: 'Get random verses (JSON body)',
+    tag: 'v1',
+    body: RandomBodySchema,
+    response: apiResponseSchema(z.array(VerseSchema)),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/stats',
+    aliases: ['/api/stats'],
+    operationId: 'getStats',
+    summary: 'Get corpus statistics',
+    description: 'Per-book and per-testament chapter, verse and word counts, longest and shortest chapters '
+      + 'and verses, and the most frequent words as split by the search tokenizer.',
+    tag: 'v1',
+    query: StatsQuerySchema,
+    response: apiResponseSchema(CorpusStatsSchema),
+    errors: [400, 429, 500],
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/concordance',
+    aliases: ['/api/concordance'],
+    operationId: 'getConcordanceIndex',
+    summary: 'Browse the concordance by letter',
+    tag: 'v1',
+    query: ConcordanceIndexQuerySchema,
+    response: apiResponseSchema(ConcordanceIndexSchema),
+    errors: [400, 429, 500],
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/concordance/{word}',
+    aliases: ['/api/concordance/{word}'],
+    operationId: 'getConcordanceEntry',
+    summary: 'Look up a word in the concordance',
+    description: 'Every form sharing the word\'s lemma, with occurrence counts and the first references of each. '
+      + 'Words are folded like search queries (case and diacritics are ignored).',
+    tag: 'v1',
+    pathParams: ConcordanceWordPathSchema,
+    query: ConcordanceQuerySchema,
+    response: apiResponseSchema(ConcordanceEntrySchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/v1/crossrefs',
+    aliases: ['/api/crossrefs'],
+    operationId: 'getCrossReferences',
+    summary: 'Get a verse\'s cross-references',
+    description: 'Linked verses from the Treasury of Scripture Knowledge dataset, keyed by USFM verse ID, '
+      + 'with their Malagasy text. Targets the Malagasy versification lacks are left out.',
+    tag: 'v1',
+    query: CrossReferencesQuerySchema,
+    response: apiResponseSchema(CrossReferenceResultSchema),
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/passage',
+    operationId: 'getPassage',
+    summary: 'Get a passage as JSON or plain text',
+    tag: 'Passages',
+    query: PassageQuerySchema,
+    response: apiResponseSchema(PassageResultSchema),
+    alternateContent: ['text/plain'],
+    errors: V1_ERRORS,
+    errorSchema: ApiErrorResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/api/search-reference',
+    operationId: 'searchReference',
+    summary: 'Get verses of one chapter',
+    tag: 'Passages',
+    body: SearchReferenceSchema,
+    response: SearchReferenceResponseSchema,
+    errors: V1_ERRORS,
+    errorSchema: PlainErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/{reference}',
+    operationId: 'getBibleApiReference',
+    summary: 'Get a passage (bible-api.com format)',
+    description: 'Drop-in replacement for bible-api.com reference lookups.',
+    tag: 'bible-api.com',
+    pathParams: ReferencePathSchema,
+    query: ReferenceQuerySchema,
+    response: BibleApiReferenceResponseSchema,
+    errors: V1_ERRORS,
+    errorSchema: PlainErrorResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/api/random-verse',
+    operationId: 'getBibleApiRandomVerse',
+    summary: 'Get a random verse (bible-api.com format)',
+    tag: 'bible-api.com',
+    query: TranslationQuerySchema,
+    response: RandomVerseResponseSchema,
+    errors: [400, 429, 500],
+    errorSchema: PlainErrorResponseSchema,
+  },
+];
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'Success',
+  400: 'Invalid request (code VALIDATION_ERROR)',
+  404: 'Book, chapter or verse not found (code DATA_NOT_FOUND)',
+  429: 'Rate limit exceeded (code RATE_LIMITED); see Retry-After',
+  500: 'Unexpected error',
+};
+
+function toOperation(definition: OperationDefinition, operationId: string, tag: string): OpenApiOperation {
+  const parameters = [
+    ...(definition.pathParams ? toParameters(definition.pathParams, 'path') : []),
+    ...(definition.query ? toParameters(definition.query, 'query') : []),
+  ];
+  const successSchema = zodToJsonSchema(definition.response);
+  const errorSchema = zodToJsonSchema(definition.errorSchema);
+
+  return {
+    operationId,
+    summary: definition.summary,
+    ...(definition.description && { description: definition.description }),
+    tags: [tag],
+    ...(parameters.length > 0 && { parameters }),
+    ...(definition.body && {
+      requestBody: { required: true, content: { 'application/json': { schema: zodToJsonSchema(definition.body) } } },
+    }),
+    responses: {
+      200: {
+        description: STATUS_DESCRIPTIONS[200],
+        content: {
+          'application/json': { schema: successSchema },
+          ...Object.fromEntries((definition.alternateContent ?? []).map(type => [type, { schema: { type: 'string' } }])),
+        },
+      },
+      ...Object.fromEntries(definition.errors.map(status => [status, {
+        description: STATUS_DESCRIPTIONS[status],
+        content: { 'application/json': { schema: errorSchema } },
+      }])),
+    },
+  };
+}
+
+// ===== DOCUMENT =====
+
+let cachedDocument: OpenApiDocument | null = null;
+
+/**
+ * Build (once) the OpenAPI document for every API route
+ */
+export function buildOpenApiSpec(): OpenApiDocument {
+  if (cachedDocument) {
+    return cachedDocument;
+  }
+
+  const paths: OpenApiDocument['paths'] = {};
+  for (const definition of OPERATIONS) {
+    const entries: Array<[string, string, string]> = [
+      [definition.path, definition.operationId, definition.tag],
+      ...(definition.aliases ?? []).map((alias): [string, string, string] => [alias, `${definition.operationId}Legacy`, 'Legacy']),
+    ];
+    for (const [path, operationId, tag] of entries) {
+      paths[path] = { ...paths[path], [definition.method]: toOperation(definition, operationId, tag) };
+    }
+  }
+
+  cachedDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: `${APP_CONFIG.name} API`,
+      version: APP_CONFIG.version,
+      description: 'Malagasy Bible text, search and references. Every route sends X-RateLimit-Limit, '
+        + 'X-RateLimit-Remaining and X-RateLimit-Reset headers.',
+    },
+    servers: [{ url: 'https://ny-baiboly.vercel.app', description: 'Production' }],
+    tags: [
+      { name: 'v1', description: 'Versioned API with the { data, success, error, code, meta } envelope' },
+      { name: 'Passages', description: 'Reference lookups' },
+      { name: 'bible-api.com', description: 'Responses compatible with bible-api.com clients' },
+      { name: 'Legacy', description: 'Unversioned aliases of v1 endpoints' },
+    ],
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [name, zodToJsonSchema(schema, false)])
+      ),
+    },
+  };
+  return cachedDocument;
+}
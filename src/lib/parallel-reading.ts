@@ -0,0 +1,78 @@
+/**
+ * Parallel reading
+ * Aligns one chapter of two translations by verse number, tolerating versification
+ * differences: verses one side lacks, and verses a side merges under a "4-5" key
+ */
+
+import { ParallelVerseRow, VerseData } from '@/types/bible';
+
+// ===== TYPES =====
+
+interface VerseSegment {
+  start: number;
+  end: number;
+  verse: VerseData;
+}
+
+// ===== HELPERS =====
+
+/**
+ * Verse keys as numeric spans; "4-5" covers verses 4 and 5. Empty verses and
+ * non-numeric keys are left out.
+ */
+function toSegments(verses: Record<string, string>): VerseSegment[] {
+  const segments: VerseSegment[] = [];
+
+  for (const [number, text] of Object.entries(verses)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(number.trim());
+    if (!match || !text.trim()) {
+      continue;
+    }
+    const start = Number(match[1]);
+    const end = match[2] ? Math.max(start, Number(match[2])) : start;
+    segments.push({ start, end, verse: { number, text } });
+  }
+
+  return segments;
+}
+
+// ===== ALIGNMENT =====
+
+/**
+ * Align two renderings of a chapter into rows; overlapping verse spans from either side
+ * share a row, so a merged "4-5" on one side sits next to verses 4 and 5 of the other
+ */
+export function alignParallelVerses(
+  primary: Record<string, string>,
+  secondary: Record<string, string>
+): ParallelVerseRow[] {
+  const segments = [
+    ...toSegments(primary).map(segment => ({ ...segment, side: 'primary' as const })),
+    ...toSegments(secondary).map(segment => ({ ...segment, side: 'secondary' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end || (a.side === 'primary' ? -1 : 1));
+
+  const rows: ParallelVerseRow[] = [];
+  for (const segment of segments) {
+    const row = rows[rows.length - 1];
+    if (row && segment.start <= row.end) {
+      row.end = Math.max(row.end, segment.end);
+      row[segment.side].push(segment.verse);
+    } else {
+      rows.push({
+        start: segment.start,
+        end: segment.end,
+        primary: segment.side === 'primary' ? [segment.verse] : [],
+        secondary: segment.side === 'secondary' ? [segment.verse] : [],
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Verse label of a row, e.g. "16" or "4-5"
+ */
+export function formatRowLabel(row: ParallelVerseRow): string {
+  return row.start === row.end ? `${row.start}` : `${row.start}-${row.end}`;
+}
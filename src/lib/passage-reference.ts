@@ -0,0 +1,154 @@
+/**
+ * Passage reference grammar
+ * Parses the forms pastors paste for service readings into BiblePassage lists:
+ *
+ *   Sal 23                 whole chapter
+ *   Gen 1-3                chapter range
+ *   Jaona 3:16             single verse
+ *   1 Kor 13:4-7           verse range
+ *   Jaona 3:16-4:3         cross-chapter range
+ *   Sal 23:1,4,6           verse list (one passage per item)
+ *   Rom 8:28; Fil 4:13     multi-passage list; a segment without a book reuses the previous one
+ */
+
+import { BiblePassage, BookMeta, PassageResult } from '@/types/bible';
+import { ValidationError } from '@/lib/errors';
+import { findBook } from '@/lib/book-resolver';
+import { formatBibleReference } from '@/utils';
+
+/** Largest number of chapters one passage request may span */
+export const MAX_PASSAGE_CHAPTERS = 50;
+
+// ===== GRAMMAR =====
+
+/** Chapter/verse part of a segment: digits joined by `:`, `-`, `,` and whitespace */
+const NUMERIC_SPEC = /^[\d\s:,\-–—]+$/;
+
+/** Book name (ending in a letter, optionally abbreviated with a dot) followed by the numeric part */
+const BOOK_AND_SPEC = /^(.*?\p{L}\.?)\s*(\d[\d\s:,\-–—]*)?$/u;
+
+/** One comma-separated item: `a`, `a:b`, `a-c`, `a:b-c`, `a-c:d` or `a:b-c:d` */
+const RANGE = /^(\d+)(?:\s*:\s*(\d+))?(?:\s*[-–—]\s*(\d+)(?:\s*:\s*(\d+))?)?$/;
+
+function splitSegment(segment: string): { bookPart: string | null; spec: string } {
+  if (NUMERIC_SPEC.test(segment)) {
+    return { bookPart: null, spec: segment };
+  }
+
+  const match = BOOK_AND_SPEC.exec(segment);
+  if (!match) {
+    throw new ValidationError(`Invalid reference: "${segment}"`);
+  }
+  return { bookPart: match[1], spec: match[2]?.trim() ?? '' };
+}
+
+/**
+ * Parse one list item
+ * @param currentChapter - Chapter of the previous item when it named verses; bare numbers are then verses
+ */
+function parseRange(item: string, book: BookMeta, currentChapter: number | null): BiblePassage {
+  const match = RANGE.exec(item);
+  if (!match) {
+    throw new ValidationError(`Invalid chapter or verse range: "${item}"`);
+  }
+
+  const [a, b, c, d] = match.slice(1).map(value => (value === undefined ? undefined : parseInt(value, 10)));
+  const base = { bookId: book.id, bookName: book.name };
+  let passage: BiblePassage;
+
+  if (currentChapter !== null && b === undefined && d === undefined) {
+    // "Sal 23:1,4-6": verses continuing the previous item's chapter
+    passage = { ...base, startChapter: currentChapter, endChapter: currentChapter, startVerse: a, endVerse: c ?? a };
+  } else if (b === undefined) {
+    passage = d === undefined
+      ? { ...base, startChapter: a!, endChapter: c ?? a! }
+      : { ...base, startChapter: a!, endChapter: c!, startVerse: 1, endVerse: d };
+  } else if (c === undefined) {
+    passage = { ...base, startChapter: a!, endChapter: a!, startVerse: b, endVerse: b };
+  } else if (d === undefined) {
+    passage = { ...base, startChapter: a!, endChapter: a!, startVerse: b, endVerse: c };
+  } else {
+    passage = { ...base, startChapter: a!, endChapter: c, startVerse: b, endVerse: d };
+  }
+
+  validatePassage(passage, item);
+  return passage;
+}
+
+function validatePassage(passage: BiblePassage, item: string): void {
+  const { startChapter, endChapter, startVerse, endVerse } = passage;
+  const numbers = [startChapter, endChapter, startVerse, endVerse].filter((value): value is number => value !== undefined);
+
+  if (numbers.some(value => value < 1)) {
+    throw new ValidationError(`Chapters and verses start at 1: "${item}"`);
+  }
+  if (
+    endChapter < startChapter ||
+    (endChapter === startChapter && startVerse !== undefined && endVerse! < startVerse)
+  ) {
+    throw new ValidationError(`Reference range ends before it starts: "${item}"`);
+  }
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Parse a reference such as "Jaona 3:16-4:3; Sal 23" into passages
+ * @throws ValidationError on malformed or ambiguous input
+ * @throws DataNotFoundError when a book name is unknown
+ */
+export function parsePassageReference(input: string): BiblePassage[] {
+  const passages: BiblePassage[] = [];
+  let book: BookMeta | null = null;
+
+  for (const segment of input.split(';').map(part => part.trim()).filter(Boolean)) {
+    const { bookPart, spec } = splitSegment(segment);
+    if (bookPart) {
+      book = findBook(bookPart);
+    } else if (!book) {
+      throw new ValidationError(`Missing book name in "${segment}"`);
+    }
+    if (!spec) {
+      throw new ValidationError(`Missing chapter in "${segment}"`);
+    }
+
+    let currentChapter: number | null = null;
+    for (const item of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+      const passage = parseRange(item, book, currentChapter);
+      passages.push(passage);
+      currentChapter = passage.startVerse === undefined ? null : passage.endChapter;
+    }
+  }
+
+  if (passages.length === 0) {
+    throw new ValidationError('Reference is empty');
+  }
+  return passages;
+}
+
+/**
+ * Total number of chapters the passages span, counting repeats
+ */
+export function countPassageChapters(passages: BiblePassage[]): number {
+  return passages.reduce((sum, passage) => sum + passage.endChapter - passage.startChapter + 1, 0);
+}
+
+/**
+ * Format passages back into a reference string that parses to the same passages
+ */
+export function formatPassageList(passages: BiblePassage[]): string {
+  return passages.map(passage => formatBibleReference(passage)).join('; ');
+}
+
+/**
+ * Render resolved passages as plain text: the reference, then each chapter with its verses
+ * @param verseNumbers - Prefix each verse with its number
+ */
+export function formatPassageText(result: PassageResult, verseNumbers: boolean = true): string {
+  const blocks = result.sections.flatMap(section => section.chapters.map(chapter => [
+    `${section.bookName} ${chapter.chapter}`,
+    ...chapter.verses.map(verse => (verseNumbers ? `${verse.number} ${verse.text}` : verse.text)),
+  ].join('\n')));
+
+  return [result.reference, ...blocks].join('\n\n');
+}
@@ -1,10 +1,14 @@
 /**
  * User preferences and settings management
- * Handles theme, font size, reading preferences using localStorage
+ * Handles theme, font size, reading preferences in user storage
  */
 
+import { DEFAULT_TRANSLATION_ID } from '@/constants/bible';
+import { userStorage } from '@/lib/user-storage';
+
 export interface UserPreferences {
   // Reading preferences
+  translation: string;
   fontSize: 'small' | 'medium' | 'large' | 'extra-large';
   fontFamily: 'serif' | 'sans-serif' | 'monospace';
   lineHeight: 'compact' | 'normal' | 'relaxed';
@@ -24,6 +28,7 @@ export interface UserPreferences {
 }
 
 const DEFAULT_PREFERENCES: UserPreferences = {
+  translation: DEFAULT_TRANSLATION_ID,
   fontSize: 'medium',
   fontFamily: 'serif',
   lineHeight: 'normal',
@@ -39,17 +44,16 @@ const DEFAULT_PREFERENCES: UserPreferences = {
 const PREFERENCES_KEY = 'ny-baiboly-preferences';
 
 /**
- * Get user preferences from localStorage
+ * Get user preferences from user storage
  */
-export function getUserPreferences(): UserPreferences {
+export async function getUserPreferences(): Promise<UserPreferences> {
   if (typeof window === 'undefined') {return DEFAULT_PREFERENCES;}
   
   try {
-    const stored = localStorage.getItem(PREFERENCES_KEY);
-    if (!stored) {return DEFAULT_PREFERENCES;}
+    const stored = await userStorage.get<Partial<UserPreferences>>(PREFERENCES_KEY);
+    if (!stored || typeof stored !== 'object') {return DEFAULT_PREFERENCES;}
     
-    const parsed = JSON.parse(stored) as Partial<UserPreferences>;
-    return { ...DEFAULT_PREFERENCES, ...parsed };
+    return { ...DEFAULT_PREFERENCES, ...stored };
   } catch (error) {
     console.error('Error loading preferences:', error);
     return DEFAULT_PREFERENCES;
@@ -57,31 +61,36 @@ export function getUserPreferences(): UserPreferences {
 }
 
 /**
- * Save user preferences to localStorage
+ * Save user preferences to user storage
+ * @throws StorageQuotaError when the browser is out of space
  */
-export function saveUserPreferences(preferences: UserPreferences): void {
+export async function saveUserPreferences(preferences: UserPreferences): Promise<void> {
   if (typeof window === 'undefined') {return;}
   
-  try {
-    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
-    
-    // Apply preferences immediately
-    applyPreferences(preferences);
-  } catch (error) {
-    console.error('Error saving preferences:', error);
-  }
+  await userStorage.set(PREFERENCES_KEY, preferences);
+
+  // Apply preferences immediately
+  applyPreferences(preferences);
 }
 
 /**
- * Update specific preference
+ * Update specific preference, without other writes in between
+ * @throws StorageQuotaError when the browser is out of space
  */
-export function updatePreference<K extends keyof UserPreferences>(
+export async function updatePreference<K extends keyof UserPreferences>(
   key: K,
   value: UserPreferences[K]
-): void {
-  const currentPreferences = getUserPreferences();
-  const updatedPreferences = { ...currentPreferences, [key]: value };
-  saveUserPreferences(updatedPreferences);
+): Promise<void> {
+  if (typeof window === 'undefined') {return;}
+
+  const updatedPreferences = await userStorage.update<UserPreferences>(PREFERENCES_KEY, stored => ({
+    ...DEFAULT_PREFERENCES,
+    ...(stored && typeof stored === 'object' ? stored : {}),
+    [key]: value,
+  }));
+
+  // Apply preferences immediately
+  applyPreferences(updatedPreferences);
 }
 
 /**
@@ -143,8 +152,8 @@ export function applyPreferences(preferences: UserPreferences): void {
 /**
  * Initialize preferences on app load
  */
-export function initializePreferences(): void {
-  const preferences = getUserPreferences();
+export async function initializePreferences(): Promise<void> {
+  const preferences = await getUserPreferences();
   applyPreferences(preferences);
   
   // Listen for system theme changes
@@ -158,30 +167,33 @@ export function initializePreferences(): void {
 
 /**
  * Reset preferences to defaults
+ * @throws StorageQuotaError when the browser is out of space
  */
-export function resetPreferences(): void {
-  saveUserPreferences(DEFAULT_PREFERENCES);
+export async function resetPreferences(): Promise<void> {
+  await saveUserPreferences(DEFAULT_PREFERENCES);
 }
 
 /**
  * Export preferences as JSON
  */
-export function exportPreferences(): string {
-  const preferences = getUserPreferences();
+export async function exportPreferences(): Promise<string> {
+  const preferences = await getUserPreferences();
   return JSON.stringify(preferences, null, 2);
 }
 
 /**
- * Import preferences from JSON
+ * Import preferences from JSON; returns false when the text is not valid JSON
+ * @throws StorageQuotaError when the browser is out of space
  */
-export function importPreferences(jsonString: string): boolean {
+export async function importPreferences(jsonString: string): Promise<boolean> {
+  let preferences: Partial<UserPreferences>;
   try {
-    const preferences = JSON.parse(jsonString) as Partial<UserPreferences>;
-    const validatedPreferences = { ...DEFAULT_PREFERENCES, ...preferences };
-    saveUserPreferences(validatedPreferences);
-    return true;
+    preferences = JSON.parse(jsonString) as Partial<UserPreferences>;
   } catch (error) {
     console.error('Error importing preferences:', error);
     return false;
   }
+
+  await saveUserPreferences({ ...DEFAULT_PREFERENCES, ...preferences });
+  return true;
 }
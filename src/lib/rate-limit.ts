@@ -5,8 +5,9 @@
 
 import { NextRequest } from 'next/server';
 
-interface RateLimitResult {
+export interface RateLimitResult {
   success: boolean;
+  limit: number;
   remaining: number;
   resetTime: number;
   retryAfter?: number;
@@ -84,6 +85,7 @@ export async function rateLimit(
     
     return {
       success: true,
+      limit: finalConfig.maxRequests,
       remaining: finalConfig.maxRequests - 1,
       resetTime: rateLimitData.resetTime,
     };
@@ -95,6 +97,7 @@ export async function rateLimit(
     
     return {
       success: false,
+      limit: finalConfig.maxRequests,
       remaining: 0,
       resetTime: rateLimitData.resetTime,
       retryAfter,
@@ -107,6 +110,7 @@ export async function rateLimit(
   
   return {
     success: true,
+    limit: finalConfig.maxRequests,
     remaining: finalConfig.maxRequests - rateLimitData.requests,
     resetTime: rateLimitData.resetTime,
   };
@@ -131,3 +135,29 @@ export async function apiRateLimit(request: NextRequest): Promise<RateLimitResul
     windowMs: 60 * 1000, // per minute
   });
 }
+
+/**
+ * Standard rate-limit response headers, sent by every API route
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetTime / 1000).toString(),
+  };
+
+  if (result.retryAfter !== undefined) {
+    headers['Retry-After'] = result.retryAfter.toString();
+  }
+  return headers;
+}
+
+/**
+ * Attach the rate-limit headers to a response
+ */
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
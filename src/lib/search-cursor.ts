@@ -0,0 +1,56 @@
+/**
+ * Opaque pagination cursors for search results
+ * A cursor carries the next offset plus a fingerprint of the query it belongs to,
+ * so it can't silently be replayed against a different search
+ */
+
+import { ValidationError } from '@/lib/errors';
+
+interface CursorPayload {
+  /** Offset of the first result on the page */
+  o: number;
+  /** Fingerprint of the query and filters */
+  f: string;
+}
+
+/**
+ * Short, stable hash (djb2) of a search's query and filters
+ */
+export function fingerprintSearch(parts: unknown): string {
+  const input = JSON.stringify(parts);
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Encode an offset into an opaque, URL-safe cursor
+ */
+export function encodeSearchCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return btoa(JSON.stringify(payload))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor and check that it belongs to the current search
+ * @throws ValidationError when the cursor is malformed or was issued for another query
+ */
+export function decodeSearchCursor(cursor: string, fingerprint: string): number {
+  let payload: CursorPayload;
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    payload = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+  } catch (_error) {
+    throw new ValidationError('Invalid search cursor');
+  }
+
+  if (!Number.isInteger(payload?.o) || payload.o < 0 || payload.f !== fingerprint) {
+    throw new ValidationError('Search cursor does not match this query');
+  }
+  return payload.o;
+}
@@ -0,0 +1,62 @@
+/**
+ * Facet counts for search results
+ * Summarizes where the hits of a search fall: per book, per testament and per chapter range
+ */
+
+import { SearchFacets, Testament } from '@/types/bible';
+import { BOOKS_BY_ID } from '@/constants/bible';
+import { IndexedVerse } from '@/lib/search-index';
+
+/** Number of chapters grouped into one chapter-range facet */
+export const CHAPTER_RANGE_SIZE = 10;
+
+/**
+ * First chapter of the range a chapter falls into (1, 11, 21…)
+ */
+export function getChapterRangeStart(chapter: number): number {
+  return Math.floor((chapter - 1) / CHAPTER_RANGE_SIZE) * CHAPTER_RANGE_SIZE + 1;
+}
+
+/**
+ * Count hits per facet
+ * @param docs - Every matching verse (not just the current page), in canonical order
+ * @returns Book and chapter-range facets sorted by count, ties in canonical order
+ */
+export function computeSearchFacets(docs: IndexedVerse[]): SearchFacets {
+  const books = new Map<string, number>();
+  const chapterRanges = new Map<string, { bookId: string; from: number; count: number }>();
+  const testaments = { old: 0, new: 0 };
+
+  for (const doc of docs) {
+    const meta = BOOKS_BY_ID.get(doc.bookId);
+    books.set(doc.bookId, (books.get(doc.bookId) ?? 0) + 1);
+
+    if (meta?.testament === Testament.OLD) {
+      testaments.old++;
+    } else if (meta?.testament === Testament.NEW) {
+      testaments.new++;
+    }
+
+    const from = getChapterRangeStart(Number(doc.chapter));
+    const key = `${doc.bookId}:${from}`;
+    const range = chapterRanges.get(key);
+    if (range) {
+      range.count++;
+    } else {
+      chapterRanges.set(key, { bookId: doc.bookId, from, count: 1 });
+    }
+  }
+
+  // Map iteration follows insertion (canonical) order and sort is stable
+  return {
+    books: Array.from(books, ([bookId, count]) => ({ bookId, name: BOOKS_BY_ID.get(bookId)?.name ?? bookId, count }))
+      .sort((a, b) => b.count - a.count),
+    testaments,
+    chapterRanges: Array.from(chapterRanges.values(), ({ bookId, from, count }) => ({
+      bookId,
+      from,
+      to: from + CHAPTER_RANGE_SIZE - 1,
+      count,
+    })).sort((a, b) => b.count - a.count),
+  };
+}
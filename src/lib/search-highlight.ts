@@ -0,0 +1,156 @@
+/**
+ * Match spans and highlighted snippets for search hits
+ * Offsets always refer to the original verse text, even when matching ran on
+ * folded or stemmed forms, so clients can highlight without re-implementing search
+ */
+
+import { MatchSpan } from '@/types/bible';
+import { TextNode } from '@/lib/search-query';
+import { tokenize } from '@/lib/search-index';
+import { foldText, stemMalagasy } from '@/lib/malagasy-text';
+
+export interface HighlightOptions {
+  /** The same text preparation the search used (folding, case) */
+  prepare: (text: string) => string;
+  stemming: boolean;
+}
+
+interface PreparedText {
+  text: string;
+  /** Original offset of each prepared character, plus a final entry for the end */
+  offsets: number[];
+}
+
+/**
+ * Prepare text one code point at a time, keeping a map back to original offsets
+ */
+function prepareWithOffsets(text: string, prepare: (text: string) => string): PreparedText {
+  let prepared = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length;) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    const folded = prepare(char);
+    for (let j = 0; j < folded.length; j++) {
+      offsets.push(i);
+    }
+    prepared += folded;
+    i += char.length;
+  }
+  offsets.push(text.length);
+
+  return { text: prepared, offsets };
+}
+
+/**
+ * Map a [start, end) range in prepared text back to the original text.
+ * The end extends over combining marks that folded away.
+ */
+function toOriginalSpan(prepared: PreparedText, start: number, end: number, term: string): MatchSpan {
+  return { start: prepared.offsets[start], end: prepared.offsets[end], term };
+}
+
+function findSubstringSpans(prepared: PreparedText, needle: string, term: string): MatchSpan[] {
+  const spans: MatchSpan[] = [];
+  if (!needle) {
+    return spans;
+  }
+
+  for (let at = prepared.text.indexOf(needle); at !== -1; at = prepared.text.indexOf(needle, at + needle.length)) {
+    spans.push(toOriginalSpan(prepared, at, at + needle.length, term));
+  }
+  return spans;
+}
+
+function findStemSpans(prepared: PreparedText, term: string): MatchSpan[] {
+  const queryStems = new Set(tokenize(term).flatMap(token => stemMalagasy(token)));
+  const spans: MatchSpan[] = [];
+
+  for (const word of prepared.text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = word.index!;
+    if (stemMalagasy(foldText(word[0])).some(stem => queryStems.has(stem))) {
+      spans.push(toOriginalSpan(prepared, start, start + word[0].length, term));
+    }
+  }
+  return spans;
+}
+
+/**
+ * Sort spans and merge overlapping ones so they can be rendered in one pass
+ */
+function mergeSpans(spans: MatchSpan[]): MatchSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: MatchSpan[] = [];
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Find where the searched terms occur in a verse
+ * @param text - Original verse text
+ * @param terms - Positive terms and phrases of the query
+ * @returns Non-overlapping spans in ascending order
+ */
+export function findMatchSpans(text: string, terms: TextNode[], options: HighlightOptions): MatchSpan[] {
+  const prepared = prepareWithOffsets(text, options.prepare);
+
+  const spans = terms.flatMap(term => {
+    // Mirrors the executor: stemming applies to words, quoted phrases stay exact
+    if (options.stemming && (term.type === 'term' || term.implicit)) {
+      return findStemSpans(prepared, term.value);
+    }
+    return findSubstringSpans(prepared, options.prepare(term.value), term.value);
+  });
+
+  return mergeSpans(spans);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an HTML-escaped snippet around the first match, with matches wrapped in <mark>
+ * @param text - Original verse text
+ * @param spans - Spans from findMatchSpans
+ * @param contextWords - Words of context kept on each side of the first match
+ */
+export function buildSnippet(text: string, spans: MatchSpan[], contextWords: number): string {
+  const words = Array.from(text.matchAll(/\S+/g), word => ({ start: word.index!, end: word.index! + word[0].length }));
+  if (words.length === 0) {
+    return '';
+  }
+
+  const first = spans[0];
+  const firstWord = first ? Math.max(0, words.findIndex(word => word.end > first.start)) : 0;
+  const lastWord = first ? Math.max(firstWord, words.findIndex(word => word.end >= first.end)) : 0;
+  const windowStart = words[Math.max(0, firstWord - contextWords)].start;
+  const windowEnd = words[Math.min(words.length - 1, lastWord + contextWords)].end;
+
+  let snippet = windowStart > 0 ? '… ' : '';
+  let cursor = windowStart;
+  for (const span of spans) {
+    if (span.end <= windowStart || span.start >= windowEnd) {
+      continue;
+    }
+    const start = Math.max(span.start, windowStart);
+    const end = Math.min(span.end, windowEnd);
+    snippet += `${escapeHtml(text.slice(cursor, start))}<mark>${escapeHtml(text.slice(start, end))}</mark>`;
+    cursor = end;
+  }
+  snippet += escapeHtml(text.slice(cursor, windowEnd));
+
+  return windowEnd < text.length ? `${snippet} …` : snippet;
+}
@@ -0,0 +1,358 @@
+/**
+ * Inverted full-text index for verse search
+ * Maps tokens to the verses containing them, with a serialized form that survives restarts
+ */
+
+import { BibleBook, BookMeta } from '@/types/bible';
+import { DEFAULT_TRANSLATION_ID } from '@/constants/bible';
+import { getConfig } from '@/config/app';
+import { logger, performanceMonitor } from '@/lib/errors';
+import { foldText, stemMalagasy } from '@/lib/malagasy-text';
+
+// ===== TYPES =====
+
+/**
+ * An indexed verse; the position in the document table is its doc ID
+ */
+export interface IndexedVerse {
+  bookId: string;
+  chapter: string;
+  verse: string;
+  text: string;
+}
+
+/**
+ * The corpus an index was built from; a stored index is only reused for the same one
+ */
+export interface SearchIndexOrigin {
+  /** Data source name */
+  source: string;
+  /** Data source location (base URL, directory) */
+  location: string;
+  /** Corpus fingerprint at build time; null when it could not be taken */
+  fingerprint: string | null;
+}
+
+/**
+ * On-disk representation of the index
+ */
+export interface SerializedSearchIndex extends SearchIndexOrigin {
+  version: number;
+  createdAt: string;
+  /** Verses as [bookId, chapter, verse, text] tuples in canonical order */
+  docs: Array<[string, string, string, string]>;
+  /** token -> ascending doc IDs */
+  postings: Record<string, number[]>;
+}
+
+export interface SearchIndexStore {
+  load(): Promise<SerializedSearchIndex | null>;
+  save(index: SerializedSearchIndex): Promise<void>;
+}
+
+/**
+ * Bump whenever tokenization or the serialized layout changes so stale files are rebuilt
+ */
+export const SEARCH_INDEX_VERSION = 3;
+
+/** Longest substrings kept in the n-gram table; longer query tokens are looked up by their rarest n-gram */
+const MAX_GRAM_LENGTH = 3;
+
+// ===== TOKENIZER =====
+
+/**
+ * Split text into folded, lowercase word tokens (apostrophes separate words: n'ny → n, ny)
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// ===== INDEX =====
+
+export class SearchIndex {
+  private postings: Map<string, number[]>;
+  private vocabulary: string[];
+  /** stem -> indexed tokens sharing it; derived lazily on the first stemmed query */
+  private stemTable: Map<string, string[]> | null = null;
+  /** Substring of up to MAX_GRAM_LENGTH letters -> indexed tokens containing it; derived lazily */
+  private gramTable: Map<string, string[]> | null = null;
+
+  private constructor(
+    private docs: IndexedVerse[],
+    postings: Map<string, number[]>,
+    public readonly origin: SearchIndexOrigin,
+    public readonly createdAt: string
+  ) {
+    this.postings = postings;
+    this.vocabulary = Array.from(postings.keys());
+  }
+
+  /**
+   * Build an index from loaded books; books must be passed in canonical order
+   */
+  public static build(books: Array<{ meta: BookMeta; book: BibleBook }>, origin: SearchIndexOrigin): SearchIndex {
+    const docs: IndexedVerse[] = [];
+    const postings = new Map<string, number[]>();
+
+    for (const { meta, book } of books) {
+      const chapterKeys = Object.keys(book.chapters)
+        .filter(key => key !== 'meta')
+        .sort((a, b) => Number(a) - Number(b));
+
+      for (const chapter of chapterKeys) {
+        const verses = book.chapters[chapter];
+        const verseKeys = Object.keys(verses).sort((a, b) => Number(a) - Number(b));
+
+        for (const verse of verseKeys) {
+          const docId = docs.length;
+          docs.push({ bookId: meta.id, chapter, verse, text: verses[verse] });
+
+          for (const token of new Set(tokenize(verses[verse]))) {
+            const list = postings.get(token);
+            if (list) {
+              list.push(docId);
+            } else {
+              postings.set(token, [docId]);
+            }
+          }
+        }
+      }
+    }
+
+    return new SearchIndex(docs, postings, origin, new Date().toISOString());
+  }
+
+  /**
+   * Restore an index from its serialized form
+   */
+  public static deserialize(data: SerializedSearchIndex): SearchIndex {
+    const docs = data.docs.map(([bookId, chapter, verse, text]) => ({ bookId, chapter, verse, text }));
+    const origin = { source: data.source, location: data.location, fingerprint: data.fingerprint };
+    return new SearchIndex(docs, new Map(Object.entries(data.postings)), origin, data.createdAt);
+  }
+
+  public serialize(): SerializedSearchIndex {
+    return {
+      version: SEARCH_INDEX_VERSION,
+      ...this.origin,
+      createdAt: this.createdAt,
+      docs: this.docs.map(doc => [doc.bookId, doc.chapter, doc.verse, doc.text]),
+      postings: Object.fromEntries(this.postings),
+    };
+  }
+
+  public get size(): number {
+    return this.docs.length;
+  }
+
+  public getDocument(docId: number): IndexedVerse {
+    return this.docs[docId];
+  }
+
+  /**
+   * Doc IDs of every verse that could contain `query` as a substring (case-insensitive),
+   * in canonical order. Callers still verify the match against the verse text.
+   */
+  public findCandidates(query: string): number[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    let candidates: Set<number> | null = null;
+
+    // Rarest-looking (longest) tokens first keeps the intersection small
+    for (const queryToken of queryTokens.sort((a, b) => b.length - a.length)) {
+      const matches = new Set<number>();
+
+      // Substring semantics: a query token may sit inside a longer indexed word
+      for (const token of this.findTokensContaining(queryToken)) {
+        for (const docId of this.postings.get(token)!) {
+          if (!candidates || candidates.has(docId)) {
+            matches.add(docId);
+          }
+        }
+      }
+
+      candidates = matches;
+      if (candidates.size === 0) {
+        break;
+      }
+    }
+
+    return Array.from(candidates ?? []).sort((a, b) => a - b);
+  }
+
+  /**
+   * Doc IDs of every verse containing, for each query word, a word sharing one of its stems.
+   * Unlike findCandidates these are final matches; there is no substring check to follow.
+   */
+  public findStemMatches(query: string): number[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const stemTable = this.getStemTable();
+    let matches: Set<number> | null = null;
+
+    for (const queryToken of queryTokens) {
+      const tokenMatches = new Set<number>();
+      const relatedTokens = new Set(stemMalagasy(queryToken).flatMap(stem => stemTable.get(stem) ?? []));
+
+      for (const token of relatedTokens) {
+        for (const docId of this.postings.get(token)!) {
+          if (!matches || matches.has(docId)) {
+            tokenMatches.add(docId);
+          }
+        }
+      }
+
+      matches = tokenMatches;
+      if (matches.size === 0) {
+        break;
+      }
+    }
+
+    return Array.from(matches ?? []).sort((a, b) => a - b);
+  }
+
+  /**
+   * Indexed tokens containing `text`: short text is looked up directly in the n-gram table,
+   * longer text only checks the tokens sharing its rarest n-gram
+   */
+  private findTokensContaining(text: string): string[] {
+    const gramTable = this.getGramTable();
+    if (text.length <= MAX_GRAM_LENGTH) {
+      return gramTable.get(text) ?? [];
+    }
+
+    let rarest: string[] | undefined;
+    for (let start = 0; start + MAX_GRAM_LENGTH <= text.length; start++) {
+      const tokens = gramTable.get(text.slice(start, start + MAX_GRAM_LENGTH));
+      if (!tokens) {
+        return [];
+      }
+      if (!rarest || tokens.length < rarest.length) {
+        rarest = tokens;
+      }
+    }
+    return rarest!.filter(token => token.includes(text));
+  }
+
+  private getGramTable(): Map<string, string[]> {
+    if (!this.gramTable) {
+      const gramTable = new Map<string, string[]>();
+      for (const token of this.vocabulary) {
+        const grams = new Set<string>();
+        for (let start = 0; start < token.length; start++) {
+          for (let length = 1; length <= MAX_GRAM_LENGTH && start + length <= token.length; length++) {
+            grams.add(token.slice(start, start + length));
+          }
+        }
+        for (const gram of grams) {
+          const tokens = gramTable.get(gram);
+          if (tokens) {
+            tokens.push(token);
+          } else {
+            gramTable.set(gram, [token]);
+          }
+        }
+      }
+      this.gramTable = gramTable;
+    }
+    return this.gramTable;
+  }
+
+  private getStemTable(): Map<string, string[]> {
+    if (!this.stemTable) {
+      const stemTable = new Map<string, string[]>();
+      for (const token of this.vocabulary) {
+        for (const stem of stemMalagasy(token)) {
+          const tokens = stemTable.get(stem);
+          if (tokens) {
+            tokens.push(token);
+          } else {
+            stemTable.set(stem, [token]);
+          }
+        }
+      }
+      this.stemTable = stemTable;
+    }
+    return this.stemTable;
+  }
+}
+
+// ===== PERSISTENCE =====
+
+/**
+ * Stores the serialized index as a JSON file (server only)
+ */
+export class FileSearchIndexStore implements SearchIndexStore {
+  constructor(private filePath: string) {}
+
+  public async load(): Promise<SerializedSearchIndex | null> {
+    try {
+      const [{ readFile }, path] = await Promise.all([import('fs/promises'), import('path')]);
+      const content = await readFile(path.resolve(process.cwd(), this.filePath), 'utf-8');
+      return JSON.parse(content) as SerializedSearchIndex;
+    } catch (_error) {
+      // Missing or unreadable file just means the index gets rebuilt
+      return null;
+    }
+  }
+
+  public async save(index: SerializedSearchIndex): Promise<void> {
+    const timerId = performanceMonitor.startTimer('search_index_save');
+    try {
+      const [{ mkdir, writeFile }, path] = await Promise.all([import('fs/promises'), import('path')]);
+      const target = path.resolve(process.cwd(), this.filePath);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, JSON.stringify(index), 'utf-8');
+      performanceMonitor.endTimer(timerId, { success: true, path: this.filePath });
+    } catch (error) {
+      performanceMonitor.endTimer(timerId, { success: false });
+      logger.warn('Failed to persist search index', { path: this.filePath, error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Create the configured index store, or null when persistence is disabled
+ */
+export function createSearchIndexStore(indexPath: string = getConfig().search.indexPath): SearchIndexStore | null {
+  if (!indexPath || typeof window !== 'undefined') {
+    return null;
+  }
+  return new FileSearchIndexStore(indexPath);
+}
+
+/**
+ * Index file of a translation: the configured path for the default translation,
+ * `search-index.<id>.json` next to it for the others
+ */
+export function getSearchIndexPath(
+  translationId: string,
+  indexPath: string = getConfig().search.indexPath
+): string {
+  if (!indexPath || translationId === DEFAULT_TRANSLATION_ID) {
+    return indexPath;
+  }
+  const extension = indexPath.lastIndexOf('.');
+  return extension > indexPath.lastIndexOf('/')
+    ? `${indexPath.slice(0, extension)}.${translationId}${indexPath.slice(extension)}`
+    : `${indexPath}.${translationId}`;
+}
+
+/**
+ * Check whether a serialized index can be reused for the given corpus. Without a current
+ * fingerprint (the source could not be checked) an index from the same location is accepted.
+ */
+export function isUsableIndex(data: SerializedSearchIndex | null, origin: SearchIndexOrigin): data is SerializedSearchIndex {
+  return !!data
+    && data.version === SEARCH_INDEX_VERSION
+    && data.source === origin.source
+    && data.location === origin.location
+    && (origin.fingerprint === null || data.fingerprint === origin.fingerprint)
+    && Array.isArray(data.docs);
+}
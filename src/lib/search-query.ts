@@ -0,0 +1,414 @@
+/**
+ * Search query language: quoted phrases, AND/OR/NOT, -exclusion, NEAR/n proximity
+ * and book:/testament: field filters, plus an executor that runs parsed queries
+ * against the inverted search index
+ *
+ * Examples:
+ *   "Jesoa Kristy" AND fitiavana -lalàna
+ *   (fanahy OR fo) book:salamo
+ *   finoana NEAR/5 fanantenana testament:new
+ */
+
+import { ValidationError } from '@/lib/errors';
+import { SearchIndex, IndexedVerse, tokenize } from '@/lib/search-index';
+import { stemMalagasy } from '@/lib/malagasy-text';
+
+// ===== AST =====
+
+export interface TermNode {
+  type: 'term';
+  value: string;
+}
+
+export interface PhraseNode {
+  type: 'phrase';
+  value: string;
+  /** Plain query without any syntax; kept as one substring for backward compatibility */
+  implicit?: boolean;
+}
+
+export type TextNode = TermNode | PhraseNode;
+
+export type QueryNode =
+  | TextNode
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'near'; left: TextNode; right: TextNode; distance: number };
+
+export interface ParsedQuery {
+  root: QueryNode;
+  /** Raw `book:` filter values, resolved to book IDs by the caller */
+  books: string[];
+  testament?: 'old' | 'new';
+}
+
+// ===== LEXER =====
+
+type Token =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen' }
+  | { kind: 'near'; distance: number };
+
+const TESTAMENT_ALIASES: Record<string, 'old' | 'new'> = {
+  old: 'old',
+  ot: 'old',
+  taloha: 'old',
+  new: 'new',
+  nt: 'new',
+  vaovao: 'new',
+};
+
+/** Largest NEAR distance accepted, in words */
+const MAX_NEAR_DISTANCE = 50;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new ValidationError('Unterminated quoted phrase in search query');
+  }
+  return { value: input.slice(start + 1, close).trim(), end: close + 1 };
+}
+
+function lex(input: string, filters: Omit<ParsedQuery, 'root'>): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen' });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      if (value) {
+        tokens.push({ kind: 'phrase', value });
+      }
+      i = end;
+      continue;
+    }
+    if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'minus' });
+      i++;
+      continue;
+    }
+
+    // Bare word, operator or field filter
+    let end = i;
+    while (end < input.length && !/[\s()"]/.test(input[end])) {
+      end++;
+    }
+    const word = input.slice(i, end);
+    i = end;
+
+    const field = /^(book|testament):(.*)$/i.exec(word);
+    if (field) {
+      let value = field[2];
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.value;
+        i = quoted.end;
+      }
+      if (!value) {
+        throw new ValidationError(`Missing value for ${field[1].toLowerCase()}: filter`);
+      }
+
+      if (field[1].toLowerCase() === 'book') {
+        filters.books.push(value);
+      } else {
+        const testament = TESTAMENT_ALIASES[value.toLowerCase()];
+        if (!testament) {
+          throw new ValidationError(`Unknown testament "${value}" (use old or new)`);
+        }
+        filters.testament = testament;
+      }
+      continue;
+    }
+
+    const near = /^NEAR\/(\d+)$/.exec(word);
+    if (near) {
+      const distance = parseInt(near[1], 10);
+      if (distance < 1 || distance > MAX_NEAR_DISTANCE) {
+        throw new ValidationError(`NEAR distance must be between 1 and ${MAX_NEAR_DISTANCE}`);
+      }
+      tokens.push({ kind: 'near', distance });
+    } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+    } else {
+      tokens.push({ kind: 'word', value: word });
+    }
+  }
+
+  return tokens;
+}
+
+// ===== PARSER =====
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): QueryNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ValidationError('Unexpected ")" in search query');
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    for (let next = this.peek(); next && next.kind !== 'or' && next.kind !== 'rparen'; next = this.peek()) {
+      if (next.kind === 'and') {
+        this.position++;
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const next = this.peek();
+    if (next?.kind === 'not' || next?.kind === 'minus') {
+      this.position++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parseNear();
+  }
+
+  private parseNear(): QueryNode {
+    let left = this.parsePrimary();
+
+    for (let next = this.peek(); next?.kind === 'near'; next = this.peek()) {
+      this.position++;
+      const right = this.parsePrimary();
+      if (!isTextNode(left) || !isTextNode(right)) {
+        throw new ValidationError('NEAR/n can only join words or quoted phrases');
+      }
+      left = { type: 'near', left, right, distance: next.distance };
+    }
+    return left;
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ValidationError('Search query ends unexpectedly');
+    }
+    this.position++;
+
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', value: token.value };
+      case 'phrase':
+        return { type: 'phrase', value: token.value };
+      case 'lparen': {
+        const node = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new ValidationError('Missing ")" in search query');
+        }
+        this.position++;
+        return node;
+      }
+      default:
+        throw new ValidationError(`Unexpected operator in search query`);
+    }
+  }
+}
+
+function isTextNode(node: QueryNode): node is TextNode {
+  return node.type === 'term' || node.type === 'phrase';
+}
+
+/**
+ * Parse a search query string
+ * @throws ValidationError when the query is malformed or has no search terms
+ */
+export function parseSearchQuery(input: string): ParsedQuery {
+  const filters: Omit<ParsedQuery, 'root'> = { books: [] };
+  const tokens = lex(input, filters);
+
+  if (tokens.length === 0) {
+    throw new ValidationError('Search query needs at least one word besides filters');
+  }
+
+  // No operators, quotes or grouping: keep the historical "whole query as substring" behaviour
+  if (tokens.every(token => token.kind === 'word')) {
+    const value = tokens.map(token => (token as { value: string }).value).join(' ');
+    return { ...filters, root: { type: 'phrase', value, implicit: true } };
+  }
+
+  return { ...filters, root: new QueryParser(tokens).parse() };
+}
+
+/**
+ * Words and phrases the query looks for (not under NOT), for ranking and highlighting
+ */
+export function collectPositiveTerms(node: QueryNode, negated: boolean = false): TextNode[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return negated ? [] : [node];
+    case 'near':
+      return negated ? [] : [node.left, node.right];
+    case 'not':
+      return collectPositiveTerms(node.child, !negated);
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => collectPositiveTerms(child, negated));
+  }
+}
+
+// ===== EXECUTION =====
+
+export interface QueryExecutionContext {
+  index: SearchIndex;
+  /** Fold/case-normalize text the same way for queries and verses */
+  prepare: (text: string) => string;
+  stemming: boolean;
+  /** Restricts results (and the NOT universe) to verses in the selected books */
+  isAllowed: (doc: IndexedVerse) => boolean;
+}
+
+function intersect(a: Set<number>, b: Set<number>): Set<number> {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  return new Set([...small].filter(docId => large.has(docId)));
+}
+
+/**
+ * Word positions in a verse where a term or phrase starts
+ */
+function findPositions(node: TextNode, words: string[], stemming: boolean): number[] {
+  const parts = tokenize(node.value);
+  const matchesWord = (word: string, part: string) => stemming
+    ? stemMalagasy(word).some(stem => stemMalagasy(part).includes(stem))
+    : word.includes(part);
+
+  const positions: number[] = [];
+  for (let i = 0; i + parts.length <= words.length; i++) {
+    if (parts.every((part, offset) => matchesWord(words[i + offset], part))) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+class QueryExecutor {
+  private universe: Set<number> | null = null;
+
+  constructor(private context: QueryExecutionContext) {}
+
+  public run(root: QueryNode): number[] {
+    return Array.from(this.evaluate(root))
+      .filter(docId => this.context.isAllowed(this.context.index.getDocument(docId)))
+      .sort((a, b) => a - b);
+  }
+
+  private getUniverse(): Set<number> {
+    if (!this.universe) {
+      const { index, isAllowed } = this.context;
+      this.universe = new Set(
+        Array.from({ length: index.size }, (_, docId) => docId)
+          .filter(docId => isAllowed(index.getDocument(docId)))
+      );
+    }
+    return this.universe;
+  }
+
+  private matchText(node: TextNode): Set<number> {
+    const { index, prepare, stemming } = this.context;
+
+    // Stemming works on words; quoted phrases keep exact substring semantics
+    if (stemming && (node.type === 'term' || node.implicit)) {
+      return new Set(index.findStemMatches(node.value));
+    }
+
+    const needle = prepare(node.value);
+    return new Set(
+      index.findCandidates(node.value).filter(docId => prepare(index.getDocument(docId).text).includes(needle))
+    );
+  }
+
+  private evaluate(node: QueryNode): Set<number> {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return this.matchText(node);
+
+      case 'or': {
+        const result = new Set<number>();
+        for (const child of node.children) {
+          this.evaluate(child).forEach(docId => result.add(docId));
+        }
+        return result;
+      }
+
+      case 'and': {
+        // Intersect positive children first, then subtract excluded ones
+        const positives = node.children.filter(child => child.type !== 'not');
+        const negatives = node.children.filter(child => child.type === 'not');
+
+        let result = positives.length > 0 ? this.evaluate(positives[0]) : new Set(this.getUniverse());
+        for (const child of positives.slice(1)) {
+          if (result.size === 0) {
+            break;
+          }
+          result = intersect(result, this.evaluate(child));
+        }
+        for (const child of negatives) {
+          const excluded = this.evaluate((child as { child: QueryNode }).child);
+          result = new Set([...result].filter(docId => !excluded.has(docId)));
+        }
+        return result;
+      }
+
+      case 'not': {
+        const excluded = this.evaluate(node.child);
+        return new Set([...this.getUniverse()].filter(docId => !excluded.has(docId)));
+      }
+
+      case 'near': {
+        const { index, stemming } = this.context;
+        const candidates = intersect(this.matchText(node.left), this.matchText(node.right));
+
+        return new Set([...candidates].filter(docId => {
+          const words = tokenize(index.getDocument(docId).text);
+          const leftPositions = findPositions(node.left, words, stemming);
+          const rightPositions = findPositions(node.right, words, stemming);
+          return leftPositions.some(l => rightPositions.some(r => Math.abs(l - r) <= node.distance));
+        }));
+      }
+    }
+  }
+}
+
+/**
+ * Run a parsed query against the index
+ * @returns Matching doc IDs in canonical order
+ */
+export function executeSearchQuery(root: QueryNode, context: QueryExecutionContext): number[] {
+  return new QueryExecutor(context).run(root);
+}
@@ -0,0 +1,207 @@
+/**
+ * Study notes
+ * Markdown notes attached to a verse or passage, kept in user storage. Unlike the single
+ * plain `note` on a favorite, any passage can carry several notes, and every edit keeps the
+ * previous text in the note's history.
+ */
+
+import { BiblePassage } from '@/types/bible';
+import { formatBibleReference } from '@/utils';
+import { parsePassageReference } from '@/lib/passage-reference';
+import { getNoteReferences } from '@/lib/note-markdown';
+import { userStorage } from '@/lib/user-storage';
+
+// ===== TYPES =====
+
+/**
+ * An earlier text of a note
+ */
+export interface NoteRevision {
+  body: string;
+  /** When this text was replaced */
+  replacedAt: string;
+}
+
+export interface StudyNote {
+  id: string;
+  passage: BiblePassage;
+  /** Display reference of the passage, e.g. "Jaona 3:16-18" */
+  reference: string;
+  /** Markdown text */
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Earlier texts, newest first */
+  history: NoteRevision[];
+}
+
+const NOTES_KEY = 'ny-baiboly-notes';
+
+/** Earlier texts kept per note */
+export const MAX_NOTE_HISTORY = 20;
+
+// ===== PASSAGES =====
+
+/**
+ * Whether a passage includes a verse; passages without verses cover whole chapters
+ */
+export function passageContainsVerse(passage: BiblePassage, bookId: string, chapter: number, verse: number): boolean {
+  if (passage.bookId !== bookId || chapter < passage.startChapter || chapter > passage.endChapter) {
+    return false;
+  }
+  if (chapter === passage.startChapter && passage.startVerse !== undefined && verse < passage.startVerse) {
+    return false;
+  }
+  return !(chapter === passage.endChapter && passage.endVerse !== undefined && verse > passage.endVerse);
+}
+
+function passagesOverlap(a: BiblePassage, b: BiblePassage): boolean {
+  if (a.bookId !== b.bookId) {
+    return false;
+  }
+  const start = (passage: BiblePassage) => passage.startChapter * 1000 + (passage.startVerse ?? 0);
+  const end = (passage: BiblePassage) => passage.endChapter * 1000 + (passage.endVerse ?? 999);
+  return start(a) <= end(b) && start(b) <= end(a);
+}
+
+/**
+ * Notes on the verses of a chapter, by verse number; a verse key such as "4-5" uses its first verse
+ */
+export function getChapterNotes(
+  notes: StudyNote[],
+  bookId: string,
+  chapter: string,
+  verseNumbers: string[]
+): Record<string, StudyNote[]> {
+  const chapterNumber = parseInt(chapter, 10);
+  const byVerse: Record<string, StudyNote[]> = {};
+
+  for (const verseNumber of verseNumbers) {
+    const verse = parseInt(verseNumber, 10);
+    const verseNotes = notes.filter(note => passageContainsVerse(note.passage, bookId, chapterNumber, verse));
+    if (verseNotes.length > 0) {
+      byVerse[verseNumber] = verseNotes;
+    }
+  }
+
+  return byVerse;
+}
+
+// ===== SEARCH =====
+
+/**
+ * Notes matching a query, most recently updated first. Text is matched against the
+ * reference and body ignoring case; a query that parses as a reference also matches
+ * notes on, or linking to, an overlapping passage.
+ */
+export function searchStudyNotes(notes: StudyNote[], query: string): StudyNote[] {
+  const text = query.trim().toLowerCase();
+  let passages: BiblePassage[] = [];
+  try {
+    passages = text ? parsePassageReference(text) : [];
+  } catch {
+    // Plain words rather than a reference
+  }
+
+  const matches = (note: StudyNote) => {
+    if (!text || note.reference.toLowerCase().includes(text) || note.body.toLowerCase().includes(text)) {
+      return true;
+    }
+    const notePassages = [note.passage, ...getNoteReferences(note.body)];
+    return passages.some(passage => notePassages.some(notePassage => passagesOverlap(passage, notePassage)));
+  };
+
+  return notes
+    .filter(matches)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+// ===== STORAGE =====
+
+function readStudyNotes(stored: unknown): StudyNote[] {
+  return Array.isArray(stored) ? stored : [];
+}
+
+/**
+ * Get all study notes from user storage
+ */
+export async function getStudyNotes(): Promise<StudyNote[]> {
+  if (typeof window === 'undefined') {return [];}
+
+  try {
+    return readStudyNotes(await userStorage.get(NOTES_KEY));
+  } catch (error) {
+    console.error('Error loading notes:', error);
+    return [];
+  }
+}
+
+/**
+ * Apply a change to the stored notes
+ * @throws StorageQuotaError when the browser is out of space
+ */
+async function changeStudyNotes(change: (notes: StudyNote[]) => StudyNote[]): Promise<void> {
+  await userStorage.update<StudyNote[]>(NOTES_KEY, stored => change(readStudyNotes(stored)));
+}
+
+/**
+ * Attach a new note to a passage and return it
+ * @throws StorageQuotaError when the browser is out of space
+ */
+export async function addStudyNote(passage: BiblePassage, body: string): Promise<StudyNote | null> {
+  if (typeof window === 'undefined') {return null;}
+
+  const now = new Date().toISOString();
+  const note: StudyNote = {
+    id: `${passage.bookId}-${passage.startChapter}-${passage.startVerse ?? 0}-${Date.now()}`,
+    passage,
+    reference: formatBibleReference(passage),
+    body: body.trim(),
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  };
+
+  await changeStudyNotes(notes => [note, ...notes]);
+  return note;
+}
+
+/**
+ * Replace a note's text, keeping the previous one in its history
+ * @returns The note as saved, unchanged when the text is the same, or null when no note has the ID
+ * @throws StorageQuotaError when the browser is out of space
+ */
+export async function updateStudyNote(noteId: string, body: string): Promise<StudyNote | null> {
+  if (typeof window === 'undefined') {return null;}
+
+  let updatedNote: StudyNote | null = null;
+  const now = new Date().toISOString();
+  await changeStudyNotes(notes => notes.map(note => {
+    if (note.id !== noteId) {
+      return note;
+    }
+    if (note.body === body.trim()) {
+      updatedNote = note;
+      return note;
+    }
+    updatedNote = {
+      ...note,
+      body: body.trim(),
+      updatedAt: now,
+      history: [{ body: note.body, replacedAt: now }, ...note.history].slice(0, MAX_NOTE_HISTORY),
+    };
+    return updatedNote;
+  }));
+
+  return updatedNote;
+}
+
+/**
+ * Delete a note
+ * @throws StorageQuotaError when the browser is out of space
+ */
+export async function deleteStudyNote(noteId: string): Promise<void> {
+  if (typeof window === 'undefined') {return;}
+
+  await changeStudyNotes(notes => notes.filter(note => note.id !== noteId));
+}
@@ -0,0 +1,89 @@
+/**
+ * Translation registry
+ * The Bible texts the application serves, each with its own data source. The default
+ * Malagasy text reads from `dataSource`; further translations come from `BIBLE_TRANSLATIONS`.
+ */
+
+import { Translation } from '@/types/bible';
+import { DEFAULT_TRANSLATION } from '@/constants/bible';
+import { getConfig, type AppConfig, type DataSourceConfig } from '@/config/app';
+import { logger, ValidationError } from '@/lib/errors';
+
+// ===== TYPES =====
+
+/**
+ * A registered translation and where its books are read from
+ */
+export interface TranslationSource extends Translation {
+  dataSource: DataSourceConfig;
+}
+
+// ===== REGISTRY =====
+
+export class TranslationRegistry {
+  private translations = new Map<string, TranslationSource>();
+
+  constructor(private defaultId: string = DEFAULT_TRANSLATION.id) {}
+
+  /**
+   * Add a translation; IDs must be unique
+   * @throws ValidationError when the ID is already registered
+   */
+  public register(translation: TranslationSource): void {
+    if (this.translations.has(translation.id)) {
+      throw new ValidationError(`Translation "${translation.id}" is already registered`);
+    }
+    this.translations.set(translation.id, translation);
+  }
+
+  public has(translationId: string): boolean {
+    return this.translations.has(translationId);
+  }
+
+  /**
+   * Get a translation, or the default one when no ID is given
+   * @throws ValidationError for unknown IDs
+   */
+  public get(translationId: string = this.defaultId): TranslationSource {
+    const translation = this.translations.get(translationId);
+    if (!translation) {
+      throw new ValidationError(`Unknown translation "${translationId}"`);
+    }
+    return translation;
+  }
+
+  public getDefault(): TranslationSource {
+    return this.get(this.defaultId);
+  }
+
+  /**
+   * Public descriptions of every translation, default first
+   */
+  public list(): Translation[] {
+    return Array.from(this.translations.values(), ({ dataSource: _dataSource, ...translation }) => translation);
+  }
+}
+
+// ===== FACTORY =====
+
+/**
+ * Build the registry from configuration: the default translation first, then the configured ones
+ */
+export function createTranslationRegistry(appConfig: AppConfig = getConfig()): TranslationRegistry {
+  const registry = new TranslationRegistry(DEFAULT_TRANSLATION.id);
+  registry.register({ ...DEFAULT_TRANSLATION, dataSource: appConfig.dataSource });
+
+  for (const translation of appConfig.translations) {
+    if (registry.has(translation.id)) {
+      logger.warn('Skipping duplicate translation', { translationId: translation.id });
+      continue;
+    }
+    registry.register(translation);
+  }
+
+  return registry;
+}
+
+// ===== SINGLETON EXPORT =====
+
+export const translationRegistry = createTranslationRegistry();
@@ -0,0 +1,423 @@
+/**
+ * User data storage
+ * The reader's own data (favorites, bookmarks, reading progress, preferences, highlights and
+ * notes) as named JSON documents. IndexedDB is used where the browser offers it; otherwise the
+ * documents live in localStorage under the same names, and on the server in memory.
+ *
+ * Two version numbers apply: the IndexedDB schema (object stores, upgraded in `onupgradeneeded`)
+ * and the data schema, moved forward by the migration chain the first time storage is opened.
+ */
+
+import { logger, StorageQuotaError, UserStorageUnavailableError } from '@/lib/errors';
+
+// ===== TYPES =====
+
+export type UserStorageKind = 'indexeddb' | 'localstorage' | 'memory';
+
+/**
+ * Where documents are kept
+ */
+export interface UserStorageBackend {
+  readonly kind: UserStorageKind;
+  /** Set once the underlying connection is closed; the storage then opens a new backend */
+  readonly closed?: boolean;
+  get(key: string): Promise<unknown>;
+  /** @throws StorageQuotaError when the browser refuses the write for lack of space */
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * One step of the data migration chain
+ */
+export interface UserDataMigration {
+  version: number;
+  description: string;
+  migrate: (backend: UserStorageBackend) => Promise<void>;
+}
+
+const DATABASE_NAME = 'ny-baiboly';
+const DOCUMENTS_STORE = 'documents';
+
+/** IndexedDB schema version; bump with a new step in `upgradeDatabase` */
+export const DATABASE_VERSION = 1;
+
+/** Document holding the data schema version reached by the migration chain */
+export const SCHEMA_VERSION_KEY = 'ny-baiboly-schema-version';
+
+/**
+ * Set in localStorage once user data has been imported into IndexedDB; from then on
+ * localStorage no longer holds it, so it is never used as a fallback
+ */
+export const INDEXEDDB_IMPORT_MARKER_KEY = 'ny-baiboly-user-data-in-indexeddb';
+
+/** localStorage keys older versions wrote user data under, imported into IndexedDB by migration 1 */
+export const LEGACY_USER_DATA_KEYS = [
+  'ny-baiboly-favorites',
+  'ny-baiboly-favorites-backup',
+  'bible-favorites',
+  'bible-favorite-collections',
+  'ny-baiboly-bookmarks',
+  'ny-baiboly-progress',
+  'ny-baiboly-preferences',
+  'ny-baiboly-highlights',
+  'ny-baiboly-notes',
+];
+
+// ===== ERRORS =====
+
+/**
+ * Whether an error is the browser refusing a write for lack of space
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as DOMException).code;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+// ===== BACKENDS =====
+
+/**
+ * Documents kept for the page's lifetime only, serialized so callers never share references
+ */
+export class MemoryBackend implements UserStorageBackend {
+  private documents = new Map<string, string>();
+
+  constructor(public readonly kind: UserStorageKind = 'memory') {}
+
+  public async get(key: string): Promise<unknown> {
+    const stored = this.documents.get(key);
+    return stored === undefined ? undefined : JSON.parse(stored);
+  }
+
+  public async set(key: string, value: unknown): Promise<void> {
+    this.documents.set(key, JSON.stringify(value));
+  }
+
+  public async remove(key: string): Promise<void> {
+    this.documents.delete(key);
+  }
+
+  public async keys(): Promise<string[]> {
+    return Array.from(this.documents.keys());
+  }
+}
+
+/**
+ * Documents as JSON strings in localStorage, one key each
+ */
+export class LocalStorageBackend implements UserStorageBackend {
+  public readonly kind = 'localstorage';
+
+  /**
+   * A document, or its raw text when it is not valid JSON so nothing unreadable is lost
+   */
+  public async get(key: string): Promise<unknown> {
+    const stored = localStorage.getItem(key);
+    if (stored === null) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(stored);
+    } catch {
+      logger.warn('Stored document is not valid JSON', { key });
+      return stored;
+    }
+  }
+
+  public async set(key: string, value: unknown): Promise<void> {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      throw isQuotaError(error) ? new StorageQuotaError(key, error as Error) : error;
+    }
+  }
+
+  public async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  public async keys(): Promise<string[]> {
+    return Object.keys(localStorage);
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create or upgrade object stores, one step per schema version
+ */
+function upgradeDatabase(database: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    database.createObjectStore(DOCUMENTS_STORE);
+  }
+}
+
+export class IndexedDbBackend implements UserStorageBackend {
+  public readonly kind = 'indexeddb';
+
+  private isClosed = false;
+
+  private constructor(private database: IDBDatabase) {
+    database.onversionchange = () => {
+      logger.warn('Closing user storage for a database upgrade in another tab');
+      database.close();
+      this.isClosed = true;
+    };
+    database.onclose = () => {
+      logger.warn('User storage connection closed by the browser');
+      this.isClosed = true;
+    };
+  }
+
+  /**
+   * Open the database. An upgrade blocked by another tab waits for that tab to close its
+   * connection, which every connection does when a newer version asks for it.
+   */
+  public static open(name: string = DATABASE_NAME, factory: IDBFactory = indexedDB): Promise<IndexedDbBackend> {
+    return new Promise((resolve, reject) => {
+      const request = factory.open(name, DATABASE_VERSION);
+      request.onupgradeneeded = event => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(new IndexedDbBackend(request.result));
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => logger.warn('IndexedDB upgrade waiting for other tabs to close');
+    });
+  }
+
+  public get closed(): boolean {
+    return this.isClosed;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    key: string = ''
+  ): Promise<T> {
+    const transaction = this.database.transaction(DOCUMENTS_STORE, mode);
+    const result = requestToPromise(operation(transaction.objectStore(DOCUMENTS_STORE)));
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error);
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    try {
+      const [value] = await Promise.all([result, completed]);
+      return value;
+    } catch (error) {
+      throw isQuotaError(error) ? new StorageQuotaError(key, error as Error) : error;
+    }
+  }
+
+  public get(key: string): Promise<unknown> {
+    return this.run('readonly', store => store.get(key), key);
+  }
+
+  public async set(key: string, value: unknown): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key), key);
+  }
+
+  public async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key), key);
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+/**
+ * Whether user data was imported into IndexedDB, per the marker left in localStorage
+ */
+function isImportedToIndexedDb(): boolean {
+  try {
+    return localStorage.getItem(INDEXEDDB_IMPORT_MARKER_KEY) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IndexedDB when it opens, else localStorage, else memory (server rendering, locked-down browsers)
+ * @throws UserStorageUnavailableError when IndexedDB holds the user data but cannot be opened
+ */
+export async function openDefaultBackend(): Promise<UserStorageBackend> {
+  if (typeof window === 'undefined') {
+    return new MemoryBackend();
+  }
+
+  let indexedDbError: Error | undefined;
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await IndexedDbBackend.open();
+    } catch (error) {
+      indexedDbError = error as Error;
+    }
+  }
+
+  // Falling back would show the reader an empty copy and split their data across two stores
+  if (isImportedToIndexedDb()) {
+    throw new UserStorageUnavailableError('User data is kept in IndexedDB, which could not be opened', indexedDbError);
+  }
+  if (indexedDbError) {
+    logger.warn('IndexedDB unavailable, using localStorage', { error: indexedDbError.message });
+  }
+
+  try {
+    localStorage.getItem(SCHEMA_VERSION_KEY);
+    return new LocalStorageBackend();
+  } catch {
+    logger.warn('localStorage unavailable, user data will not persist');
+    return new MemoryBackend();
+  }
+}
+
+// ===== MIGRATIONS =====
+
+/**
+ * Copy user data older versions kept in localStorage into IndexedDB. Values that are not
+ * valid JSON are copied as their raw text. The localStorage copies are removed only after
+ * every document is written, freeing that space, and a marker is left in their place.
+ */
+async function importLocalStorage(backend: UserStorageBackend): Promise<void> {
+  if (backend.kind !== 'indexeddb' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  const source = new LocalStorageBackend();
+  const keys = LEGACY_USER_DATA_KEYS.filter(key => localStorage.getItem(key) !== null);
+
+  for (const key of keys) {
+    await backend.set(key, await source.get(key));
+  }
+  localStorage.setItem(INDEXEDDB_IMPORT_MARKER_KEY, new Date().toISOString());
+  keys.forEach(key => localStorage.removeItem(key));
+  logger.info('Imported user data from localStorage', { documents: keys.length });
+}
+
+export const USER_DATA_MIGRATIONS: UserDataMigration[] = [
+  { version: 1, description: 'Import user data from localStorage', migrate: importLocalStorage },
+];
+
+/**
+ * Run the migrations newer than the stored data schema version, in order, recording each
+ * @returns The data schema version reached
+ */
+export async function runMigrations(
+  backend: UserStorageBackend,
+  migrations: UserDataMigration[] = USER_DATA_MIGRATIONS
+): Promise<number> {
+  let version = Number(await backend.get(SCHEMA_VERSION_KEY)) || 0;
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= version) {
+      continue;
+    }
+    await migration.migrate(backend);
+    await backend.set(SCHEMA_VERSION_KEY, migration.version);
+    version = migration.version;
+    logger.info('Migrated user data', { version, description: migration.description, backend: backend.kind });
+  }
+
+  return version;
+}
+
+// ===== STORAGE =====
+
+export class UserStorage {
+  private backend: Promise<UserStorageBackend> | null = null;
+  /** Writes run one at a time, in the order they were made */
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private openBackend: () => Promise<UserStorageBackend> = openDefaultBackend,
+    private migrations: UserDataMigration[] = USER_DATA_MIGRATIONS
+  ) {}
+
+  /**
+   * The opened and migrated backend; opening is retried after a failure, and a backend
+   * whose connection was closed is replaced by a newly opened one
+   */
+  public async ready(): Promise<UserStorageBackend> {
+    const opening = this.backend ??= this.openBackend()
+      .then(async backend => {
+        await runMigrations(backend, this.migrations);
+        return backend;
+      })
+      .catch(error => {
+        this.backend = null;
+        throw error;
+      });
+
+    const backend = await opening;
+    if (!backend.closed) {
+      return backend;
+    }
+    if (this.backend === opening) {
+      this.backend = null;
+    }
+    return this.ready();
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const backend = await this.ready();
+    return (await backend.get(key)) as T | undefined;
+  }
+
+  /**
+   * @throws StorageQuotaError when the browser is out of space
+   */
+  public set(key: string, value: unknown): Promise<void> {
+    return this.enqueue(async () => (await this.ready()).set(key, value));
+  }
+
+  public remove(key: string): Promise<void> {
+    return this.enqueue(async () => (await this.ready()).remove(key));
+  }
+
+  /**
+   * Read, change and write a document without other writes in between
+   */
+  public update<T>(key: string, change: (current: T | undefined) => T): Promise<T> {
+    return this.enqueue(async () => {
+      const backend = await this.ready();
+      const updated = change((await backend.get(key)) as T | undefined);
+      await backend.set(key, updated);
+      return updated;
+    });
+  }
+
+  public async getKind(): Promise<UserStorageKind> {
+    return (await this.ready()).kind;
+  }
+
+  /**
+   * Space used and available to this site, where the browser reports it
+   */
+  public async getEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// ===== SINGLETON EXPORT =====
+
+export const userStorage = new UserStorage();
@@ -13,18 +13,38 @@ export interface VerseData {
   text: string;
 }
 
+/**
+ * Verse count of one chapter
+ */
+export interface ChapterInfo {
+  chapter: number;
+  verseCount: number;
+}
+
+/**
+ * A chapter position, for navigation
+ */
+export interface ChapterLocation {
+  bookId: string;
+  chapter: number;
+}
+
 /**
  * Represents a Bible verse with its location (for search results)
  */
 export interface Verse {
   /** Book name */
   book: string;
+  /** Book ID, when known */
+  bookId?: string;
   /** Chapter number as string */
   chapter: string;
   /** Verse number as string */
   verse: string;
   /** The verse text content */
   text: string;
+  /** Translation the text comes from, when known */
+  translationId?: string;
 }
 
 /**
@@ -65,6 +85,26 @@ export interface BibleBook {
   testament: Testament;
   /** All chapters in this book */
   chapters: Record<string, Record<string, string>>;
+  /** Translation the text comes from */
+  translationId?: string;
+}
+
+/**
+ * A Bible translation available to readers and the API
+ */
+export interface Translation {
+  /** Stable identifier used in URLs and `?translation=`, e.g. "malagasy" */
+  id: string;
+  /** Display name, e.g. "Baiboly Malagasy" */
+  name: string;
+  /** Short label for compact UI, e.g. "MG" */
+  abbreviation: string;
+  /** Language name in English, e.g. "Malagasy" */
+  language: string;
+  /** ISO 639-1 language code, e.g. "mg" */
+  languageCode: string;
+  /** License or copyright notice of the text */
+  license: string;
 }
 
 /**
@@ -91,16 +131,62 @@ export interface BookMeta {
   chapterCount?: number;
 }
 
+/**
+ * A verse matched by a search, ranked by relevance
+ */
+export interface SearchHit extends Verse {
+  /** Book ID */
+  bookId: string;
+  /** Relevance score (higher is better) */
+  relevance: number;
+  /** Where the query matched in `text`, in ascending order */
+  matches: MatchSpan[];
+  /** HTML-escaped excerpt with matches wrapped in <mark>, when requested */
+  snippet?: string;
+}
+
+/**
+ * Where the hits of a search fall
+ */
+export interface SearchFacets {
+  /** Hits per book, most hits first */
+  books: Array<{ bookId: string; name: string; count: number }>;
+  /** Hits per testament */
+  testaments: { old: number; new: number };
+  /** Hits per block of chapters within a book, most hits first */
+  chapterRanges: Array<{ bookId: string; from: number; to: number; count: number }>;
+}
+
+/**
+ * A matched range in a verse's original text (UTF-16 offsets, end exclusive)
+ */
+export interface MatchSpan {
+  start: number;
+  end: number;
+  /** Query term or phrase that produced the match */
+  term: string;
+}
+
 /**
  * Search result for Bible verses
  */
 export interface SearchResult {
-  /** Array of found verses */
-  verses: Verse[];
-  /** Total number of results */
+  /** Found verses for this page, most relevant first */
+  verses: SearchHit[];
+  /** Exact number of matching verses across all pages */
   total: number;
   /** Whether there are more results */
   hasMore: boolean;
+  /** Offset of the first verse on this page */
+  offset: number;
+  /** Page size */
+  limit: number;
+  /** 1-based page number */
+  page: number;
+  /** Opaque cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Hit counts across all pages, for narrowing the search */
+  facets: SearchFacets;
   /** Original search query */
   query: string;
   /** Search options used */
@@ -113,14 +199,40 @@ export interface SearchResult {
  * Search options for Bible search functionality
  */
 export interface SearchOptions {
+  /** Restrict search to these book IDs (takes precedence over testament) */
+  books?: string[];
   /** Filter by testament */
   testament?: 'old' | 'new';
   /** Case sensitive search */
   caseSensitive?: boolean;
-  /** Maximum number of results */
+  /** Fold diacritics and apostrophe variants before matching (default true) */
+  normalize?: boolean;
+  /** Match Malagasy word roots instead of substrings, e.g. fitiavana finds tia (default false) */
+  stemming?: boolean;
+  /** Maximum number of results per page */
   limit?: number;
   /** Offset for pagination */
   offset?: number;
+  /** Only search chapters in this inclusive range */
+  chapters?: { from: number; to: number };
+  /** Include a highlighted snippet with each hit (default false) */
+  highlight?: boolean;
+  /** Words of context on each side of the first match in snippets */
+  snippetContext?: number;
+  /** 1-based page number (overrides offset) */
+  page?: number;
+  /** Opaque cursor from a previous result's nextCursor (overrides page and offset) */
+  cursor?: string;
+}
+
+/**
+ * Options for picking random verses
+ */
+export interface RandomVerseOptions {
+  /** Restrict selection to these book IDs (takes precedence over testament) */
+  books?: string[];
+  /** Filter by testament */
+  testament?: 'old' | 'new';
 }
 
 /**
@@ -151,6 +263,43 @@ export interface DailyReading {
   passages: BiblePassage[];
 }
 
+/**
+ * Book metadata completed with its structure as read from the data
+ */
+export interface BookInfo extends BookMeta {
+  /** English display name */
+  englishName: string;
+  /** USFM book code, e.g. "JHN" */
+  usfmCode: string;
+  /** Testament as used by API filters */
+  testamentId: 'old' | 'new';
+  /** 1-based canonical position */
+  order: number;
+  /** Number of chapters in the data */
+  chapterCount: number;
+  /** Number of verses in the data */
+  verseCount: number;
+}
+
+/**
+ * Book metadata with per-chapter verse counts
+ */
+export interface BookDetails extends BookInfo {
+  chapters: ChapterInfo[];
+}
+
+/**
+ * One chapter's verse count and its neighbours in canonical order
+ */
+export interface ChapterDetails extends ChapterInfo {
+  bookId: string;
+  bookName: string;
+  /** Previous chapter, crossing into the previous book; null before Genesis 1 */
+  previous: ChapterLocation | null;
+  /** Next chapter, crossing into the next book; null after the last chapter of Revelation */
+  next: ChapterLocation | null;
+}
+
 /**
  * Bible passage reference
  */
@@ -169,6 +318,47 @@ export interface BiblePassage {
   endVerse?: number;
 }
 
+/**
+ * Verses of one chapter within a resolved passage
+ */
+export interface PassageChapter {
+  /** Chapter number as string */
+  chapter: string;
+  /** Verses in order */
+  verses: VerseData[];
+}
+
+/**
+ * One chapter of a book with its verses in order
+ */
+export interface ChapterContent extends PassageChapter {
+  bookId: string;
+  bookName: string;
+}
+
+/**
+ * Consecutive chapters of one book within a resolved passage
+ */
+export interface PassageSection {
+  bookId: string;
+  bookName: string;
+  chapters: PassageChapter[];
+}
+
+/**
+ * Text of one or more passages, grouped by book and chapter
+ */
+export interface PassageResult {
+  /** Normalized reference, e.g. "Jaona 3:16-18; Salamo 23" */
+  reference: string;
+  /** Parsed passages the text was resolved from */
+  passages: BiblePassage[];
+  /** Verses grouped by book then chapter, in reference order */
+  sections: PassageSection[];
+  /** Total number of verses */
+  verseCount: number;
+}
+
 /**
  * User bookmark
  */
@@ -227,7 +417,7 @@ export interface ThemeSettings {
 export interface UserSettings {
   /** Theme configuration */
   theme: ThemeSettings;
-  /** Default translation/version */
+  /** Default translation ID (see the translation registry) */
   defaultVersion: string;
   /** Auto-save reading progress */
   autoSaveProgress: boolean;
@@ -241,6 +431,176 @@ export interface UserSettings {
   reminderTime: string;
 }
 
+/**
+ * Corpus totals computed from the loaded data
+ */
+export interface BibleStats {
+  totalBooks: number;
+  totalChapters: number;
+  totalVerses: number;
+  oldTestamentBooks: number;
+  newTestamentBooks: number;
+  averageVersesPerChapter: number;
+  lastUpdated: string;
+}
+
+/**
+ * Chapter, verse and word totals of a slice of the corpus
+ */
+export interface CorpusCounts {
+  chapters: number;
+  verses: number;
+  /** Words as split by the search tokenizer */
+  words: number;
+}
+
+export interface BookStats extends CorpusCounts {
+  bookId: string;
+  bookName: string;
+  testamentId: 'old' | 'new';
+}
+
+export interface TestamentStats extends CorpusCounts {
+  testamentId: 'old' | 'new';
+  name: string;
+  books: number;
+}
+
+/**
+ * A chapter at one end of the length ranking
+ */
+export interface ChapterLengthRecord {
+  bookId: string;
+  bookName: string;
+  chapter: number;
+  verseCount: number;
+}
+
+/**
+ * A verse at one end of the length ranking
+ */
+export interface VerseLengthRecord {
+  bookId: string;
+  bookName: string;
+  chapter: number;
+  verse: number;
+  wordCount: number;
+  text: string;
+}
+
+export interface WordFrequency {
+  word: string;
+  count: number;
+}
+
+/**
+ * A cross-reference from one verse to a verse or range
+ */
+export interface CrossReference {
+  /** USFM ID of the target, e.g. "ROM 5:8" or "1JN 4:9-10" */
+  id: string;
+  passage: BiblePassage;
+  /** Display reference, e.g. "Romanina 5:8" */
+  reference: string;
+  /** Relevance votes from the dataset; higher is more relevant */
+  votes: number;
+  /** Malagasy text of the target verses */
+  text: string;
+}
+
+/**
+ * The cross-references of one verse, most relevant first
+ */
+export interface CrossReferenceResult {
+  /** USFM ID of the source verse, e.g. "JHN 3:16" */
+  id: string;
+  reference: string;
+  crossReferences: CrossReference[];
+  /** Cross-references in the dataset, including any beyond the requested limit */
+  total: number;
+}
+
+/**
+ * One row of a two-translation chapter, aligned by verse number. A row spans several verse
+ * numbers when either side merges verses ("4-5"); a side with no verses lacks the row's text.
+ */
+export interface ParallelVerseRow {
+  /** First verse number covered by the row */
+  start: number;
+  /** Last verse number covered by the row */
+  end: number;
+  primary: VerseData[];
+  secondary: VerseData[];
+}
+
+/**
+ * A verse in which a concordance word form occurs
+ */
+export interface ConcordanceReference {
+  bookId: string;
+  bookName: string;
+  chapter: number;
+  verse: number;
+  /** Display reference, e.g. "Jaona 3:16" */
+  reference: string;
+}
+
+/**
+ * One spelling of a word with its occurrences
+ */
+export interface ConcordanceForm {
+  /** Folded, lowercase form as split by the search tokenizer */
+  form: string;
+  count: number;
+  /** Verses in canonical order, deduplicated, up to the requested limit */
+  references: ConcordanceReference[];
+}
+
+/**
+ * All forms grouped under one lemma
+ */
+export interface ConcordanceEntry {
+  lemma: string;
+  count: number;
+  /** Most frequent first */
+  forms: ConcordanceForm[];
+}
+
+export interface ConcordanceLemma {
+  lemma: string;
+  count: number;
+  formCount: number;
+}
+
+/**
+ * One letter of the A–Z concordance index with the lemmas under it
+ */
+export interface ConcordanceIndex {
+  letters: Array<{ letter: string; lemmaCount: number }>;
+  letter: string;
+  lemmas: ConcordanceLemma[];
+}
+
+/**
+ * Full corpus statistics, read from the data
+ */
+export interface CorpusStats extends BibleStats {
+  totalWords: number;
+  /** Distinct tokens */
+  uniqueWords: number;
+  testaments: TestamentStats[];
+  books: BookStats[];
+  longestChapter: ChapterLengthRecord | null;
+  shortestChapter: ChapterLengthRecord | null;
+  longestVerse: VerseLengthRecord | null;
+  /** Shortest non-empty verse */
+  shortestVerse: VerseLengthRecord | null;
+  /** Most frequent tokens, most frequent first */
+  topWords: WordFrequency[];
+  /** IDs of books that could not be loaded and are missing from every figure; empty when complete */
+  failedBooks: string[];
+}
+
 /**
  * API response wrapper for better error handling
  */
@@ -251,6 +611,8 @@ export interface ApiResponse<T> {
   success: boolean;
   /** Error message if any */
   error?: string;
+  /** Machine-readable error code (`AppError.code`, e.g. "DATA_NOT_FOUND") when success is false */
+  code?: string;
   /** Additional metadata */
   meta?: {
     total?: number;
@@ -5,6 +5,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { BiblePassage } from '@/types/bible';
 
 /**
  * Check if value is empty (null, undefined, empty string, empty array, empty object)
@@ -72,12 +73,14 @@ export function sleep(ms: number): Promise<void> {
  * @param operation - Async operation to retry
  * @param maxRetries - Maximum number of retries
  * @param baseDelay - Base delay in milliseconds
+ * @param shouldRetry - Predicate deciding whether an error is worth retrying
  * @returns Promise with operation result
  */
 export async function retryWithBackoff<T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 1000
+  baseDelay: number = 1000,
+  shouldRetry: (error: Error) => boolean = () => true
 ): Promise<T> {
   let lastError: Error;
   
@@ -87,7 +90,7 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
       
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || !shouldRetry(lastError)) {
         throw lastError;
       }
       
@@ -112,8 +115,31 @@ export function formatBibleReference(
   chapter: string | number,
   startVerse?: string | number,
   endVerse?: string | number
+): string;
+/**
+ * Format a passage, including chapter ranges ("Gen 1-3") and cross-chapter ranges ("Jaona 3:16-4:3")
+ * @param passage - Passage to format
+ * @returns Formatted reference string
+ */
+export function formatBibleReference(passage: BiblePassage): string;
+export function formatBibleReference(
+  bookOrPassage: string | BiblePassage,
+  chapter?: string | number,
+  startVerse?: string | number,
+  endVerse?: string | number
 ): string {
-  let reference = `${book} ${chapter}`;
+  if (typeof bookOrPassage !== 'string') {
+    const passage = bookOrPassage;
+    if (passage.startChapter === passage.endChapter) {
+      return formatBibleReference(passage.bookName, passage.startChapter, passage.startVerse, passage.endVerse);
+    }
+    if (passage.startVerse === undefined) {
+      return `${passage.bookName} ${passage.startChapter}-${passage.endChapter}`;
+    }
+    return `${passage.bookName} ${passage.startChapter}:${passage.startVerse}-${passage.endChapter}:${passage.endVerse}`;
+  }
+
+  let reference = `${bookOrPassage} ${chapter}`;
   
   if (startVerse) {
     reference += `:${startVerse}`;
@@ -142,6 +168,15 @@ export function formatDate(date: Date, options?: Intl.DateTimeFormatOptions): st
   return new Intl.DateTimeFormat('mg-MG', defaultOptions).format(date);
 }
 
+/**
+ * Format a count for display in Malagasy context
+ * @param value - Number to format
+ * @returns Number with locale digit grouping
+ */
+export function formatNumber(value: number): string {
+  return new Intl.NumberFormat('mg-MG').format(value);
+}
+
 /**
  * Format relative time (e.g., "2 hours ago") in Malagasy
  * @param date - Date to compare